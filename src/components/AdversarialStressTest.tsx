@@ -1,11 +1,13 @@
-import { useMemo } from "react";
+import { useEffect, useState } from "react";
 import { cn } from "@/lib/utils";
-import { ShieldAlert, Shield, ShieldCheck } from "lucide-react";
+import { ShieldAlert, Shield, ShieldCheck, Download, Play, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { runAdversarialStressTest, type AdversarialResult } from "@/lib/adversarialStressTester";
-import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface AdversarialStressTestProps {
-  result: AnalysisResult;
+  /** Uploaded media; the stress test only runs on still images. */
+  file?: File | null;
   className?: string;
 }
 
@@ -15,18 +17,66 @@ const statusConfig = {
   unstable: { label: "Detector Instability", color: "text-trust-low", Icon: ShieldAlert },
 };
 
-const AdversarialStressTestPanel = ({ result, className }: AdversarialStressTestProps) => {
-  const advResult: AdversarialResult = useMemo(() => runAdversarialStressTest(result), [result]);
+const AdversarialStressTestPanel = ({ file, className }: AdversarialStressTestProps) => {
+  const [advResult, setAdvResult] = useState<AdversarialResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isImage = !!file && file.type.startsWith("image/");
+
+  useEffect(() => {
+    setAdvResult(null);
+    setError(null);
+  }, [file]);
+
+  const handleRun = async () => {
+    if (!file) return;
+    setRunning(true);
+    setError(null);
+    try {
+      setAdvResult(await runAdversarialStressTest(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Stress test failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const header = (
+    <div className="flex items-center gap-2 mb-4">
+      <ShieldAlert className="w-5 h-5 text-primary" />
+      <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+        Adversarial Stress Test
+      </h4>
+      {advResult && <ProvenanceBadge provenance="measured" className="ml-auto" />}
+    </div>
+  );
+
+  if (!advResult) {
+    return (
+      <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
+        {header}
+        <p className="text-xs text-muted-foreground mb-4 leading-relaxed">
+          {isImage
+            ? "Perturbs the uploaded pixels (high-frequency noise, colour shift, square attack, JPEG injection) and re-scores each copy with the local heuristic detectors."
+            : "Pixel-level stress testing is available for still images only."}
+        </p>
+        {error && <p className="text-xs text-trust-low mb-3">{error}</p>}
+        {isImage && (
+          <Button size="sm" variant="outline" onClick={handleRun} disabled={running} className="gap-2">
+            {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            {running ? "Running perturbations..." : "Run stress test"}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
   const overall = statusConfig[advResult.overallStability];
 
   return (
     <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
-      <div className="flex items-center gap-2 mb-4">
-        <ShieldAlert className="w-5 h-5 text-primary" />
-        <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
-          Adversarial Stress Test
-        </h4>
-      </div>
+      {header}
 
       {/* Overall status */}
       <div className="flex items-center gap-3 mb-4 p-3 rounded-lg bg-secondary/50">
@@ -66,6 +116,13 @@ const AdversarialStressTestPanel = ({ result, className }: AdversarialStressTest
                 <span className="text-muted-foreground">
                   Drift: <span className={cn("font-mono", cfg.color)}>{p.drift}</span>
                 </span>
+                <a
+                  href={p.sampleDataUrl}
+                  download={`perturbed_${p.name.toLowerCase().replace(/\s+/g, "_")}.${p.sampleDataUrl.startsWith("data:image/png") ? "png" : "jpg"}`}
+                  className="ml-auto inline-flex items-center gap-1 text-primary hover:underline"
+                >
+                  <Download className="w-3 h-3" /> Sample
+                </a>
               </div>
             </div>
           );
@@ -73,7 +130,7 @@ const AdversarialStressTestPanel = ({ result, className }: AdversarialStressTest
       </div>
 
       <p className="text-xs text-muted-foreground mt-4 leading-relaxed">
-        Adversarial perturbations simulate attack vectors that attempt to fool detection models. Low drift indicates the detector maintains stable classification under adversarial conditions.
+        Scores come from the local heuristic detectors at {advResult.width}×{advResult.height}px, not the vision model. Low drift indicates the detectors keep their classification under bounded pixel perturbations.
       </p>
     </div>
   );
@@ -0,0 +1,49 @@
+import { cn } from "@/lib/utils";
+import { Check, Loader2 } from "lucide-react";
+import { ANALYSIS_STAGES, type AnalysisStage } from "@/lib/analysisJobs";
+
+interface AnalysisStagesProps {
+  stage: AnalysisStage | null;
+  jobId?: string | null;
+  className?: string;
+}
+
+const AnalysisStages = ({ stage, jobId, className }: AnalysisStagesProps) => {
+  const current = ANALYSIS_STAGES.findIndex((s) => s.id === stage);
+
+  return (
+    <div className={cn("w-full max-w-xs space-y-2 text-left", className)}>
+      {ANALYSIS_STAGES.map((s, idx) => {
+        const done = current > idx;
+        const active = current === idx;
+        return (
+          <div
+            key={s.id}
+            className={cn(
+              "flex items-center gap-2 text-sm",
+              done ? "text-trust-high" : active ? "text-foreground" : "text-muted-foreground/60"
+            )}
+          >
+            {done ? (
+              <Check className="w-4 h-4" />
+            ) : active ? (
+              <Loader2 className="w-4 h-4 animate-spin text-primary" />
+            ) : (
+              <span className="w-4 h-4 flex items-center justify-center">
+                <span className="w-1.5 h-1.5 rounded-full bg-current" />
+              </span>
+            )}
+            {s.label}
+          </div>
+        );
+      })}
+      {jobId && (
+        <p className="text-xs text-muted-foreground font-mono pt-2">
+          Job {jobId.slice(0, 8)} · safe to reload
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisStages;
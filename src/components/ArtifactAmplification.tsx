@@ -35,14 +35,14 @@ function deriveAmplifiedRegions(result: AnalysisResult): AmplifiedRegion[] {
   }
 
   // Color Variance Amplification — from texture/noise analysis
-  if (result.textureAnalysis.noiseConsistency !== "consistent" || result.textureAnalysis.smoothnessAnomalies) {
-    const score = result.textureAnalysis.noiseConsistency === "suspicious" ? 0.78
-      : result.textureAnalysis.noiseConsistency === "inconsistent" ? 0.55 : 0.35;
+  const noiseConsistency = result.textureAnalysis.noiseConsistency;
+  if (noiseConsistency < 75 || result.textureAnalysis.smoothnessAnomalies) {
+    const score = Math.max(0.35, Math.round((1 - noiseConsistency / 100) * 100) / 100);
     regions.push({
       label: "Color noise distribution",
       technique: "Color Variance Amplification",
       artifactScore: score,
-      description: `Histogram stretching reveals ${result.textureAnalysis.noiseConsistency} color noise patterns. ${result.textureAnalysis.smoothnessAnomalies ? "Smoothness anomalies amplified in facial regions." : ""}`,
+      description: `Histogram stretching reveals color noise at ${noiseConsistency}% consistency across the frame. ${result.textureAnalysis.smoothnessAnomalies ? "Smoothness anomalies amplified in facial regions." : ""}`,
     });
   }
 
@@ -1,171 +1,220 @@
-import { useEffect, useRef, useMemo } from "react";
+import { useEffect, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
+import { Pause, Play, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import { renderSpectrogram } from "@/lib/audioTrack";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface AudioSpectrogramProps {
+  result: AnalysisResult;
+  /** The uploaded file, played back under the cursor. */
+  file: File | null;
   className?: string;
-  anomalyRegions?: { start: number; end: number; severity: "low" | "medium" | "high" }[];
-  overallScore?: number;
 }
 
-const AudioSpectrogram = ({ className, anomalyRegions, overallScore = 85 }: AudioSpectrogramProps) => {
+const PLOT_W = 500;
+const PLOT_H = 200;
+const MAX_ZOOM = 32;
+
+const SEVERITY_STROKE = {
+  high: "rgba(239, 68, 68, 0.9)",
+  medium: "rgba(249, 115, 22, 0.8)",
+  low: "rgba(251, 191, 36, 0.7)",
+} as const;
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(1)}kHz` : `${Math.round(hz)}Hz`);
+const formatTime = (s: number) => (s >= 60 ? `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, "0")}` : `${s.toFixed(2)}s`);
+
+const AudioSpectrogram = ({ result, file, className }: AudioSpectrogramProps) => {
+  const track = result.audioTrack;
+  const anomalies = result.audioAnomalies;
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const duration = track?.duration ?? 0;
+  const viewDuration = duration / zoom;
+  const maxStart = Math.max(0, duration - viewDuration);
+  const start = Math.min(viewStart, maxStart);
 
-  const anomalies = useMemo(() => {
-    if (anomalyRegions) return anomalyRegions;
-    
-    // Generate realistic anomaly regions based on score
-    const baseAnomalies: { start: number; end: number; severity: "low" | "medium" | "high" }[] = [];
-    
-    if (overallScore < 90) {
-      baseAnomalies.push({ start: 0.15, end: 0.22, severity: "low" });
-    }
-    if (overallScore < 70) {
-      baseAnomalies.push({ start: 0.45, end: 0.55, severity: "medium" });
-      baseAnomalies.push({ start: 0.72, end: 0.78, severity: "low" });
-    }
-    if (overallScore < 50) {
-      baseAnomalies.push({ start: 0.3, end: 0.42, severity: "high" });
-      baseAnomalies.push({ start: 0.85, end: 0.95, severity: "high" });
+  useEffect(() => {
+    if (!file || !track) {
+      setSourceUrl(null);
+      return;
     }
-    
-    return baseAnomalies;
-  }, [anomalyRegions, overallScore]);
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, track]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
-
-    const width = 500;
-    const height = 200;
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = width * dpr;
-    canvas.height = height * dpr;
-    ctx.scale(dpr, dpr);
-
-    ctx.clearRect(0, 0, width, height);
-
-    // Background
-    ctx.fillStyle = "rgba(15, 23, 42, 0.6)";
-    ctx.fillRect(0, 0, width, height);
-
-    // Draw frequency bands (spectrogram style)
-    const numBands = 64;
-    const bandHeight = height / numBands;
-    const numTimeSlices = 100;
-    const sliceWidth = width / numTimeSlices;
-
-    for (let t = 0; t < numTimeSlices; t++) {
-      const timePos = t / numTimeSlices;
-      
-      // Check if in anomaly region
-      const anomaly = anomalies.find((a) => timePos >= a.start && timePos <= a.end);
-      
-      for (let f = 0; f < numBands; f++) {
-        // Simulate realistic spectrogram pattern
-        const freqFactor = Math.sin((f / numBands) * Math.PI * 2) * 0.5 + 0.5;
-        const timeFactor = Math.sin(t * 0.1 + f * 0.05) * 0.3 + 0.7;
-        const noise = Math.random() * 0.2;
-        let intensity = freqFactor * timeFactor + noise;
-
-        // Voice frequency emphasis (mid frequencies)
-        if (f > 15 && f < 45) {
-          intensity *= 1.3;
-        }
-
-        // Add anomaly distortion
-        if (anomaly) {
-          const anomalyIntensity = anomaly.severity === "high" ? 0.5 : 
-                                   anomaly.severity === "medium" ? 0.3 : 0.15;
-          intensity += Math.random() * anomalyIntensity;
-          
-          // Add unusual frequency patterns in anomaly regions
-          if (f < 10 || f > 55) {
-            intensity *= 1.5;
-          }
-        }
-
-        intensity = Math.min(1, Math.max(0, intensity));
-
-        // Color mapping
-        let color: string;
-        if (anomaly && intensity > 0.7) {
-          const severityColors = {
-            low: `rgba(251, 191, 36, ${intensity})`,
-            medium: `rgba(249, 115, 22, ${intensity})`,
-            high: `rgba(239, 68, 68, ${intensity})`
-          };
-          color = severityColors[anomaly.severity];
-        } else {
-          // Normal spectrogram colors (blue -> cyan -> green -> yellow)
-          if (intensity < 0.25) {
-            color = `rgba(30, 58, 138, ${intensity * 2})`;
-          } else if (intensity < 0.5) {
-            color = `rgba(45, 212, 191, ${intensity})`;
-          } else if (intensity < 0.75) {
-            color = `rgba(34, 197, 94, ${intensity})`;
-          } else {
-            color = `rgba(250, 204, 21, ${intensity})`;
-          }
-        }
-
-        ctx.fillStyle = color;
-        ctx.fillRect(t * sliceWidth, (numBands - f - 1) * bandHeight, sliceWidth + 0.5, bandHeight + 0.5);
-      }
-    }
+    setZoom(1);
+    setViewStart(0);
+    setCurrentTime(0);
+    setPlaying(false);
+  }, [track]);
 
-    // Draw anomaly region indicators
-    anomalies.forEach((anomaly) => {
-      const x = anomaly.start * width;
-      const w = (anomaly.end - anomaly.start) * width;
-      
-      ctx.strokeStyle = anomaly.severity === "high" ? "rgba(239, 68, 68, 0.8)" :
-                        anomaly.severity === "medium" ? "rgba(249, 115, 22, 0.7)" :
-                        "rgba(251, 191, 36, 0.6)";
-      ctx.lineWidth = 2;
-      ctx.setLineDash([4, 4]);
-      ctx.strokeRect(x, 2, w, height - 4);
-      ctx.setLineDash([]);
-
-      // Label
-      ctx.font = "10px monospace";
-      ctx.fillStyle = ctx.strokeStyle;
-      const label = anomaly.severity === "high" ? "ANOMALY" :
-                    anomaly.severity === "medium" ? "Warning" : "Check";
-      ctx.fillText(label, x + 4, 14);
-    });
-
-    // Frequency axis labels
-    ctx.font = "9px monospace";
-    ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
-    ctx.fillText("8kHz", 4, 15);
-    ctx.fillText("4kHz", 4, height / 2);
-    ctx.fillText("0Hz", 4, height - 5);
-
-    // Time axis
-    ctx.fillText("0s", width - 30, height - 5);
-
-  }, [anomalies]);
+  // Draw the visible window of the spectrogram
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !track) return;
+    const spec = track.spectrogram;
+    const framesPerSecond = spec.sampleRate / spec.hopSize;
+    const fromFrame = Math.floor(start * framesPerSecond);
+    const toFrame = Math.min(spec.frames, Math.ceil((start + viewDuration) * framesPerSecond) + 1);
+    const img = renderSpectrogram(spec, PLOT_W, PLOT_H, fromFrame, toFrame);
+    ctx.putImageData(new ImageData(img.data, PLOT_W, PLOT_H), 0, 0);
+  }, [track, start, viewDuration]);
+
+  // Follow the playhead smoothly; timeupdate only fires a few times a second
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const t = audioRef.current?.currentTime ?? 0;
+      setCurrentTime(t);
+      setViewStart((s) => (t < s || t > s + viewDuration ? Math.max(0, Math.min(t, maxStart)) : s));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, viewDuration, maxStart]);
+
+  if (!track) {
+    return (
+      <div className={cn("flex items-center justify-center rounded-lg border border-dashed border-border text-xs text-muted-foreground", className)} style={{ aspectRatio: "5/2", maxWidth: `${PLOT_W}px` }}>
+        No audio track was decoded from this file.
+      </div>
+    );
+  }
+
+  const spec = track.spectrogram;
+  const toX = (seconds: number) => ((seconds - start) / viewDuration) * PLOT_W;
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play();
+    else audio.pause();
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const t = start + ((e.clientX - rect.left) / rect.width) * viewDuration;
+    if (audioRef.current) audioRef.current.currentTime = t;
+    setCurrentTime(t);
+  };
+
+  const zoomBy = (factor: number) => {
+    const next = Math.max(1, Math.min(MAX_ZOOM, zoom * factor));
+    // Keep the playhead (or the view centre) in place while zooming
+    const anchor = currentTime > start && currentTime < start + viewDuration ? currentTime : start + viewDuration / 2;
+    setZoom(next);
+    setViewStart(Math.max(0, anchor - duration / next / 2));
+  };
 
   return (
-    <div className={cn("relative", className)}>
-      <canvas
-        ref={canvasRef}
-        className="w-full h-auto rounded-lg"
-        style={{ maxWidth: "500px", aspectRatio: "5/2" }}
-      />
-      
+    <div className={cn("relative", className)} style={{ maxWidth: `${PLOT_W}px` }}>
+      <div className="relative cursor-crosshair" onClick={seek}>
+        <canvas
+          ref={canvasRef}
+          width={PLOT_W}
+          height={PLOT_H}
+          className="w-full h-auto rounded-lg"
+          style={{ aspectRatio: `${PLOT_W} / ${PLOT_H}` }}
+        />
+        <svg viewBox={`0 0 ${PLOT_W} ${PLOT_H}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+          {anomalies.map((a, i) => {
+            const x0 = Math.max(0, toX(a.start));
+            const x1 = Math.min(PLOT_W, toX(a.end));
+            if (x1 <= 0 || x0 >= PLOT_W) return null;
+            return (
+              <rect
+                key={i}
+                x={x0}
+                y={2}
+                width={Math.max(1, x1 - x0)}
+                height={PLOT_H - 4}
+                fill="none"
+                stroke={SEVERITY_STROKE[a.severity]}
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+          {currentTime >= start && currentTime <= start + viewDuration && (
+            <line x1={toX(currentTime)} x2={toX(currentTime)} y1={0} y2={PLOT_H} stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          )}
+        </svg>
+        <div className="absolute inset-0 pointer-events-none text-[9px] font-mono text-white/60">
+          <span className="absolute left-1 top-1">{formatHz(spec.bandFrequencies[spec.bands - 1])}</span>
+          <span className="absolute left-1 top-1/2 -translate-y-1/2">{formatHz(spec.bandFrequencies[Math.floor(spec.bands / 2)])}</span>
+          <span className="absolute left-1 bottom-1">0Hz</span>
+          <span className="absolute right-1 bottom-1">{formatTime(start + viewDuration)}</span>
+          <span className="absolute left-1/2 bottom-1 -translate-x-1/2">{formatTime(start + viewDuration / 2)}</span>
+          <span className="absolute left-10 bottom-1">{formatTime(start)}</span>
+        </div>
+      </div>
+
+      {sourceUrl && (
+        <audio
+          ref={audioRef}
+          src={sourceUrl}
+          preload="metadata"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+        />
+      )}
+
+      <div className="flex items-center gap-2 mt-2">
+        <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={togglePlayback} disabled={!sourceUrl} aria-label={playing ? "Pause" : "Play"}>
+          {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+        </Button>
+        <span className="text-xs font-mono text-muted-foreground w-28">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+        <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => zoomBy(0.5)} disabled={zoom <= 1} aria-label="Zoom out">
+          <ZoomOut className="w-3.5 h-3.5" />
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 w-7 p-0" onClick={() => zoomBy(2)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">
+          <ZoomIn className="w-3.5 h-3.5" />
+        </Button>
+        <span className="text-xs font-mono text-muted-foreground">{zoom}×</span>
+        {zoom > 1 && (
+          <Slider
+            className="flex-1"
+            value={[start]}
+            min={0}
+            max={maxStart}
+            step={maxStart / 200}
+            onValueChange={([v]) => setViewStart(v)}
+          />
+        )}
+      </div>
+
       <div className="flex items-center justify-between mt-3 px-2">
         <div className="flex items-center gap-4 text-xs">
-          <span className="text-muted-foreground">Audio Frequency Analysis</span>
+          <span className="text-muted-foreground">
+            Log-mel spectrogram · {track.channels === 1 ? "mono" : `${track.channels} ch → mono`} · {spec.sampleRate / 1000} kHz
+          </span>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "audioTrack")} />
         </div>
         <div className="flex items-center gap-3 text-xs">
           {anomalies.length === 0 ? (
             <span className="text-trust-high">No anomalies detected</span>
           ) : (
             <>
+              <ProvenanceBadge provenance={getFieldProvenance(result, "audioAnomalies")} />
               <span className="text-muted-foreground">
                 {anomalies.length} region{anomalies.length > 1 ? "s" : ""} flagged
               </span>
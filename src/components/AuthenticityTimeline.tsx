@@ -8,8 +8,11 @@ import {
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
-import { AreaChart, Area, XAxis, YAxis, ReferenceLine, CartesianGrid } from "recharts";
+import { AreaChart, Area, XAxis, YAxis, ReferenceArea, ReferenceLine, CartesianGrid } from "recharts";
 import type { FrameData } from "@/hooks/useMediaAnalysis";
+import type { DataProvenance } from "@/lib/dataProvenance";
+import { segmentFrameScores } from "@/lib/temporalSegmentation";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface AuthenticityTimelineProps {
   frames?: FrameData[];
@@ -17,6 +20,9 @@ interface AuthenticityTimelineProps {
   overallScore?: number;
   className?: string;
   onTimestampClick?: (timestamp: number) => void;
+  provenance?: DataProvenance;
+  /** Seconds; clamps the last segment when known. */
+  duration?: number;
 }
 
 const chartConfig = {
@@ -24,6 +30,10 @@ const chartConfig = {
     label: "Anomaly Score",
     color: "hsl(var(--trust-low))",
   },
+  probability: {
+    label: "Manipulation Posterior",
+    color: "hsl(var(--primary))",
+  },
 };
 
 const AuthenticityTimeline = ({
@@ -32,30 +42,38 @@ const AuthenticityTimeline = ({
   overallScore = 85,
   className,
   onTimestampClick,
+  provenance = "model-estimated",
+  duration,
 }: AuthenticityTimelineProps) => {
   const [selectedSpike, setSelectedSpike] = useState<number | null>(null);
 
+  // Smoothed manipulation posterior and the segments it outlines
+  const segmentation = useMemo(
+    () => segmentFrameScores(frames, { placeholderScores: provenance === "synthesized", duration }),
+    [frames, provenance, duration]
+  );
+  const segments = segmentation.segments;
+
   // Convert frame confidence to anomaly scores (0-1 scale)
   const timelineData = useMemo(() => {
     if (frames.length === 0) return [];
-    return frames.map((f) => ({
-      time: Math.round(f.timestamp * 100) / 100,
-      anomalyScore: Math.round((1 - f.confidence / 100) * 100) / 100,
-      frameNumber: f.frameNumber,
-      anomalyType: f.anomalyType,
-      confidence: f.confidence,
-    }));
-  }, [frames]);
-
-  // Identify anomaly spikes (score > 0.3)
-  const spikes = useMemo(() => {
-    return timelineData.filter((d) => d.anomalyScore > 0.3);
-  }, [timelineData]);
+    return segmentation.posterior.map((p) => {
+      const f = frames.find((frame) => frame.frameNumber === p.frameNumber)!;
+      return {
+        time: Math.round(f.timestamp * 100) / 100,
+        anomalyScore: Math.round((1 - f.confidence / 100) * 100) / 100,
+        probability: Math.round(p.probability * 100) / 100,
+        frameNumber: f.frameNumber,
+        anomalyType: f.anomalyType,
+        confidence: f.confidence,
+      };
+    });
+  }, [frames, segmentation]);
 
   const mostSuspicious = useMemo(() => {
-    if (spikes.length === 0) return null;
-    return spikes.reduce((max, s) => (s.anomalyScore > max.anomalyScore ? s : max), spikes[0]);
-  }, [spikes]);
+    if (segments.length === 0) return null;
+    return segments.reduce((max, s) => (s.confidence > max.confidence ? s : max), segments[0]);
+  }, [segments]);
 
   const handleSpikeClick = (time: number) => {
     setSelectedSpike(time);
@@ -89,6 +107,7 @@ const AuthenticityTimeline = ({
           <CardTitle className="text-sm font-medium flex items-center gap-2">
             <Clock className="w-4 h-4 text-primary" />
             Video Authenticity Timeline
+            <ProvenanceBadge provenance={provenance} className="ml-auto" />
           </CardTitle>
         </CardHeader>
         <CardContent className="py-3 px-4">
@@ -110,8 +129,21 @@ const AuthenticityTimeline = ({
                   </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
+                {segments.map((seg, idx) => (
+                  <ReferenceArea
+                    key={idx}
+                    x1={seg.start}
+                    x2={seg.end}
+                    ifOverflow="hidden"
+                    fill={seg.severity === "high" ? "hsl(var(--trust-low))" : "hsl(var(--trust-medium))"}
+                    fillOpacity={0.12}
+                    stroke="none"
+                  />
+                ))}
                 <XAxis
                   dataKey="time"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
                   tickFormatter={(v) => `${v.toFixed(1)}s`}
                   stroke="hsl(var(--muted-foreground))"
                   fontSize={10}
@@ -134,8 +166,16 @@ const AuthenticityTimeline = ({
                         const p = payload?.[0]?.payload;
                         return p ? `Frame ${p.frameNumber + 1} • ${p.time.toFixed(1)}s` : "";
                       }}
-                      formatter={(value) => {
+                      formatter={(value, name) => {
                         const v = Number(value);
+                        if (name === "probability") {
+                          return [
+                            <span key="val" className="font-mono font-semibold text-primary">
+                              {(v * 100).toFixed(0)}%
+                            </span>,
+                            "Posterior",
+                          ];
+                        }
                         return [
                           <span
                             key="val"
@@ -176,6 +216,15 @@ const AuthenticityTimeline = ({
                     return <circle key={`dot-${payload.frameNumber}`} r={0} cx={cx} cy={cy} />;
                   }}
                 />
+                <Area
+                  type="monotone"
+                  dataKey="probability"
+                  stroke="hsl(var(--primary))"
+                  fill="none"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  dot={false}
+                />
               </AreaChart>
             </ChartContainer>
           ) : (
@@ -198,6 +247,10 @@ const AuthenticityTimeline = ({
               <div className="w-3 h-3 rounded-full bg-trust-low" />
               <span>High Anomaly (&gt;0.6)</span>
             </div>
+            <div className="flex items-center gap-1.5">
+              <div className="w-3 h-0.5 bg-primary" />
+              <span>Manipulation posterior</span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -212,29 +265,30 @@ const AuthenticityTimeline = ({
         </div>
       )}
 
-      {/* Spike markers */}
-      {spikes.length > 0 && (
+      {/* Suspected segments */}
+      {segments.length > 0 && (
         <Card className="bg-secondary/30 border-border">
           <CardHeader className="py-3 px-4">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <AlertTriangle className="w-4 h-4 text-trust-low" />
-              Anomaly Spikes
+              Suspected Segments
+              <ProvenanceBadge provenance="derived" className="ml-auto" />
             </CardTitle>
           </CardHeader>
           <CardContent className="py-3 px-4">
             <div className="flex flex-wrap gap-2">
-              {spikes.slice(0, 10).map((spike, idx) => (
+              {segments.slice(0, 10).map((seg, idx) => (
                 <button
                   key={idx}
-                  onClick={() => handleSpikeClick(spike.time)}
+                  onClick={() => handleSpikeClick(seg.start)}
                   className={cn(
                     "px-3 py-1.5 rounded-md text-xs font-mono border transition-colors cursor-pointer",
-                    spike.anomalyScore > 0.6
+                    seg.severity === "high"
                       ? "bg-trust-low/10 border-trust-low/30 text-trust-low hover:bg-trust-low/20"
                       : "bg-trust-medium/10 border-trust-medium/30 text-trust-medium hover:bg-trust-medium/20"
                   )}
                 >
-                  {spike.time.toFixed(1)}s → {(spike.anomalyScore * 100).toFixed(0)}%
+                  {seg.start.toFixed(1)}–{seg.end.toFixed(1)}s → {(seg.confidence * 100).toFixed(0)}%
                 </button>
               ))}
             </div>
@@ -246,7 +300,7 @@ const AuthenticityTimeline = ({
       <Card className="bg-secondary/30 border-border">
         <CardHeader className="py-3 px-4">
           <CardTitle className="text-sm font-medium flex items-center gap-2">
-            {spikes.length === 0 ? (
+            {segments.length === 0 ? (
               <CheckCircle className="w-4 h-4 text-trust-high" />
             ) : (
               <Info className="w-4 h-4 text-primary" />
@@ -263,27 +317,29 @@ const AuthenticityTimeline = ({
             <div className="text-center">
               <div className={cn(
                 "text-2xl font-bold font-mono",
-                spikes.length === 0 ? "text-trust-high" : spikes.length <= 3 ? "text-trust-medium" : "text-trust-low"
+                segments.length === 0 ? "text-trust-high" : segments.length <= 2 ? "text-trust-medium" : "text-trust-low"
               )}>
-                {spikes.length}
+                {segments.length}
               </div>
-              <div className="text-xs text-muted-foreground">Anomaly Spikes</div>
+              <div className="text-xs text-muted-foreground">Suspected Segments</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold font-mono text-trust-low">
-                {mostSuspicious ? `${mostSuspicious.time.toFixed(1)}s` : "—"}
+                {mostSuspicious ? `${mostSuspicious.start.toFixed(1)}–${mostSuspicious.end.toFixed(1)}s` : "—"}
               </div>
               <div className="text-xs text-muted-foreground">Most Suspicious</div>
             </div>
           </div>
 
-          {spikes.length > 0 && mostSuspicious ? (
+          {mostSuspicious ? (
             <p className="text-xs text-muted-foreground leading-relaxed border-t border-border pt-3">
-              Temporal inconsistencies detected around{" "}
+              The frame scores are most consistent with manipulation from{" "}
               <span className="font-mono text-trust-low">
-                {Math.max(0, mostSuspicious.time - 1).toFixed(0)}–{(mostSuspicious.time + 1).toFixed(0)} seconds
-              </span>
-              . These regions may warrant closer inspection for frame-level manipulation artifacts.
+                {mostSuspicious.start.toFixed(1)} to {mostSuspicious.end.toFixed(1)} seconds
+              </span>{" "}
+              ({mostSuspicious.frameCount} frame{mostSuspicious.frameCount === 1 ? "" : "s"}, {(mostSuspicious.confidence * 100).toFixed(0)}% posterior).
+              Segments come from a two-state hidden Markov model over the per-frame scores, so isolated outliers are
+              smoothed away and scene cuts make a segment boundary more likely.
             </p>
           ) : (
             <p className="text-xs text-muted-foreground leading-relaxed border-t border-border pt-3">
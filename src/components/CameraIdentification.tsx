@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { Camera, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import {
+  analyzeSensorFingerprint,
+  buildCameraFingerprint,
+  claimedCameraOf,
+  contradictsClaimedCamera,
+  isClaimedCamera,
+  PCE_MATCH_THRESHOLD,
+  type CameraIdentificationResult,
+  type PrnuVerdict,
+} from "@/lib/prnu";
+import { cameraIdFor, uploadCameraReference } from "@/lib/cameraFingerprintIndex";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface CameraIdentificationProps {
+  result: AnalysisResult;
+  /** The uploaded file, re-compared after a new reference is stored. */
+  file: File | null;
+  /** Receives the re-comparison, which belongs on the analysis result. */
+  onIdentificationChange: (identification: CameraIdentificationResult) => void;
+  className?: string;
+}
+
+const VERDICT_STYLES: Record<PrnuVerdict, { label: string; color: string; bar: string }> = {
+  match: { label: "Match", color: "text-trust-high", bar: "bg-trust-high" },
+  inconclusive: { label: "Inconclusive", color: "text-trust-medium", bar: "bg-trust-medium" },
+  no_match: { label: "No match", color: "text-muted-foreground", bar: "bg-muted-foreground/50" },
+};
+
+const CameraIdentification = ({ result, file, onIdentificationChange, className }: CameraIdentificationProps) => {
+  const identification = result.cameraIdentification;
+  const [showForm, setShowForm] = useState(false);
+  const [label, setLabel] = useState("");
+  const [make, setMake] = useState("");
+  const [model, setModel] = useState("");
+  const [ingestKey, setIngestKey] = useState("");
+  const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (!identification) return null;
+
+  const claimed = claimedCameraOf(result.metadataAnalysis.fields);
+  const contradicted = claimed ? contradictsClaimedCamera(identification, claimed) : false;
+  const best = identification.matches[0];
+
+  const handleAddReference = async () => {
+    if (!label.trim() || referenceFiles.length === 0 || !ingestKey) return;
+    setBusy(true);
+    setError(null);
+    try {
+      setStatus(`Estimating fingerprint from ${referenceFiles.length} image(s)...`);
+      const fp = await buildCameraFingerprint(referenceFiles);
+      setStatus("Uploading reference...");
+      await uploadCameraReference(
+        {
+          cameraId: cameraIdFor(label),
+          label: label.trim(),
+          make: make.trim() || null,
+          model: model.trim() || null,
+          width: fp.width,
+          height: fp.height,
+          cropSize: fp.cropSize,
+          imageCount: fp.imageCount,
+          fingerprint: fp.fingerprint,
+        },
+        ingestKey,
+      );
+      const skipped = fp.skipped.length > 0 ? `, ${fp.skipped.length} skipped (${fp.skipped[0].reason})` : "";
+      setStatus(`Stored ${label.trim()} from ${fp.imageCount} image(s)${skipped}.`);
+      if (file) {
+        const updated = await analyzeSensorFingerprint(file);
+        if (updated) onIdentificationChange(updated);
+      }
+      setReferenceFiles([]);
+    } catch (err) {
+      setStatus(null);
+      setError(err instanceof Error ? err.message : "Could not store the reference");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Camera className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Camera Identification (PRNU)</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "cameraIdentification")} />
+        </div>
+        {best && (
+          <span className={cn("text-xs font-mono font-semibold", VERDICT_STYLES[best.verdict].color)}>
+            {best.verdict === "match" ? best.label : VERDICT_STYLES[best.verdict].label}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs mb-3">
+        <div>
+          <span className="text-muted-foreground block">Claimed camera</span>
+          <span className={cn("font-mono", contradicted && "text-trust-low")}>{claimed ?? "Not in metadata"}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground block">References at {identification.width}×{identification.height}</span>
+          <span className="font-mono">{identification.referencesCompared}</span>
+        </div>
+      </div>
+
+      {identification.matches.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No reference fingerprint has been stored for this resolution, so the sensor cannot be compared.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {identification.matches.map((m) => {
+            const style = VERDICT_STYLES[m.verdict];
+            return (
+              <div key={m.cameraId} className="text-xs">
+                <div className="flex items-center justify-between mb-1">
+                  <span className={cn(claimed && isClaimedCamera(m, claimed) && "font-semibold")}>
+                    {m.label}
+                    <span className="text-muted-foreground"> · {m.imageCount} images{m.rotation ? ` · rotated ${m.rotation}°` : ""}</span>
+                  </span>
+                  <span className={cn("font-mono", style.color)}>PCE {m.pce} · {style.label}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className={cn("h-full rounded-full", style.bar)}
+                    style={{ width: `${Math.min(100, (m.pce / (PCE_MATCH_THRESHOLD * 2)) * 100)}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {contradicted && (
+        <p className="text-xs text-trust-low mt-3">
+          The sensor noise contradicts the camera named in the metadata.
+        </p>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-border">
+        {!showForm ? (
+          <Button size="sm" variant="outline" className="gap-2" onClick={() => setShowForm(true)}>
+            <Upload className="w-4 h-4" />
+            Add reference camera
+          </Button>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Choose 20 or more original, unedited photos from one camera at its full resolution. Evenly lit,
+              low-texture scenes (sky, walls) give the cleanest fingerprint.
+            </p>
+            <Input placeholder="Camera label, e.g. Canon EOS R5 #0142" value={label} onChange={(e) => setLabel(e.target.value)} />
+            <div className="grid grid-cols-2 gap-2">
+              <Input placeholder="Make (EXIF)" value={make} onChange={(e) => setMake(e.target.value)} />
+              <Input placeholder="Model (EXIF)" value={model} onChange={(e) => setModel(e.target.value)} />
+            </div>
+            <Input type="file" accept="image/*" multiple onChange={(e) => setReferenceFiles(Array.from(e.target.files ?? []))} />
+            <Input type="password" placeholder="Ingest key" value={ingestKey} onChange={(e) => setIngestKey(e.target.value)} />
+            {status && <p className="text-xs text-muted-foreground">{status}</p>}
+            {error && <p className="text-xs text-trust-low">{error}</p>}
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={handleAddReference}
+              disabled={busy || !label.trim() || referenceFiles.length === 0 || !ingestKey}
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {busy ? "Working..." : "Build and store fingerprint"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraIdentification;
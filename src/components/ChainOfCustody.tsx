@@ -1,4 +1,4 @@
-import { Shield, Clock, Hash, Cpu } from "lucide-react";
+import { Shield, Clock, Hash, Cpu, Server } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { ChainOfCustodyMetadata } from "@/lib/forensicEvidence";
 
@@ -42,6 +42,16 @@ const ChainOfCustody = ({ metadata, className }: ChainOfCustodyProps) => {
           </div>
         </div>
 
+        {metadata.modelProvider && (
+          <div className="flex items-start gap-3">
+            <Server className="w-4 h-4 text-muted-foreground mt-0.5 shrink-0" />
+            <div>
+              <span className="text-xs text-muted-foreground block">Model Provider</span>
+              <span className="font-mono text-xs">{metadata.modelProvider}</span>
+            </div>
+          </div>
+        )}
+
         <div className="pt-2 border-t border-border">
           <span className="text-xs text-muted-foreground block mb-2">Modules Used</span>
           <div className="flex flex-wrap gap-1.5">
@@ -0,0 +1,205 @@
+import { cn } from "@/lib/utils";
+import { ShieldCheck, ShieldAlert, ShieldQuestion, BadgeCheck, GitBranch } from "lucide-react";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import type { ContentCredentialsResult, ManifestSummary } from "@/lib/contentCredentials";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface ContentCredentialsProps {
+  result: AnalysisResult;
+  className?: string;
+}
+
+/** Ingredient manifests nest; deeper chains are summarized by count. */
+const MAX_CHAIN_DEPTH = 4;
+
+const STATUS_STYLES = {
+  valid: {
+    icon: ShieldCheck,
+    className: "bg-trust-high/10 border-trust-high/30 text-trust-high",
+    title: "Verified Content Credentials",
+    description: "The manifest is intact and signed by a certificate on the local trust list.",
+  },
+  untrusted: {
+    icon: ShieldQuestion,
+    className: "bg-trust-medium/10 border-trust-medium/30 text-trust-medium",
+    title: "Intact, unknown signer",
+    description: "Signatures and hashes check out, but the signer is not on the local trust list.",
+  },
+  invalid: {
+    icon: ShieldAlert,
+    className: "bg-trust-low/10 border-trust-low/30 text-trust-low",
+    title: "Manifest failed validation",
+    description: "The file or its manifest changed after signing, or the signature cannot be trusted.",
+  },
+} as const;
+
+const shortAction = (action: string) => action.replace(/^c2pa\./, "").replace(/_/g, " ");
+const shortSourceType = (uri: string) => uri.split("/").pop() ?? uri;
+const signerName = (m: ManifestSummary) =>
+  m.signer ? m.signer.organization ?? m.signer.commonName ?? "unnamed signer" : "unsigned";
+
+const IngredientChain = ({
+  manifest,
+  credentials,
+  depth,
+}: {
+  manifest: ManifestSummary;
+  credentials: ContentCredentialsResult;
+  depth: number;
+}) => {
+  if (manifest.ingredients.length === 0) return null;
+  if (depth >= MAX_CHAIN_DEPTH) {
+    return <p className="text-xs text-muted-foreground pl-4">… {manifest.ingredients.length} further ingredients</p>;
+  }
+  return (
+    <div className="space-y-1.5 pl-4 border-l border-border">
+      {manifest.ingredients.map((ing, i) => {
+        const child = ing.manifestLabel ? credentials.manifests.find((m) => m.label === ing.manifestLabel) : undefined;
+        return (
+          <div key={i} className="space-y-1.5">
+            <div className="text-xs">
+              <span className="font-medium">{ing.title}</span>
+              <span className="text-muted-foreground"> · {ing.relationship}</span>
+              {ing.format && <span className="text-muted-foreground"> · {ing.format}</span>}
+              <span className="block text-muted-foreground">
+                {child ? `${child.claimGenerator}, signed by ${signerName(child)}` : "No Content Credentials"}
+              </span>
+            </div>
+            {child && <IngredientChain manifest={child} credentials={credentials} depth={depth + 1} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ContentCredentials = ({ result, className }: ContentCredentialsProps) => {
+  const credentials = result.contentCredentials;
+
+  const header = (
+    <div className="flex items-center gap-2 mb-4">
+      <BadgeCheck className="w-5 h-5 text-primary" />
+      <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+        Content Credentials
+      </h4>
+      {credentials && <ProvenanceBadge provenance="measured" className="ml-auto" />}
+    </div>
+  );
+
+  if (!credentials || credentials.status === "absent") {
+    return (
+      <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
+        {header}
+        <p className="text-xs text-muted-foreground">
+          {credentials
+            ? "No C2PA manifest is embedded in this file. Most media carries none; absence is not evidence of manipulation."
+            : "Content Credentials were not checked for this analysis."}
+        </p>
+      </div>
+    );
+  }
+
+  const style = STATUS_STYLES[credentials.status];
+  const StatusIcon = style.icon;
+  const active = credentials.manifests.find((m) => m.label === credentials.activeManifest);
+
+  return (
+    <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
+      {header}
+
+      <div className={cn("p-3 rounded-lg border mb-4", style.className)}>
+        <div className="flex items-center gap-2">
+          <StatusIcon className="w-4 h-4" />
+          <span className="text-sm font-medium">{style.title}</span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">{style.description}</p>
+      </div>
+
+      {active && (
+        <div className="mb-4 space-y-1 text-xs">
+          <div className="flex gap-2">
+            <span className="text-muted-foreground w-20 shrink-0">Generator</span>
+            <span className="font-medium">{active.claimGenerator}</span>
+          </div>
+          <div className="flex gap-2">
+            <span className="text-muted-foreground w-20 shrink-0">Signed by</span>
+            <span className="font-medium">
+              {signerName(active)}
+              {active.signer && <span className="text-muted-foreground"> (issuer: {active.signer.issuer})</span>}
+            </span>
+          </div>
+          {active.signer && (
+            <div className="flex gap-2">
+              <span className="text-muted-foreground w-20 shrink-0">Certificate</span>
+              <span className="font-mono">
+                {active.signer.algorithm} · {active.signer.notBefore.slice(0, 10)} – {active.signer.notAfter.slice(0, 10)}
+                {active.signer.timestamped && " · timestamped"}
+              </span>
+            </div>
+          )}
+          {active.title && (
+            <div className="flex gap-2">
+              <span className="text-muted-foreground w-20 shrink-0">Title</span>
+              <span>{active.title}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recorded actions */}
+      {active && active.actions.length > 0 && (
+        <div className="mb-4 space-y-1">
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Actions</span>
+          {active.actions.map((a, i) => (
+            <div key={i} className="text-xs flex flex-wrap gap-x-2">
+              <span className="font-medium capitalize">{shortAction(a.action)}</span>
+              {a.softwareAgent && <span className="text-muted-foreground">{a.softwareAgent}</span>}
+              {a.digitalSourceType && (
+                <span className="font-mono text-muted-foreground">{shortSourceType(a.digitalSourceType)}</span>
+              )}
+              {a.when && <span className="text-muted-foreground">{a.when}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Ingredient chain */}
+      {active && active.ingredients.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <div className="flex items-center gap-1.5">
+            <GitBranch className="w-3.5 h-3.5 text-muted-foreground" />
+            <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Ingredients</span>
+          </div>
+          <IngredientChain manifest={active} credentials={credentials} depth={0} />
+        </div>
+      )}
+
+      {/* Validation failures and notes */}
+      {(credentials.failure.length > 0 || credentials.informational.length > 0) && (
+        <div className="space-y-1.5">
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Validation</span>
+          {credentials.failure.map((f, i) => (
+            <div key={i} className="text-xs py-1.5 border-b border-border last:border-0">
+              <span
+                className={cn(
+                  "font-mono",
+                  f.code === "signingCredential.untrusted" ? "text-trust-medium" : "text-trust-low"
+                )}
+              >
+                {f.code}
+              </span>
+              <span className="block text-muted-foreground">{f.explanation}</span>
+            </div>
+          ))}
+          {credentials.informational.map((f, i) => (
+            <div key={`info-${i}`} className="text-xs text-muted-foreground">
+              <span className="font-mono">{f.code}</span> — {f.explanation}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContentCredentials;
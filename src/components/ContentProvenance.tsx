@@ -1,39 +1,69 @@
-import { useMemo } from "react";
 import { cn } from "@/lib/utils";
-import { Fingerprint, ExternalLink, Search, CheckCircle, AlertTriangle } from "lucide-react";
-import { analyzeProvenance, type ProvenanceResult } from "@/lib/provenanceAnalyzer";
+import { Fingerprint, ExternalLink, Search, CheckCircle, AlertTriangle, Film } from "lucide-react";
 import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface ContentProvenanceProps {
   result: AnalysisResult;
   className?: string;
 }
 
+const formatOffset = (seconds: number) => `${seconds >= 0 ? "+" : ""}${seconds.toFixed(1)}s`;
+
 const ContentProvenance = ({ result, className }: ContentProvenanceProps) => {
-  const provenance: ProvenanceResult = useMemo(
-    () => analyzeProvenance(result.trustScore, result.mediaType, result.frameAnalysis.length),
-    [result.trustScore, result.mediaType, result.frameAnalysis.length]
+  const provenance = result.provenance;
+
+  const header = (
+    <div className="flex items-center gap-2 mb-4">
+      <Fingerprint className="w-5 h-5 text-primary" />
+      <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+        Content Provenance
+      </h4>
+      {provenance?.hashSignature && <ProvenanceBadge provenance="measured" className="ml-auto" />}
+    </div>
   );
 
+  if (!provenance?.hashSignature) {
+    return (
+      <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
+        {header}
+        <p className="text-xs text-muted-foreground">
+          {provenance?.status === "unsupported"
+            ? "Perceptual hashing needs an image or video frame; this media has no visual track."
+            : "Perceptual hashes were not computed for this analysis."}
+        </p>
+      </div>
+    );
+  }
+
+  const { hashSignature } = provenance;
+  const sequenceEdits = provenance.sequenceMatch
+    ? (["inserted", "removed", "reordered"] as const).filter((e) => provenance.sequenceMatch!.alignment.edits[e])
+    : [];
+
   return (
     <div className={cn("p-5 rounded-xl border border-border bg-secondary/30", className)}>
-      <div className="flex items-center gap-2 mb-4">
-        <Fingerprint className="w-5 h-5 text-primary" />
-        <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
-          Content Provenance
-        </h4>
-      </div>
+      {header}
 
       {/* Perceptual hash info */}
       <div className="mb-4 space-y-1">
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <span className="font-mono">pHash:</span>
-          <span className="font-mono text-foreground">{provenance.hashSignature.pHash}</span>
+          <span className="font-mono text-foreground">{hashSignature.pHash}</span>
         </div>
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <span className="font-mono">dHash:</span>
-          <span className="font-mono text-foreground">{provenance.hashSignature.dHash}</span>
+          <span className="font-mono text-foreground">{hashSignature.dHash}</span>
         </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-mono">aHash:</span>
+          <span className="font-mono text-foreground">{hashSignature.averageHash}</span>
+        </div>
+        {hashSignature.frameHashes && (
+          <div className="text-xs text-muted-foreground">
+            {hashSignature.frameHashes.length} sampled frames hashed
+          </div>
+        )}
       </div>
 
       {/* Best match */}
@@ -55,12 +85,34 @@ const ContentProvenance = ({ result, className }: ContentProvenanceProps) => {
               <span className="font-mono font-medium">
                 {Math.round(provenance.bestMatch.similarityScore * 100)}%
               </span>
+              {provenance.bestMatch.distance !== undefined && (
+                <span className="text-xs text-muted-foreground">
+                  ({provenance.bestMatch.distance}/64 bits differ)
+                </span>
+              )}
             </div>
+            {provenance.bestMatch.corpus && (
+              <div className="text-xs text-muted-foreground">
+                Corpus: {provenance.bestMatch.corpus}
+                {provenance.bestMatch.frameTimestamp != null &&
+                  ` · frame at ${provenance.bestMatch.frameTimestamp.toFixed(1)}s`}
+              </div>
+            )}
           </div>
           <p className="text-xs text-muted-foreground mt-2 leading-relaxed">
             This media likely originates from previously published content.
           </p>
         </div>
+      ) : provenance.indexError ? (
+        <div className="p-3 rounded-lg bg-secondary/50 border border-border mb-4">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-trust-medium" />
+            <span className="text-sm font-medium">Reference index unavailable</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Hashes were computed but could not be matched: {provenance.indexError}
+          </p>
+        </div>
       ) : (
         <div className="p-3 rounded-lg bg-secondary/50 border border-border mb-4">
           <div className="flex items-center gap-2">
@@ -73,6 +125,63 @@ const ContentProvenance = ({ result, className }: ContentProvenanceProps) => {
         </div>
       )}
 
+      {/* Keyframe sequence alignment */}
+      {provenance.sequenceMatch && (
+        <div className="p-3 rounded-lg bg-secondary/50 border border-border mb-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Film className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium">Sequence match: {provenance.sequenceMatch.sourceLabel}</span>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            <div>
+              <span className="text-muted-foreground block">Offset</span>
+              <span className="font-mono">{formatOffset(provenance.sequenceMatch.alignment.offset)}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">Coverage</span>
+              <span className="font-mono">{Math.round(provenance.sequenceMatch.alignment.coverage * 100)}%</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">Keyframes</span>
+              <span className="font-mono">
+                {provenance.sequenceMatch.alignment.matchedFrames}/{provenance.sequenceMatch.alignment.queryFrames}
+              </span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            {provenance.sequenceMatch.alignment.segments.map((seg, i) => (
+              <div key={i} className="text-xs font-mono text-muted-foreground">
+                {seg.queryStart.toFixed(1)}–{seg.queryEnd.toFixed(1)}s → ref {seg.referenceStart.toFixed(1)}–{seg.referenceEnd.toFixed(1)}s
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {sequenceEdits.length > 0 ? (
+              sequenceEdits.map((edit) => (
+                <span
+                  key={edit}
+                  className="px-2 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-trust-low/20 text-trust-low"
+                >
+                  Frames {edit}
+                </span>
+              ))
+            ) : (
+              <span className="px-2 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-trust-high/20 text-trust-high">
+                No frame edits
+              </span>
+            )}
+          </div>
+          {provenance.sequenceMatch.alignment.removedRanges.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Missing from reference:{" "}
+              {provenance.sequenceMatch.alignment.removedRanges
+                .map((r) => `${r.start.toFixed(1)}–${r.end.toFixed(1)}s`)
+                .join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Other matches */}
       {provenance.matches.length > 0 && (
         <div className="space-y-2">
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Copy } from "lucide-react";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface CopyMoveViewerProps {
+  result: AnalysisResult;
+  /** The uploaded file, shown beneath the matched regions. */
+  file: File | null;
+  className?: string;
+}
+
+const PAIR_COLORS = ["#f87171", "#fbbf24", "#60a5fa", "#a78bfa", "#34d399", "#f472b6"];
+
+const CopyMoveViewer = ({ result, file, className }: CopyMoveViewerProps) => {
+  const copyMove = result.copyMoveAnalysis;
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !file.type.startsWith("image/")) {
+      setSourceUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  if (!copyMove) return null;
+
+  const found = copyMove.pairs.length > 0;
+  const scoreColor =
+    copyMove.fakeProbability >= 0.6 ? "text-trust-low" :
+    copyMove.fakeProbability >= 0.35 ? "text-trust-medium" :
+    "text-trust-high";
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Copy className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Copy-Move Detection</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "copyMoveAnalysis")} />
+        </div>
+        <span className={cn("text-xs font-mono font-semibold", scoreColor)}>
+          {found ? `${copyMove.pairs.length} cloned region${copyMove.pairs.length > 1 ? "s" : ""}` : "None found"}
+        </span>
+      </div>
+
+      {found && sourceUrl && (
+        <div
+          className="relative w-full overflow-hidden rounded-lg border border-border bg-black"
+          style={{ aspectRatio: `${copyMove.width} / ${copyMove.height}` }}
+        >
+          <img src={sourceUrl} alt="Uploaded image" className="absolute inset-0 w-full h-full object-fill" />
+          <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+            {copyMove.pairs.map((p, i) => {
+              const color = PAIR_COLORS[i % PAIR_COLORS.length];
+              const centre = (b: typeof p.source) => [(b.x + b.width / 2) * 100, (b.y + b.height / 2) * 100];
+              const [sx, sy] = centre(p.source);
+              const [tx, ty] = centre(p.target);
+              return (
+                <g key={i} stroke={color} fill="none" strokeWidth={2}>
+                  <rect
+                    x={p.source.x * 100} y={p.source.y * 100} width={p.source.width * 100} height={p.source.height * 100}
+                    strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+                  />
+                  <rect
+                    x={p.target.x * 100} y={p.target.y * 100} width={p.target.width * 100} height={p.target.height * 100}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <line x1={sx} y1={sy} x2={tx} y2={ty} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      )}
+
+      {found && (
+        <div className="space-y-1.5 mt-3">
+          {copyMove.pairs.map((p, i) => (
+            <div key={i} className="flex items-center justify-between gap-3 text-xs">
+              <div className="flex items-center gap-1.5 text-muted-foreground">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: PAIR_COLORS[i % PAIR_COLORS.length] }} />
+                <span>{p.blocks} matching blocks</span>
+              </div>
+              <span className="font-mono">
+                Δ({p.transform.dx}, {p.transform.dy}) px
+                {(p.transform.scale !== 1 || p.transform.rotation !== 0) &&
+                  ` · ×${p.transform.scale} · ${p.transform.rotation}°`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        {found
+          ? "Dashed boxes mark the source of each duplicated area and solid boxes where it reappears. Cloning is a common way to hide or repeat objects; repeated patterns such as tiles or fabric can also match."
+          : `${copyMove.blocksCompared} textured blocks were compared and no area of the image appears to be copied elsewhere in it.`}
+      </p>
+    </div>
+  );
+};
+
+export default CopyMoveViewer;
@@ -2,15 +2,21 @@ import { useState, useMemo } from "react";
 import GeneratorAttribution from "./GeneratorAttribution";
 import DetectorConsensus from "./DetectorConsensus";
 import ArtifactAmplification from "./ArtifactAmplification";
+import ErrorLevelViewer from "./ErrorLevelViewer";
+import CopyMoveViewer from "./CopyMoveViewer";
+import NoiseResidualViewer from "./NoiseResidualViewer";
+import SpectrumViewer from "./SpectrumViewer";
 import AuthenticityTimeline from "./AuthenticityTimeline";
 import ConfidenceDriftTable from "./ConfidenceDriftTable";
 import MediaUpload from "./MediaUpload";
+import AnalysisStages from "./AnalysisStages";
 import TrustScoreMeter from "./TrustScoreMeter";
 import StructuralGraph from "./StructuralGraph";
 import RobustnessTest from "./RobustnessTest";
 import ExplanationPanel from "./ExplanationPanel";
 import FaceHeatmap from "./FaceHeatmap";
 import AudioSpectrogram from "./AudioSpectrogram";
+import SyntheticSpeechAnalysis from "./SyntheticSpeechAnalysis";
 import FrameTimeline from "./FrameTimeline";
 import MultiModalFusion from "./MultiModalFusion";
 import UncertaintyIndicator from "./UncertaintyIndicator";
@@ -19,28 +25,51 @@ import MultimodalConsistencyCheck from "./MultimodalConsistencyCheck";
 import AuthenticityMeter from "./AuthenticityMeter";
 import EvidenceSummary from "./EvidenceSummary";
 import FaceAudioConsistency from "./FaceAudioConsistency";
+import LipSyncTimeline from "./LipSyncTimeline";
 import ChainOfCustody from "./ChainOfCustody";
+import CameraIdentification from "./CameraIdentification";
 import EvidenceObjectList from "./EvidenceObjectList";
 import ContentProvenance from "./ContentProvenance";
+import ContentCredentials from "./ContentCredentials";
 import ConfidenceCalibration from "./ConfidenceCalibration";
 import DownloadReportButton from "./DownloadReportButton";
 import AdversarialStressTestPanel from "./AdversarialStressTest";
 import ForgeryPatternDiscovery from "./ForgeryPatternDiscovery";
+import ModelOutputValidation from "./ModelOutputValidation";
+import ProvenanceBadge from "./ProvenanceBadge";
+import MultiViewConsensus from "./MultiViewConsensus";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { useMediaAnalysis } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
 import { Badge } from "@/components/ui/badge";
-import { Search, Zap } from "lucide-react";
+import { Search, Zap, Activity } from "lucide-react";
 
 const DemoSection = () => {
-  const { analyzeMedia, isAnalyzing, result, reset, cachedHit, evidenceObjects, chainOfCustody } = useMediaAnalysis();
+  const {
+    analyzeMedia,
+    updateCameraIdentification,
+    isAnalyzing,
+    result,
+    reset,
+    cachedHit,
+    robustnessProgress,
+    uploadProgress,
+    analysisStage,
+    jobId,
+    evidenceObjects,
+    chainOfCustody,
+  } = useMediaAnalysis();
   const [investigationMode, setInvestigationMode] = useState(false);
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
 
   const handleAnalyze = async (file: File) => {
+    setSourceFile(file);
     await analyzeMedia(file);
   };
 
   const handleClear = () => {
+    setSourceFile(null);
     reset();
   };
 
@@ -78,6 +107,7 @@ const DemoSection = () => {
                 onAnalyze={handleAnalyze} 
                 isAnalyzing={isAnalyzing} 
                 onClear={handleClear}
+                uploadProgress={uploadProgress}
               />
             </div>
 
@@ -97,9 +127,10 @@ const DemoSection = () => {
                   <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4 animate-pulse">
                     <div className="w-8 h-8 border-2 border-primary/30 border-t-primary rounded-full animate-spin" />
                   </div>
-                  <p className="text-muted-foreground animate-pulse">
+                  <p className="text-muted-foreground animate-pulse mb-6">
                     Performing multi-modal forensic analysis...
                   </p>
+                  <AnalysisStages stage={analysisStage} jobId={jobId} />
                 </div>
               ) : result ? (
                 <div className="space-y-6">
@@ -115,6 +146,12 @@ const DemoSection = () => {
                             <Zap className="w-3 h-3" /> Cached
                           </Badge>
                         )}
+                        {robustnessProgress && (
+                          <Badge variant="outline" className="text-xs gap-1 border-trust-medium/30 text-trust-medium">
+                            <Activity className="w-3 h-3 animate-pulse" />
+                            Measuring robustness {robustnessProgress.completed}/{robustnessProgress.total}
+                          </Badge>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -144,6 +181,9 @@ const DemoSection = () => {
                     uncertaintyReason={result.uncertaintyReason}
                     className="mt-4"
                   />
+
+                  {/* Schema validation of raw model output */}
+                  <ModelOutputValidation report={result.schemaValidation} />
                 </div>
               ) : null}
             </div>
@@ -181,6 +221,10 @@ const DemoSection = () => {
 
                   {/* Layer 4: Artifact Amplification */}
                   <ArtifactAmplification result={result} />
+                  <ErrorLevelViewer result={result} file={sourceFile} />
+                  <CopyMoveViewer result={result} file={sourceFile} />
+                  <NoiseResidualViewer result={result} file={sourceFile} />
+                  <SpectrumViewer result={result} />
 
                   {/* Layer 5: Evidence Summary */}
                   <EvidenceSummary
@@ -198,11 +242,14 @@ const DemoSection = () => {
                       frames={result.frameAnalysis}
                       mediaType={result.mediaType}
                       overallScore={result.trustScore}
+                      provenance={getFieldProvenance(result, "frameAnalysis")}
+                      duration={result.keyframeSampling?.duration || undefined}
                     />
                   )}
 
-                  {/* Layer 8: Content Provenance */}
+                  {/* Layer 8: Content Provenance and Credentials */}
                   <ContentProvenance result={result} />
+                  <ContentCredentials result={result} />
 
                   {/* Layer 9: Explanation Cards */}
                   <ExplanationPanel
@@ -239,6 +286,7 @@ const DemoSection = () => {
                           overallScore={result.trustScore}
                           mediaType={result.mediaType}
                           modalities={result.modalityScores}
+                          provenance={getFieldProvenance(result, "modalityScores")}
                         />
                       </div>
                       <div className="lg:w-72 space-y-4">
@@ -249,7 +297,11 @@ const DemoSection = () => {
                           the final authenticity score based on its reliability.
                         </p>
                         <div className="pt-4 border-t border-border">
-                          <RobustnessTest results={result.robustnessTests} compact />
+                          <RobustnessTest
+                            results={result.robustnessTests}
+                            provenance={getFieldProvenance(result, "robustnessTests")}
+                            compact
+                          />
                         </div>
                       </div>
                     </div>
@@ -261,7 +313,12 @@ const DemoSection = () => {
                       <ConfidenceDriftTable
                         detection={result.visualDeepfakeDetection}
                         drift={result.confidenceDrift}
+                        detectionProvenance={getFieldProvenance(result, "visualDeepfakeDetection.visualDeepfakeProbability")}
+                        frameScoresProvenance={getFieldProvenance(result, "visualDeepfakeDetection.frameScores")}
+                        driftProvenance={getFieldProvenance(result, "confidenceDrift")}
                       />
+                      {/* Per-view scores from the preprocessing variants */}
+                      <MultiViewConsensus analysis={result.multiViewAnalysis} />
                       {/* Multi-Detector Ensemble Consensus */}
                       <DetectorConsensus result={result} />
                       <ForgeryPatternDiscovery result={result} />
@@ -271,8 +328,11 @@ const DemoSection = () => {
 
                   <TabsContent value="robustness" className="mt-0">
                     <div className="space-y-6">
-                      <RobustnessTest results={result.robustnessTests} />
-                      <AdversarialStressTestPanel result={result} />
+                      <RobustnessTest
+                        results={result.robustnessTests}
+                        provenance={getFieldProvenance(result, "robustnessTests")}
+                      />
+                      <AdversarialStressTestPanel file={sourceFile} />
                     </div>
                   </TabsContent>
 
@@ -313,6 +373,7 @@ const DemoSection = () => {
                           mediaType={result.mediaType}
                           visualScore={result.modalityScores.find(m => m.modality === "visual")?.score ?? result.trustScore}
                           audioScore={result.modalityScores.find(m => m.modality === "audio")?.score ?? null}
+                          lipSync={result.lipSync}
                         />
                       </div>
                     </div>
@@ -326,11 +387,26 @@ const DemoSection = () => {
                           ganFingerprints={result.ganFingerprints}
                           textureAnalysis={result.textureAnalysis}
                           metadataAnalysis={result.metadataAnalysis}
+                          provenance={{
+                            ganFingerprints: getFieldProvenance(result, "ganFingerprints"),
+                            textureAnalysis: getFieldProvenance(result, "textureAnalysis"),
+                            metadataAnalysis: getFieldProvenance(result, "metadataAnalysis"),
+                          }}
                         />
+                        {/* FFT power spectrum feeding attribution */}
+                        <SpectrumViewer result={result} />
                         {/* DeepFake Generator Attribution */}
                         <GeneratorAttribution result={result} />
                         {/* Content Provenance Detection */}
                         <ContentProvenance result={result} />
+                        {/* C2PA Content Credentials */}
+                        <ContentCredentials result={result} />
+                        {/* Sensor-noise camera identification */}
+                        <CameraIdentification
+                          result={result}
+                          file={sourceFile}
+                          onIdentificationChange={updateCameraIdentification}
+                        />
                         {/* Chain-of-Custody Metadata */}
                         <ChainOfCustody metadata={chainOfCustody} />
                       </div>
@@ -376,7 +452,10 @@ const DemoSection = () => {
                           manipulationRegions={result.manipulationRegions}
                         />
                         <div className="flex-1 space-y-4">
-                          <h4 className="font-semibold">Attention Heatmap</h4>
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-semibold">Attention Heatmap</h4>
+                            <ProvenanceBadge provenance={getFieldProvenance(result, "heatmapRegions")} />
+                          </div>
                           <p className="text-sm text-muted-foreground leading-relaxed">
                             Grad-CAM style visualization showing regions that triggered the 
                             deepfake detection model. High-intensity (red) areas indicate 
@@ -410,6 +489,13 @@ const DemoSection = () => {
                       </div>
                       {/* Synthetic Artifact Amplification */}
                       <ArtifactAmplification result={result} />
+                      {/* Error Level Analysis overlay */}
+                      <ErrorLevelViewer result={result} file={sourceFile} />
+                      {/* Regions cloned within the image */}
+                      <CopyMoveViewer result={result} file={sourceFile} />
+                      {/* Noise-level splice map */}
+                      <NoiseResidualViewer result={result} file={sourceFile} />
+                  <SpectrumViewer result={result} />
                     </div>
                   </TabsContent>
 
@@ -421,12 +507,16 @@ const DemoSection = () => {
                         suspiciousCount={result.graphStats.suspiciousNodes}
                       />
                       <div className="flex-1 space-y-4">
-                        <h4 className="font-semibold">Structural Graph</h4>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-semibold">Structural Graph</h4>
+                          <ProvenanceBadge provenance={getFieldProvenance(result, "graphStats")} />
+                        </div>
                         <p className="text-sm text-muted-foreground leading-relaxed">
-                          The structural graph represents detected facial keypoints as nodes 
-                          and their spatial relationships as edges. Dense, consistent patterns 
-                          indicate authentic content. Isolated nodes or irregular gaps may 
-                          signal manipulation.
+                          The structural graph represents facial keypoints as nodes and their
+                          spatial relationships as edges. Dense, consistent patterns indicate
+                          authentic content. Isolated nodes or irregular gaps may signal
+                          manipulation. The drawing is a template; the figures below come
+                          from the analysis.
                         </p>
                         <div className="space-y-2 text-sm">
                           <div className="flex justify-between py-2 border-b border-border">
@@ -434,7 +524,10 @@ const DemoSection = () => {
                             <span className="font-mono">{result.graphStats.keypointsDetected}</span>
                           </div>
                           <div className="flex justify-between py-2 border-b border-border">
-                            <span className="text-muted-foreground">Edge connections</span>
+                            <span className="text-muted-foreground flex items-center gap-2">
+                              Edge connections
+                              <ProvenanceBadge provenance={getFieldProvenance(result, "graphStats.edgeConnections")} />
+                            </span>
                             <span className="font-mono">{result.graphStats.edgeConnections}</span>
                           </div>
                           <div className="flex justify-between py-2 border-b border-border">
@@ -469,17 +562,28 @@ const DemoSection = () => {
                             Simulated for static image
                           </span>
                         )}
+                        {result.keyframeSampling && (
+                          <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded">
+                            {result.keyframeSampling.keyframes.length} keyframes of {result.keyframeSampling.framesScanned} scanned
+                            {" • "}{result.keyframeSampling.cuts.length} scene cut{result.keyframeSampling.cuts.length === 1 ? "" : "s"}
+                          </span>
+                        )}
                       </div>
                       <FrameTimeline 
                         frames={result.frameAnalysis}
+                        totalDuration={result.keyframeSampling?.duration || undefined}
                         overallScore={result.trustScore}
+                        provenance={getFieldProvenance(result, "frameAnalysis")}
                       />
                       {/* Authenticity Timeline (video-optimized anomaly chart) */}
                       <AuthenticityTimeline
                         frames={result.frameAnalysis}
                         mediaType={result.mediaType}
                         overallScore={result.trustScore}
+                        provenance={getFieldProvenance(result, "frameAnalysis")}
+                        duration={result.keyframeSampling?.duration || undefined}
                       />
+                      <LipSyncTimeline result={result} />
                     </div>
                   </TabsContent>
 
@@ -499,10 +603,8 @@ const DemoSection = () => {
                           </span>
                         )}
                       </div>
-                      <AudioSpectrogram 
-                        anomalyRegions={result.audioAnomalies}
-                        overallScore={result.trustScore}
-                      />
+                      <AudioSpectrogram result={result} file={sourceFile} />
+                      <SyntheticSpeechAnalysis result={result} />
                     </div>
                   </TabsContent>
                   
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { ScanSearch } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface ErrorLevelViewerProps {
+  result: AnalysisResult;
+  /** The uploaded file, shown beneath the overlay. */
+  file: File | null;
+  className?: string;
+}
+
+const ErrorLevelViewer = ({ result, file, className }: ErrorLevelViewerProps) => {
+  const ela = result.errorLevelAnalysis;
+  const [opacity, setOpacity] = useState(70);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !file.type.startsWith("image/")) {
+      setSourceUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  if (!ela?.overlayDataUrl) return null;
+
+  const scoreColor =
+    ela.fakeProbability >= 0.6 ? "text-trust-low" :
+    ela.fakeProbability >= 0.35 ? "text-trust-medium" :
+    "text-trust-high";
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ScanSearch className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Error Level Analysis</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "errorLevelAnalysis")} />
+        </div>
+        <span className={cn("text-xs font-mono font-semibold", scoreColor)}>
+          {(ela.fakeProbability * 100).toFixed(0)}% inconsistent
+        </span>
+      </div>
+
+      <div
+        className="relative w-full overflow-hidden rounded-lg border border-border bg-black"
+        style={{ aspectRatio: `${ela.width} / ${ela.height}` }}
+      >
+        {sourceUrl && <img src={sourceUrl} alt="Uploaded image" className="absolute inset-0 w-full h-full object-fill" />}
+        <img
+          src={ela.overlayDataUrl}
+          alt="Error level map"
+          className="absolute inset-0 w-full h-full object-fill mix-blend-screen"
+          style={{ opacity: sourceUrl ? opacity / 100 : 1 }}
+        />
+        {ela.regions.map((r, i) => (
+          <div
+            key={i}
+            className="absolute border-2 border-trust-low/80 rounded-sm"
+            style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.width * 100}%`, height: `${r.height * 100}%` }}
+            title={`${r.contrast.toFixed(1)}× median error level`}
+          />
+        ))}
+      </div>
+
+      {sourceUrl && (
+        <div className="flex items-center gap-3 mt-3">
+          <span className="text-xs text-muted-foreground w-20">Overlay</span>
+          <Slider value={[opacity]} min={0} max={100} step={5} onValueChange={([v]) => setOpacity(v)} />
+          <span className="text-xs font-mono w-10 text-right">{opacity}%</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+        <div>
+          <span className="text-muted-foreground block">Re-save</span>
+          <span className="font-mono">JPEG q{Math.round(ela.quality * 100)}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground block">Median block</span>
+          <span className="font-mono">{ela.medianBlockError.toFixed(2)}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground block">Flagged regions</span>
+          <span className="font-mono">{ela.regions.length}</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        The image was re-saved at a fixed JPEG quality and each pixel's change amplified. Areas compressed
+        the same way as the rest of the frame look alike; outlined blocks re-compress differently, which
+        can indicate pasted or retouched content. Edges and fine texture are naturally brighter
+        {ela.downscaled ? ", and this upload was downscaled before analysis, which weakens the signal" : ""}.
+      </p>
+    </div>
+  );
+};
+
+export default ErrorLevelViewer;
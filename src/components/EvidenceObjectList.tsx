@@ -1,6 +1,7 @@
 import { cn } from "@/lib/utils";
 import { AlertTriangle, Eye, Ear, Clock, Shield, FileQuestion, Activity } from "lucide-react";
 import type { ForensicEvidenceObject, EvidenceCategory } from "@/lib/forensicEvidence";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface EvidenceObjectListProps {
   evidence: ForensicEvidenceObject[];
@@ -58,7 +59,12 @@ const EvidenceObjectList = ({ evidence, className }: EvidenceObjectListProps) =>
                     {ev.severity}
                   </span>
                   <span className="text-xs text-muted-foreground">{config.label}</span>
-                  {ev.timestamp !== null && (
+                  <ProvenanceBadge provenance={ev.provenance} />
+                  {ev.timeRange ? (
+                    <span className="text-xs font-mono text-muted-foreground">
+                      {ev.timeRange.start.toFixed(1)}–{ev.timeRange.end.toFixed(1)}s
+                    </span>
+                  ) : ev.timestamp !== null && (
                     <span className="text-xs font-mono text-muted-foreground">@ {ev.timestamp.toFixed(1)}s</span>
                   )}
                 </div>
@@ -1,21 +1,27 @@
 import { cn } from "@/lib/utils";
 import { CheckCircle, AlertTriangle, HelpCircle, Volume2 } from "lucide-react";
+import type { LipSyncAnalysis } from "@/lib/lipSync";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface FaceAudioConsistencyProps {
   mediaType: "image" | "video" | "audio";
   visualScore: number;
   audioScore: number | null;
+  /** Measured lip sync; replaces the score comparison when conclusive. */
+  lipSync?: LipSyncAnalysis;
   className?: string;
 }
 
 /**
- * Lightweight Face-Audio Consistency indicator.
- * Reads existing visual and audio scores — no new models.
+ * Face-Audio Consistency indicator.
+ * Shows the measured lip-sync confidence for videos with a visible face and
+ * speech, otherwise falls back to comparing the visual and audio scores.
  */
-const FaceAudioConsistency = ({ mediaType, visualScore, audioScore, className }: FaceAudioConsistencyProps) => {
+const FaceAudioConsistency = ({ mediaType, visualScore, audioScore, lipSync, className }: FaceAudioConsistencyProps) => {
   const hasAudio = audioScore !== null && mediaType !== "image";
+  const measured = lipSync && lipSync.status !== "inconclusive" ? lipSync : null;
 
-  if (!hasAudio) {
+  if (!hasAudio && !measured) {
     return (
       <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
         <div className="flex items-center gap-2 mb-3">
@@ -34,9 +40,13 @@ const FaceAudioConsistency = ({ mediaType, visualScore, audioScore, className }:
   // Compute lightweight similarity from existing scores
   const visualNorm = visualScore / 100;
   const audioNorm = (audioScore ?? 0) / 100;
-  const consistencyScore = Math.round((1 - Math.abs(visualNorm - audioNorm)) * 100) / 100;
+  const consistencyScore = measured
+    ? measured.syncConfidence
+    : Math.round((1 - Math.abs(visualNorm - audioNorm)) * 100) / 100;
 
   const getStatus = () => {
+    if (measured?.status === "offset") return { label: "A/V Offset", color: "text-trust-medium", Icon: HelpCircle, bgColor: "bg-trust-medium/10 border-trust-medium/20" };
+    if (measured?.status === "diverged") return { label: "Lip-Sync Mismatch", color: "text-trust-low", Icon: AlertTriangle, bgColor: "bg-trust-low/10 border-trust-low/20" };
     if (consistencyScore >= 0.6) return { label: "Consistent", color: "text-trust-high", Icon: CheckCircle, bgColor: "bg-trust-high/10 border-trust-high/20" };
     if (consistencyScore >= 0.4) return { label: "Uncertain", color: "text-trust-medium", Icon: HelpCircle, bgColor: "bg-trust-medium/10 border-trust-medium/20" };
     return { label: "Potential Mismatch", color: "text-trust-low", Icon: AlertTriangle, bgColor: "bg-trust-low/10 border-trust-low/20" };
@@ -52,6 +62,7 @@ const FaceAudioConsistency = ({ mediaType, visualScore, audioScore, className }:
           <h4 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
             Face-Audio Consistency
           </h4>
+          <ProvenanceBadge provenance={measured ? "measured" : "derived"} />
         </div>
         <div className={cn("flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium border", bgColor)}>
           <Icon className={cn("w-4 h-4", color)} />
@@ -78,7 +89,13 @@ const FaceAudioConsistency = ({ mediaType, visualScore, audioScore, className }:
       </div>
 
       <p className="text-sm text-muted-foreground">
-        {consistencyScore < 0.4
+        {measured
+          ? measured.status === "offset"
+            ? `Mouth motion follows the speech, but the audio ${measured.offsetSeconds! > 0 ? "trails" : "leads"} by ${Math.round(Math.abs(measured.offsetSeconds!) * 1000)} ms.`
+            : measured.status === "diverged"
+            ? `Mouth motion and speech loudness ${measured.divergentSegments.length > 0 ? `diverge in ${measured.divergentSegments.length} stretch${measured.divergentSegments.length > 1 ? "es" : ""}` : "do not move together"}.`
+            : `Mouth motion tracks speech loudness (r = ${measured.peakCorrelation.toFixed(2)}) with no perceptible offset.`
+          : consistencyScore < 0.4
           ? "Voice characteristics appear inconsistent with facial motion patterns."
           : consistencyScore < 0.6
           ? "Synchronization patterns show some variability between face and audio."
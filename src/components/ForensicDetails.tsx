@@ -1,11 +1,18 @@
 import { Fingerprint, Layers, FileQuestion, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { GanFingerprints, TextureAnalysis, MetadataAnalysis } from "@/hooks/useMediaAnalysis";
+import type { DataProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface ForensicDetailsProps {
   ganFingerprints: GanFingerprints;
   textureAnalysis: TextureAnalysis;
   metadataAnalysis: MetadataAnalysis;
+  provenance?: {
+    ganFingerprints?: DataProvenance;
+    textureAnalysis?: DataProvenance;
+    metadataAnalysis?: DataProvenance;
+  };
   className?: string;
 }
 
@@ -13,6 +20,7 @@ const ForensicDetails = ({
   ganFingerprints,
   textureAnalysis,
   metadataAnalysis,
+  provenance = {},
   className
 }: ForensicDetailsProps) => {
   const getStatusIcon = (isGood: boolean, isNeutral?: boolean) => {
@@ -30,16 +38,16 @@ const ForensicDetails = ({
     }
   };
 
-  const getNoiseStyle = (consistency: string) => {
-    switch (consistency) {
-      case "inconsistent": return { label: "Inconsistent", color: "text-trust-medium" };
-      case "suspicious": return { label: "Suspicious", color: "text-trust-low" };
-      default: return { label: "Consistent", color: "text-trust-high" };
-    }
+  const getNoiseStyle = (consistency: number) => {
+    if (consistency < 45) return { label: `${consistency}% (Suspicious)`, color: "text-trust-low" };
+    if (consistency < 75) return { label: `${consistency}% (Inconsistent)`, color: "text-trust-medium" };
+    return { label: `${consistency}%`, color: "text-trust-high" };
   };
 
   const varianceStyle = getVarianceStyle(textureAnalysis.laplacianVariance);
   const noiseStyle = getNoiseStyle(textureAnalysis.noiseConsistency);
+  const compression = metadataAnalysis.compression;
+  const doubleCompression = compression?.doubleCompression;
 
   return (
     <div className={cn("space-y-6", className)}>
@@ -48,6 +56,7 @@ const ForensicDetails = ({
         <div className="flex items-center gap-2 mb-4">
           <Fingerprint className="w-5 h-5 text-primary" />
           <h4 className="font-semibold">GAN Fingerprint Detection</h4>
+          <ProvenanceBadge provenance={provenance.ganFingerprints ?? "model-estimated"} className="ml-auto" />
         </div>
         
         <div className="space-y-3">
@@ -92,6 +101,7 @@ const ForensicDetails = ({
         <div className="flex items-center gap-2 mb-4">
           <Layers className="w-5 h-5 text-primary" />
           <h4 className="font-semibold">Texture Consistency Analysis</h4>
+          <ProvenanceBadge provenance={provenance.textureAnalysis ?? "model-estimated"} className="ml-auto" />
         </div>
         
         <div className="space-y-3">
@@ -129,11 +139,21 @@ const ForensicDetails = ({
         <div className="flex items-center gap-2 mb-4">
           <FileQuestion className="w-5 h-5 text-primary" />
           <h4 className="font-semibold">Metadata & Encoding Analysis</h4>
+          <ProvenanceBadge provenance={provenance.metadataAnalysis ?? "model-estimated"} className="ml-auto" />
         </div>
         
         <div className="space-y-3">
+          {metadataAnalysis.format && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Container</span>
+              <span className="font-mono text-sm">{metadataAnalysis.format.toUpperCase()}</span>
+            </div>
+          )}
+
           <div className="flex items-center justify-between">
-            <span className="text-sm text-muted-foreground">EXIF Metadata</span>
+            <span className="text-sm text-muted-foreground">
+              {metadataAnalysis.details ? "EXIF / XMP / IPTC" : "EXIF Metadata"}
+            </span>
             <div className="flex items-center gap-2">
               {getStatusIcon(metadataAnalysis.hasMetadata, !metadataAnalysis.hasMetadata)}
               <span className={cn(
@@ -158,7 +178,80 @@ const ForensicDetails = ({
             </div>
           </div>
           
-          {metadataAnalysis.findings.length > 0 && (
+          {compression && (
+            <div className="pt-2 border-t border-border space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">JPEG Quality</span>
+                <span className="font-mono text-sm">
+                  ≈ {compression.quality}
+                  {compression.standardTables && <span className="text-muted-foreground"> (standard)</span>}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-muted-foreground shrink-0">Quantization Tables</span>
+                <span className="font-mono text-xs truncate" title={compression.tableMatch?.examples.join(", ")}>
+                  {compression.tableMatch?.label ?? "Custom"}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Double Compression</span>
+                {doubleCompression ? (
+                  <div className="flex items-center gap-2">
+                    {getStatusIcon(!doubleCompression.detected)}
+                    <span className={cn(
+                      "font-mono text-sm",
+                      doubleCompression.detected ? "text-trust-low" : "text-trust-high"
+                    )}>
+                      {!doubleCompression.detected ? "None"
+                        : doubleCompression.priorQuality !== null ? `Yes (earlier q≈${doubleCompression.priorQuality})`
+                        : "Yes"}
+                    </span>
+                  </div>
+                ) : (
+                  <span className="font-mono text-sm text-muted-foreground">Not tested</span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {metadataAnalysis.fields && metadataAnalysis.fields.length > 0 && (
+            <div className="pt-2 border-t border-border grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+              {metadataAnalysis.fields.map((field, i) => (
+                <div key={i} className="contents text-xs">
+                  <span className="text-muted-foreground">{field.label}</span>
+                  <span className="font-mono truncate" title={`${field.source}: ${field.value}`}>
+                    {field.value}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {metadataAnalysis.details ? (
+            metadataAnalysis.details.length > 0 && (
+              <div className="pt-2 border-t border-border">
+                <span className="text-xs text-muted-foreground block mb-2">Findings:</span>
+                <ul className="space-y-2">
+                  {metadataAnalysis.details.map((finding, i) => (
+                    <li key={i} className="text-xs flex items-start gap-2">
+                      <span className={cn(
+                        "mt-1 w-1.5 h-1.5 rounded-full shrink-0",
+                        finding.severity === "high" ? "bg-trust-low" :
+                        finding.severity === "medium" ? "bg-trust-medium" :
+                        "bg-muted-foreground"
+                      )} />
+                      <div className="min-w-0">
+                        <span className="text-foreground">{finding.message}</span>
+                        <span className="block font-mono text-[10px] text-muted-foreground break-words">
+                          {finding.evidence}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          ) : metadataAnalysis.findings.length > 0 && (
             <div className="pt-2 border-t border-border">
               <span className="text-xs text-muted-foreground block mb-2">Findings:</span>
               <ul className="space-y-1">
@@ -1,11 +1,14 @@
 import { useMemo } from "react";
 import { cn } from "@/lib/utils";
+import type { DataProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface FrameData {
   frameNumber: number;
   timestamp: number;
   confidence: number;
   anomalyType?: "face_warp" | "temporal_inconsistency" | "lighting_mismatch" | "edge_artifact" | null;
+  shot?: number;
 }
 
 interface FrameTimelineProps {
@@ -13,9 +16,18 @@ interface FrameTimelineProps {
   frames?: FrameData[];
   totalDuration?: number;
   overallScore?: number;
+  provenance?: DataProvenance;
 }
 
-const FrameTimeline = ({ className, frames, totalDuration = 10, overallScore = 85 }: FrameTimelineProps) => {
+const FrameTimeline = ({
+  className,
+  frames,
+  totalDuration = 10,
+  overallScore = 85,
+  provenance = "model-estimated",
+}: FrameTimelineProps) => {
+  const effectiveProvenance: DataProvenance = frames ? provenance : "synthesized";
+
   const frameData = useMemo(() => {
     if (frames) return frames;
     
@@ -74,6 +86,15 @@ const FrameTimeline = ({ className, frames, totalDuration = 10, overallScore = 8
 
   return (
     <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-end">
+        <ProvenanceBadge provenance={effectiveProvenance} />
+      </div>
+      {effectiveProvenance === "synthesized" && (
+        <p className="text-xs text-trust-medium">
+          This frame series contains placeholder values, not per-frame measurements. Only flagged anomalies come from the analysis.
+        </p>
+      )}
+
       {/* Timeline visualization */}
       <div className="relative">
         <div className="flex items-end gap-0.5 h-24 px-2">
@@ -82,6 +103,10 @@ const FrameTimeline = ({ className, frames, totalDuration = 10, overallScore = 8
               key={idx}
               className="flex-1 flex flex-col items-center group relative"
             >
+              {/* Scene cut before this frame */}
+              {idx > 0 && frame.shot !== undefined && frame.shot !== frameData[idx - 1].shot && (
+                <div className="absolute -left-px bottom-0 h-24 w-px bg-primary" title="Scene cut" />
+              )}
               {/* Confidence bar */}
               <div
                 className={cn(
@@ -97,6 +122,7 @@ const FrameTimeline = ({ className, frames, totalDuration = 10, overallScore = 8
                 <div className="bg-popover border border-border rounded-lg px-3 py-2 text-xs shadow-lg whitespace-nowrap">
                   <div className="font-mono text-muted-foreground">
                     Frame {frame.frameNumber + 1} • {frame.timestamp.toFixed(1)}s
+                    {frame.shot !== undefined && ` • Shot ${frame.shot + 1}`}
                   </div>
                   <div className={cn(
                     "font-semibold mt-1",
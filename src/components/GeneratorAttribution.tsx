@@ -1,6 +1,6 @@
 import { useMemo } from "react";
 import { cn } from "@/lib/utils";
-import { Fingerprint, ChevronRight } from "lucide-react";
+import { Fingerprint, ChevronRight, FileText } from "lucide-react";
 import { extractArtifactSignature, matchFingerprint } from "@/lib/fingerprintLibrary";
 import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
 
@@ -12,11 +12,22 @@ interface GeneratorAttributionProps {
 const GeneratorAttribution = ({ result, className }: GeneratorAttributionProps) => {
   const fingerprint = useMemo(() => {
     const sig = extractArtifactSignature(result);
-    return matchFingerprint(sig);
+    return matchFingerprint(sig, result.generatorMetadata);
   }, [result]);
 
   const match = fingerprint.generatorMatch;
   const isLowConfidence = match.similarity < 0.4;
+  const attribution = fingerprint.metadataAttribution;
+  const parameterRows = attribution
+    ? ([
+        ["Model", attribution.parameters.model],
+        ["Seed", attribution.parameters.seed],
+        ["Sampler", attribution.parameters.sampler],
+        ["Steps", attribution.parameters.steps],
+        ["CFG", attribution.parameters.cfgScale],
+        ["Size", attribution.parameters.size],
+      ] as const).filter(([, v]) => v !== undefined)
+    : [];
 
   return (
     <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
@@ -61,6 +72,34 @@ const GeneratorAttribution = ({ result, className }: GeneratorAttributionProps)
         />
       </div>
 
+      {/* Generator metadata read from the file */}
+      {attribution && (
+        <div className="pt-3 mb-3 border-t border-border space-y-2">
+          <div className="flex items-center gap-1.5 text-xs text-primary">
+            <FileText className="w-3 h-3" />
+            <span>Read from embedded generator metadata</span>
+          </div>
+          {parameterRows.map(([name, value]) => (
+            <div key={name} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-muted-foreground">{name}</span>
+              <span className="font-mono truncate">{value}</span>
+            </div>
+          ))}
+          {attribution.parameters.prompt && (
+            <p className="text-xs font-mono bg-secondary/50 rounded p-2 line-clamp-3 break-words">
+              {attribution.parameters.prompt}
+            </p>
+          )}
+          <div className="space-y-1">
+            {attribution.traces.map((t, i) => (
+              <div key={i} className="text-[10px] text-muted-foreground truncate" title={t.excerpt}>
+                {t.source} {t.field}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Alternative matches */}
       {fingerprint.alternativeMatches.filter(m => m.similarity > 0.1).length > 0 && (
         <div className="pt-3 border-t border-border">
@@ -84,7 +123,9 @@ const GeneratorAttribution = ({ result, className }: GeneratorAttributionProps)
 
       {/* Explanation */}
       <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
-        {isLowConfidence
+        {attribution
+          ? `The file's own metadata names ${match.label} as its generator. Metadata can be stripped or forged, but when present it is a direct trace rather than a statistical match.`
+          : isLowConfidence
           ? "Artifact signatures do not strongly match any known generator family. The media may be authentic or produced by an unrecognized method."
           : `Artifact characteristics are consistent with ${match.label}-style synthesis. This attribution is probabilistic and based on known generator fingerprint patterns.`
         }
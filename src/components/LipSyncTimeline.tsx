@@ -0,0 +1,104 @@
+import { cn } from "@/lib/utils";
+import { Speech } from "lucide-react";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import { LIP_SYNC_LABELS } from "@/lib/lipSync";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface LipSyncTimelineProps {
+  result: AnalysisResult;
+  className?: string;
+}
+
+const LipSyncTimeline = ({ result, className }: LipSyncTimelineProps) => {
+  const sync = result.lipSync;
+  if (!sync) return null;
+
+  const statusColor =
+    sync.status === "in_sync" ? "text-trust-high" :
+    sync.status === "offset" ? "text-trust-medium" :
+    sync.status === "diverged" ? "text-trust-low" :
+    "text-muted-foreground";
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Speech className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Lip-Sync Consistency</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "lipSync")} />
+        </div>
+        <span className={cn("text-xs font-mono font-semibold", statusColor)}>
+          {LIP_SYNC_LABELS[sync.status]}
+          {sync.offsetSeconds !== null && ` · ${sync.offsetSeconds > 0 ? "+" : ""}${Math.round(sync.offsetSeconds * 1000)} ms`}
+        </span>
+      </div>
+
+      {sync.status === "inconclusive" ? (
+        <p className="text-xs text-muted-foreground">
+          Not enough to compare: a face was found in {Math.round(sync.faceCoverage * 100)}% of sampled frames and speech
+          in {Math.round(sync.speechCoverage * 100)}%.
+        </p>
+      ) : (
+        <>
+          {/* Per-window sync confidence; grey windows hold too little speech to judge */}
+          <div className="flex items-end gap-0.5 h-16">
+            {sync.windows.map((w, idx) => (
+              <div
+                key={idx}
+                className="flex-1 group relative flex items-end h-full"
+              >
+                <div
+                  className={cn(
+                    "w-full rounded-t",
+                    w.confidence === null ? "bg-muted" :
+                    w.divergent ? "bg-trust-low" :
+                    w.confidence >= 0.6 ? "bg-trust-high" : "bg-trust-medium"
+                  )}
+                  style={{ height: `${Math.max(6, (w.confidence ?? 0.15) * 100)}%` }}
+                />
+                <div className="absolute bottom-full mb-2 hidden group-hover:block z-10">
+                  <div className="bg-popover border border-border rounded-lg px-3 py-2 text-xs shadow-lg whitespace-nowrap font-mono">
+                    {w.start.toFixed(1)}–{w.end.toFixed(1)}s • r = {w.correlation.toFixed(2)}
+                    {w.confidence === null && " • too little speech"}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-muted-foreground font-mono">
+            <span>0s</span>
+            <span>{sync.duration.toFixed(0)}s</span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 mt-4 text-xs">
+            <div>
+              <span className="text-muted-foreground block">Peak correlation</span>
+              <span className="font-mono">{sync.peakCorrelation.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">Sync confidence</span>
+              <span className="font-mono">{Math.round(sync.syncConfidence * 100)}%</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">Divergent stretches</span>
+              <span className={cn("font-mono", sync.divergentSegments.length > 0 && "text-trust-low")}>
+                {sync.divergentSegments.length === 0
+                  ? "none"
+                  : sync.divergentSegments.map((s) => `${s.start.toFixed(0)}–${s.end.toFixed(0)}s`).join(", ")}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        Measured on the {sync.truncated ? `first ${Math.round(sync.duration)}s` : "whole video"} at {sync.frameRate} fps.
+        Mouth opening is read from the dark pixels below a skin-tone face box and correlated with the loudness of the
+        soundtrack. The correlation peak gives the offset; speech windows where the two stop moving together are flagged.
+      </p>
+    </div>
+  );
+};
+
+export default LipSyncTimeline;
@@ -1,15 +1,21 @@
 import { useState, useCallback } from "react";
 import { Upload, Image, Video, Music, X, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import type { UploadProgress } from "@/lib/chunkedUpload";
 
 interface MediaUploadProps {
   onAnalyze: (file: File) => void;
   isAnalyzing: boolean;
   onClear?: () => void;
+  /** Bytes acknowledged by storage while the original is uploading. */
+  uploadProgress?: UploadProgress | null;
 }
 
-const MediaUpload = ({ onAnalyze, isAnalyzing, onClear }: MediaUploadProps) => {
+const formatMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+const MediaUpload = ({ onAnalyze, isAnalyzing, onClear, uploadProgress }: MediaUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
@@ -159,7 +165,12 @@ const MediaUpload = ({ onAnalyze, isAnalyzing, onClear }: MediaUploadProps) => {
         disabled={!file || isAnalyzing}
         onClick={handleAnalyzeClick}
       >
-        {isAnalyzing ? (
+        {isAnalyzing && uploadProgress ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Uploading {Math.round((uploadProgress.uploaded / Math.max(1, uploadProgress.total)) * 100)}%
+          </>
+        ) : isAnalyzing ? (
           <>
             <Loader2 className="w-5 h-5 animate-spin" />
             Analyzing Media...
@@ -170,6 +181,16 @@ const MediaUpload = ({ onAnalyze, isAnalyzing, onClear }: MediaUploadProps) => {
           </>
         )}
       </Button>
+
+      {/* Chunked upload progress; resumes where it stopped if retried */}
+      {isAnalyzing && uploadProgress && (
+        <div className="space-y-1">
+          <Progress value={(uploadProgress.uploaded / Math.max(1, uploadProgress.total)) * 100} className="h-1.5" />
+          <p className="text-xs text-muted-foreground font-mono text-center">
+            {formatMB(uploadProgress.uploaded)} / {formatMB(uploadProgress.total)} MB uploaded
+          </p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,71 @@
+import { FileWarning, CheckCircle, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SchemaValidationReport } from "@/hooks/useMediaAnalysis";
+
+interface ModelOutputValidationProps {
+  report?: SchemaValidationReport;
+  className?: string;
+}
+
+const ModelOutputValidation = ({ report, className }: ModelOutputValidationProps) => {
+  if (!report) return null;
+
+  if (report.valid) {
+    return (
+      <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", className)}>
+        <CheckCircle className="w-4 h-4 text-trust-high" />
+        <span>
+          Model output passed schema validation
+          {report.repairAttempts > 0 && ` after ${report.repairAttempts} repair attempt${report.repairAttempts > 1 ? "s" : ""}`}
+        </span>
+      </div>
+    );
+  }
+
+  const missing = report.issues.filter((i) => i.problem === "missing");
+  const invalid = report.issues.filter((i) => i.problem === "invalid");
+
+  return (
+    <div className={cn("rounded-xl border border-trust-medium/30 bg-trust-medium/5 p-4", className)}>
+      <div className="flex items-center gap-2 mb-2">
+        <FileWarning className="w-5 h-5 text-trust-medium" />
+        <h4 className="font-semibold text-trust-medium">Incomplete Model Output</h4>
+      </div>
+      <p className="text-sm text-muted-foreground leading-relaxed">
+        {report.issues.length} field{report.issues.length > 1 ? "s" : ""} failed schema validation
+        and {report.issues.length > 1 ? "show" : "shows"} placeholder defaults, not findings.
+        Treat the values below as unmeasured.
+      </p>
+
+      {report.repairAttempts > 0 && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+          <Wrench className="w-3 h-3" />
+          <span>{report.repairAttempts} automatic repair attempt{report.repairAttempts > 1 ? "s" : ""} made</span>
+        </div>
+      )}
+
+      <div className="mt-3 pt-3 border-t border-border space-y-2">
+        {[{ label: "Missing", items: missing }, { label: "Invalid", items: invalid }]
+          .filter((group) => group.items.length > 0)
+          .map((group) => (
+            <div key={group.label}>
+              <span className="text-xs text-muted-foreground block mb-1">{group.label}:</span>
+              <div className="flex flex-wrap gap-1">
+                {group.items.map((issue) => (
+                  <span
+                    key={issue.path}
+                    title={issue.message}
+                    className="text-xs font-mono px-2 py-0.5 rounded-full bg-trust-medium/10 text-trust-medium"
+                  >
+                    {issue.path}
+                  </span>
+                ))}
+              </div>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelOutputValidation;
@@ -1,5 +1,7 @@
 import { useMemo } from "react";
 import { cn } from "@/lib/utils";
+import type { DataProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface ModalityScore {
   modality: "visual" | "audio" | "temporal" | "structural" | "ganFingerprint" | "texture";
@@ -14,14 +16,19 @@ interface MultiModalFusionProps {
   modalities?: ModalityScore[];
   overallScore?: number;
   mediaType?: "image" | "video" | "audio";
+  provenance?: DataProvenance;
 }
 
 const MultiModalFusion = ({ 
   className, 
   modalities, 
   overallScore = 85,
-  mediaType = "video" 
+  mediaType = "video",
+  provenance = "model-estimated"
 }: MultiModalFusionProps) => {
+  // Fallback scores below are placeholders, never measurements
+  const effectiveProvenance: DataProvenance = modalities ? provenance : "synthesized";
+
   const modalityData = useMemo(() => {
     if (modalities) return modalities;
     
@@ -199,9 +206,12 @@ const MultiModalFusion = ({
 
       {/* Modality breakdown */}
       <div className="space-y-4">
-        <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
-          Analysis Breakdown
-        </h4>
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+            Analysis Breakdown
+          </h4>
+          <ProvenanceBadge provenance={effectiveProvenance} />
+        </div>
         
         {modalityData.map((m) => (
           <div key={m.modality} className="space-y-2">
@@ -0,0 +1,96 @@
+import { cn } from "@/lib/utils";
+import { Layers, AlertTriangle, CheckCircle } from "lucide-react";
+import { VIEW_LABELS, type AnalysisViewName } from "@/lib/multiViewPreprocessing";
+import type { MultiViewAnalysis } from "@/hooks/useMediaAnalysis";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface MultiViewConsensusProps {
+  analysis?: MultiViewAnalysis;
+  className?: string;
+}
+
+const viewLabel = (view: string) => VIEW_LABELS[view as AnalysisViewName] ?? view;
+
+const MultiViewConsensus = ({ analysis, className }: MultiViewConsensusProps) => {
+  if (!analysis || analysis.views.length === 0) return null;
+
+  const disagree = analysis.consensus === "disagree";
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="w-5 h-5 text-primary" />
+        <h4 className="font-semibold">Multi-View Preprocessing</h4>
+        <ProvenanceBadge provenance="model-estimated" className="ml-auto" />
+      </div>
+
+      {/* Per-view trust scores */}
+      <div className="space-y-3 mb-4">
+        {analysis.views.map((v) => {
+          const barColor =
+            v.trustScore >= 70 ? "bg-trust-high" :
+            v.trustScore >= 40 ? "bg-trust-medium" :
+            "bg-trust-low";
+          return (
+            <div key={v.view}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs text-muted-foreground">{viewLabel(v.view)}</span>
+                <span className="text-xs font-mono">{v.trustScore}/100</span>
+              </div>
+              <div className="w-full h-2 rounded-full bg-secondary">
+                <div
+                  className={cn("h-full rounded-full transition-all", barColor)}
+                  style={{ width: `${v.trustScore}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+        {analysis.missingViews.length > 0 && (
+          <p className="text-xs text-trust-medium">
+            Not scored by the model: {analysis.missingViews.map(viewLabel).join(", ")}
+          </p>
+        )}
+      </div>
+
+      {/* Artifacts by view */}
+      {analysis.artifacts.length > 0 && (
+        <div className="pt-3 border-t border-border space-y-2">
+          <span className="text-xs text-muted-foreground block">Artifacts</span>
+          {analysis.artifacts.map((a) => (
+            <div key={a.artifact} className="flex items-center justify-between gap-2 text-xs">
+              <span className={a.weight > 1 ? "text-trust-low" : "text-muted-foreground"}>
+                {a.artifact}
+              </span>
+              <span className="font-mono text-muted-foreground">
+                {a.views.length} view{a.views.length > 1 ? "s" : ""}
+                {a.weight > 1 && <span className="ml-1 text-trust-low">×{a.weight}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Consensus */}
+      <div className="pt-3 mt-3 border-t border-border flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {disagree
+            ? <AlertTriangle className="w-4 h-4 text-trust-medium" />
+            : <CheckCircle className="w-4 h-4 text-trust-high" />}
+          <span className="text-sm font-medium">
+            {analysis.consensus === "single_view" ? "Single view" : disagree ? "Views disagree" : "Views agree"}
+          </span>
+        </div>
+        <span className="text-xs font-mono text-muted-foreground">
+          spread {analysis.scoreSpread} · mean {analysis.ensembleScore ?? "—"}
+        </span>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        Each view is rendered from the uploaded pixels and scored separately. Artifacts seen in two or more views are weighted twice; a wide score spread marks the result as uncertain.
+      </p>
+    </div>
+  );
+};
+
+export default MultiViewConsensus;
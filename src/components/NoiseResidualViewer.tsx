@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Waves } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface NoiseResidualViewerProps {
+  result: AnalysisResult;
+  /** The uploaded file, shown beneath the splice map. */
+  file: File | null;
+  className?: string;
+}
+
+const NoiseResidualViewer = ({ result, file, className }: NoiseResidualViewerProps) => {
+  const noise = result.noiseResidualAnalysis;
+  const [opacity, setOpacity] = useState(70);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !file.type.startsWith("image/")) {
+      setSourceUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  if (!noise?.overlayDataUrl) return null;
+
+  const consistencyColor =
+    noise.noiseConsistency < 45 ? "text-trust-low" :
+    noise.noiseConsistency < 75 ? "text-trust-medium" :
+    "text-trust-high";
+  // The block grid stops short of the right and bottom edges when the size is not a multiple of the block
+  const gridWidth = ((noise.cols * noise.blockSize) / noise.width) * 100;
+  const gridHeight = ((noise.rows * noise.blockSize) / noise.height) * 100;
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Waves className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Noise Residual Analysis</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "noiseResidualAnalysis")} />
+        </div>
+        <span className={cn("text-xs font-mono font-semibold", consistencyColor)}>
+          {noise.noiseConsistency}% consistent
+        </span>
+      </div>
+
+      <div
+        className="relative w-full overflow-hidden rounded-lg border border-border bg-black"
+        style={{ aspectRatio: `${noise.width} / ${noise.height}` }}
+      >
+        {sourceUrl && <img src={sourceUrl} alt="Uploaded image" className="absolute inset-0 w-full h-full object-fill" />}
+        <img
+          src={noise.overlayDataUrl}
+          alt="Splice probability map"
+          className="absolute left-0 top-0 object-fill"
+          style={{
+            width: `${gridWidth}%`,
+            height: `${gridHeight}%`,
+            opacity: sourceUrl ? opacity / 100 : 1,
+            imageRendering: "pixelated",
+          }}
+        />
+        {noise.regions.map((r, i) => (
+          <div
+            key={i}
+            className="absolute border-2 border-trust-low/80 rounded-sm"
+            style={{ left: `${r.x * 100}%`, top: `${r.y * 100}%`, width: `${r.width * 100}%`, height: `${r.height * 100}%` }}
+            title={`${Math.round(r.score * 100)}% splice score, noise ${r.noiseRatio}× median`}
+          />
+        ))}
+      </div>
+
+      {sourceUrl && (
+        <div className="flex items-center gap-3 mt-3">
+          <span className="text-xs text-muted-foreground w-20">Overlay</span>
+          <Slider value={[opacity]} min={0} max={100} step={5} onValueChange={([v]) => setOpacity(v)} />
+          <span className="text-xs font-mono w-10 text-right">{opacity}%</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mt-3 text-xs">
+        <div>
+          <span className="text-muted-foreground block">Median noise</span>
+          <span className="font-mono">σ {noise.medianNoise}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground block">Block grid</span>
+          <span className="font-mono">{noise.cols}×{noise.rows}</span>
+        </div>
+        <div>
+          <span className="text-muted-foreground block">Suspect regions</span>
+          <span className="font-mono">{noise.regions.length}</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        A high-pass filter removes the picture content and leaves the sensor noise, whose level is then
+        measured block by block. A single camera exposure has similar noise throughout; red blocks are
+        markedly smoother or noisier than the rest of the frame, as pasted or retouched content tends to
+        be. Heavy texture and strong compression also shift the estimate
+        {noise.downscaled ? ", and this upload was downscaled before analysis, which averages the noise away" : ""}.
+      </p>
+    </div>
+  );
+};
+
+export default NoiseResidualViewer;
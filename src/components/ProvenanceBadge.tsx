@@ -0,0 +1,52 @@
+import { Gauge, Sparkles, GitBranch, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PROVENANCE_LABELS, type DataProvenance } from "@/lib/dataProvenance";
+
+interface ProvenanceBadgeProps {
+  provenance: DataProvenance;
+  className?: string;
+}
+
+const provenanceStyles: Record<DataProvenance, { icon: typeof Gauge; className: string; title: string }> = {
+  measured: {
+    icon: Gauge,
+    className: "bg-trust-high/10 text-trust-high border-trust-high/20",
+    title: "Computed directly from the media",
+  },
+  "model-estimated": {
+    icon: Sparkles,
+    className: "bg-primary/10 text-primary border-primary/20",
+    title: "Estimated by the vision model",
+  },
+  derived: {
+    icon: GitBranch,
+    className: "bg-secondary text-muted-foreground border-border",
+    title: "Computed from other analysis fields",
+  },
+  synthesized: {
+    icon: AlertTriangle,
+    className: "bg-trust-medium/10 text-trust-medium border-trust-medium/30",
+    title: "Placeholder data — not measured or estimated from this media",
+  },
+};
+
+const ProvenanceBadge = ({ provenance, className }: ProvenanceBadgeProps) => {
+  const style = provenanceStyles[provenance];
+  const Icon = style.icon;
+
+  return (
+    <span
+      title={style.title}
+      className={cn(
+        "inline-flex items-center gap-1 text-[10px] font-mono uppercase tracking-wide px-1.5 py-0.5 rounded border",
+        style.className,
+        className
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {PROVENANCE_LABELS[provenance]}
+    </span>
+  );
+};
+
+export default ProvenanceBadge;
@@ -2,6 +2,8 @@ import { Check, AlertTriangle, X, Shield, Info, TrendingDown, TrendingUp } from
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DataProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface TestResult {
   mode: string;
@@ -14,6 +16,7 @@ interface TestResult {
 interface RobustnessTestProps {
   results?: TestResult[];
   compact?: boolean;
+  provenance?: DataProvenance;
 }
 
 const defaultResults: TestResult[] = [
@@ -88,7 +91,10 @@ const getOverallStability = (results: TestResult[]): { status: "stable" | "sensi
   };
 };
 
-const RobustnessTest = ({ results = defaultResults, compact = false }: RobustnessTestProps) => {
+const RobustnessTest = ({ results, compact = false, provenance = "model-estimated" }: RobustnessTestProps) => {
+  const effectiveProvenance: DataProvenance = results ? provenance : "synthesized";
+  results = results ?? defaultResults;
+
   const getStatusIcon = (status: TestResult["status"]) => {
     switch (status) {
       case "pass":
@@ -128,7 +134,10 @@ const RobustnessTest = ({ results = defaultResults, compact = false }: Robustnes
   if (compact) {
     return (
       <div className="space-y-2">
-        <h5 className="text-sm font-medium text-muted-foreground">Robustness</h5>
+        <div className="flex items-center justify-between">
+          <h5 className="text-sm font-medium text-muted-foreground">Robustness</h5>
+          <ProvenanceBadge provenance={effectiveProvenance} />
+        </div>
         {results.slice(0, 3).map((result) => (
           <div key={result.mode} className="flex items-center justify-between text-xs">
             <span className="text-muted-foreground">{result.mode}</span>
@@ -144,7 +153,10 @@ const RobustnessTest = ({ results = defaultResults, compact = false }: Robustnes
       {/* Original Robustness Analysis Section */}
       <div className="space-y-4">
         <div className="flex items-center justify-between mb-6">
-          <h3 className="text-lg font-semibold">Robustness Analysis</h3>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold">Robustness Analysis</h3>
+            <ProvenanceBadge provenance={effectiveProvenance} />
+          </div>
           <span className="text-sm text-muted-foreground">{results.length} tests completed</span>
         </div>
 
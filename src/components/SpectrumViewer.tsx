@@ -0,0 +1,112 @@
+import { cn } from "@/lib/utils";
+import { Radio } from "lucide-react";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import ProvenanceBadge from "./ProvenanceBadge";
+
+interface SpectrumViewerProps {
+  result: AnalysisResult;
+  className?: string;
+}
+
+const PROFILE_W = 200;
+const PROFILE_H = 80;
+
+const SpectrumViewer = ({ result, className }: SpectrumViewerProps) => {
+  const spectrum = result.spectralAnalysis;
+  if (!spectrum?.spectrumDataUrl) return null;
+
+  const score = Math.round(spectrum.frequencyPatternScore * 100);
+  const scoreColor =
+    score >= 80 ? "text-trust-low" :
+    score >= 50 ? "text-trust-medium" :
+    "text-trust-high";
+  const { signature } = spectrum;
+
+  // Radial profile without DC, as a polyline scaled to its own range
+  const profile = spectrum.radialProfile.slice(1);
+  const lo = Math.min(...profile);
+  const hi = Math.max(...profile);
+  const points = profile
+    .map((db, i) => {
+      const x = (i / Math.max(1, profile.length - 1)) * PROFILE_W;
+      const y = PROFILE_H - ((db - lo) / Math.max(hi - lo, 1e-6)) * PROFILE_H;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  // Each peak is reported once for ±fx; mark both sides of the centre
+  const markers = spectrum.peaks.flatMap((p) => {
+    const mirrored = p.fx > 0 && p.fx < 0.5 ? [{ ...p, fx: -p.fx }] : [];
+    return [p, ...mirrored];
+  });
+
+  // Centred image: DC in the middle, Nyquist (±0.5) wraps to the first row/column
+  const position = (f: number) => `${((f >= 0.5 ? f - 1 : f) + 0.5) * 100}%`;
+
+  return (
+    <div className={cn("p-4 rounded-xl bg-secondary/30 border border-border", className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Radio className="w-5 h-5 text-primary" />
+          <h4 className="font-semibold">Frequency Spectrum</h4>
+          <ProvenanceBadge provenance={getFieldProvenance(result, "spectralAnalysis")} />
+        </div>
+        <span className={cn("text-xs font-mono font-semibold", scoreColor)}>
+          {score}% periodic artifacts
+        </span>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative w-full sm:w-48 aspect-square overflow-hidden rounded-lg border border-border bg-black shrink-0">
+          <img src={spectrum.spectrumDataUrl} alt="Log power spectrum" className="absolute inset-0 w-full h-full" />
+          {markers.map((p, i) => (
+            <div
+              key={i}
+              className={cn(
+                "absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2",
+                p.kind === "jpeg_grid" ? "border-muted-foreground/70" : "border-trust-low",
+              )}
+              style={{ left: position(p.fx), top: position(p.fy) }}
+              title={`${p.kind.replace("_", " ")} (${p.fx}, ${p.fy}) cycles/px, prominence ${p.prominence}`}
+            />
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <span className="text-xs text-muted-foreground block mb-1">Radial power (dB, low → high frequency)</span>
+          <svg viewBox={`0 0 ${PROFILE_W} ${PROFILE_H}`} className="w-full h-20" preserveAspectRatio="none">
+            <polyline points={points} fill="none" stroke="hsl(var(--primary))" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="grid grid-cols-2 gap-2 mt-3 text-xs">
+            <div>
+              <span className="text-muted-foreground block">Spectral slope</span>
+              <span className="font-mono">{signature.spectralSlope}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">High-frequency excess</span>
+              <span className="font-mono">{signature.highFrequencyExcess}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">Upsampling / checkerboard</span>
+              <span className="font-mono">{signature.upsamplingScore} / {signature.checkerboardScore}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground block">JPEG grid</span>
+              <span className="font-mono">{signature.jpegGridScore}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3 pt-3 border-t border-border leading-relaxed">
+        The power spectrum is averaged over {spectrum.tilesAnalyzed} windowed {spectrum.tileSize}px tiles. Generator
+        upsampling layers repeat a pattern every two or four pixels and leave bright points at half or quarter
+        frequency, or in the corners for a checkerboard (red circles). JPEG's 8-pixel blocks light every eighth of the
+        band (gray circles) and are discounted. This score is the frequency input to generator attribution.
+      </p>
+    </div>
+  );
+};
+
+export default SpectrumViewer;
@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useMemo } from "react";
 import { cn } from "@/lib/utils";
+import ProvenanceBadge from "./ProvenanceBadge";
 
 interface Node {
   id: number;
@@ -25,7 +26,9 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
   const animationRef = useRef<number>();
   const [progress, setProgress] = useState(animated ? 0 : 1);
 
-  // Generate nodes with suspiciousCount determining how many are marked
+  // A fixed face template, not keypoints found in the media: only the
+  // number of highlighted nodes follows the analysis, so the drawing is
+  // tagged synthesized
   const { nodes, edges } = useMemo(() => {
     const generatedNodes = generateNodes(suspiciousCount);
     const generatedEdges = generateEdges(generatedNodes);
@@ -42,8 +45,8 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
     for (let i = 0; i < 6; i++) {
       nodes.push({
         id: i,
-        x: centerX - 60 + (i % 3) * 30 + Math.random() * 10,
-        y: centerY - 40 + Math.floor(i / 3) * 20 + Math.random() * 5,
+        x: centerX - 60 + (i % 3) * 30,
+        y: centerY - 40 + Math.floor(i / 3) * 20,
         suspicious: suspiciousNodeCount > 0 && i === 2
       });
     }
@@ -52,8 +55,8 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
     for (let i = 6; i < 12; i++) {
       nodes.push({
         id: i,
-        x: centerX + 30 + ((i - 6) % 3) * 30 + Math.random() * 10,
-        y: centerY - 40 + Math.floor((i - 6) / 3) * 20 + Math.random() * 5,
+        x: centerX + 30 + ((i - 6) % 3) * 30,
+        y: centerY - 40 + Math.floor((i - 6) / 3) * 20,
       });
     }
     
@@ -61,8 +64,8 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
     for (let i = 12; i < 16; i++) {
       nodes.push({
         id: i,
-        x: centerX - 15 + ((i - 12) % 2) * 30 + Math.random() * 5,
-        y: centerY + ((i - 12) < 2 ? 0 : 30) + Math.random() * 10,
+        x: centerX - 15 + ((i - 12) % 2) * 30,
+        y: centerY + ((i - 12) < 2 ? 0 : 30),
       });
     }
     
@@ -70,8 +73,8 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
     for (let i = 16; i < 22; i++) {
       nodes.push({
         id: i,
-        x: centerX - 40 + ((i - 16) % 6) * 16 + Math.random() * 5,
-        y: centerY + 60 + Math.sin((i - 16) * 0.5) * 10 + Math.random() * 5,
+        x: centerX - 40 + ((i - 16) % 6) * 16,
+        y: centerY + 60 + Math.sin((i - 16) * 0.5) * 10,
         suspicious: suspiciousNodeCount > 1 && (i === 18 || (suspiciousNodeCount > 2 && i === 19))
       });
     }
@@ -204,12 +207,18 @@ const StructuralGraph = ({ className, animated = true, suspiciousCount = 3 }: St
 
   return (
     <div className={cn("relative", className)}>
-      <canvas
-        ref={canvasRef}
-        className="w-full h-auto rounded-lg"
-        style={{ maxWidth: "400px", aspectRatio: "4/3" }}
-      />
-      
+      <div className="relative" style={{ maxWidth: "400px" }}>
+        <canvas
+          ref={canvasRef}
+          className="w-full h-auto rounded-lg"
+          style={{ aspectRatio: "4/3" }}
+        />
+        <ProvenanceBadge provenance="synthesized" className="absolute top-2 left-2" />
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Illustration: node positions are a generic face template, not keypoints located in this media.
+      </p>
+
       {/* Legend */}
       <div className="flex items-center gap-6 mt-4 text-sm">
         <div className="flex items-center gap-2">
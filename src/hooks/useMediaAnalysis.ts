@@ -1,9 +1,44 @@
-import { useState, useMemo } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useMemo, useRef, useEffect, useCallback } from "react";
 import { toast } from "sonner";
 import { useAnalysisCache } from "@/hooks/useAnalysisCache";
 import { generateEvidenceObjects, buildChainOfCustody } from "@/lib/forensicEvidence";
 import type { ForensicEvidenceObject, ChainOfCustodyMetadata } from "@/lib/forensicEvidence";
+import { withFieldProvenance, type DataProvenance } from "@/lib/dataProvenance";
+import { analyzeProvenance, type ProvenanceResult } from "@/lib/provenanceAnalyzer";
+import { analyzeMetadata } from "@/lib/metadataAnalyzer";
+import { analyzeContentCredentials, type ContentCredentialsResult } from "@/lib/contentCredentials";
+import { analyzeGeneratorMetadata, type GeneratorMetadataResult } from "@/lib/generatorMetadata";
+import { analyzeErrorLevels, type ErrorLevelAnalysis } from "@/lib/errorLevelAnalysis";
+import { analyzeCopyMove, type CopyMoveAnalysis } from "@/lib/copyMoveDetector";
+import { analyzeNoiseResiduals, type NoiseResidualAnalysis } from "@/lib/noiseResidual";
+import type { JpegCompressionAnalysis } from "@/lib/jpegForensics";
+import { analyzeSpectralFingerprint, type SpectralAnalysis } from "@/lib/spectralAnalysis";
+import { analyzeSensorFingerprint, type CameraIdentificationResult } from "@/lib/prnu";
+import { analyzeAudioTrack, decodeAudio, type AudioTrackAnalysis, type DecodedAudio } from "@/lib/audioTrack";
+import { analyzeSpeech, toAnomalyRegions, toAudioModalityScore, type AudioForensicsAnalysis } from "@/lib/audioForensics";
+import { analyzeLipSync, type LipSyncAnalysis } from "@/lib/lipSync";
+import { extractVideoKeyframes, summarizeKeyframes, type KeyframeSampling } from "@/lib/videoFrames";
+import { buildPreprocessedViews, type AnalysisView } from "@/lib/multiViewPreprocessing";
+import { uploadAnalysisMedia, UPLOAD_CHUNK_SIZE, type StorageReference, type UploadProgress } from "@/lib/chunkedUpload";
+import {
+  completeAnalysisJob,
+  createAnalysisJob,
+  failAnalysisJob,
+  forgetJob,
+  recallJob,
+  rememberJob,
+  reportPreprocessing,
+  submitAnalysisJob,
+  waitForAnalysisJob,
+  type AnalysisJobStatus,
+  type AnalysisStage,
+} from "@/lib/analysisJobs";
+import {
+  applyRobustnessRun,
+  runRobustnessTests,
+  DEFAULT_ROBUSTNESS_BUDGET,
+  ROBUSTNESS_VARIANTS,
+} from "@/lib/robustnessRunner";
 
 export interface HeatmapRegion {
   x: number;
@@ -14,6 +49,7 @@ export interface HeatmapRegion {
 }
 
 export interface AnomalyRegion {
+  /** Seconds from the start of the track. */
   start: number;
   end: number;
   severity: "low" | "medium" | "high";
@@ -24,6 +60,8 @@ export interface FrameData {
   timestamp: number;
   confidence: number;
   anomalyType?: "face_warp" | "temporal_inconsistency" | "lighting_mismatch" | "edge_artifact" | null;
+  /** 0-based shot index, for frames sampled from a decoded video. */
+  shot?: number;
 }
 
 export interface ModalityScore {
@@ -43,13 +81,41 @@ export interface GanFingerprints {
 export interface TextureAnalysis {
   laplacianVariance: "low" | "normal" | "high";
   smoothnessAnomalies: boolean;
-  noiseConsistency: "consistent" | "inconsistent" | "suspicious";
+  /** 0–100; 100 when the noise level is uniform across the frame. Measured for images. */
+  noiseConsistency: number;
+}
+
+export interface MetadataFinding {
+  check:
+    | "editing_software"
+    | "timestamp_mismatch"
+    | "thumbnail_mismatch"
+    | "gps_inconsistency"
+    | "dimension_mismatch"
+    | "double_compression"
+    | "quantization_table";
+  severity: "low" | "medium" | "high";
+  message: string;
+  /** The tag values the finding rests on, quoted as read from the file. */
+  evidence: string;
+}
+
+export interface MetadataField {
+  label: string;
+  value: string;
+  source: "EXIF" | "XMP" | "IPTC" | "Container";
 }
 
 export interface MetadataAnalysis {
   hasMetadata: boolean;
   suspicious: boolean;
   findings: string[];
+  /** Set when parsed from the file bytes (see lib/metadataAnalyzer). */
+  format?: string;
+  details?: MetadataFinding[];
+  fields?: MetadataField[];
+  /** Quantization tables and compression history, for JPEG files. */
+  compression?: JpegCompressionAnalysis;
 }
 
 export interface MultimodalConsistencyResult {
@@ -70,9 +136,11 @@ export interface VisualDeepfakeDetection {
 
 export interface ConfidenceDrift {
   cleanScore: number;
-  compressedScore: number;
-  blurredScore: number;
-  noiseScore: number;
+  /** Null when the condition was not measured within the robustness budget. */
+  compressedScore: number | null;
+  blurredScore: number | null;
+  noiseScore: number | null;
+  downscaledScore?: number | null;
   stabilityScore: number;
   stabilityStatus: "stable" | "sensitive";
 }
@@ -84,6 +152,47 @@ export interface ManipulationRegion {
   description: string;
 }
 
+export interface ModelProviderInfo {
+  name: string;
+  model: string;
+}
+
+export interface SchemaValidationIssue {
+  path: string;
+  problem: "missing" | "invalid";
+  message: string;
+}
+
+export interface SchemaValidationReport {
+  valid: boolean;
+  repairAttempts: number;
+  /** Fields that failed validation and hold placeholder defaults. */
+  issues: SchemaValidationIssue[];
+}
+
+export interface ViewScore {
+  view: string;
+  trustScore: number;
+  artifacts: string[];
+}
+
+export interface ViewArtifact {
+  artifact: string;
+  views: string[];
+  /** 2 when the artifact appears in 2+ views, otherwise 1. */
+  weight: number;
+}
+
+export interface MultiViewAnalysis {
+  views: ViewScore[];
+  /** Views that were sent but not scored by the model. */
+  missingViews: string[];
+  artifacts: ViewArtifact[];
+  ensembleScore: number | null;
+  scoreSpread: number;
+  consensus: "agree" | "disagree" | "single_view";
+}
+
 export interface AnalysisResult {
   trustScore: number;
   riskLevel: "low" | "medium" | "high";
@@ -121,6 +230,52 @@ export interface AnalysisResult {
   visualDeepfakeDetection?: VisualDeepfakeDetection;
   confidenceDrift?: ConfidenceDrift;
   manipulationRegions?: ManipulationRegion[];
+  modelProvider?: ModelProviderInfo;
+  schemaValidation?: SchemaValidationReport;
+  multiViewAnalysis?: MultiViewAnalysis;
+  /** Perceptual hashes and reference-index matches, computed in the browser. */
+  provenance?: ProvenanceResult;
+  /** Embedded C2PA manifest store, verified in the browser. */
+  contentCredentials?: ContentCredentialsResult;
+  /** Generator traces (PNG text, EXIF, XMP, C2PA) read from the file. */
+  generatorMetadata?: GeneratorMetadataResult;
+  /** JPEG re-save error levels and overlay, computed in the browser (images only). */
+  errorLevelAnalysis?: ErrorLevelAnalysis;
+  /** Regions cloned within the image, computed in the browser (images only). */
+  copyMoveAnalysis?: CopyMoveAnalysis;
+  /** Block-wise noise levels and splice map, computed in the browser (images only). */
+  noiseResidualAnalysis?: NoiseResidualAnalysis;
+  /** Averaged FFT power spectrum and its periodic peaks, computed in the browser (images only). */
+  spectralAnalysis?: SpectralAnalysis;
+  /** Sensor-noise (PRNU) correlation against stored camera references (images only). */
+  cameraIdentification?: CameraIdentificationResult;
+  /** Decoded soundtrack and log-mel spectrogram, computed in the browser (audio and video). */
+  audioTrack?: AudioTrackAnalysis;
+  /** Acoustic synthetic-speech features of the soundtrack, measured in the browser. */
+  audioForensics?: AudioForensicsAnalysis;
+  /** Scene cuts and the keyframes scored per frame, sampled in the browser (video only). */
+  keyframeSampling?: KeyframeSampling;
+  /** Mouth motion against the speech envelope, measured in the browser (video with audio). */
+  lipSync?: LipSyncAnalysis;
+  /** Dotted field path → where the value came from. See lib/dataProvenance. */
+  fieldProvenance?: Record<string, DataProvenance>;
+}
+
+export interface AnalyzeOptions {
+  /** Model provider override; falls back to VITE_ANALYSIS_PROVIDER, then the edge function default. */
+  provider?: string;
+  model?: string;
+  /** Perturbed variants to re-analyze for measured robustness (images only); 0 disables. */
+  robustnessBudget?: number;
+  /** Frames per second scanned for scene cuts (video only); falls back to VITE_KEYFRAME_RATE. */
+  keyframeRate?: number;
+}
+
+const DEFAULT_KEYFRAME_RATE = 2;
+
+export interface RobustnessProgress {
+  completed: number;
+  total: number;
 }
 
 export const useMediaAnalysis = () => {
@@ -129,6 +284,14 @@ export const useMediaAnalysis = () => {
   const [error, setError] = useState<string | null>(null);
   const [fileHash, setFileHash] = useState<string | null>(null);
   const [cachedHit, setCachedHit] = useState(false);
+  const [robustnessProgress, setRobustnessProgress] = useState<RobustnessProgress | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Bumped on every analysis and reset so stale robustness runs are discarded
+  const runIdRef = useRef(0);
+  // Cancels job polling when a new analysis starts or the result is cleared
+  const pollAbortRef = useRef<AbortController | null>(null);
 
   const { getFileHash, getCached, setCached } = useAnalysisCache();
 
@@ -144,13 +307,81 @@ export const useMediaAnalysis = () => {
     [result, fileHash]
   );
 
-  const analyzeMedia = async (file: File): Promise<AnalysisResult | null> => {
+  /** Start a run: cancel the previous one's polling and return its id and signal. */
+  const beginRun = useCallback(() => {
+    pollAbortRef.current?.abort();
+    pollAbortRef.current = new AbortController();
+    return { runId: ++runIdRef.current, signal: pollAbortRef.current.signal };
+  }, []);
+
+  const trackJob = useCallback((runId: number) => (job: AnalysisJobStatus) => {
+    if (runIdRef.current === runId) setAnalysisStage(job.stage);
+  }, []);
+
+  // A job still running (or finished) when the page was reloaded is
+  // picked up again. Its result is the one the browser completed it
+  // with, or the server's alone if the browser never got that far; such
+  // a job is completed with the server's result so it stops waiting.
+  // The dependencies are stable, so this runs once on mount.
+  useEffect(() => {
+    const remembered = recallJob();
+    if (!remembered) return;
+    const { runId, signal } = beginRun();
+    setIsAnalyzing(true);
+    setFileHash(remembered.fileHash);
+    setJobId(remembered.jobId);
+    setAnalysisStage("model_inference");
+    waitForAnalysisJob(remembered.jobId, { signal, onStatus: trackJob(runId) })
+      .then((job) => {
+        if (runIdRef.current !== runId) return;
+        const restored = job.result;
+        if (job.status !== "completed") {
+          completeAnalysisJob(job.jobId, restored).catch((saveErr) => {
+            console.warn("Could not complete the restored analysis job:", saveErr);
+          });
+        }
+        setCached(remembered.fileHash, restored);
+        setResult(restored);
+        toast.success(`Restored the analysis of ${remembered.fileName}`);
+      })
+      .catch((restoreErr) => {
+        if (signal.aborted) return;
+        console.warn("Could not restore the previous analysis job:", restoreErr);
+        forgetJob();
+        if (runIdRef.current === runId) {
+          setFileHash(null);
+          setJobId(null);
+        }
+      })
+      .finally(() => {
+        if (runIdRef.current !== runId) return;
+        setIsAnalyzing(false);
+        setAnalysisStage(null);
+      });
+    return () => pollAbortRef.current?.abort();
+  }, [beginRun, trackJob, setCached]);
+
+  const analyzeMedia = async (file: File, options: AnalyzeOptions = {}): Promise<AnalysisResult | null> => {
+    const { runId, signal } = beginRun();
     setIsAnalyzing(true);
     setError(null);
     setResult(null);
     setCachedHit(false);
+    setRobustnessProgress(null);
+    setUploadProgress(null);
+    setJobId(null);
+    setAnalysisStage("hashing");
+    forgetJob();
+    // The job is opened before hashing so every stage is on record
+    let currentJobId: string | null = null;
 
     try {
+      const isAudio = file.type.startsWith("audio/");
+      const isVideo = file.type.startsWith("video/");
+      currentJobId = await createAnalysisJob(isVideo ? "video" : isAudio ? "audio" : "image");
+      const analysisJobId = currentJobId;
+      if (runIdRef.current === runId) setJobId(analysisJobId);
+
       // Step 1: Generate file hash
       const hash = await getFileHash(file);
       setFileHash(hash);
@@ -158,6 +389,9 @@ export const useMediaAnalysis = () => {
       // Step 2: Check cache
       const cached = getCached(hash);
       if (cached) {
+        completeAnalysisJob(analysisJobId, cached).catch((saveErr) => {
+          console.warn("Could not complete the analysis job:", saveErr);
+        });
         setResult(cached);
         setCachedHit(true);
         toast.success("Loaded from analysis cache");
@@ -171,44 +405,335 @@ export const useMediaAnalysis = () => {
       }
 
       // Step 4: Run full analysis
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
+      setAnalysisStage("preprocessing");
+      reportPreprocessing(analysisJobId).catch((stageErr) => {
+        console.warn("Could not record the preprocessing stage:", stageErr);
       });
+      // Audio files go to the model as a spectrogram and videos as a
+      // keyframe contact sheet, not as raw bytes. Image originals are
+      // uploaded to storage in resumable chunks while the local analyses
+      // run, and the edge function fetches them by reference.
+      const uploadPromise: Promise<{ media?: StorageReference; imageBase64?: string } | null> =
+        isAudio || isVideo ? Promise.resolve(null) : uploadAnalysisMedia(file, hash, {
+          onProgress: (progress) => {
+            if (runIdRef.current === runId) setUploadProgress(progress);
+          },
+        })
+          .then((media) => ({ media }))
+          .catch(async (uploadErr) => {
+            // Without the storage bucket a single-chunk image can still go inline
+            if (file.size > UPLOAD_CHUNK_SIZE) throw uploadErr;
+            console.warn("Chunked upload failed, sending the image inline:", uploadErr);
+            const imageBase64 = await new Promise<string>((resolve, reject) => {
+              const reader = new FileReader();
+              reader.onload = () => resolve(reader.result as string);
+              reader.onerror = reject;
+              reader.readAsDataURL(file);
+            });
+            return { imageBase64 };
+          });
+      // Rejections surface where the upload is awaited
+      uploadPromise.catch(() => undefined);
 
-      const { data, error: fnError } = await supabase.functions.invoke("analyze-media", {
-        body: {
-          imageBase64: base64,
-          mediaType: file.type.split("/")[0]
+      // Audio and video soundtracks are decoded locally into a log-mel
+      // spectrogram and measured for synthetic-speech features
+      let audioTrack: AudioTrackAnalysis | null = null;
+      let audioForensics: AudioForensicsAnalysis | null = null;
+      let decoded: DecodedAudio | null = null;
+      if (isAudio || isVideo) {
+        decoded = await decodeAudio(file).catch((audioErr) => {
+          console.warn("Audio decoding failed:", audioErr);
+          return null;
+        });
+        if (isAudio && !decoded) {
+          throw new Error("This audio file could not be decoded in the browser.");
         }
-      });
+        if (decoded) {
+          audioTrack = analyzeAudioTrack(decoded);
+          try {
+            audioForensics = analyzeSpeech(decoded);
+          } catch (speechErr) {
+            console.warn("Synthetic speech analysis failed:", speechErr);
+          }
+        }
+      }
 
-      if (fnError) {
-        throw new Error(fnError.message || "Analysis failed");
+      // Videos are scanned for scene cuts and their keyframes scored one by one
+      let keyframeSampling: KeyframeSampling | null = null;
+      if (isVideo) {
+        const framesPerSecond = options.keyframeRate
+          ?? Number(import.meta.env.VITE_KEYFRAME_RATE ?? DEFAULT_KEYFRAME_RATE);
+        const keyframes = await extractVideoKeyframes(file, { framesPerSecond }).catch((frameErr) => {
+          console.warn("Video frame extraction failed:", frameErr);
+          return null;
+        });
+        if (keyframes && keyframes.keyframes.length > 0) keyframeSampling = summarizeKeyframes(keyframes);
+        if (!keyframeSampling && !audioTrack) {
+          throw new Error("This video could not be decoded in the browser.");
+        }
       }
 
-      if (data.error) {
-        throw new Error(data.error);
+      // Real preprocessing views for still images; other media go as-is
+      let views: AnalysisView[] = [];
+      if (file.type.startsWith("image/")) {
+        try {
+          views = await buildPreprocessedViews(file);
+        } catch (viewErr) {
+          console.warn("Preprocessing views unavailable, sending original only:", viewErr);
+        }
       }
 
-      // Step 4: Cache result
+      // Each request becomes a background job on the server, polled here
+      const provider = options.provider ?? import.meta.env.VITE_ANALYSIS_PROVIDER;
+      const submitAnalysis = (body: Record<string, unknown>) =>
+        submitAnalysisJob({ ...body, provider, model: options.model });
+
+      // Perceptual hashing runs locally alongside the remote analysis
+      const provenancePromise = analyzeProvenance(file).catch((provErr) => {
+        console.warn("Perceptual hashing failed:", provErr);
+        return null;
+      });
+
+      // Embedded metadata is parsed from the file bytes, not estimated
+      const metadataPromise = analyzeMetadata(file).catch((metaErr) => {
+        console.warn("Metadata parsing failed, keeping model estimate:", metaErr);
+        return null;
+      });
+
+      // C2PA manifests are verified against the local trust list
+      const credentialsPromise = analyzeContentCredentials(file).catch((c2paErr) => {
+        console.warn("Content Credentials verification failed:", c2paErr);
+        return null;
+      });
+
+      // Generator traces reuse the verified manifest's actions when present
+      const generatorPromise = credentialsPromise
+        .then((credentials) => analyzeGeneratorMetadata(file, credentials))
+        .catch((genErr) => {
+          console.warn("Generator metadata detection failed:", genErr);
+          return null;
+        });
+
+      // Error Level Analysis needs decoded pixels, so only still images
+      const elaPromise = file.type.startsWith("image/")
+        ? analyzeErrorLevels(file).catch((elaErr) => {
+            console.warn("Error Level Analysis failed:", elaErr);
+            return null;
+          })
+        : Promise.resolve(null);
+      const copyMovePromise = file.type.startsWith("image/")
+        ? analyzeCopyMove(file).catch((cmErr) => {
+            console.warn("Copy-move detection failed:", cmErr);
+            return null;
+          })
+        : Promise.resolve(null);
+      const noisePromise = file.type.startsWith("image/")
+        ? analyzeNoiseResiduals(file).catch((nrErr) => {
+            console.warn("Noise residual analysis failed:", nrErr);
+            return null;
+          })
+        : Promise.resolve(null);
+      const spectralPromise = file.type.startsWith("image/")
+        ? analyzeSpectralFingerprint(file).catch((spErr) => {
+            console.warn("Spectral analysis failed:", spErr);
+            return null;
+          })
+        : Promise.resolve(null);
+      const cameraPromise = file.type.startsWith("image/")
+        ? analyzeSensorFingerprint(file).catch((prnuErr) => {
+            console.warn("Camera identification failed:", prnuErr);
+            return null;
+          })
+        : Promise.resolve(null);
+      // Lip sync needs both the picture and the decoded soundtrack
+      const lipSyncPromise = isVideo && decoded
+        ? analyzeLipSync(file, decoded).catch((syncErr) => {
+            console.warn("Lip-sync analysis failed:", syncErr);
+            return null;
+          })
+        : Promise.resolve(null);
+
+      const upload = await uploadPromise;
+      if (runIdRef.current === runId) setUploadProgress(null);
+      await submitAnalysis({
+        jobId: analysisJobId,
+        ...upload,
+        views: views.map((v) => ({ name: v.name, dataUrl: v.dataUrl })),
+        audio: audioTrack && {
+          spectrogram: audioTrack.spectrogramDataUrl,
+          duration: audioTrack.duration,
+          maxFrequency: audioTrack.spectrogram.sampleRate / 2,
+          features: audioForensics?.speechDetected
+            ? { ...audioForensics.features, syntheticProbability: audioForensics.syntheticProbability }
+            : undefined,
+        },
+        video: keyframeSampling && {
+          contactSheet: keyframeSampling.contactSheetDataUrl,
+          duration: keyframeSampling.duration,
+          frames: keyframeSampling.keyframes,
+        },
+        mediaType: file.type.split("/")[0],
+      });
+      // From here the server holds the job, so a reload can pick it up
+      if (runIdRef.current === runId) {
+        rememberJob({ jobId: analysisJobId, fileHash: hash, fileName: file.name });
+      }
+      const { result: analysis } = await waitForAnalysisJob(analysisJobId, { signal, onStatus: trackJob(runId) });
+      const [
+        provenance,
+        metadataAnalysis,
+        contentCredentials,
+        generatorMetadata,
+        errorLevelAnalysis,
+        copyMoveAnalysis,
+        noiseResidualAnalysis,
+        spectralAnalysis,
+        cameraIdentification,
+        lipSync,
+      ] = await Promise.all([
+        provenancePromise,
+        metadataPromise,
+        credentialsPromise,
+        generatorPromise,
+        elaPromise,
+        copyMovePromise,
+        noisePromise,
+        spectralPromise,
+        cameraPromise,
+        lipSyncPromise,
+      ]);
+      let data = analysis;
+      if (provenance) data = withFieldProvenance({ ...data, provenance }, { provenance: "measured" });
+      if (metadataAnalysis) data = withFieldProvenance({ ...data, metadataAnalysis }, { metadataAnalysis: "measured" });
+      if (contentCredentials) data = withFieldProvenance({ ...data, contentCredentials }, { contentCredentials: "measured" });
+      if (generatorMetadata) data = withFieldProvenance({ ...data, generatorMetadata }, { generatorMetadata: "measured" });
+      if (errorLevelAnalysis) data = withFieldProvenance({ ...data, errorLevelAnalysis }, { errorLevelAnalysis: "measured" });
+      if (copyMoveAnalysis) data = withFieldProvenance({ ...data, copyMoveAnalysis }, { copyMoveAnalysis: "measured" });
+      if (spectralAnalysis) data = withFieldProvenance({ ...data, spectralAnalysis }, { spectralAnalysis: "measured" });
+      if (cameraIdentification) data = withFieldProvenance({ ...data, cameraIdentification }, { cameraIdentification: "measured" });
+      if (keyframeSampling) data = withFieldProvenance({ ...data, keyframeSampling }, { keyframeSampling: "measured" });
+      if (audioTrack) data = withFieldProvenance({ ...data, audioTrack }, { audioTrack: "measured" });
+      if (audioForensics) data = withFieldProvenance({ ...data, audioForensics }, { audioForensics: "measured" });
+      if (lipSync) data = withFieldProvenance({ ...data, lipSync }, { lipSync: "measured" });
+      if (audioForensics?.speechDetected) {
+        // Measured segments and score replace the model's reading of the
+        // spectrogram; the consistency check is recomputed from them
+        const weight = data.modalityScores.find((m) => m.modality === "audio")?.weight ?? 0.2;
+        data = withFieldProvenance(
+          {
+            ...data,
+            audioAnomalies: toAnomalyRegions(audioForensics),
+            modalityScores: [
+              ...data.modalityScores.filter((m) => m.modality !== "audio"),
+              toAudioModalityScore(audioForensics, weight),
+            ],
+            multimodalConsistency: undefined,
+          },
+          { audioAnomalies: "measured", "modalityScores.audio": "measured" },
+        );
+      }
+      if (noiseResidualAnalysis) {
+        // The measured consistency replaces the model's estimate
+        data = withFieldProvenance(
+          {
+            ...data,
+            noiseResidualAnalysis,
+            textureAnalysis: { ...data.textureAnalysis, noiseConsistency: noiseResidualAnalysis.noiseConsistency },
+          },
+          { noiseResidualAnalysis: "measured", "textureAnalysis.noiseConsistency": "measured" },
+        );
+      }
+
+      // Step 5: Cache and show the result. The job is completed with it
+      // once the robustness run is done, so a reload restores the
+      // measured fields and not just the model's. A run that was reset or
+      // superseded while the local analyses ran must not overwrite the
+      // newer run's state or cache its result.
+      if (runIdRef.current !== runId) {
+        failAnalysisJob(analysisJobId, "Analysis was cancelled").catch(() => undefined);
+        return null;
+      }
+      setAnalysisStage("evidence_generation");
       setCached(hash, data);
       setResult(data);
-      return data;
+      setIsAnalyzing(false);
+      let final = data;
+
+      // Step 6: Measured robustness — re-analyze perturbed variants
+      const budget = options.robustnessBudget
+        ?? Number(import.meta.env.VITE_ROBUSTNESS_BUDGET ?? DEFAULT_ROBUSTNESS_BUDGET);
+      if (budget > 0 && file.type.startsWith("image/")) {
+        try {
+          // The clean reference is re-analyzed first, then the variants
+          setRobustnessProgress({ completed: 0, total: Math.min(budget, ROBUSTNESS_VARIANTS.length) + 1 });
+          const run = await runRobustnessTests(file, {
+            budget,
+            reanalyze: async (dataUrl) => {
+              const variantJobId = await submitAnalysis({ imageBase64: dataUrl, mediaType: "image" });
+              return (await waitForAnalysisJob(variantJobId, { signal })).result.trustScore;
+            },
+            onProgress: (completed, total) => {
+              if (runIdRef.current === runId) setRobustnessProgress({ completed, total });
+            },
+          });
+          if (runIdRef.current === runId) {
+            if (run.failed.length > 0) {
+              toast.warning(`${run.failed.length} robustness variant(s) could not be analyzed`);
+            }
+            final = applyRobustnessRun(data, run);
+            setCached(hash, final);
+            setResult(final);
+          }
+        } catch (robustErr) {
+          console.warn("Robustness run failed, keeping model estimates:", robustErr);
+        } finally {
+          if (runIdRef.current === runId) setRobustnessProgress(null);
+        }
+      }
+
+      completeAnalysisJob(analysisJobId, final).catch((saveErr) => {
+        console.warn("Could not store the final result on the job:", saveErr);
+      });
+      return final;
 
     } catch (err) {
       const message = err instanceof Error ? err.message : "Analysis failed";
+      // A job the server already failed rejects this; that is fine
+      if (currentJobId) failAnalysisJob(currentJobId, signal.aborted ? "Analysis was cancelled" : message).catch(() => undefined);
+      if (signal.aborted) return null;
       setError(message);
       toast.error(message);
       return null;
     } finally {
-      setIsAnalyzing(false);
+      if (runIdRef.current === runId) {
+        setIsAnalyzing(false);
+        setUploadProgress(null);
+        setAnalysisStage(null);
+      }
     }
   };
 
+  /**
+   * Replace the camera identification, e.g. after a new reference was
+   * stored and the file re-compared, so evidence, the report and the
+   * cache follow the new comparison.
+   */
+  const updateCameraIdentification = (cameraIdentification: CameraIdentificationResult) => {
+    if (!result) return;
+    const updated = withFieldProvenance({ ...result, cameraIdentification }, { cameraIdentification: "measured" });
+    if (fileHash) setCached(fileHash, updated);
+    setResult(updated);
+  };
+
   const reset = () => {
+    runIdRef.current++;
+    pollAbortRef.current?.abort();
+    forgetJob();
+    setIsAnalyzing(false);
+    setRobustnessProgress(null);
+    setUploadProgress(null);
+    setAnalysisStage(null);
+    setJobId(null);
     setResult(null);
     setError(null);
     setFileHash(null);
@@ -217,12 +742,17 @@ export const useMediaAnalysis = () => {
 
   return {
     analyzeMedia,
+    updateCameraIdentification,
     isAnalyzing,
     result,
     error,
     reset,
     fileHash,
     cachedHit,
+    robustnessProgress,
+    uploadProgress,
+    analysisStage,
+    jobId,
     evidenceObjects,
     chainOfCustody,
   };
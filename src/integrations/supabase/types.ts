@@ -14,13 +14,183 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analysis_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          expires_at: string
+          id: string
+          media_path: string | null
+          media_type: string
+          result: Json | null
+          stage: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          expires_at?: string
+          id?: string
+          media_path?: string | null
+          media_type: string
+          result?: Json | null
+          stage?: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          expires_at?: string
+          id?: string
+          media_path?: string | null
+          media_type?: string
+          result?: Json | null
+          stage?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      camera_fingerprints: {
+        Row: {
+          camera_id: string
+          created_at: string
+          crop_size: number
+          fingerprint: string
+          id: string
+          image_count: number
+          image_height: number
+          image_width: number
+          label: string
+          make: string | null
+          model: string | null
+          updated_at: string
+        }
+        Insert: {
+          camera_id: string
+          created_at?: string
+          crop_size: number
+          fingerprint: string
+          id?: string
+          image_count: number
+          image_height: number
+          image_width: number
+          label: string
+          make?: string | null
+          model?: string | null
+          updated_at?: string
+        }
+        Update: {
+          camera_id?: string
+          created_at?: string
+          crop_size?: number
+          fingerprint?: string
+          id?: string
+          image_count?: number
+          image_height?: number
+          image_width?: number
+          label?: string
+          make?: string | null
+          model?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provenance_index: {
+        Row: {
+          ahash: number | null
+          color_histogram: number[] | null
+          corpus: string
+          created_at: string
+          dhash: number | null
+          frame_index: number
+          frame_timestamp: number | null
+          id: string
+          match_type: string
+          media_type: string
+          phash: number
+          phash_seg0: number | null
+          phash_seg1: number | null
+          phash_seg2: number | null
+          phash_seg3: number | null
+          published_at: string | null
+          source_id: string
+          source_label: string
+        }
+        Insert: {
+          ahash?: number | null
+          color_histogram?: number[] | null
+          corpus: string
+          created_at?: string
+          dhash?: number | null
+          frame_index?: number
+          frame_timestamp?: number | null
+          id?: string
+          match_type?: string
+          media_type?: string
+          phash: number
+          phash_seg0?: never
+          phash_seg1?: never
+          phash_seg2?: never
+          phash_seg3?: never
+          published_at?: string | null
+          source_id: string
+          source_label: string
+        }
+        Update: {
+          ahash?: number | null
+          color_histogram?: number[] | null
+          corpus?: string
+          created_at?: string
+          dhash?: number | null
+          frame_index?: number
+          frame_timestamp?: number | null
+          id?: string
+          match_type?: string
+          media_type?: string
+          phash?: number
+          phash_seg0?: never
+          phash_seg1?: never
+          phash_seg2?: never
+          phash_seg3?: never
+          published_at?: string | null
+          source_id?: string
+          source_label?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_provenance_index: {
+        Args: {
+          match_limit?: number
+          max_distance?: number
+          query_hashes: string[]
+        }
+        Returns: {
+          corpus: string
+          distance: number
+          frame_timestamp: number
+          id: string
+          match_type: string
+          media_type: string
+          published_at: string
+          source_id: string
+          source_label: string
+        }[]
+      }
+      sweep_analysis_jobs: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,166 @@
+/**
+ * Adversarial Perturbations
+ * Pixel-level perturbation library used by the adversarial stress tester:
+ * high-frequency noise, per-channel colour shifts, compression injection
+ * and a gradient-free square attack against any black-box scorer.
+ */
+
+import {
+  createImage,
+  decodeDataUrl,
+  encodeImage,
+  gaussianBlur,
+  seededRandom,
+  type RGBAImage,
+} from "@/lib/imageProcessing";
+
+/**
+ * Band-limited noise concentrated in the highest spatial frequencies:
+ * white noise minus its own Gaussian low-pass, scaled to `epsilon`
+ * (0-255 units, L-infinity). Targets detectors keyed on spectral artifacts.
+ */
+export function highFrequencyNoise(img: RGBAImage, epsilon: number, seed = 1): RGBAImage {
+  const rand = seededRandom(seed);
+  const noise = createImage(img.width, img.height);
+  for (let p = 0; p < noise.data.length; p += 4) {
+    noise.data[p] = noise.data[p + 1] = noise.data[p + 2] = rand() * 255;
+    noise.data[p + 3] = 255;
+  }
+  const lowPass = gaussianBlur(noise, 1.5);
+
+  const out = createImage(img.width, img.height);
+  for (let p = 0; p < img.data.length; p += 4) {
+    // High-pass residual lies roughly in [-128, 128]
+    const hp = (noise.data[p] - lowPass.data[p]) / 128;
+    const delta = Math.max(-1, Math.min(1, hp)) * epsilon;
+    out.data[p] = img.data[p] + delta;
+    out.data[p + 1] = img.data[p + 1] + delta;
+    out.data[p + 2] = img.data[p + 2] + delta;
+    out.data[p + 3] = img.data[p + 3];
+  }
+  return out;
+}
+
+/**
+ * Per-channel gain and offset, e.g. `[{ gain: 1.02, offset: -3 }, ...]`
+ * for R, G and B.
+ */
+export function channelShift(
+  img: RGBAImage,
+  channels: [{ gain: number; offset: number }, { gain: number; offset: number }, { gain: number; offset: number }]
+): RGBAImage {
+  const out = createImage(img.width, img.height);
+  for (let p = 0; p < img.data.length; p += 4) {
+    for (let c = 0; c < 3; c++) {
+      out.data[p + c] = img.data[p + c] * channels[c].gain + channels[c].offset;
+    }
+    out.data[p + 3] = img.data[p + 3];
+  }
+  return out;
+}
+
+/**
+ * Round-trip through the browser's JPEG encoder at `quality` (0-1).
+ * Returns both the decoded pixels and the encoded bytes as a data URL.
+ */
+export async function compressionInjection(
+  img: RGBAImage,
+  quality: number
+): Promise<{ image: RGBAImage; dataUrl: string }> {
+  const dataUrl = encodeImage(img, "image/jpeg", quality);
+  return { image: await decodeDataUrl(dataUrl), dataUrl };
+}
+
+export interface SquareAttackOptions {
+  /** L-infinity budget in 0-255 units. */
+  epsilon: number;
+  /** Number of scorer queries after initialisation. */
+  iterations: number;
+  seed?: number;
+  /** Initial fraction of pixels covered by each square; decays over the run. */
+  initialFraction?: number;
+}
+
+export interface SquareAttackResult {
+  image: RGBAImage;
+  /** Objective value of the returned image; lower is better for the attacker. */
+  objective: number;
+  queries: number;
+  acceptedSteps: number;
+}
+
+/**
+ * Random-search square attack (Andriushchenko et al., 2020) under an
+ * L-infinity budget. Each step proposes ±epsilon per channel inside a
+ * random square and keeps it only when `objective` decreases. Needs no
+ * gradients, only black-box queries.
+ */
+export function squareAttack(
+  img: RGBAImage,
+  objective: (candidate: RGBAImage) => number,
+  options: SquareAttackOptions
+): SquareAttackResult {
+  const { epsilon, iterations, seed = 1, initialFraction = 0.1 } = options;
+  const rand = seededRandom(seed);
+  const { width, height } = img;
+  const sign = () => (rand() < 0.5 ? -epsilon : epsilon);
+
+  // Initialise with vertical stripes, as in the reference attack
+  const delta = new Float32Array(width * height * 3);
+  for (let x = 0; x < width; x++) {
+    const s = [sign(), sign(), sign()];
+    for (let y = 0; y < height; y++) {
+      const d = (y * width + x) * 3;
+      delta[d] = s[0];
+      delta[d + 1] = s[1];
+      delta[d + 2] = s[2];
+    }
+  }
+
+  const apply = (perturbation: Float32Array): RGBAImage => {
+    const out = createImage(width, height);
+    for (let i = 0, p = 0, d = 0; i < width * height; i++, p += 4, d += 3) {
+      out.data[p] = img.data[p] + perturbation[d];
+      out.data[p + 1] = img.data[p + 1] + perturbation[d + 1];
+      out.data[p + 2] = img.data[p + 2] + perturbation[d + 2];
+      out.data[p + 3] = img.data[p + 3];
+    }
+    return out;
+  };
+
+  let best = apply(delta);
+  let bestObjective = objective(best);
+  let queries = 1;
+  let acceptedSteps = 0;
+
+  for (let step = 0; step < iterations; step++) {
+    // Square side shrinks as the attack progresses
+    const fraction = initialFraction * Math.pow(0.5, Math.floor((step / Math.max(1, iterations)) * 4));
+    const side = Math.max(1, Math.min(width, height, Math.round(Math.sqrt(fraction * width * height))));
+    const x0 = Math.floor(rand() * (width - side + 1));
+    const y0 = Math.floor(rand() * (height - side + 1));
+    const s = [sign(), sign(), sign()];
+
+    const candidateDelta = new Float32Array(delta);
+    for (let y = y0; y < y0 + side; y++) {
+      for (let x = x0; x < x0 + side; x++) {
+        const d = (y * width + x) * 3;
+        candidateDelta[d] = s[0];
+        candidateDelta[d + 1] = s[1];
+        candidateDelta[d + 2] = s[2];
+      }
+    }
+
+    const candidate = apply(candidateDelta);
+    const value = objective(candidate);
+    queries++;
+    if (value < bestObjective) {
+      bestObjective = value;
+      best = candidate;
+      delta.set(candidateDelta);
+      acceptedSteps++;
+    }
+  }
+
+  return { image: best, objective: bestObjective, queries, acceptedSteps };
+}
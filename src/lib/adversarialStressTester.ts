@@ -1,9 +1,18 @@
 /**
  * Adversarial Stress Tester
- * Simulates lightweight adversarial perturbations and measures detection drift.
+ * Applies real pixel-level adversarial perturbations to the uploaded image,
+ * re-scores each perturbed copy with the local heuristic detectors and
+ * reports the measured detection drift.
  */
 
-import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { decodeImageFile, encodeImage } from "@/lib/imageProcessing";
+import { scoreImage } from "@/lib/localDetectors";
+import {
+  channelShift,
+  compressionInjection,
+  highFrequencyNoise,
+  squareAttack,
+} from "@/lib/adversarialPerturbations";
 
 export interface AdversarialPerturbation {
   name: string;
@@ -12,6 +21,10 @@ export interface AdversarialPerturbation {
   adversarialScore: number;
   drift: number;
   status: "robust" | "moderate" | "unstable";
+  /** Perturbed image exactly as it was scored, for download. */
+  sampleDataUrl: string;
+  /** Detector queries spent; 1 for single-shot perturbations. */
+  queries: number;
 }
 
 export interface AdversarialResult {
@@ -19,51 +32,116 @@ export interface AdversarialResult {
   overallStability: "robust" | "moderate" | "unstable";
   averageDrift: number;
   adversarialStabilityScore: number;
+  /** Resolution the perturbations were applied and scored at. */
+  width: number;
+  height: number;
 }
 
-function simulatePerturbation(
-  baseScore: number,
-  perturbationStrength: number,
-  seed: number
-): number {
-  // Deterministic pseudo-random drift based on seed
-  const noise = Math.sin(seed * 127.1 + baseScore * 311.7) * 0.5 + 0.5;
-  const drift = noise * perturbationStrength;
-  const direction = Math.cos(seed * 43758.5453) > 0 ? 1 : -1;
-  return Math.max(0, Math.min(1, baseScore + direction * drift));
+export interface AdversarialStressOptions {
+  /** Scorer queries for the square attack. */
+  attackIterations?: number;
+  seed?: number;
 }
 
-export function runAdversarialStressTest(result: AnalysisResult): AdversarialResult {
-  const baseScore =
-    result.visualDeepfakeDetection?.visualDeepfakeProbability ??
-    (100 - result.trustScore) / 100;
-
-  const perturbationConfigs = [
-    { name: "Frequency Perturbation", description: "High-frequency noise injection targeting spectral artifacts", strength: 0.08 },
-    { name: "Color Shift Noise", description: "Subtle color channel perturbation across RGB planes", strength: 0.06 },
-    { name: "Pixel Gradient Attack", description: "Gradient-based pixel-level adversarial perturbation", strength: 0.10 },
-    { name: "Compression Artifact Injection", description: "Simulated JPEG re-compression with quality degradation", strength: 0.05 },
-  ];
-
-  const perturbations: AdversarialPerturbation[] = perturbationConfigs.map((cfg, i) => {
-    const advScore = simulatePerturbation(baseScore, cfg.strength, i + result.trustScore);
-    const drift = Math.abs(advScore - baseScore);
+/** Longest side of the working copy; keeps the square attack interactive. */
+const MAX_WORKING_DIMENSION = 512;
+/** L-infinity budget shared by the additive perturbations (0-255 units). */
+const EPSILON = 8;
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+function driftStatus(drift: number): AdversarialPerturbation["status"] {
+  return drift < 0.05 ? "robust" : drift < 0.15 ? "moderate" : "unstable";
+}
+
+export async function runAdversarialStressTest(
+  file: Blob,
+  options: AdversarialStressOptions = {}
+): Promise<AdversarialResult> {
+  const { attackIterations = 150, seed = 1 } = options;
+  const image = await decodeImageFile(file, MAX_WORKING_DIMENSION);
+  const baseScore = scoreImage(image).fakeProbability;
+
+  const measure = (
+    name: string,
+    description: string,
+    perturbedScore: number,
+    sampleDataUrl: string,
+    queries = 1
+  ): AdversarialPerturbation => {
+    const drift = Math.abs(perturbedScore - baseScore);
     return {
-      name: cfg.name,
-      description: cfg.description,
-      originalScore: Math.round(baseScore * 100) / 100,
-      adversarialScore: Math.round(advScore * 100) / 100,
-      drift: Math.round(drift * 100) / 100,
-      status: drift < 0.05 ? "robust" : drift < 0.15 ? "moderate" : "unstable",
+      name,
+      description,
+      originalScore: round2(baseScore),
+      adversarialScore: round2(perturbedScore),
+      drift: round2(drift),
+      status: driftStatus(drift),
+      sampleDataUrl,
+      queries,
     };
-  });
+  };
+
+  const perturbations: AdversarialPerturbation[] = [];
+
+  const hfNoise = highFrequencyNoise(image, EPSILON, seed);
+  perturbations.push(measure(
+    "Frequency Perturbation",
+    `High-pass filtered noise, ±${EPSILON} levels, targeting spectral artifacts`,
+    scoreImage(hfNoise).fakeProbability,
+    encodeImage(hfNoise, "image/png")
+  ));
+
+  const shifted = channelShift(image, [
+    { gain: 1.03, offset: 3 },
+    { gain: 0.98, offset: -2 },
+    { gain: 1.02, offset: 4 },
+  ]);
+  perturbations.push(measure(
+    "Color Shift Noise",
+    "Per-channel gain/offset shift across the RGB planes",
+    scoreImage(shifted).fakeProbability,
+    encodeImage(shifted, "image/png")
+  ));
+
+  // Push the detector towards the opposite verdict with black-box queries only
+  const towardsReal = baseScore >= 0.5;
+  const attack = squareAttack(
+    image,
+    (candidate) => {
+      const p = scoreImage(candidate).fakeProbability;
+      return towardsReal ? p : 1 - p;
+    },
+    { epsilon: EPSILON, iterations: attackIterations, seed }
+  );
+  const attackScore = towardsReal ? attack.objective : 1 - attack.objective;
+  perturbations.push(measure(
+    "Square Attack",
+    `Gradient-free random-search attack, ±${EPSILON} levels, ${attack.acceptedSteps}/${attack.queries - 1} steps accepted`,
+    attackScore,
+    encodeImage(attack.image, "image/png"),
+    attack.queries
+  ));
+
+  const compressed = await compressionInjection(image, 0.6);
+  perturbations.push(measure(
+    "Compression Artifact Injection",
+    "Browser JPEG re-encode at quality 60",
+    scoreImage(compressed.image).fakeProbability,
+    compressed.dataUrl
+  ));
 
   const avgDrift = perturbations.reduce((s, p) => s + p.drift, 0) / perturbations.length;
-  const overallStability: AdversarialResult["overallStability"] =
-    avgDrift < 0.05 ? "robust" : avgDrift < 0.15 ? "moderate" : "unstable";
 
   // Stability score: 1 = perfectly robust, 0 = completely unstable
-  const adversarialStabilityScore = Math.round(Math.max(0, 1 - avgDrift * 5) * 100) / 100;
+  const adversarialStabilityScore = round2(Math.max(0, 1 - avgDrift * 5));
 
-  return { perturbations, overallStability, averageDrift: Math.round(avgDrift * 100) / 100, adversarialStabilityScore };
+  return {
+    perturbations,
+    overallStability: driftStatus(avgDrift),
+    averageDrift: round2(avgDrift),
+    adversarialStabilityScore,
+    width: image.width,
+    height: image.height,
+  };
 }
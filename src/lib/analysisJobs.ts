@@ -0,0 +1,230 @@
+/**
+ * Analysis Jobs
+ * Each analysis is a job from the moment hashing starts. The browser
+ * creates it and reports preprocessing; analyze-media takes it over on
+ * submission and runs the model in the background. This module polls
+ * analysis-jobs until the server's result is ready, completes the job
+ * with the browser's final result, and remembers the current job so a
+ * page reload can pick it up again. Finished jobs reject further writes.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { browserStore, type ResumeStore } from "@/lib/chunkedUpload";
+
+/**
+ * Hashing and preprocessing run in the browser before submission; model
+ * inference and derivation on the server; evidence generation back in
+ * the browser once the result arrives.
+ */
+export type AnalysisStage = "hashing" | "preprocessing" | "model_inference" | "derivation" | "evidence_generation";
+
+export const ANALYSIS_STAGES: { id: AnalysisStage; label: string }[] = [
+  { id: "hashing", label: "Hashing" },
+  { id: "preprocessing", label: "Preprocessing" },
+  { id: "model_inference", label: "Model inference" },
+  { id: "derivation", label: "Derivation" },
+  { id: "evidence_generation", label: "Evidence generation" },
+];
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface AnalysisJobStatus {
+  jobId: string;
+  status: JobStatus;
+  stage: AnalysisStage;
+  /**
+   * The server's result while the job waits for evidence generation, the
+   * browser's once completed. Stored results carry no data URLs.
+   */
+  result: AnalysisResult | null;
+  error: string | null;
+}
+
+export interface WaitOptions {
+  onStatus?: (job: AnalysisJobStatus) => void;
+  signal?: AbortSignal;
+  fetchStatus?: (jobId: string) => Promise<AnalysisJobStatus>;
+  /** First delay between polls; it grows by half each poll up to maxIntervalMs. */
+  intervalMs?: number;
+  maxIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 5000;
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+/** Consecutive failed status lookups tolerated before giving up. */
+const MAX_POLL_ERRORS = 3;
+const CURRENT_JOB_KEY = "deeptrust-analysis-job";
+
+// ============================================================
+// EDGE FUNCTIONS
+// ============================================================
+
+async function invokeJobs(body: Record<string, unknown>, failure: string) {
+  const { data, error } = await supabase.functions.invoke("analysis-jobs", { body });
+  if (error) throw new Error(error.message || failure);
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+/** Open a job for a file about to be hashed; resolves with its id. */
+export async function createAnalysisJob(mediaType: "image" | "video" | "audio"): Promise<string> {
+  const data = await invokeJobs({ action: "create", mediaType }, "Could not create an analysis job");
+  if (typeof data?.jobId !== "string") throw new Error("Could not create an analysis job: no job id returned");
+  return data.jobId;
+}
+
+/** Record that the browser moved on to preprocessing. */
+export async function reportPreprocessing(jobId: string): Promise<void> {
+  await invokeJobs({ action: "stage", jobId, stage: "preprocessing" }, "Could not update the analysis job");
+}
+
+/** Mark a job failed on the browser's side, e.g. when decoding fails. */
+export async function failAnalysisJob(jobId: string, message: string): Promise<void> {
+  await invokeJobs({ action: "fail", jobId, error: message.slice(0, 2000) }, "Could not update the analysis job");
+}
+
+/**
+ * Submit an analyze-media request; resolves with the job id. Requests
+ * carrying the browser's `jobId` continue that job, others get their own.
+ */
+export async function submitAnalysisJob(body: Record<string, unknown>): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("analyze-media", { body });
+  if (error) throw new Error(error.message || "Analysis failed");
+  if (data?.error) throw new Error(data.error);
+  if (typeof data?.jobId !== "string") throw new Error("Analysis failed: no job id returned");
+  return data.jobId;
+}
+
+export async function fetchAnalysisJob(jobId: string): Promise<AnalysisJobStatus> {
+  return invokeJobs({ action: "status", jobId }, "Job lookup failed");
+}
+
+/**
+ * A copy of a result without its data URLs. Overlays, spectrograms and
+ * contact sheets are pictures of the media, which is not retained.
+ */
+export function stripDataUrls<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => !(typeof item === "string" && item.startsWith("data:")))
+      .map((item) => stripDataUrls(item)) as T;
+  }
+  if (!value || typeof value !== "object") return value;
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item === "string" && item.startsWith("data:")) continue;
+    copy[key] = stripDataUrls(item);
+  }
+  return copy as T;
+}
+
+/**
+ * Complete a job with the browser's final result, the one a reload
+ * restores. Allowed once, before submission (cache hits) or after the
+ * server handed the job back for evidence generation.
+ */
+export async function completeAnalysisJob(jobId: string, result: AnalysisResult): Promise<void> {
+  await invokeJobs({ action: "complete", jobId, result: stripDataUrls(result) }, "Could not store the analysis result");
+}
+
+// ============================================================
+// POLLING
+// ============================================================
+
+function abortError(): Error {
+  return new DOMException("Analysis job polling was cancelled", "AbortError");
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** A job whose result is available: completed, or waiting for evidence generation. */
+export type ReadyAnalysisJob = AnalysisJobStatus & { result: AnalysisResult };
+
+/**
+ * Poll a job until its result is ready, resolving with the job, or until
+ * it fails. Status lookups that error are retried a few times before giving up.
+ */
+export async function waitForAnalysisJob(jobId: string, options: WaitOptions = {}): Promise<ReadyAnalysisJob> {
+  const {
+    onStatus,
+    signal,
+    fetchStatus = fetchAnalysisJob,
+    intervalMs = POLL_INTERVAL_MS,
+    maxIntervalMs = MAX_POLL_INTERVAL_MS,
+    timeoutMs = JOB_TIMEOUT_MS,
+  } = options;
+  const deadline = Date.now() + timeoutMs;
+  let delay = intervalMs;
+  let errors = 0;
+
+  for (;;) {
+    if (signal?.aborted) throw abortError();
+    let job: AnalysisJobStatus | null = null;
+    try {
+      job = await fetchStatus(jobId);
+      errors = 0;
+    } catch (err) {
+      if (++errors >= MAX_POLL_ERRORS) throw err;
+    }
+
+    if (job) {
+      onStatus?.(job);
+      if (job.status === "failed") throw new Error(job.error || "Analysis failed");
+      const ready = job.status === "completed" || job.stage === "evidence_generation";
+      if (ready) {
+        if (!job.result) throw new Error("Analysis job finished without a result");
+        return job as ReadyAnalysisJob;
+      }
+    }
+
+    if (Date.now() + delay > deadline) {
+      throw new Error(`Analysis did not finish within ${Math.round(timeoutMs / 60000)} minutes`);
+    }
+    await wait(delay, signal);
+    delay = Math.min(maxIntervalMs, delay * 1.5);
+  }
+}
+
+// ============================================================
+// CURRENT JOB
+// ============================================================
+
+/** The job a reload should restore. */
+export interface RememberedJob {
+  jobId: string;
+  fileHash: string;
+  fileName: string;
+}
+
+export function rememberJob(job: RememberedJob, store: ResumeStore | null = browserStore()): void {
+  store?.setItem(CURRENT_JOB_KEY, JSON.stringify(job));
+}
+
+export function recallJob(store: ResumeStore | null = browserStore()): RememberedJob | null {
+  try {
+    const job = JSON.parse(store?.getItem(CURRENT_JOB_KEY) ?? "null");
+    return job && typeof job.jobId === "string" && typeof job.fileHash === "string" ? job : null;
+  } catch {
+    return null;
+  }
+}
+
+export function forgetJob(store: ResumeStore | null = browserStore()): void {
+  store?.removeItem(CURRENT_JOB_KEY);
+}
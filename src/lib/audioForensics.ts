@@ -0,0 +1,657 @@
+/**
+ * Synthetic Speech Forensics
+ * Measures acoustic features of a decoded soundtrack that separate recorded
+ * speech from text-to-speech and voice-cloning output: spectral flatness,
+ * pitch jitter and shimmer, STFT phase coherence, the high-frequency band
+ * limit, and the silence and breath pattern of pauses. Features that look
+ * synthetic become indicators, the indicators combine into a
+ * synthetic-speech probability, and one-second windows where they
+ * concentrate become anomaly segments in seconds.
+ */
+
+import type { AnomalyRegion, ModalityScore } from "@/hooks/useMediaAnalysis";
+import type { DecodedAudio } from "@/lib/audioTrack";
+import { fft } from "@/lib/spectralAnalysis";
+
+export type SyntheticSpeechIndicatorId =
+  | "digital_silence"
+  | "flat_noise_floor"
+  | "stable_pitch"
+  | "stable_amplitude"
+  | "phase_incoherence"
+  | "band_limit"
+  | "missing_breaths";
+
+export interface SyntheticSpeechIndicator {
+  id: SyntheticSpeechIndicatorId;
+  /** 0–1, how strongly the measurement points to synthesis. */
+  strength: number;
+  detail: string;
+}
+
+export interface AcousticFeatures {
+  /** Mean Wiener entropy of voiced frames, 100 Hz–4 kHz. */
+  spectralFlatness: number;
+  /** Mean flatness of the noise between words; null when every pause is digital silence. */
+  noiseFloorFlatness: number | null;
+  noiseFloorDb: number | null;
+  meanPitchHz: number | null;
+  /** Median relative period deviation of a voiced frame from its neighbours' mean. */
+  jitter: number | null;
+  /** Median level deviation of a voiced frame from its neighbours' mean, in dB. */
+  shimmerDb: number | null;
+  /** Median frame-to-frame agreement of the harmonics' phases relative to the fundamental, -1–1. */
+  phaseCoherence: number | null;
+  /** Frequency of the steepest drop in the long-term spectrum. */
+  cutoffHz: number;
+  /** Steepness of that drop in dB per kHz. */
+  cutoffSharpness: number;
+  pauseCount: number;
+  /** Share of pause time that is digital silence. */
+  digitalSilenceRatio: number;
+  breathCount: number;
+}
+
+export interface AudioForensicSegment {
+  /** Seconds. */
+  start: number;
+  end: number;
+  severity: "low" | "medium" | "high";
+  reasons: string[];
+}
+
+export interface AudioForensicsAnalysis {
+  /** Seconds analysed; long tracks are cut at MAX_ANALYSIS_SECONDS. */
+  duration: number;
+  truncated: boolean;
+  speechSeconds: number;
+  /** False when there is too little voiced speech to judge. */
+  speechDetected: boolean;
+  features: AcousticFeatures;
+  indicators: SyntheticSpeechIndicator[];
+  /** 0–1 likelihood of TTS or voice-cloning output. */
+  syntheticProbability: number;
+  segments: AudioForensicSegment[];
+}
+
+const MAX_ANALYSIS_SECONDS = 180;
+const FRAME_HOP_SECONDS = 0.01;
+/** Hann window of about 23 ms. */
+const FRAME_SECONDS = 0.023;
+const DIGITAL_SILENCE_DB = -90;
+/** Speech sits at least this far above the quietest frames... */
+const SPEECH_MARGIN_DB = 12;
+/** ...and no further than this below the loudest. */
+const SPEECH_RANGE_DB = 40;
+const MIN_PAUSE_SECONDS = 0.15;
+const MIN_SPEECH_SECONDS = 1;
+
+const PITCH_RATE = 11025;
+const PITCH_WINDOW_SECONDS = 0.025;
+const MIN_F0 = 60;
+const MAX_F0 = 400;
+const YIN_THRESHOLD = 0.15;
+const MAX_VOICED_CMND = 0.3;
+const MAX_HARMONICS = 20;
+const HARMONIC_MAX_HZ = 4000;
+
+/** Pitch and level deviations below these floors are steadier than human voices. */
+const JITTER_FLOOR = 0.001;
+const SHIMMER_FLOOR_DB = 0.1;
+/** Recorded voices keep their harmonics phase-locked to the fundamental between frames. */
+const PHASE_COHERENCE_FLOOR = 0.5;
+/** A single periodogram of white noise has flatness e^-γ ≈ 0.56. */
+const WHITE_FLOOR_FLATNESS = 0.45;
+const SHARP_CUTOFF_DB_PER_KHZ = 25;
+/** Nyquist frequencies of the sample rates TTS vocoders render at. */
+const SYNTHESIS_BAND_LIMITS = [8000, 11025, 12000];
+
+const WINDOW_SECONDS = 1;
+const WINDOW_STEP_SECONDS = 0.5;
+const SEGMENT_THRESHOLD = 0.5;
+const HIGH_SEGMENT_THRESHOLD = 0.75;
+const NOISE_FLOOR_JUMP_DB = 10;
+
+const INDICATOR_WEIGHTS: Record<SyntheticSpeechIndicatorId, number> = {
+  digital_silence: 0.55,
+  phase_incoherence: 0.4,
+  stable_pitch: 0.35,
+  band_limit: 0.3,
+  missing_breaths: 0.25,
+  stable_amplitude: 0.2,
+  flat_noise_floor: 0.2,
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const princarg = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+}
+
+// ============================================================
+// FRAME FEATURES
+// ============================================================
+
+export interface AudioFrame {
+  /** Seconds at the frame centre. */
+  time: number;
+  levelDb: number;
+  digital: boolean;
+  flatness: number;
+  /** Pitch period in seconds; null when unvoiced. */
+  period: number | null;
+  /** Phase coherence with the previous frame; null unless both are voiced. */
+  coherence: number | null;
+}
+
+/** Box-filter decimation to roughly PITCH_RATE; pitch needs nothing above 2 kHz. */
+function decimate(samples: Float32Array, factor: number): Float32Array {
+  const out = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < out.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    out[i] = sum / factor;
+  }
+  return out;
+}
+
+/**
+ * YIN pitch period (in samples, sub-sample) of the window starting at
+ * `start`, or null when the cumulative-mean-normalised difference never
+ * dips low enough to call the frame voiced.
+ */
+export function yinPeriod(x: Float32Array, start: number, window: number, minLag: number, maxLag: number): number | null {
+  if (start < 0 || start + window + maxLag + 1 > x.length) return null;
+  const cmnd = new Float64Array(maxLag + 2);
+  cmnd[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxLag + 1; tau++) {
+    let d = 0;
+    for (let j = 0; j < window; j++) {
+      const diff = x[start + j] - x[start + j + tau];
+      d += diff * diff;
+    }
+    running += d;
+    cmnd[tau] = running > 0 ? (d * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = minLag; t <= maxLag; t++) {
+    if (cmnd[t] < YIN_THRESHOLD) {
+      while (t + 1 <= maxLag && cmnd[t + 1] < cmnd[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau < 0) {
+    tau = minLag;
+    for (let t = minLag + 1; t <= maxLag; t++) if (cmnd[t] < cmnd[tau]) tau = t;
+  }
+  if (cmnd[tau] > MAX_VOICED_CMND) return null;
+
+  // Parabolic interpolation around the dip
+  const [a, b, c] = [cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]];
+  const denom = a - 2 * b + c;
+  return denom > 0 ? tau + (0.5 * (a - c)) / denom : tau;
+}
+
+function windowedSpectrum(
+  samples: Float32Array,
+  centre: number,
+  hann: Float32Array,
+  re: Float64Array,
+  im: Float64Array,
+): void {
+  const n = hann.length;
+  const start = centre - n / 2;
+  for (let i = 0; i < n; i++) {
+    const s = start + i;
+    re[i] = s >= 0 && s < samples.length ? samples[s] * hann[i] : 0;
+    im[i] = 0;
+  }
+  fft(re, im);
+}
+
+/** Wiener entropy (geometric / arithmetic mean) of power bins [k0, k1). */
+function flatness(power: Float64Array, k0: number, k1: number): number {
+  let logSum = 0;
+  let sum = 0;
+  for (let k = k0; k < k1; k++) {
+    logSum += Math.log(power[k] + 1e-20);
+    sum += power[k] + 1e-20;
+  }
+  const n = k1 - k0;
+  return n > 0 ? Math.exp(logSum / n) / (sum / n) : 0;
+}
+
+interface HarmonicPhases {
+  /** Relative phase shift of harmonic h + 1; index 0 is the fundamental itself. */
+  rps: Float64Array;
+  magnitude: Float64Array;
+}
+
+/**
+ * Relative phase shift of each harmonic against the fundamental,
+ * φ_h − h·φ_1, read at the frame centre. It depends only on the shape of
+ * the glottal pulse, so in recorded speech it drifts slowly from frame to
+ * frame; vocoders that estimate or reset phase per frame scramble it.
+ */
+function harmonicPhases(re: Float64Array, im: Float64Array, magnitude: Float64Array, f0: number, binHz: number): HarmonicPhases {
+  const count = Math.max(1, Math.min(MAX_HARMONICS, Math.floor(HARMONIC_MAX_HZ / f0)));
+  const rps = new Float64Array(count);
+  const mags = new Float64Array(count);
+  let fundamental = 0;
+  for (let h = 1; h <= count; h++) {
+    const nominal = Math.round((h * f0) / binHz);
+    let k = nominal;
+    for (const c of [nominal - 1, nominal + 1]) if (c > 0 && c < magnitude.length && magnitude[c] > magnitude[k]) k = c;
+    // The window starts half a frame before the centre; shifting it there adds πk
+    const phase = Math.atan2(im[k], re[k]) + Math.PI * k;
+    if (h === 1) fundamental = phase;
+    rps[h - 1] = princarg(phase - h * fundamental);
+    mags[h - 1] = magnitude[k];
+  }
+  return { rps, magnitude: mags };
+}
+
+/** Magnitude-weighted agreement of the relative phase shifts of two consecutive frames. */
+function phaseCoherence(a: HarmonicPhases, b: HarmonicPhases): number | null {
+  const count = Math.min(a.rps.length, b.rps.length);
+  let weighted = 0;
+  let total = 0;
+  for (let h = 1; h < count; h++) {
+    const m = Math.min(a.magnitude[h], b.magnitude[h]);
+    weighted += m * Math.cos(princarg(a.rps[h] - b.rps[h]));
+    total += m;
+  }
+  return total > 0 ? weighted / total : null;
+}
+
+/**
+ * Per-frame level, flatness, pitch and phase coherence on a 10 ms grid,
+ * plus the long-term power spectrum of the voiced frames.
+ */
+export function measureFrames(
+  samples: Float32Array,
+  sampleRate: number,
+): { frames: AudioFrame[]; ltas: Float64Array; fftSize: number; speechThresholdDb: number } {
+  const hop = Math.max(1, Math.round(sampleRate * FRAME_HOP_SECONDS));
+  const fftSize = 2 ** Math.ceil(Math.log2(sampleRate * FRAME_SECONDS));
+  const bins = fftSize / 2 + 1;
+  const hann = Float32Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / fftSize));
+  const binHz = sampleRate / fftSize;
+  const k0 = Math.max(1, Math.round(100 / binHz));
+  const k1 = Math.min(bins - 1, Math.round(4000 / binHz));
+  const count = Math.floor(samples.length / hop) + 1;
+
+  // Pass 1: levels and the speech threshold
+  const levels = new Float64Array(count);
+  for (let f = 0; f < count; f++) {
+    const start = f * hop - fftSize / 2;
+    let sum = 0;
+    let n = 0;
+    for (let i = Math.max(0, start); i < Math.min(samples.length, start + fftSize); i++) {
+      sum += samples[i] * samples[i];
+      n++;
+    }
+    levels[f] = 10 * Math.log10((n > 0 ? sum / n : 0) + 1e-20);
+  }
+  const sortedLevels = Array.from(levels, (l) => Math.max(l, DIGITAL_SILENCE_DB - 10)).sort((a, b) => a - b);
+  // Continuous speech has no quiet frames, so never gate above the loudest few
+  const speechThresholdDb = Math.min(
+    Math.max(percentile(sortedLevels, 0.1) + SPEECH_MARGIN_DB, percentile(sortedLevels, 0.95) - SPEECH_RANGE_DB),
+    percentile(sortedLevels, 0.95) - 6,
+  );
+
+  // Pass 2: spectra everywhere, pitch and phase only where someone could be speaking
+  const factor = Math.max(1, Math.round(sampleRate / PITCH_RATE));
+  const low = decimate(samples, factor);
+  const pitchRate = sampleRate / factor;
+  const pitchWindow = Math.round(PITCH_WINDOW_SECONDS * pitchRate);
+  const minLag = Math.floor(pitchRate / MAX_F0);
+  const maxLag = Math.ceil(pitchRate / MIN_F0);
+
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const power = new Float64Array(bins);
+  const magnitude = new Float64Array(bins);
+  const ltas = new Float64Array(bins);
+
+  const frames: AudioFrame[] = [];
+  let previous: HarmonicPhases | null = null;
+  for (let f = 0; f < count; f++) {
+    const centre = f * hop;
+    windowedSpectrum(samples, centre, hann, re, im);
+    for (let k = 0; k < bins; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      magnitude[k] = Math.sqrt(power[k]);
+    }
+
+    let period: number | null = null;
+    let coherence: number | null = null;
+    if (levels[f] >= speechThresholdDb) {
+      const lag = yinPeriod(low, Math.floor(centre / factor) - ((pitchWindow + maxLag) >> 1), pitchWindow, minLag, maxLag);
+      if (lag !== null) {
+        period = lag / pitchRate;
+        const current = harmonicPhases(re, im, magnitude, 1 / period, binHz);
+        if (previous) coherence = phaseCoherence(previous, current);
+        previous = current;
+        for (let k = 0; k < bins; k++) ltas[k] += power[k];
+      }
+    }
+    if (period === null) previous = null;
+
+    frames.push({
+      time: centre / sampleRate,
+      levelDb: levels[f],
+      digital: levels[f] < DIGITAL_SILENCE_DB,
+      flatness: flatness(power, k0, k1),
+      period,
+      coherence,
+    });
+  }
+  return { frames, ltas, fftSize, speechThresholdDb };
+}
+
+// ============================================================
+// FEATURE SUMMARIES
+// ============================================================
+
+/**
+ * Steepest 1 kHz drop in the long-term spectrum above 3 kHz. The cutoff is
+ * the last bin of that span still within 10 dB of the level before it.
+ */
+export function findBandLimit(ltas: Float64Array, sampleRate: number): { cutoffHz: number; sharpness: number } {
+  const fftSize = (ltas.length - 1) * 2;
+  const binHz = sampleRate / fftSize;
+  const db = Array.from(ltas, (p) => 10 * Math.log10(p + 1e-20));
+  const half = Math.max(1, Math.round(500 / binHz));
+  let best = -1;
+  let sharpness = 0;
+  for (let k = Math.round(3000 / binHz); k + half < Math.round((0.9 * sampleRate) / 2 / binHz); k++) {
+    const drop = (db[k - half] - db[k + half]) / ((2 * half * binHz) / 1000);
+    if (drop > sharpness) [best, sharpness] = [k, drop];
+  }
+  if (best < 0) return { cutoffHz: sampleRate / 2, sharpness: 0 };
+  let edge = best + half;
+  while (edge > best - half && db[edge] < db[best - half] - 10) edge--;
+  return { cutoffHz: edge * binHz, sharpness };
+}
+
+/** Relative deviation of each voiced value from the mean of its voiced neighbours. */
+function localDeviations(frames: AudioFrame[], value: (f: AudioFrame) => number, relative: boolean): number[] {
+  const out: number[] = [];
+  for (let i = 1; i + 1 < frames.length; i++) {
+    const [a, b, c] = [frames[i - 1], frames[i], frames[i + 1]];
+    if (a.period === null || b.period === null || c.period === null) continue;
+    // Octave errors are tracking failures, not jitter
+    if (Math.max(a.period, b.period, c.period) > 1.2 * Math.min(a.period, b.period, c.period)) continue;
+    const expected = (value(a) + value(c)) / 2;
+    const dev = Math.abs(value(b) - expected);
+    out.push(relative ? dev / value(b) : dev);
+  }
+  return out;
+}
+
+interface Pause {
+  start: number;
+  end: number;
+  frames: AudioFrame[];
+  digitalRatio: number;
+  floorDb: number | null;
+  flatness: number | null;
+  breaths: number;
+}
+
+/**
+ * Gaps of MIN_PAUSE_SECONDS or longer between voiced stretches. A breath
+ * is a 0.1–0.8 s unvoiced rise above the pause's floor that does not touch
+ * the neighbouring speech.
+ */
+function findPauses(frames: AudioFrame[]): Pause[] {
+  const voiced = frames.map((f, i) => (f.period !== null ? i : -1)).filter((i) => i >= 0);
+  const pauses: Pause[] = [];
+  for (let v = 1; v < voiced.length; v++) {
+    const [from, to] = [voiced[v - 1] + 1, voiced[v]];
+    if (to - from < MIN_PAUSE_SECONDS / FRAME_HOP_SECONDS) continue;
+    const inside = frames.slice(from, to);
+    const analogue = inside.filter((f) => !f.digital);
+    const sorted = analogue.map((f) => f.levelDb).sort((a, b) => a - b);
+    const floorDb = sorted.length > 0 ? percentile(sorted, 0.25) : null;
+
+    let breaths = 0;
+    if (floorDb !== null) {
+      const edge = Math.round(0.05 / FRAME_HOP_SECONDS);
+      let run = 0;
+      for (let i = 0; i <= inside.length; i++) {
+        if (i < inside.length && inside[i].levelDb >= floorDb + 6) {
+          run++;
+          continue;
+        }
+        const seconds = run * FRAME_HOP_SECONDS;
+        if (run > 0 && seconds >= 0.1 && seconds <= 0.8 && i - run >= edge && inside.length - i >= edge) breaths++;
+        run = 0;
+      }
+    }
+
+    pauses.push({
+      start: inside[0].time,
+      end: inside[inside.length - 1].time + FRAME_HOP_SECONDS,
+      frames: inside,
+      digitalRatio: 1 - analogue.length / inside.length,
+      floorDb,
+      flatness: analogue.length > 0 ? analogue.reduce((s, f) => s + f.flatness, 0) / analogue.length : null,
+      breaths,
+    });
+  }
+  return pauses;
+}
+
+function summarize(frames: AudioFrame[], pauses: Pause[], band: { cutoffHz: number; sharpness: number }): AcousticFeatures {
+  const voiced = frames.filter((f) => f.period !== null);
+  const pauseFrames = pauses.reduce((s, p) => s + p.frames.length, 0);
+  const digitalFrames = pauses.reduce((s, p) => s + p.digitalRatio * p.frames.length, 0);
+  const floors = pauses.map((p) => p.floorDb).filter((v): v is number => v !== null);
+  const floorFlatness = pauses.map((p) => p.flatness).filter((v): v is number => v !== null);
+  const jitter = median(localDeviations(frames, (f) => f.period!, true));
+  const shimmer = median(localDeviations(frames, (f) => f.levelDb, false));
+  const coherence = median(voiced.map((f) => f.coherence).filter((v): v is number => v !== null));
+  const pitch = median(voiced.map((f) => 1 / f.period!));
+
+  return {
+    spectralFlatness: round(voiced.length > 0 ? voiced.reduce((s, f) => s + f.flatness, 0) / voiced.length : 0, 4),
+    noiseFloorFlatness: floorFlatness.length > 0 ? round(floorFlatness.reduce((a, b) => a + b, 0) / floorFlatness.length, 3) : null,
+    noiseFloorDb: floors.length > 0 ? round(median(floors)!, 1) : null,
+    meanPitchHz: pitch !== null ? round(pitch, 1) : null,
+    jitter: jitter !== null ? round(jitter, 5) : null,
+    shimmerDb: shimmer !== null ? round(shimmer, 3) : null,
+    phaseCoherence: coherence !== null ? round(coherence, 3) : null,
+    cutoffHz: Math.round(band.cutoffHz),
+    cutoffSharpness: round(band.sharpness, 1),
+    pauseCount: pauses.length,
+    digitalSilenceRatio: round(pauseFrames > 0 ? digitalFrames / pauseFrames : 0, 3),
+    breathCount: pauses.reduce((s, p) => s + p.breaths, 0),
+  };
+}
+
+// ============================================================
+// INDICATORS & SCORING
+// ============================================================
+
+const pitchStrength = (jitter: number) => logistic((JITTER_FLOOR - jitter) / (JITTER_FLOOR * 0.2));
+const amplitudeStrength = (shimmerDb: number) => logistic((SHIMMER_FLOOR_DB - shimmerDb) / (SHIMMER_FLOOR_DB * 0.2));
+const phaseStrength = (coherence: number) => logistic((PHASE_COHERENCE_FLOOR - coherence) / 0.08);
+
+export function speechIndicators(features: AcousticFeatures, speechSeconds: number): SyntheticSpeechIndicator[] {
+  const f = features;
+  const indicators: SyntheticSpeechIndicator[] = [];
+  const add = (id: SyntheticSpeechIndicatorId, strength: number, detail: string) => {
+    if (strength >= 0.05) indicators.push({ id, strength: round(strength, 2), detail });
+  };
+
+  if (f.pauseCount >= 2) {
+    add("digital_silence", clamp01((f.digitalSilenceRatio - 0.2) / 0.6),
+      `${Math.round(f.digitalSilenceRatio * 100)}% of the pause time is digital silence with no room tone`);
+  }
+  if (f.noiseFloorFlatness !== null) {
+    add("flat_noise_floor", clamp01((f.noiseFloorFlatness - WHITE_FLOOR_FLATNESS) / 0.1),
+      `Noise between words is spectrally white (flatness ${f.noiseFloorFlatness})`);
+  }
+  if (f.jitter !== null) {
+    add("stable_pitch", pitchStrength(f.jitter),
+      `Pitch jitter ${(f.jitter * 100).toFixed(2)}% is below the ${(JITTER_FLOOR * 100).toFixed(1)}% of natural voices`);
+  }
+  if (f.shimmerDb !== null) {
+    add("stable_amplitude", amplitudeStrength(f.shimmerDb),
+      `Shimmer ${f.shimmerDb.toFixed(2)} dB is below the ${SHIMMER_FLOOR_DB} dB of natural voices`);
+  }
+  if (f.phaseCoherence !== null) {
+    add("phase_incoherence", phaseStrength(f.phaseCoherence),
+      `Harmonic phase coherence ${f.phaseCoherence} (recorded speech ≥ ${PHASE_COHERENCE_FLOOR})`);
+  }
+  const limit = SYNTHESIS_BAND_LIMITS.find((hz) => Math.abs(f.cutoffHz - hz) <= hz * 0.04);
+  if (limit && f.cutoffSharpness >= SHARP_CUTOFF_DB_PER_KHZ) {
+    add("band_limit", clamp01(f.cutoffSharpness / (2 * SHARP_CUTOFF_DB_PER_KHZ)),
+      `Spectrum stops abruptly at ${(f.cutoffHz / 1000).toFixed(1)} kHz (${f.cutoffSharpness} dB/kHz), as audio rendered at ${(limit * 2 / 1000).toFixed(limit === 11025 ? 2 : 0)} kHz would`);
+  }
+  if (speechSeconds >= 10 && f.pauseCount >= 4 && f.breathCount === 0) {
+    add("missing_breaths", 1, `No breath in ${f.pauseCount} pauses over ${Math.round(speechSeconds)} s of speech`);
+  }
+  return indicators.sort((a, b) => INDICATOR_WEIGHTS[b.id] * b.strength - INDICATOR_WEIGHTS[a.id] * a.strength);
+}
+
+/** Noisy-OR of the weighted indicators. */
+export function syntheticSpeechProbability(indicators: SyntheticSpeechIndicator[]): number {
+  return 1 - indicators.reduce((p, i) => p * (1 - INDICATOR_WEIGHTS[i.id] * i.strength), 1);
+}
+
+// ============================================================
+// SEGMENTS
+// ============================================================
+
+function mergeSegments(segments: AudioForensicSegment[]): AudioForensicSegment[] {
+  const rank = { low: 0, medium: 1, high: 2 } as const;
+  const merged: AudioForensicSegment[] = [];
+  for (const s of [...segments].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && s.start <= last.end) {
+      last.end = Math.max(last.end, s.end);
+      if (rank[s.severity] > rank[last.severity]) last.severity = s.severity;
+      last.reasons = [...new Set([...last.reasons, ...s.reasons])];
+    } else {
+      merged.push({ ...s, reasons: [...s.reasons] });
+    }
+  }
+  return merged.map((s) => ({ ...s, start: round(s.start, 2), end: round(s.end, 2) }));
+}
+
+/**
+ * One-second windows whose voiced frames are steadier or less phase
+ * coherent than a human voice, digital-silence gaps in an otherwise
+ * room-toned recording, and jumps in the noise floor between pauses.
+ */
+function findSegments(frames: AudioFrame[], pauses: Pause[], duration: number): AudioForensicSegment[] {
+  const segments: AudioForensicSegment[] = [];
+  const perWindow = Math.round(WINDOW_SECONDS / FRAME_HOP_SECONDS);
+  const step = Math.round(WINDOW_STEP_SECONDS / FRAME_HOP_SECONDS);
+  for (let w = 0; w + perWindow <= frames.length || (w === 0 && frames.length > 0); w += step) {
+    const win = frames.slice(w, w + perWindow);
+    const jitters = localDeviations(win, (f) => f.period!, true);
+    if (jitters.length < 20) continue;
+    const shimmers = localDeviations(win, (f) => f.levelDb, false);
+    const coherence = median(win.map((f) => f.coherence).filter((v): v is number => v !== null));
+    const parts: [string, number, number][] = [
+      ["steady pitch", INDICATOR_WEIGHTS.stable_pitch, pitchStrength(median(jitters)!)],
+      ["steady amplitude", INDICATOR_WEIGHTS.stable_amplitude, amplitudeStrength(median(shimmers)!)],
+      ["incoherent phase", INDICATOR_WEIGHTS.phase_incoherence, coherence !== null ? phaseStrength(coherence) : 0],
+    ];
+    const score = parts.reduce((s, [, weight, strength]) => s + weight * strength, 0)
+      / parts.reduce((s, [, weight]) => s + weight, 0);
+    if (score < SEGMENT_THRESHOLD) continue;
+    segments.push({
+      start: win[0].time,
+      end: Math.min(duration, win[win.length - 1].time + FRAME_HOP_SECONDS),
+      severity: score >= HIGH_SEGMENT_THRESHOLD ? "high" : "medium",
+      reasons: parts.filter(([, , strength]) => strength >= 0.5).map(([reason]) => reason),
+    });
+  }
+
+  const roomTone = pauses.some((p) => p.digitalRatio < 0.2);
+  for (const p of pauses) {
+    if (p.digitalRatio >= 0.8 && roomTone) {
+      segments.push({ start: p.start, end: p.end, severity: "medium", reasons: ["digital silence between room-toned pauses"] });
+    }
+  }
+
+  const toned = pauses.filter((p) => p.floorDb !== null && p.digitalRatio < 0.8);
+  for (let i = 1; i < toned.length; i++) {
+    const jump = Math.abs(toned[i].floorDb! - toned[i - 1].floorDb!);
+    if (jump >= NOISE_FLOOR_JUMP_DB) {
+      segments.push({
+        start: Math.max(0, toned[i - 1].end - 0.1),
+        end: Math.min(duration, toned[i].start + 0.1),
+        severity: jump >= 2 * NOISE_FLOOR_JUMP_DB ? "high" : "medium",
+        reasons: [`noise floor changes by ${Math.round(jump)} dB`],
+      });
+    }
+  }
+  return mergeSegments(segments);
+}
+
+// ============================================================
+// ENTRY POINTS
+// ============================================================
+
+/** Run the full synthetic-speech analysis on a decoded mono track. */
+export function analyzeSpeech(audio: Pick<DecodedAudio, "samples" | "sampleRate">): AudioForensicsAnalysis {
+  const limit = Math.floor(MAX_ANALYSIS_SECONDS * audio.sampleRate);
+  const truncated = audio.samples.length > limit;
+  const samples = truncated ? audio.samples.subarray(0, limit) : audio.samples;
+  const duration = samples.length / audio.sampleRate;
+
+  const { frames, ltas } = measureFrames(samples, audio.sampleRate);
+  const pauses = findPauses(frames);
+  const features = summarize(frames, pauses, findBandLimit(ltas, audio.sampleRate));
+  const speechSeconds = round(frames.filter((f) => f.period !== null).length * FRAME_HOP_SECONDS, 2);
+  const speechDetected = speechSeconds >= MIN_SPEECH_SECONDS;
+  const indicators = speechDetected ? speechIndicators(features, speechSeconds) : [];
+
+  return {
+    duration: round(duration, 3),
+    truncated,
+    speechSeconds,
+    speechDetected,
+    features,
+    indicators,
+    syntheticProbability: round(syntheticSpeechProbability(indicators), 3),
+    segments: speechDetected ? findSegments(frames, pauses, duration) : [],
+  };
+}
+
+/** The measured audio entry of modalityScores. */
+export function toAudioModalityScore(analysis: AudioForensicsAnalysis, weight: number): ModalityScore {
+  const flagged = analysis.indicators.filter((i) => i.strength >= 0.5);
+  return {
+    modality: "audio",
+    score: Math.round((1 - analysis.syntheticProbability) * 100),
+    weight,
+    confidence: Math.round(60 + 35 * clamp01(analysis.speechSeconds / 20)),
+    findings: flagged.length > 0
+      ? flagged.map((i) => i.detail)
+      : [`No synthetic-speech indicator in ${analysis.speechSeconds.toFixed(1)} s of voiced speech`],
+  };
+}
+
+/** Segments in the shape the spectrogram and evidence chain read. */
+export const toAnomalyRegions = (analysis: AudioForensicsAnalysis): AnomalyRegion[] =>
+  analysis.segments.map(({ start, end, severity }) => ({ start, end, severity }));
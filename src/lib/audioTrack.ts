@@ -0,0 +1,252 @@
+/**
+ * Audio Track Decoding & Spectrogram
+ * Decodes an audio file or a video's soundtrack with Web Audio, mixes it
+ * to mono at a fixed analysis rate and computes a log-mel spectrogram
+ * (Hann-windowed STFT, triangular mel filterbank, dB). The spectrogram
+ * is what the UI draws and what the model receives in place of the raw
+ * audio, with times in seconds throughout.
+ */
+
+import { createImage, encodeImage, type RGBAImage } from "@/lib/imageProcessing";
+import { fft } from "@/lib/spectralAnalysis";
+
+export interface Spectrogram {
+  sampleRate: number;
+  fftSize: number;
+  /** Samples between frame centres; frame i is centred at i · hopSize / sampleRate seconds. */
+  hopSize: number;
+  frames: number;
+  bands: number;
+  /** Centre frequency of each mel band in Hz, low to high. */
+  bandFrequencies: number[];
+  /** Power in dB, frame-major: data[frame * bands + band]. */
+  data: Float32Array;
+  /** Display range: the loudest value and DYNAMIC_RANGE_DB below it. */
+  minDb: number;
+  maxDb: number;
+}
+
+export interface AudioTrackAnalysis {
+  /** Seconds. */
+  duration: number;
+  /** Channels in the source before the mono mixdown. */
+  channels: number;
+  spectrogram: Spectrogram;
+  /** PNG of the full spectrogram, low frequencies at the bottom. Not kept on stored jobs. */
+  spectrogramDataUrl?: string;
+}
+
+/** Full band, so the band limits of synthesis sample rates (8, 11, 12 kHz) stay visible. */
+export const ANALYSIS_SAMPLE_RATE = 44100;
+const FFT_SIZE = 2048;
+const DEFAULT_HOP = 512;
+const MEL_BANDS = 128;
+/** Longer tracks get a larger hop so the spectrogram stays this many frames or fewer. */
+const MAX_FRAMES = 6000;
+const DYNAMIC_RANGE_DB = 80;
+/** Width of the image sent to the model. */
+const MODEL_IMAGE_WIDTH = 1024;
+
+// ============================================================
+// MEL SCALE
+// ============================================================
+
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+export const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+export interface MelFilter {
+  /** First FFT bin with non-zero weight. */
+  start: number;
+  weights: Float32Array;
+}
+
+/**
+ * Triangular mel filters over the FFT bins 0…fftSize/2, evenly spaced on
+ * the mel scale between fMin and fMax. Filters are stored sparsely as a
+ * start bin and the weights from there.
+ */
+export function melFilterbank(
+  fftSize: number,
+  sampleRate: number,
+  bands: number,
+  fMin = 0,
+  fMax = sampleRate / 2,
+): { filters: MelFilter[]; centres: number[] } {
+  const bins = fftSize / 2 + 1;
+  const melMin = hzToMel(fMin);
+  const melMax = hzToMel(fMax);
+  const edges = Array.from({ length: bands + 2 }, (_, i) => melToHz(melMin + ((melMax - melMin) * i) / (bands + 1)));
+  const binHz = sampleRate / fftSize;
+
+  const filters = Array.from({ length: bands }, (_, b): MelFilter => {
+    const [lo, centre, hi] = [edges[b], edges[b + 1], edges[b + 2]];
+    const first = Math.max(0, Math.floor(lo / binHz) + 1);
+    const last = Math.min(bins - 1, Math.ceil(hi / binHz) - 1);
+    const weights: number[] = [];
+    for (let k = first; k <= last; k++) {
+      const hz = k * binHz;
+      weights.push(hz <= centre ? (hz - lo) / (centre - lo) : (hi - hz) / (hi - centre));
+    }
+    // Narrow low bands can fall between bins; give them their nearest bin
+    if (weights.length === 0) return { start: Math.min(bins - 1, Math.round(centre / binHz)), weights: Float32Array.of(1) };
+    return { start: first, weights: Float32Array.from(weights) };
+  });
+  return { filters, centres: edges.slice(1, -1) };
+}
+
+// ============================================================
+// STFT
+// ============================================================
+
+/**
+ * Log-mel spectrogram of mono samples. Frames are centred on multiples of
+ * the hop, with zero padding at both ends.
+ */
+export function computeSpectrogram(
+  samples: Float32Array,
+  sampleRate: number,
+  { fftSize = FFT_SIZE, bands = MEL_BANDS, maxFrames = MAX_FRAMES }: { fftSize?: number; bands?: number; maxFrames?: number } = {},
+): Spectrogram {
+  const hopSize = Math.max(DEFAULT_HOP, Math.ceil(samples.length / maxFrames));
+  const frames = Math.floor(samples.length / hopSize) + 1;
+  const { filters, centres } = melFilterbank(fftSize, sampleRate, bands);
+  const window = Float32Array.from({ length: fftSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / fftSize));
+
+  const data = new Float32Array(frames * bands);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const power = new Float64Array(fftSize / 2 + 1);
+  let maxDb = -Infinity;
+  for (let f = 0; f < frames; f++) {
+    const start = f * hopSize - fftSize / 2;
+    for (let i = 0; i < fftSize; i++) {
+      const s = start + i;
+      re[i] = s >= 0 && s < samples.length ? samples[s] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < power.length; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+    for (let b = 0; b < bands; b++) {
+      const { start: k0, weights } = filters[b];
+      let sum = 0;
+      for (let k = 0; k < weights.length; k++) sum += weights[k] * power[k0 + k];
+      const db = 10 * Math.log10(sum + 1e-10);
+      data[f * bands + b] = db;
+      if (db > maxDb) maxDb = db;
+    }
+  }
+
+  return {
+    sampleRate,
+    fftSize,
+    hopSize,
+    frames,
+    bands,
+    bandFrequencies: centres.map((hz) => Math.round(hz)),
+    data,
+    minDb: maxDb - DYNAMIC_RANGE_DB,
+    maxDb,
+  };
+}
+
+/** Seconds at the centre of a frame. */
+export const frameTime = (spec: Spectrogram, frame: number) => (frame * spec.hopSize) / spec.sampleRate;
+
+/** Nearest frame to a time in seconds, clamped to the spectrogram. */
+export const timeToFrame = (spec: Spectrogram, seconds: number) =>
+  Math.max(0, Math.min(spec.frames - 1, Math.round((seconds * spec.sampleRate) / spec.hopSize)));
+
+// ============================================================
+// RENDERING
+// ============================================================
+
+/** Perceptual dark-blue → teal → yellow colour ramp for a 0–1 level. */
+export function spectrogramColor(level: number): [number, number, number] {
+  const stops: [number, number, number][] = [[8, 12, 40], [40, 40, 120], [20, 130, 150], [80, 200, 110], [250, 225, 60]];
+  const t = Math.max(0, Math.min(1, level)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(t));
+  const f = t - i;
+  return [0, 1, 2].map((c) => Math.round(stops[i][c] + (stops[i + 1][c] - stops[i][c]) * f)) as [number, number, number];
+}
+
+/**
+ * Render frames [fromFrame, toFrame) into a width × height image, low
+ * frequencies at the bottom. Each column takes the loudest frame it
+ * covers so short events survive zooming out.
+ */
+export function renderSpectrogram(
+  spec: Spectrogram,
+  width: number,
+  height: number,
+  fromFrame = 0,
+  toFrame = spec.frames,
+): RGBAImage {
+  const img = createImage(width, height);
+  const span = Math.max(1, toFrame - fromFrame);
+  const range = Math.max(1e-6, spec.maxDb - spec.minDb);
+  for (let x = 0; x < width; x++) {
+    const f0 = fromFrame + Math.floor((x * span) / width);
+    const f1 = Math.max(f0 + 1, fromFrame + Math.floor(((x + 1) * span) / width));
+    for (let y = 0; y < height; y++) {
+      const band = Math.min(spec.bands - 1, Math.floor(((height - 1 - y) * spec.bands) / height));
+      let db = -Infinity;
+      for (let f = f0; f < f1 && f < spec.frames; f++) db = Math.max(db, spec.data[f * spec.bands + band]);
+      const [r, g, b] = spectrogramColor((db - spec.minDb) / range);
+      const p = (y * width + x) * 4;
+      img.data[p] = r;
+      img.data[p + 1] = g;
+      img.data[p + 2] = b;
+      img.data[p + 3] = 255;
+    }
+  }
+  return img;
+}
+
+// ============================================================
+// BROWSER ENTRY POINT
+// ============================================================
+
+export interface DecodedAudio {
+  /** Mono mixdown at sampleRate. */
+  samples: Float32Array;
+  sampleRate: number;
+  /** Seconds. */
+  duration: number;
+  /** Channels in the source before the mono mixdown. */
+  channels: number;
+}
+
+/**
+ * Decode the audio of an audio or video file and mix it to mono. Returns
+ * null when the file has no decodable audio track.
+ */
+export async function decodeAudio(file: Blob): Promise<DecodedAudio | null> {
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    return null;
+  }
+  if (buffer.length === 0) return null;
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return { samples: mono, sampleRate: buffer.sampleRate, duration: buffer.duration, channels: buffer.numberOfChannels };
+}
+
+/** Spectrogram and model image of a decoded track. */
+export function analyzeAudioTrack(audio: DecodedAudio): AudioTrackAnalysis {
+  const spectrogram = computeSpectrogram(audio.samples, audio.sampleRate);
+  const image = renderSpectrogram(spectrogram, Math.min(MODEL_IMAGE_WIDTH, spectrogram.frames), spectrogram.bands * 2);
+  return {
+    duration: audio.duration,
+    channels: audio.channels,
+    spectrogram,
+    spectrogramDataUrl: encodeImage(image, "image/png"),
+  };
+}
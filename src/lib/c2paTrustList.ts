@@ -0,0 +1,60 @@
+/**
+ * C2PA Trust List
+ * The certificates a Content Credentials signature must chain to before
+ * its signer is reported as trusted. Anchors come from the bundled PEM
+ * below plus VITE_C2PA_TRUST_ANCHORS (PEM text) and
+ * VITE_C2PA_TRUSTED_FINGERPRINTS (comma-separated SHA-256 hex of
+ * individual signing or intermediate certificates).
+ */
+
+import { parseCertificate, parsePem, type Certificate } from "@/lib/x509";
+
+export interface TrustList {
+  anchors: Certificate[];
+  /** SHA-256 fingerprints (lowercase hex) trusted directly. */
+  fingerprints: Set<string>;
+}
+
+/**
+ * Bundled anchors. Deliberately empty in the repository: deployments paste
+ * the C2PA conformance trust list, or their own newsroom CAs, here or
+ * provide them through the environment.
+ */
+const BUNDLED_ANCHORS_PEM = "";
+
+/** Extended key usages a C2PA claim signing certificate may carry. */
+export const C2PA_SIGNING_EKUS = [
+  "1.3.6.1.4.1.62558.2.1", // c2pa-kp-claimSigning
+  "1.3.6.1.5.5.7.3.4", // emailProtection
+  "1.3.6.1.5.5.7.3.36", // documentSigning
+  "1.3.6.1.4.1.311.76.59.1.9", // Microsoft document signing
+];
+
+/** Parse PEM anchors and a comma-separated fingerprint list. */
+export function buildTrustList(pem: string, fingerprints = ""): TrustList {
+  const anchors: Certificate[] = [];
+  for (const der of parsePem(pem)) {
+    try {
+      anchors.push(parseCertificate(der));
+    } catch (err) {
+      console.warn("Skipping unreadable C2PA trust anchor:", err);
+    }
+  }
+  return {
+    anchors,
+    fingerprints: new Set(
+      fingerprints.split(",").map((f) => f.trim().toLowerCase().replace(/:/g, "")).filter(Boolean)
+    ),
+  };
+}
+
+let cached: TrustList | null = null;
+
+/** The configured trust list, parsed once. */
+export function getTrustList(): TrustList {
+  cached ??= buildTrustList(
+    `${BUNDLED_ANCHORS_PEM}\n${import.meta.env.VITE_C2PA_TRUST_ANCHORS ?? ""}`,
+    import.meta.env.VITE_C2PA_TRUSTED_FINGERPRINTS ?? "",
+  );
+  return cached;
+}
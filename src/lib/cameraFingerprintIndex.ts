@@ -0,0 +1,107 @@
+/**
+ * Camera Fingerprint Store
+ * Reads reference PRNU fingerprints from the `camera_fingerprints` table
+ * and uploads new ones through the ingest-camera-fingerprint edge
+ * function. Fingerprints travel as base64 little-endian Float32 arrays.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface CameraReference {
+  cameraId: string;
+  label: string;
+  make: string | null;
+  model: string | null;
+  /** Full image resolution the fingerprint was estimated at. */
+  width: number;
+  height: number;
+  cropSize: number;
+  imageCount: number;
+  fingerprint: Float32Array;
+}
+
+/** 64-bit FNV-1a of a string's UTF-16 code units, as hex. */
+function fnv1a64(text: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < text.length; i++) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(text.charCodeAt(i))) * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Stable id for a camera label: an ASCII slug, with accents folded. When
+ * other characters had to be dropped (e.g. "佳能 R5") a hash of the label
+ * is appended, or used alone if nothing was left, so labels that differ
+ * only in those characters do not overwrite each other's reference.
+ */
+export function cameraIdFor(label: string): string {
+  const trimmed = label.trim();
+  const folded = trimmed.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+  const slug = folded.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  if (slug && !/[^\x20-\x7e]/.test(folded)) return slug;
+  const hash = fnv1a64(trimmed);
+  return slug ? `${slug}-${hash.slice(0, 8)}` : `camera-${hash}`;
+}
+
+export function encodeFingerprint(fingerprint: Float32Array): string {
+  const bytes = new Uint8Array(fingerprint.length * 4);
+  const view = new DataView(bytes.buffer);
+  fingerprint.forEach((v, i) => view.setFloat32(i * 4, v, true));
+  let binary = "";
+  // Chunked: spreading a megabyte into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeFingerprint(encoded: string): Float32Array {
+  const bytes = Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  return Float32Array.from({ length: bytes.length / 4 }, (_, i) => view.getFloat32(i * 4, true));
+}
+
+/**
+ * References estimated at this resolution, in either orientation.
+ */
+export async function fetchCameraReferences(width: number, height: number): Promise<CameraReference[]> {
+  const { data, error } = await supabase
+    .from("camera_fingerprints")
+    .select("camera_id, label, make, model, image_width, image_height, crop_size, image_count, fingerprint")
+    .or(`and(image_width.eq.${width},image_height.eq.${height}),and(image_width.eq.${height},image_height.eq.${width})`);
+  if (error) throw new Error(`Camera fingerprint lookup failed: ${error.message}`);
+
+  return (data ?? []).map((row) => ({
+    cameraId: row.camera_id,
+    label: row.label,
+    make: row.make ?? null,
+    model: row.model ?? null,
+    width: row.image_width,
+    height: row.image_height,
+    cropSize: row.crop_size,
+    imageCount: row.image_count,
+    fingerprint: decodeFingerprint(row.fingerprint),
+  }));
+}
+
+/**
+ * Store (or replace) a camera's reference fingerprint.
+ */
+export async function uploadCameraReference(reference: CameraReference, ingestKey: string): Promise<void> {
+  const { error } = await supabase.functions.invoke("ingest-camera-fingerprint", {
+    body: {
+      cameraId: reference.cameraId,
+      label: reference.label,
+      make: reference.make,
+      model: reference.model,
+      imageWidth: reference.width,
+      imageHeight: reference.height,
+      cropSize: reference.cropSize,
+      imageCount: reference.imageCount,
+      fingerprint: encodeFingerprint(reference.fingerprint),
+    },
+    headers: { "x-ingest-key": ingestKey },
+  });
+  if (error) throw new Error(`Camera fingerprint upload failed: ${error.message}`);
+}
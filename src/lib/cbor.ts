@@ -0,0 +1,235 @@
+/**
+ * CBOR (RFC 8949)
+ * Minimal decoder and encoder for the structures C2PA manifests carry:
+ * claims, assertions and COSE signatures. Tags are unwrapped to their
+ * content; map keys are stringified so integer-keyed COSE headers and
+ * text-keyed claims read the same way.
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | CborMap;
+
+export interface CborMap {
+  [key: string]: CborValue;
+}
+
+const MAX_DEPTH = 64;
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+interface Cursor {
+  bytes: Uint8Array;
+  view: DataView;
+  pos: number;
+}
+
+function need(c: Cursor, n: number) {
+  if (c.pos + n > c.bytes.length) throw new Error("CBOR: unexpected end of data");
+}
+
+function readArgument(c: Cursor, info: number): number | bigint | null {
+  if (info < 24) return info;
+  if (info === 31) return null; // indefinite length
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) throw new Error(`CBOR: reserved additional info ${info}`);
+  need(c, size);
+  const at = c.pos;
+  c.pos += size;
+  if (size === 1) return c.view.getUint8(at);
+  if (size === 2) return c.view.getUint16(at);
+  if (size === 4) return c.view.getUint32(at);
+  const big = c.view.getBigUint64(at);
+  return big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+}
+
+function lengthOf(arg: number | bigint): number {
+  if (typeof arg === "bigint") throw new Error("CBOR: length out of range");
+  return arg;
+}
+
+function readChunks(c: Cursor, major: number, depth: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    need(c, 1);
+    if (c.bytes[c.pos] === 0xff) {
+      c.pos++;
+      return chunks;
+    }
+    const chunk = readItem(c, depth + 1);
+    if (major === 2 && !(chunk instanceof Uint8Array)) throw new Error("CBOR: bad indefinite byte string");
+    chunks.push(typeof chunk === "string" ? new TextEncoder().encode(chunk) : (chunk as Uint8Array));
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, ch) => n + ch.length, 0));
+  let at = 0;
+  for (const ch of chunks) {
+    out.set(ch, at);
+    at += ch.length;
+  }
+  return out;
+}
+
+function readItem(c: Cursor, depth: number): CborValue {
+  if (depth > MAX_DEPTH) throw new Error("CBOR: nesting too deep");
+  need(c, 1);
+  const initial = c.bytes[c.pos++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return false;
+    if (info === 21) return true;
+    if (info === 22) return null;
+    if (info === 23) return undefined;
+    if (info === 25) {
+      need(c, 2);
+      const half = c.view.getUint16(c.pos);
+      c.pos += 2;
+      const exp = (half >> 10) & 0x1f;
+      const mant = half & 0x3ff;
+      const value = exp === 0 ? mant * 2 ** -24 : exp === 31 ? (mant ? NaN : Infinity) : (mant + 1024) * 2 ** (exp - 25);
+      return half & 0x8000 ? -value : value;
+    }
+    if (info === 26) {
+      need(c, 4);
+      c.pos += 4;
+      return c.view.getFloat32(c.pos - 4);
+    }
+    if (info === 27) {
+      need(c, 8);
+      c.pos += 8;
+      return c.view.getFloat64(c.pos - 8);
+    }
+    if (info < 24) return info; // unassigned simple value
+    if (info === 24) {
+      need(c, 1);
+      return c.bytes[c.pos++];
+    }
+    throw new Error("CBOR: unexpected break");
+  }
+
+  const arg = readArgument(c, info);
+
+  switch (major) {
+    case 0:
+      return arg!;
+    case 1:
+      return typeof arg === "bigint" ? -1n - arg : -1 - (arg as number);
+    case 2:
+    case 3: {
+      let data: Uint8Array;
+      if (arg === null) {
+        data = concat(readChunks(c, major, depth));
+      } else {
+        const n = lengthOf(arg);
+        need(c, n);
+        data = c.bytes.slice(c.pos, c.pos + n);
+        c.pos += n;
+      }
+      return major === 2 ? data : utf8.decode(data);
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      if (arg === null) {
+        while ((need(c, 1), c.bytes[c.pos] !== 0xff)) items.push(readItem(c, depth + 1));
+        c.pos++;
+      } else {
+        const n = lengthOf(arg);
+        for (let i = 0; i < n; i++) items.push(readItem(c, depth + 1));
+      }
+      return items;
+    }
+    case 5: {
+      const map: CborMap = {};
+      const readEntry = () => {
+        const key = readItem(c, depth + 1);
+        map[typeof key === "string" ? key : String(key)] = readItem(c, depth + 1);
+      };
+      if (arg === null) {
+        while ((need(c, 1), c.bytes[c.pos] !== 0xff)) readEntry();
+        c.pos++;
+      } else {
+        const n = lengthOf(arg);
+        for (let i = 0; i < n; i++) readEntry();
+      }
+      return map;
+    }
+    case 6:
+      // Tagged item: the tag number is dropped
+      return readItem(c, depth + 1);
+  }
+  throw new Error(`CBOR: unknown major type ${major}`);
+}
+
+/**
+ * Decode a single CBOR item. Throws on malformed or truncated input;
+ * trailing bytes are ignored.
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const c: Cursor = { bytes, view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), pos: 0 };
+  return readItem(c, 0);
+}
+
+function head(major: number, n: number): number[] {
+  if (n < 24) return [(major << 5) | n];
+  if (n < 0x100) return [(major << 5) | 24, n];
+  if (n < 0x10000) return [(major << 5) | 25, n >> 8, n & 0xff];
+  if (n < 0x100000000) return [(major << 5) | 26, n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+  const hi = Math.floor(n / 0x100000000);
+  const lo = n >>> 0;
+  return [(major << 5) | 27, hi >>> 24, (hi >> 16) & 0xff, (hi >> 8) & 0xff, hi & 0xff, lo >>> 24, (lo >> 16) & 0xff, (lo >> 8) & 0xff, lo & 0xff];
+}
+
+function encodeInto(value: CborValue, out: number[]) {
+  if (value === null) out.push(0xf6);
+  else if (value === undefined) out.push(0xf7);
+  else if (value === true) out.push(0xf5);
+  else if (value === false) out.push(0xf4);
+  else if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) throw new Error("CBOR: only integers are encoded");
+    out.push(...(value >= 0 ? head(0, value) : head(1, -1 - value)));
+  } else if (typeof value === "bigint") {
+    throw new Error("CBOR: bigint encoding is not supported");
+  } else if (typeof value === "string") {
+    const bytes = new TextEncoder().encode(value);
+    out.push(...head(3, bytes.length));
+    for (const b of bytes) out.push(b);
+  } else if (value instanceof Uint8Array) {
+    out.push(...head(2, value.length));
+    for (const b of value) out.push(b);
+  } else if (Array.isArray(value)) {
+    out.push(...head(4, value.length));
+    for (const item of value) encodeInto(item, out);
+  } else {
+    const entries = Object.entries(value);
+    out.push(...head(5, entries.length));
+    for (const [key, item] of entries) {
+      encodeInto(/^-?\d+$/.test(key) ? Number(key) : key, out);
+      encodeInto(item, out);
+    }
+  }
+}
+
+/**
+ * Encode a value with definite lengths, in the key order given. Used to
+ * rebuild COSE Sig_structures, not for canonical encoding.
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const out: number[] = [];
+  encodeInto(value, out);
+  return new Uint8Array(out);
+}
+
+/** Narrow a decoded value to a map, or null. */
+export function asMap(value: CborValue): CborMap | null {
+  return value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Uint8Array) ? value : null;
+}
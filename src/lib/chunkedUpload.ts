@@ -0,0 +1,242 @@
+/**
+ * Chunked Upload
+ * Sends the original media to Supabase Storage over the tus resumable
+ * upload protocol, in fixed-size chunks, so large files never travel as
+ * one base64 JSON body. The edge function then reads the object by
+ * reference. Upload URLs are remembered per object, so a failed or
+ * reloaded upload continues from the offset the server already holds.
+ *
+ * Anyone may write to the bucket, so object names are never trusted:
+ * each upload gets a random name under its file hash, and the edge
+ * function re-hashes the stored bytes before analyzing them.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const UPLOAD_BUCKET = "analysis-uploads";
+/** Supabase's resumable endpoint takes 6 MB chunks; only the last may be shorter. */
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+const TUS_VERSION = "1.0.0";
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_MS = 500;
+const RESUME_KEY_PREFIX = "deeptrust-upload:";
+const PATH_KEY_PREFIX = "deeptrust-upload-path:";
+
+export interface UploadProgress {
+  /** Bytes the server has acknowledged. */
+  uploaded: number;
+  total: number;
+}
+
+/** Where the edge function finds an uploaded object. */
+export interface StorageReference {
+  bucket: string;
+  path: string;
+  contentType: string;
+  size: number;
+}
+
+export type ResumeStore = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface ResumableUploadOptions {
+  /** The tus endpoint, e.g. `${SUPABASE_URL}/storage/v1/upload/resumable`. */
+  endpoint: string;
+  /** Authorization and apikey headers sent with every request. */
+  headers: Record<string, string>;
+  bucket?: string;
+  path: string;
+  chunkSize?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  /** Where upload URLs are kept between attempts; localStorage by default. */
+  store?: ResumeStore | null;
+  fetchImpl?: typeof fetch;
+  retryBaseMs?: number;
+}
+
+// ============================================================
+// PROTOCOL HELPERS
+// ============================================================
+
+/** tus Upload-Metadata: comma-separated `key base64(value)` pairs. */
+export function encodeUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(",");
+}
+
+/**
+ * Object name for one upload of a file: `<sha256>/<random id>.<ext>`.
+ * The random id keeps concurrent analyses of one file, and anyone who
+ * knows its hash, from landing on the same object.
+ */
+export function uploadObjectPath(hash: string, file: Pick<File, "type">, id: string = crypto.randomUUID()): string {
+  const subtype = file.type.split("/")[1]?.split(/[+;]/)[0].replace(/[^a-z0-9]/gi, "").toLowerCase();
+  return `${hash}/${id}.${subtype || "bin"}`;
+}
+
+/** Network errors, timeouts, locks and server errors are worth another try. */
+function isRetryable(status: number): boolean {
+  return status === 0 || status === 408 || status === 423 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** localStorage when the browser allows it; private modes may not. */
+export function browserStore(): ResumeStore | null {
+  try {
+    return typeof localStorage !== "undefined" ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// UPLOAD
+// ============================================================
+
+/**
+ * Upload a file in chunks, resuming a previous attempt at the same path
+ * when its upload URL is still known. Resolves once the server holds every
+ * byte; an object that already exists at the path counts as uploaded.
+ */
+export async function uploadResumable(file: Blob, options: ResumableUploadOptions): Promise<StorageReference> {
+  const {
+    endpoint,
+    headers,
+    bucket = UPLOAD_BUCKET,
+    path,
+    chunkSize = UPLOAD_CHUNK_SIZE,
+    onProgress,
+    signal,
+    fetchImpl = fetch,
+    retryBaseMs = RETRY_BASE_MS,
+  } = options;
+  const store = options.store === undefined ? browserStore() : options.store;
+  const resumeKey = `${RESUME_KEY_PREFIX}${bucket}/${path}`;
+  const contentType = file.type || "application/octet-stream";
+  const reference: StorageReference = { bucket, path, contentType, size: file.size };
+  const base = { ...headers, "Tus-Resumable": TUS_VERSION };
+
+  // Fetch that reports network failures as status 0 instead of throwing
+  const send = async (url: string, init: RequestInit): Promise<Response | null> => {
+    try {
+      return await fetchImpl(url, { ...init, signal });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      return null;
+    }
+  };
+
+  /** The server's offset for an upload URL, or null once it is gone. */
+  const serverOffset = async (url: string): Promise<number | null> => {
+    const res = await send(url, { method: "HEAD", headers: base });
+    if (!res?.ok) return null;
+    const offset = Number(res.headers.get("Upload-Offset"));
+    return Number.isFinite(offset) ? offset : null;
+  };
+
+  const create = async (): Promise<string | null> => {
+    for (let attempt = 1; ; attempt++) {
+      const res = await send(endpoint, {
+        method: "POST",
+        headers: {
+          ...base,
+          "Upload-Length": String(file.size),
+          "Upload-Metadata": encodeUploadMetadata({ bucketName: bucket, objectName: path, contentType }),
+          "x-upsert": "false",
+        },
+      });
+      if (res?.status === 201) {
+        const location = res.headers.get("Location");
+        if (!location) throw new Error("Upload failed: the server returned no upload URL");
+        return new URL(location, endpoint).toString();
+      }
+      // The object is already in storage, e.g. from an earlier run;
+      // the edge function checks its hash before using it
+      if (res?.status === 409) return null;
+      const status = res?.status ?? 0;
+      if (!isRetryable(status) || attempt >= MAX_ATTEMPTS) {
+        throw new Error(`Upload failed: could not start the upload (${status ? `HTTP ${status}` : "network error"})`);
+      }
+      await sleep(retryBaseMs * 2 ** (attempt - 1));
+    }
+  };
+
+  let uploadUrl = store?.getItem(resumeKey) ?? null;
+  let offset = uploadUrl ? await serverOffset(uploadUrl) : null;
+  if (offset === null) {
+    store?.removeItem(resumeKey);
+    uploadUrl = await create();
+    if (!uploadUrl) {
+      onProgress?.({ uploaded: file.size, total: file.size });
+      return reference;
+    }
+    store?.setItem(resumeKey, uploadUrl);
+    offset = 0;
+  }
+  onProgress?.({ uploaded: offset, total: file.size });
+
+  let failures = 0;
+  while (offset < file.size) {
+    const chunk = file.slice(offset, Math.min(file.size, offset + chunkSize));
+    const res = await send(uploadUrl, {
+      method: "PATCH",
+      headers: { ...base, "Upload-Offset": String(offset), "Content-Type": "application/offset+octet-stream" },
+      body: chunk,
+    });
+    if (res?.status === 204) {
+      offset = Number(res.headers.get("Upload-Offset") ?? offset + chunk.size);
+      failures = 0;
+      onProgress?.({ uploaded: offset, total: file.size });
+      continue;
+    }
+
+    const status = res?.status ?? 0;
+    // 409 means our offset is stale; anything retryable may have landed partly
+    if ((status !== 409 && !isRetryable(status)) || ++failures >= MAX_ATTEMPTS) {
+      throw new Error(`Upload failed at ${offset} of ${file.size} bytes (${status ? `HTTP ${status}` : "network error"})`);
+    }
+    if (status !== 409) await sleep(retryBaseMs * 2 ** (failures - 1));
+    const resynced = await serverOffset(uploadUrl);
+    if (resynced === null) {
+      if (status === 409) throw new Error("Upload failed: the server lost the upload");
+      continue;
+    }
+    offset = resynced;
+    onProgress?.({ uploaded: offset, total: file.size });
+  }
+
+  store?.removeItem(resumeKey);
+  return reference;
+}
+
+/**
+ * Upload an analysis original to the `analysis-uploads` bucket. The object
+ * name is kept until the upload completes, so a retried analysis of the
+ * same file resumes; the next analysis gets a fresh object.
+ */
+export async function uploadAnalysisMedia(
+  file: File,
+  hash: string,
+  { onProgress, signal }: { onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {},
+): Promise<StorageReference> {
+  const { data } = await supabase.auth.getSession();
+  const key = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const store = browserStore();
+  const pathKey = `${PATH_KEY_PREFIX}${hash}`;
+  const path = store?.getItem(pathKey) ?? uploadObjectPath(hash, file);
+  store?.setItem(pathKey, path);
+
+  const reference = await uploadResumable(file, {
+    endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+    headers: { authorization: `Bearer ${data.session?.access_token ?? key}`, apikey: key },
+    path,
+    onProgress,
+    signal,
+    store,
+  });
+  store?.removeItem(pathKey);
+  return reference;
+}
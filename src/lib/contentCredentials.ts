@@ -0,0 +1,486 @@
+/**
+ * Content Credentials (C2PA) Verification
+ * Validates the C2PA manifest store embedded in an uploaded file: COSE
+ * claim signatures and their X.509 chain against the local trust list,
+ * hashed-URI bindings between claims and assertions, the hard binding to
+ * the file bytes, and the ingredient manifests the active manifest cites.
+ * Results use C2PA validation status codes.
+ */
+
+import { decodeCbor, encodeCbor, asMap, type CborMap, type CborValue } from "@/lib/cbor";
+import {
+  parseManifestStore,
+  resolveJumbfUri,
+  asHashedUri,
+  baseLabel,
+  type C2paManifest,
+  type ManifestStore,
+} from "@/lib/c2paManifest";
+import { parseMediaMetadata, type ReadRange } from "@/lib/mediaMetadata";
+import {
+  parseCertificate,
+  certificateFingerprint,
+  verifyWithCertificate,
+  isIssuedBy,
+  type Certificate,
+  type SignatureAlgorithm,
+} from "@/lib/x509";
+import { getTrustList, C2PA_SIGNING_EKUS, type TrustList } from "@/lib/c2paTrustList";
+
+export type ContentCredentialsStatus = "valid" | "untrusted" | "invalid" | "absent";
+
+export interface ValidationStatusEntry {
+  /** C2PA validation status code, e.g. "claimSignature.mismatch". */
+  code: string;
+  explanation: string;
+  /** Label of the manifest the entry applies to. */
+  manifest: string;
+  url?: string;
+}
+
+export interface CredentialSigner {
+  commonName: string | null;
+  organization: string | null;
+  issuer: string;
+  notBefore: string;
+  notAfter: string;
+  /** SHA-256 of the signing certificate. */
+  fingerprint: string;
+  /** COSE algorithm name, e.g. "ES256". */
+  algorithm: string;
+  /** An RFC 3161 timestamp is attached (present, not verified). */
+  timestamped: boolean;
+  trusted: boolean;
+}
+
+export interface ManifestAction {
+  action: string;
+  softwareAgent?: string;
+  when?: string;
+  digitalSourceType?: string;
+}
+
+export interface ManifestIngredient {
+  title: string;
+  format?: string;
+  relationship: string;
+  /** Label of the ingredient's own manifest in this store, if it has one. */
+  manifestLabel: string | null;
+}
+
+export interface ManifestSummary {
+  label: string;
+  claimGenerator: string;
+  title?: string;
+  format?: string;
+  instanceId?: string;
+  signer: CredentialSigner | null;
+  /** Assertion labels in store order. */
+  assertions: string[];
+  actions: ManifestAction[];
+  ingredients: ManifestIngredient[];
+}
+
+export interface ContentCredentialsResult {
+  status: ContentCredentialsStatus;
+  activeManifest: string | null;
+  manifests: ManifestSummary[];
+  success: ValidationStatusEntry[];
+  failure: ValidationStatusEntry[];
+  informational: ValidationStatusEntry[];
+}
+
+export interface VerifyOptions {
+  trustList?: TrustList;
+  /** Reference time for certificate validity; defaults to now. */
+  now?: Date;
+}
+
+/** COSE algorithm ids (RFC 9053) C2PA permits. */
+const COSE_ALGORITHMS: Record<string, { name: string; algorithm: SignatureAlgorithm }> = {
+  "-7": { name: "ES256", algorithm: { scheme: "ECDSA", hash: "SHA-256" } },
+  "-35": { name: "ES384", algorithm: { scheme: "ECDSA", hash: "SHA-384" } },
+  "-36": { name: "ES512", algorithm: { scheme: "ECDSA", hash: "SHA-512" } },
+  "-37": { name: "PS256", algorithm: { scheme: "RSA-PSS", hash: "SHA-256" } },
+  "-38": { name: "PS384", algorithm: { scheme: "RSA-PSS", hash: "SHA-384" } },
+  "-39": { name: "PS512", algorithm: { scheme: "RSA-PSS", hash: "SHA-512" } },
+  "-8": { name: "Ed25519", algorithm: { scheme: "Ed25519", hash: null } },
+};
+
+const DIGESTS: Record<string, "SHA-256" | "SHA-384" | "SHA-512"> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+/** Codes that leave a manifest cryptographically intact but unattributed. */
+const TRUST_ONLY_FAILURES = new Set(["signingCredential.untrusted"]);
+
+const text = (value: CborValue): string | undefined => (typeof value === "string" ? value : undefined);
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+async function digest(alg: string, data: Uint8Array): Promise<Uint8Array | null> {
+  const name = DIGESTS[alg];
+  return name ? new Uint8Array(await crypto.subtle.digest(name, data)) : null;
+}
+
+interface Report {
+  success: ValidationStatusEntry[];
+  failure: ValidationStatusEntry[];
+  informational: ValidationStatusEntry[];
+}
+
+// ============================================================
+// CLAIM SIGNATURE
+// ============================================================
+
+async function verifyClaimSignature(
+  manifest: C2paManifest,
+  report: Report,
+  trustList: TrustList,
+  now: Date,
+): Promise<CredentialSigner | null> {
+  const at = (code: string, explanation: string) => ({ code, explanation, manifest: manifest.label });
+  if (!manifest.signature || !manifest.claimBytes) {
+    report.failure.push(at("claimSignature.missing", "Manifest has no claim signature"));
+    return null;
+  }
+
+  let protectedBytes: Uint8Array;
+  let header: CborMap;
+  let unprotected: CborMap;
+  let signature: Uint8Array;
+  try {
+    const cose = decodeCbor(manifest.signature);
+    if (!Array.isArray(cose) || cose.length !== 4 || !(cose[0] instanceof Uint8Array) || !(cose[3] instanceof Uint8Array)) {
+      throw new Error("not a COSE_Sign1 structure");
+    }
+    protectedBytes = cose[0];
+    header = protectedBytes.length > 0 ? asMap(decodeCbor(protectedBytes)) ?? {} : {};
+    unprotected = asMap(cose[1]) ?? {};
+    signature = cose[3];
+  } catch (err) {
+    report.failure.push(at("claimSignature.mismatch", `Claim signature is malformed: ${(err as Error).message}`));
+    return null;
+  }
+
+  const cose = COSE_ALGORITHMS[String(header["1"])];
+  if (!cose) {
+    report.failure.push(at("algorithm.unsupported", `COSE algorithm ${String(header["1"])} is not supported`));
+    return null;
+  }
+
+  const chainValue = header["33"] ?? unprotected["33"] ?? unprotected["x5chain"];
+  const chainDer = chainValue instanceof Uint8Array ? [chainValue] : Array.isArray(chainValue) ? chainValue : [];
+  let chain: Certificate[];
+  try {
+    chain = chainDer.filter((c): c is Uint8Array => c instanceof Uint8Array).map(parseCertificate);
+  } catch (err) {
+    report.failure.push(at("signingCredential.invalid", `Certificate chain is unreadable: ${(err as Error).message}`));
+    return null;
+  }
+  if (chain.length === 0) {
+    report.failure.push(at("signingCredential.invalid", "Claim signature carries no x5chain certificate"));
+    return null;
+  }
+  const leaf = chain[0];
+
+  // Sig_structure = ["Signature1", protected, external_aad, payload]; C2PA detaches the claim as payload
+  const toBeSigned = encodeCbor(["Signature1", protectedBytes, new Uint8Array(0), manifest.claimBytes]);
+  try {
+    const ok = await verifyWithCertificate(leaf, cose.algorithm, signature, toBeSigned);
+    report[ok ? "success" : "failure"].push(
+      ok
+        ? at("claimSignature.validated", `Claim signature verified (${cose.name})`)
+        : at("claimSignature.mismatch", "Claim signature does not match the claim — the claim was altered after signing"),
+    );
+  } catch (err) {
+    report.failure.push(at("algorithm.unsupported", `Signature could not be checked: ${(err as Error).message}`));
+  }
+
+  // Every certificate in the chain must be valid now. An attached timestamp
+  // sits in the unsigned header and is not verified here, so it cannot
+  // move the check to the time of signing.
+  const timestamped = "sigTst" in unprotected || "sigTst2" in unprotected;
+  if (timestamped) {
+    report.informational.push(
+      at("timeStamp.unverified", "The attached timestamp was not verified; certificates are checked against the current time"),
+    );
+  }
+  chain.forEach((cert, i) => {
+    if (now >= cert.notBefore && now <= cert.notAfter) return;
+    const role = i === 0 ? "Signing certificate" : `Intermediate certificate "${cert.subject.text}"`;
+    report.failure.push(at("signingCredential.expired", `${role} is valid ${cert.notBefore.toISOString()} – ${cert.notAfter.toISOString()}`));
+  });
+  if (leaf.isCA || !leaf.extendedKeyUsage?.some((eku) => C2PA_SIGNING_EKUS.includes(eku))) {
+    report.failure.push(at("signingCredential.invalid", "Signing certificate is not permitted to sign C2PA claims (extended key usage)"));
+  }
+  for (const issuer of chain.slice(1)) {
+    if (!issuer.isCA || issuer.keyUsage?.keyCertSign === false) {
+      report.failure.push(at("signingCredential.invalid", `Intermediate certificate "${issuer.subject.text}" is not a CA (basic constraints / key usage)`));
+    }
+  }
+  for (let i = 0; i + 1 < chain.length; i++) {
+    if (!(await isIssuedBy(chain[i], chain[i + 1]))) {
+      report.failure.push(at("signingCredential.invalid", `Certificate chain is broken between "${chain[i].subject.text}" and "${chain[i + 1].subject.text}"`));
+    }
+  }
+
+  const fingerprints = await Promise.all(chain.map((c) => certificateFingerprint(c.der)));
+  const anchorPrints = new Set(await Promise.all(trustList.anchors.map((a) => certificateFingerprint(a.der))));
+  let trusted = fingerprints.some((f) => trustList.fingerprints.has(f) || anchorPrints.has(f));
+  for (const anchor of trustList.anchors) {
+    if (trusted) break;
+    trusted = await isIssuedBy(chain[chain.length - 1], anchor);
+  }
+  report[trusted ? "success" : "failure"].push(
+    trusted
+      ? at("signingCredential.trusted", "Signing certificate chains to the local trust list")
+      : at("signingCredential.untrusted", `Signer "${leaf.subject.text}" is not on the local trust list`),
+  );
+
+  return {
+    commonName: leaf.subject.commonName ?? null,
+    organization: leaf.subject.organization ?? null,
+    issuer: leaf.issuer.commonName ?? leaf.issuer.text,
+    notBefore: leaf.notBefore.toISOString(),
+    notAfter: leaf.notAfter.toISOString(),
+    fingerprint: fingerprints[0],
+    algorithm: cose.name,
+    timestamped,
+    trusted,
+  };
+}
+
+// ============================================================
+// BINDINGS
+// ============================================================
+
+function claimAssertionRefs(claim: CborMap): CborValue[] {
+  const list = (value: CborValue) => (Array.isArray(value) ? value : []);
+  return [...list(claim.assertions), ...list(claim.created_assertions), ...list(claim.gathered_assertions)];
+}
+
+async function verifyAssertionHashes(store: ManifestStore, manifest: C2paManifest, report: Report) {
+  const claim = manifest.claim!;
+  const defaultAlg = text(claim.alg) ?? "sha256";
+  for (const ref of claimAssertionRefs(claim)) {
+    const uri = asHashedUri(ref);
+    if (!uri) continue;
+    const entry = (code: string, explanation: string) => ({ code, explanation, manifest: manifest.label, url: uri.url });
+    const box = resolveJumbfUri(store, manifest, uri.url);
+    if (!box) {
+      report.failure.push(entry("assertion.missing", "Claim references an assertion that is not in the manifest"));
+      continue;
+    }
+    const hash = await digest(uri.alg ?? defaultAlg, box.payload);
+    if (!hash) {
+      report.failure.push(entry("algorithm.unsupported", `Hash algorithm "${uri.alg ?? defaultAlg}" is not supported`));
+    } else if (bytesEqual(hash, uri.hash)) {
+      report.success.push(entry("assertion.hashedURI.match", "Assertion matches its hash in the claim"));
+    } else {
+      report.failure.push(entry("assertion.hashedURI.mismatch", "Assertion was modified after the claim was signed"));
+    }
+  }
+}
+
+async function verifyHardBinding(manifest: C2paManifest, report: Report, size: number, read: ReadRange) {
+  const at = (code: string, explanation: string) => ({ code, explanation, manifest: manifest.label });
+  const dataHash = manifest.assertions.find((a) => baseLabel(a.label) === "c2pa.hash.data");
+  const bmffHash = manifest.assertions.find((a) => baseLabel(a.label).startsWith("c2pa.hash.bmff"));
+
+  if (dataHash) {
+    const data = asMap(dataHash.data);
+    const expected = data?.hash;
+    const alg = text(data?.alg) ?? text(manifest.claim?.alg) ?? "sha256";
+    if (!(expected instanceof Uint8Array)) {
+      report.failure.push(at("assertion.dataHash.malformed", "Data hash assertion has no hash"));
+      return;
+    }
+    const exclusions = (Array.isArray(data!.exclusions) ? data!.exclusions : [])
+      .map((e) => asMap(e))
+      .map((e) => ({ start: Number(e?.start ?? 0), length: Number(e?.length ?? 0) }))
+      .sort((a, b) => a.start - b.start);
+    // Ranges must lie inside the file and not overlap, or the kept bytes are undefined
+    let end = 0;
+    for (const e of exclusions) {
+      if (!Number.isSafeInteger(e.start) || !Number.isSafeInteger(e.length) || e.start < end || e.length < 0 || e.start + e.length > size) {
+        report.failure.push(at("assertion.dataHash.malformed", `Data hash exclusion ${e.start}+${e.length} is outside the file (${size} bytes) or overlaps another`));
+        return;
+      }
+      end = e.start + e.length;
+    }
+
+    const file = await read(0, size);
+    const kept = new Uint8Array(size - exclusions.reduce((n, e) => n + e.length, 0));
+    let from = 0;
+    let written = 0;
+    for (const e of [...exclusions, { start: size, length: 0 }]) {
+      const part = file.subarray(from, Math.max(from, e.start));
+      kept.set(part, written);
+      written += part.length;
+      from = e.start + e.length;
+    }
+    const hash = await digest(alg, kept.subarray(0, written));
+    if (!hash) {
+      report.failure.push(at("algorithm.unsupported", `Hash algorithm "${alg}" is not supported`));
+    } else if (bytesEqual(hash, expected)) {
+      report.success.push(at("assertion.dataHash.match", "File bytes match the signed data hash"));
+    } else {
+      report.failure.push(at("assertion.dataHash.mismatch", "File bytes were modified after signing"));
+    }
+  } else if (bmffHash) {
+    report.informational.push(at("assertion.bmffHash.unverified", "BMFF box hashes are present but not verified here"));
+  } else if (!manifest.isUpdate) {
+    report.failure.push(at("claim.hardBindings.missing", "Manifest is not bound to the file contents"));
+  }
+}
+
+async function verifyIngredientManifests(store: ManifestStore, manifest: C2paManifest, report: Report) {
+  for (const assertion of manifest.assertions) {
+    if (!baseLabel(assertion.label).startsWith("c2pa.ingredient")) continue;
+    const data = asMap(assertion.data);
+    const uri = asHashedUri(data?.c2pa_manifest ?? data?.activeManifest);
+    if (!uri) continue;
+    const entry = (code: string, explanation: string) => ({ code, explanation, manifest: manifest.label, url: uri.url });
+    const box = resolveJumbfUri(store, manifest, uri.url);
+    if (!box) {
+      report.failure.push(entry("ingredient.manifest.missing", "Ingredient manifest is not in the manifest store"));
+      continue;
+    }
+    const hash = await digest(uri.alg ?? "sha256", box.payload);
+    if (hash && bytesEqual(hash, uri.hash)) {
+      report.success.push(entry("ingredient.manifest.validated", "Ingredient manifest matches its recorded hash"));
+    } else {
+      report.failure.push(entry("ingredient.manifest.mismatch", "Ingredient manifest differs from the one recorded at signing"));
+    }
+  }
+}
+
+// ============================================================
+// SUMMARIES
+// ============================================================
+
+function claimGenerator(claim: CborMap | null): string {
+  if (!claim) return "unknown";
+  if (typeof claim.claim_generator === "string") return claim.claim_generator;
+  const info = Array.isArray(claim.claim_generator_info) ? claim.claim_generator_info[0] : claim.claim_generator_info;
+  const map = asMap(info ?? null);
+  if (!map) return "unknown";
+  return [text(map.name), text(map.version)].filter(Boolean).join(" ") || "unknown";
+}
+
+function summarize(manifest: C2paManifest, signer: CredentialSigner | null): ManifestSummary {
+  const claim = manifest.claim;
+  const actions: ManifestAction[] = [];
+  const ingredients: ManifestIngredient[] = [];
+
+  for (const assertion of manifest.assertions) {
+    const label = baseLabel(assertion.label);
+    const data = asMap(assertion.data);
+    if (!data) continue;
+    if (label === "c2pa.actions" || label === "c2pa.actions.v2") {
+      for (const item of Array.isArray(data.actions) ? data.actions : []) {
+        const a = asMap(item);
+        if (!a || typeof a.action !== "string") continue;
+        actions.push({
+          action: a.action,
+          softwareAgent: text(a.softwareAgent) ?? text(asMap(a.softwareAgent ?? null)?.name),
+          when: text(a.when),
+          digitalSourceType: text(a.digitalSourceType),
+        });
+      }
+    } else if (label.startsWith("c2pa.ingredient")) {
+      const uri = asHashedUri(data.c2pa_manifest ?? data.activeManifest);
+      ingredients.push({
+        title: text(data["dc:title"]) ?? text(data.title) ?? "untitled",
+        format: text(data["dc:format"]) ?? text(data.format),
+        relationship: text(data.relationship) ?? "componentOf",
+        manifestLabel: uri ? /\/c2pa\/([^/]+)/.exec(uri.url)?.[1] ?? null : null,
+      });
+    }
+  }
+
+  return {
+    label: manifest.label,
+    claimGenerator: claimGenerator(claim),
+    title: text(claim?.["dc:title"]) ?? text(claim?.title),
+    format: text(claim?.["dc:format"]),
+    instanceId: text(claim?.instanceID),
+    signer,
+    assertions: manifest.assertions.map((a) => a.label),
+    actions,
+    ingredients,
+  };
+}
+
+// ============================================================
+// ENTRY POINTS
+// ============================================================
+
+function statusOf(report: Report): ContentCredentialsStatus {
+  if (report.failure.some((f) => !TRUST_ONLY_FAILURES.has(f.code))) return "invalid";
+  return report.failure.length > 0 ? "untrusted" : "valid";
+}
+
+/**
+ * Locate and verify the C2PA manifest store in a file. Every manifest's
+ * signature and assertion bindings are checked; the hard binding only for
+ * the active manifest, since ingredient manifests describe other files.
+ */
+export async function verifyContentCredentials(
+  size: number,
+  read: ReadRange,
+  options: VerifyOptions = {},
+): Promise<ContentCredentialsResult> {
+  const report: Report = { success: [], failure: [], informational: [] };
+  const empty = { activeManifest: null, manifests: [], ...report };
+
+  const meta = await parseMediaMetadata(size, read);
+  if (!meta?.c2pa) return { status: "absent", ...empty };
+
+  let store: ManifestStore;
+  try {
+    store = parseManifestStore(meta.c2pa);
+  } catch (err) {
+    report.failure.push({ code: "manifest.malformed", explanation: (err as Error).message, manifest: "" });
+    return { status: "invalid", ...empty };
+  }
+  if (!store.active) {
+    report.failure.push({ code: "claim.missing", explanation: "Manifest store contains no manifests", manifest: "" });
+    return { status: "invalid", ...empty };
+  }
+
+  const trustList = options.trustList ?? getTrustList();
+  const now = options.now ?? new Date();
+  const manifests: ManifestSummary[] = [];
+  for (const manifest of store.manifests) {
+    if (!manifest.claim) {
+      report.failure.push({ code: "claim.missing", explanation: "Manifest has no readable claim", manifest: manifest.label });
+      manifests.push(summarize(manifest, null));
+      continue;
+    }
+    const signer = await verifyClaimSignature(manifest, report, trustList, now);
+    await verifyAssertionHashes(store, manifest, report);
+    await verifyIngredientManifests(store, manifest, report);
+    if (manifest === store.active) await verifyHardBinding(manifest, report, size, read);
+    manifests.push(summarize(manifest, signer));
+  }
+
+  return { status: statusOf(report), activeManifest: store.active.label, manifests, ...report };
+}
+
+/** Verify the Content Credentials of an uploaded file. */
+export function analyzeContentCredentials(file: Blob, options?: VerifyOptions): Promise<ContentCredentialsResult> {
+  return verifyContentCredentials(
+    file.size,
+    async (start, length) => new Uint8Array(await file.slice(start, start + length).arrayBuffer()),
+    options,
+  );
+}
+
+/** Same as analyzeContentCredentials for bytes already in memory. */
+export function analyzeContentCredentialsFromBytes(bytes: Uint8Array, options?: VerifyOptions): Promise<ContentCredentialsResult> {
+  return verifyContentCredentials(bytes.length, async (start, length) => bytes.subarray(start, start + length), options);
+}
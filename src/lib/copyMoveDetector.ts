@@ -0,0 +1,316 @@
+/**
+ * Copy-Move Forgery Detection
+ * Finds regions cloned within the same image (duplicated objects, areas
+ * painted over with a copy of their surroundings). Overlapping blocks are
+ * described by their 4x4 sub-block luma means, sorted lexicographically so
+ * near-identical blocks land next to each other, and matched pairs are
+ * grouped by shift vector. Each group yields a source/target region pair
+ * and a least-squares affine estimate of the copy transform.
+ */
+
+import { decodeImageFile, toLuminance, type RGBAImage } from "@/lib/imageProcessing";
+
+export interface CopyMoveBox {
+  /** 0–1 image coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CopyMoveTransform {
+  /** Mean translation source → target, in pixels of the analyzed image. */
+  dx: number;
+  dy: number;
+  scale: number;
+  /** Degrees from +x toward +y, i.e. clockwise on screen. */
+  rotation: number;
+}
+
+export interface CopyMovePair {
+  source: CopyMoveBox;
+  target: CopyMoveBox;
+  /** Matched block pairs supporting this region pair. */
+  blocks: number;
+  /** 0–1 mean feature similarity of the matched blocks. */
+  similarity: number;
+  transform: CopyMoveTransform;
+}
+
+export interface CopyMoveAnalysis {
+  /** Dimensions of the analyzed image; transforms are in these pixels. */
+  width: number;
+  height: number;
+  /** Textured blocks that were described and compared. */
+  blocksCompared: number;
+  pairs: CopyMovePair[];
+  /** 0–1; driven by the size of the strongest cloned region. */
+  fakeProbability: number;
+}
+
+const BLOCK_SIZE = 16;
+const SUB_BLOCK = 4;
+const FEATURES = (BLOCK_SIZE / SUB_BLOCK) ** 2;
+const STEP = 2;
+/** Copy detection runs on a reduced image; cloning survives downscaling well. */
+const MAX_WORKING_DIMENSION = 512;
+/** Flat blocks (sky, walls) match each other everywhere and are skipped. */
+const MIN_BLOCK_STD = 4;
+/** Neighbours in sorted order that each block is compared against. */
+const SORT_WINDOW = 8;
+/** Largest per-feature luma difference for two blocks to match. */
+const MATCH_TOLERANCE = 3;
+const FEATURE_QUANT = 4;
+/** Overlapping blocks of the same area trivially match; require real displacement. */
+const MIN_SHIFT = BLOCK_SIZE * 1.5;
+const SHIFT_BIN = 4;
+const MIN_MATCHES = 8;
+/** Matched blocks per sampled position in the region's bounding box; below this the matches are scattered texture. */
+const MIN_DENSITY = 0.1;
+const MAX_PAIRS = 6;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+interface Block {
+  x: number;
+  y: number;
+  features: Float32Array;
+  key: Int16Array;
+}
+
+interface Match {
+  sx: number;
+  sy: number;
+  tx: number;
+  ty: number;
+  distance: number;
+}
+
+/** Summed-area table with one row and column of zero padding. */
+function integral(values: Float32Array, width: number, height: number, square = false): Float64Array {
+  const w = width + 1;
+  const out = new Float64Array(w * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      const v = values[y * width + x];
+      row += square ? v * v : v;
+      out[(y + 1) * w + x + 1] = out[y * w + x + 1] + row;
+    }
+  }
+  return out;
+}
+
+function boxSum(table: Float64Array, width: number, x: number, y: number, size: number): number {
+  const w = width + 1;
+  return table[(y + size) * w + x + size] - table[y * w + x + size] - table[(y + size) * w + x] + table[y * w + x];
+}
+
+function describeBlocks(luma: Float32Array, width: number, height: number): Block[] {
+  const sum = integral(luma, width, height);
+  const sumSq = integral(luma, width, height, true);
+  const area = BLOCK_SIZE * BLOCK_SIZE;
+  const blocks: Block[] = [];
+
+  for (let y = 0; y + BLOCK_SIZE <= height; y += STEP) {
+    for (let x = 0; x + BLOCK_SIZE <= width; x += STEP) {
+      const mean = boxSum(sum, width, x, y, BLOCK_SIZE) / area;
+      const variance = boxSum(sumSq, width, x, y, BLOCK_SIZE) / area - mean * mean;
+      if (variance < MIN_BLOCK_STD * MIN_BLOCK_STD) continue;
+
+      const features = new Float32Array(FEATURES);
+      const key = new Int16Array(FEATURES);
+      const perSide = BLOCK_SIZE / SUB_BLOCK;
+      for (let j = 0; j < perSide; j++) {
+        for (let i = 0; i < perSide; i++) {
+          const f = boxSum(sum, width, x + i * SUB_BLOCK, y + j * SUB_BLOCK, SUB_BLOCK) / (SUB_BLOCK * SUB_BLOCK);
+          features[j * perSide + i] = f;
+          key[j * perSide + i] = Math.round(f / FEATURE_QUANT);
+        }
+      }
+      blocks.push({ x, y, features, key });
+    }
+  }
+  return blocks;
+}
+
+function compareKeys(a: Block, b: Block): number {
+  for (let i = 0; i < FEATURES; i++) {
+    if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i];
+  }
+  return 0;
+}
+
+function featureDistance(a: Float32Array, b: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+}
+
+function findMatches(blocks: Block[]): Match[] {
+  const sorted = [...blocks].sort(compareKeys);
+  const matches: Match[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < Math.min(sorted.length, i + 1 + SORT_WINDOW); j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if (Math.hypot(b.x - a.x, b.y - a.y) < MIN_SHIFT) continue;
+      const distance = featureDistance(a.features, b.features);
+      if (distance > MATCH_TOLERANCE) continue;
+      // Canonical direction so A→B and B→A fall in the same shift bin
+      const forward = b.x > a.x || (b.x === a.x && b.y > a.y);
+      const [s, t] = forward ? [a, b] : [b, a];
+      matches.push({ sx: s.x, sy: s.y, tx: t.x, ty: t.y, distance });
+    }
+  }
+  return matches;
+}
+
+/** Solve a 3x3 linear system by Cramer's rule; null when singular. */
+function solve3(m: number[][], v: number[]): number[] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-6) return null;
+  return [0, 1, 2].map((col) => det(m.map((row, r) => row.map((x, c) => (c === col ? v[r] : x)))) / d);
+}
+
+/**
+ * Least-squares affine fit from source to target block centres. Falls
+ * back to a pure translation when the points are (nearly) collinear.
+ */
+export function estimateTransform(matches: Pick<Match, "sx" | "sy" | "tx" | "ty">[]): CopyMoveTransform {
+  const n = matches.length;
+  const dx = matches.reduce((s, m) => s + m.tx - m.sx, 0) / n;
+  const dy = matches.reduce((s, m) => s + m.ty - m.sy, 0) / n;
+  const translation = { dx: Math.round(dx), dy: Math.round(dy), scale: 1, rotation: 0 };
+  if (n < 3) return translation;
+
+  const normal = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rx = [0, 0, 0];
+  const ry = [0, 0, 0];
+  for (const m of matches) {
+    const row = [m.sx, m.sy, 1];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+      rx[i] += row[i] * m.tx;
+      ry[i] += row[i] * m.ty;
+    }
+  }
+  const ax = solve3(normal, rx);
+  const ay = solve3(normal, ry);
+  if (!ax || !ay) return translation;
+
+  const [a, b] = ax;
+  const [c, d] = ay;
+  const scale = Math.sqrt(Math.abs(a * d - b * c));
+  const rotation = (Math.atan2(c - b, a + d) * 180) / Math.PI;
+  return {
+    dx: translation.dx,
+    dy: translation.dy,
+    scale: Math.round(scale * 100) / 100,
+    rotation: Math.round(rotation * 10) / 10 || 0,
+  };
+}
+
+function boundingBox(points: { x: number; y: number }[], width: number, height: number): CopyMoveBox {
+  const minX = Math.min(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxX = Math.max(...points.map((p) => p.x)) + BLOCK_SIZE;
+  const maxY = Math.max(...points.map((p) => p.y)) + BLOCK_SIZE;
+  return { x: minX / width, y: minY / height, width: (maxX - minX) / width, height: (maxY - minY) / height };
+}
+
+/** Distinct sampled positions relative to what the bounding box could hold. */
+function density(points: { x: number; y: number }[], box: CopyMoveBox, width: number, height: number): number {
+  const distinct = new Set(points.map((p) => `${p.x},${p.y}`)).size;
+  const slots =
+    Math.max(1, (box.width * width - BLOCK_SIZE) / STEP + 1) *
+    Math.max(1, (box.height * height - BLOCK_SIZE) / STEP + 1);
+  return distinct / slots;
+}
+
+/**
+ * Group matches by shift vector into source/target region pairs.
+ */
+function clusterMatches(matches: Match[], width: number, height: number): CopyMovePair[] {
+  const bins = new Map<string, Match[]>();
+  const binKey = (bx: number, by: number) => `${bx},${by}`;
+  for (const m of matches) {
+    const key = binKey(Math.round((m.tx - m.sx) / SHIFT_BIN), Math.round((m.ty - m.sy) / SHIFT_BIN));
+    const list = bins.get(key) ?? [];
+    list.push(m);
+    bins.set(key, list);
+  }
+
+  const used = new Set<string>();
+  const pairs: CopyMovePair[] = [];
+  const ranked = [...bins.entries()].sort((a, b) => b[1].length - a[1].length);
+  for (const [key, seed] of ranked) {
+    if (used.has(key) || seed.length < MIN_MATCHES / 2) continue;
+    // Merge neighbouring bins: shifts straddling a bin edge, slight rotation or scale
+    const [bx, by] = key.split(",").map(Number);
+    const members: Match[] = [];
+    for (let oy = -1; oy <= 1; oy++) {
+      for (let ox = -1; ox <= 1; ox++) {
+        const k = binKey(bx + ox, by + oy);
+        if (used.has(k) || !bins.has(k)) continue;
+        used.add(k);
+        members.push(...bins.get(k)!);
+      }
+    }
+    if (members.length < MIN_MATCHES) continue;
+
+    const sources = members.map((m) => ({ x: m.sx, y: m.sy }));
+    const targets = members.map((m) => ({ x: m.tx, y: m.ty }));
+    const source = boundingBox(sources, width, height);
+    const target = boundingBox(targets, width, height);
+    if (density(sources, source, width, height) < MIN_DENSITY || density(targets, target, width, height) < MIN_DENSITY) continue;
+
+    const similarity = members.reduce((s, m) => s + (1 - m.distance / (MATCH_TOLERANCE + 1)), 0) / members.length;
+    pairs.push({
+      source,
+      target,
+      blocks: members.length,
+      similarity: Math.round(similarity * 100) / 100,
+      transform: estimateTransform(members),
+    });
+    if (pairs.length >= MAX_PAIRS) break;
+  }
+  return pairs;
+}
+
+/**
+ * Detect copy-moved regions in an image. Coordinates in the result are
+ * relative to the image passed in.
+ */
+export function detectCopyMove(img: RGBAImage): CopyMoveAnalysis {
+  const { width, height } = img;
+  const blocks = describeBlocks(toLuminance(img), width, height);
+  const pairs = clusterMatches(findMatches(blocks), width, height);
+  const strongest = pairs[0]?.blocks ?? 0;
+  const fakeProbability = pairs.length > 0 ? clamp01(logistic((strongest - MIN_MATCHES * 2) / 4)) : 0;
+  return {
+    width,
+    height,
+    blocksCompared: blocks.length,
+    pairs,
+    fakeProbability: Math.round(fakeProbability * 100) / 100,
+  };
+}
+
+/**
+ * Decode an uploaded image at working resolution and detect copy-move
+ * regions. Box coordinates are relative, so they apply to the full image.
+ */
+export async function analyzeCopyMove(file: Blob): Promise<CopyMoveAnalysis> {
+  return detectCopyMove(await decodeImageFile(file, MAX_WORKING_DIMENSION));
+}
@@ -0,0 +1,52 @@
+/**
+ * Data Provenance
+ * Resolves where each AnalysisResult value came from: measured from the media,
+ * estimated by the vision model, derived from other fields, or synthesized.
+ */
+
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+
+export type DataProvenance = "measured" | "model-estimated" | "derived" | "synthesized";
+
+export const PROVENANCE_LABELS: Record<DataProvenance, string> = {
+  measured: "Measured",
+  "model-estimated": "Model-estimated",
+  derived: "Derived",
+  synthesized: "Synthesized",
+};
+
+/**
+ * Look up the provenance of a dotted field path. The most specific tag wins,
+ * so "graphStats.edgeConnections" overrides "graphStats". Results produced
+ * before provenance tagging existed are treated as model-estimated.
+ */
+export function getFieldProvenance(result: AnalysisResult, path: string): DataProvenance {
+  const tags = result.fieldProvenance ?? {};
+  const segments = path.split(".");
+  for (let i = segments.length; i > 0; i--) {
+    const tag = tags[segments.slice(0, i).join(".")];
+    if (tag) return tag;
+  }
+  return "model-estimated";
+}
+
+/**
+ * True when the field, or any of its sub-fields, contains synthesized data.
+ */
+export function hasSynthesizedData(result: AnalysisResult, path: string): boolean {
+  if (getFieldProvenance(result, path) === "synthesized") return true;
+  const tags = result.fieldProvenance ?? {};
+  return Object.entries(tags).some(
+    ([key, tag]) => tag === "synthesized" && key.startsWith(`${path}.`)
+  );
+}
+
+/**
+ * Return a copy of the result with the given provenance tags merged in.
+ */
+export function withFieldProvenance(
+  result: AnalysisResult,
+  tags: Record<string, DataProvenance>
+): AnalysisResult {
+  return { ...result, fieldProvenance: { ...result.fieldProvenance, ...tags } };
+}
@@ -30,10 +30,12 @@ export function computeDetectorEnsemble(result: AnalysisResult): EnsembleResult
     weight: 0.4,
   });
 
-  // Detector 2: Frequency Artifact Detector (derived from GAN fingerprints)
+  // Detector 2: Frequency Artifact Detector (measured spectrum, else derived from GAN fingerprints)
   const ganConf = result.ganFingerprints.confidence / 100;
   const ganDetected = result.ganFingerprints.detected;
-  const freqProb = ganDetected ? clamp(ganConf * 0.9 + 0.1) : clamp(ganConf * 0.3);
+  const freqProb = result.spectralAnalysis
+    ? clamp(result.spectralAnalysis.frequencyPatternScore)
+    : ganDetected ? clamp(ganConf * 0.9 + 0.1) : clamp(ganConf * 0.3);
   detectors.push({
     detector: "FrequencyArtifact",
     label: "Frequency Artifact Detector",
@@ -56,8 +58,7 @@ export function computeDetectorEnsemble(result: AnalysisResult): EnsembleResult
   const texMap: Record<string, number> = { low: 0.7, normal: 0.2, high: 0.1 };
   const lapScore = texMap[result.textureAnalysis.laplacianVariance] ?? 0.2;
   const smoothScore = result.textureAnalysis.smoothnessAnomalies ? 0.6 : 0.1;
-  const noiseMap: Record<string, number> = { consistent: 0.1, inconsistent: 0.45, suspicious: 0.7 };
-  const noiseScore = noiseMap[result.textureAnalysis.noiseConsistency] ?? 0.2;
+  const noiseScore = clamp(1 - result.textureAnalysis.noiseConsistency / 100);
   const textureProb = clamp(lapScore * 0.4 + smoothScore * 0.3 + noiseScore * 0.3);
   detectors.push({
     detector: "TextureAnalyzer",
@@ -66,6 +67,16 @@ export function computeDetectorEnsemble(result: AnalysisResult): EnsembleResult
     weight: 0.2,
   });
 
+  // Detector 5: Error Level Analysis (measured from pixels, images only)
+  if (result.errorLevelAnalysis) {
+    detectors.push({
+      detector: "ErrorLevelAnalysis",
+      label: "Error Level Analysis",
+      fakeProbability: clamp(result.errorLevelAnalysis.fakeProbability),
+      weight: 0.15,
+    });
+  }
+
   // Weighted consensus
   const totalWeight = detectors.reduce((s, d) => s + d.weight, 0);
   const consensusScore = Math.round(
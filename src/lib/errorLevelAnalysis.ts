@@ -0,0 +1,271 @@
+/**
+ * Error Level Analysis (ELA)
+ * Re-saves an image at a known JPEG quality and measures how much each
+ * pixel changes. Content that has been through the same compression as
+ * the rest of the frame settles to a similar error level; pasted or
+ * retouched regions usually stand out as brighter (or darker) blocks.
+ */
+
+import {
+  createImage,
+  decodeDataUrl,
+  decodeImageFile,
+  encodeImage,
+  resizeArea,
+  type RGBAImage,
+} from "@/lib/imageProcessing";
+
+export interface ElaRegion {
+  /** Bounding box in 0–1 image coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Mean per-pixel error inside the region, 0–255. */
+  meanError: number;
+  /** Region mean over the median block error of the image. */
+  contrast: number;
+}
+
+export interface ErrorLevelAnalysis {
+  /** JPEG quality (0–1) the image was re-saved at. */
+  quality: number;
+  width: number;
+  height: number;
+  /** True when the upload was decoded below full resolution. */
+  downscaled: boolean;
+  meanError: number;
+  maxError: number;
+  /** Median and 95th percentile of the per-block mean error. */
+  medianBlockError: number;
+  p95BlockError: number;
+  regions: ElaRegion[];
+  /** 0–1; how strongly error levels disagree across the frame. */
+  fakeProbability: number;
+  /** PNG data URL of the amplified error map, sized for display. */
+  overlayDataUrl?: string;
+}
+
+export const DEFAULT_ELA_QUALITY = 0.9;
+/** A multiple of the 8x8 JPEG block, so each block covers whole DCT blocks. */
+const BLOCK_SIZE = 16;
+/** Longest side decoded at full resolution; larger uploads are downscaled, which blurs the JPEG grid. */
+const MAX_WORKING_DIMENSION = 4096;
+const MAX_OVERLAY_DIMENSION = 1024;
+/** Blocks this many robust deviations above the median are flagged. */
+const OUTLIER_DEVIATIONS = 3.5;
+/** Ignore flagged blocks whose error is imperceptible, e.g. in near-lossless files. */
+const MIN_FLAGGED_ERROR = 2;
+const MAX_REGIONS = 8;
+/** Error values are small; the overlay stretches them for display. */
+const OVERLAY_GAIN = 12;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function quantile(sorted: Float32Array | number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const at = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[at];
+}
+
+/**
+ * Per-pixel error level: the largest absolute channel difference between
+ * the original and its re-saved copy.
+ */
+export function computeErrorMap(original: RGBAImage, resaved: RGBAImage): Float32Array {
+  if (original.width !== resaved.width || original.height !== resaved.height) {
+    throw new Error("Re-saved image dimensions differ from the original");
+  }
+  const out = new Float32Array(original.width * original.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = Math.max(
+      Math.abs(original.data[p] - resaved.data[p]),
+      Math.abs(original.data[p + 1] - resaved.data[p + 1]),
+      Math.abs(original.data[p + 2] - resaved.data[p + 2]),
+    );
+  }
+  return out;
+}
+
+interface BlockGrid {
+  cols: number;
+  rows: number;
+  means: Float32Array;
+}
+
+function blockMeans(errors: Float32Array, width: number, height: number): BlockGrid {
+  const cols = Math.ceil(width / BLOCK_SIZE);
+  const rows = Math.ceil(height / BLOCK_SIZE);
+  const means = new Float32Array(cols * rows);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      let sum = 0;
+      let n = 0;
+      for (let y = by * BLOCK_SIZE; y < Math.min(height, (by + 1) * BLOCK_SIZE); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min(width, (bx + 1) * BLOCK_SIZE); x++) {
+          sum += errors[y * width + x];
+          n++;
+        }
+      }
+      means[by * cols + bx] = n > 0 ? sum / n : 0;
+    }
+  }
+  return { cols, rows, means };
+}
+
+/**
+ * Group flagged blocks into 4-connected components and return their
+ * bounding boxes, strongest first.
+ */
+function flaggedRegions(grid: BlockGrid, flagged: Uint8Array, width: number, height: number, median: number): ElaRegion[] {
+  const { cols, rows, means } = grid;
+  const seen = new Uint8Array(flagged.length);
+  const regions: ElaRegion[] = [];
+
+  for (let start = 0; start < flagged.length; start++) {
+    if (!flagged[start] || seen[start]) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let minX = cols, minY = rows, maxX = 0, maxY = 0, sum = 0, n = 0;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const bx = i % cols;
+      const by = (i - bx) / cols;
+      minX = Math.min(minX, bx);
+      minY = Math.min(minY, by);
+      maxX = Math.max(maxX, bx);
+      maxY = Math.max(maxY, by);
+      sum += means[i];
+      n++;
+      const neighbours = [bx > 0 ? i - 1 : -1, bx < cols - 1 ? i + 1 : -1, by > 0 ? i - cols : -1, by < rows - 1 ? i + cols : -1];
+      for (const j of neighbours) {
+        if (j >= 0 && flagged[j] && !seen[j]) {
+          seen[j] = 1;
+          stack.push(j);
+        }
+      }
+    }
+    const meanError = sum / n;
+    const x0 = minX * BLOCK_SIZE;
+    const y0 = minY * BLOCK_SIZE;
+    regions.push({
+      x: x0 / width,
+      y: y0 / height,
+      width: (Math.min(width, (maxX + 1) * BLOCK_SIZE) - x0) / width,
+      height: (Math.min(height, (maxY + 1) * BLOCK_SIZE) - y0) / height,
+      meanError: Math.round(meanError * 100) / 100,
+      contrast: Math.round((meanError / Math.max(median, 0.5)) * 100) / 100,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.contrast * b.width * b.height - a.contrast * a.width * a.height)
+    .slice(0, MAX_REGIONS);
+}
+
+/**
+ * Summarize an error map: global statistics, outlier regions and an
+ * inconsistency probability. Uniformly high error (a freshly saved or
+ * lossless source) is not suspicious on its own; only error levels that
+ * differ across the frame are.
+ */
+export function summarizeErrorMap(
+  errors: Float32Array,
+  width: number,
+  height: number,
+  quality = DEFAULT_ELA_QUALITY,
+): ErrorLevelAnalysis {
+  let sum = 0;
+  let maxError = 0;
+  for (let i = 0; i < errors.length; i++) {
+    sum += errors[i];
+    if (errors[i] > maxError) maxError = errors[i];
+  }
+
+  const grid = blockMeans(errors, width, height);
+  const sorted = Float32Array.from(grid.means).sort();
+  const median = quantile(sorted, 0.5);
+  const p95 = quantile(sorted, 0.95);
+  // Median absolute deviation, floored so flat images do not flag noise
+  const deviations = Array.from(grid.means, (m) => Math.abs(m - median)).sort((a, b) => a - b);
+  const mad = Math.max(quantile(deviations, 0.5) * 1.4826, 0.5);
+  const threshold = Math.max(median + OUTLIER_DEVIATIONS * mad, MIN_FLAGGED_ERROR);
+
+  const flagged = new Uint8Array(grid.means.length);
+  let flaggedCount = 0;
+  grid.means.forEach((m, i) => {
+    if (m > threshold) {
+      flagged[i] = 1;
+      flaggedCount++;
+    }
+  });
+  const regions = flaggedRegions(grid, flagged, width, height, median);
+
+  // Strong contrast over a small area is the ELA signature of a local edit;
+  // when most of the frame is "flagged" the threshold itself is meaningless.
+  const flaggedFraction = flaggedCount / Math.max(1, grid.means.length);
+  const topContrast = regions[0]?.contrast ?? 1;
+  const localized = flaggedFraction > 0 && flaggedFraction < 0.4 ? 1 : 0.3;
+  const fakeProbability = regions.length > 0
+    ? clamp01(logistic((topContrast - 3) * 1.2) * localized)
+    : 0;
+
+  return {
+    quality,
+    width,
+    height,
+    downscaled: false,
+    meanError: Math.round((sum / Math.max(1, errors.length)) * 100) / 100,
+    maxError,
+    medianBlockError: Math.round(median * 100) / 100,
+    p95BlockError: Math.round(p95 * 100) / 100,
+    regions,
+    fakeProbability: Math.round(fakeProbability * 100) / 100,
+  };
+}
+
+/**
+ * Render the error map as a heat image: black for no change through red
+ * and yellow to white, scaled by OVERLAY_GAIN.
+ */
+export function renderErrorOverlay(errors: Float32Array, width: number, height: number): RGBAImage {
+  const out = createImage(width, height);
+  for (let i = 0, p = 0; i < errors.length; i++, p += 4) {
+    const v = clamp01((errors[i] * OVERLAY_GAIN) / 255);
+    out.data[p] = Math.min(255, v * 3 * 255);
+    out.data[p + 1] = clamp01(v * 3 - 1) * 255;
+    out.data[p + 2] = clamp01(v * 3 - 2) * 255;
+    out.data[p + 3] = 255;
+  }
+  return out;
+}
+
+/**
+ * Run ELA on an uploaded image in the browser: decode, re-save as JPEG at
+ * `quality`, diff, and render a display-sized overlay.
+ */
+export async function analyzeErrorLevels(file: Blob, quality = DEFAULT_ELA_QUALITY): Promise<ErrorLevelAnalysis> {
+  const bitmap = await createImageBitmap(file);
+  const longest = Math.max(bitmap.width, bitmap.height);
+  bitmap.close();
+
+  const downscaled = longest > MAX_WORKING_DIMENSION;
+  const original = await decodeImageFile(file, downscaled ? MAX_WORKING_DIMENSION : undefined);
+  const resaved = await decodeDataUrl(encodeImage(original, "image/jpeg", quality));
+  const errors = computeErrorMap(original, resaved);
+  const analysis = summarizeErrorMap(errors, original.width, original.height, quality);
+
+  const overlay = renderErrorOverlay(errors, original.width, original.height);
+  const scale = Math.min(1, MAX_OVERLAY_DIMENSION / Math.max(original.width, original.height));
+  const display = scale < 1
+    ? resizeArea(overlay, Math.max(1, Math.round(overlay.width * scale)), Math.max(1, Math.round(overlay.height * scale)))
+    : overlay;
+
+  return { ...analysis, downscaled, overlayDataUrl: encodeImage(display, "image/png") };
+}
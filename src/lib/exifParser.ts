@@ -0,0 +1,255 @@
+/**
+ * EXIF Parser
+ * Reads TIFF-structured EXIF blocks (IFD0, Exif IFD, GPS IFD and the IFD1
+ * thumbnail) as embedded by JPEG, PNG eXIf, WebP and HEIC containers.
+ */
+
+export type ExifValue = string | number | number[];
+
+export interface ExifData {
+  byteOrder: "II" | "MM";
+  /** Tags from IFD0 and the Exif sub-IFD, by name (unknown tags as hex ids). */
+  tags: Record<string, ExifValue>;
+  /** Tags from the GPS sub-IFD, by name. */
+  gps: Record<string, ExifValue>;
+  /** Embedded JPEG thumbnail from IFD1, if any. */
+  thumbnail: Uint8Array | null;
+}
+
+const TAG_NAMES: Record<number, string> = {
+  0x000b: "ProcessingSoftware",
+  0x0100: "ImageWidth",
+  0x0101: "ImageLength",
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x0201: "JPEGInterchangeFormat",
+  0x0202: "JPEGInterchangeFormatLength",
+  0x8298: "Copyright",
+  0x8769: "ExifIFDPointer",
+  0x8825: "GPSInfoIFDPointer",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+  0x9012: "OffsetTimeDigitized",
+  0x927c: "MakerNote",
+  0x9286: "UserComment",
+  0x9290: "SubSecTime",
+  0x9291: "SubSecTimeOriginal",
+  0xa002: "PixelXDimension",
+  0xa003: "PixelYDimension",
+  0xa005: "InteroperabilityIFDPointer",
+  0xa420: "ImageUniqueID",
+  0xa430: "CameraOwnerName",
+  0xa431: "BodySerialNumber",
+  0xa433: "LensMake",
+  0xa434: "LensModel",
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  0x00: "GPSVersionID",
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x12: "GPSMapDatum",
+  0x1d: "GPSDateStamp",
+};
+
+/** Bytes per component for each TIFF field type. */
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+/** Large binary tags are skipped rather than decoded. */
+const SKIPPED_TAGS = new Set([0x927c]);
+const USER_COMMENT_TAG = 0x9286;
+/** UserComment can hold generation parameters, so it is read well past the usual cap. */
+const MAX_USER_COMMENT = 64 * 1024;
+const MAX_ENTRIES_PER_IFD = 512;
+const MAX_ARRAY_VALUES = 64;
+
+interface TiffBlock {
+  view: DataView;
+  base: number;
+  length: number;
+  little: boolean;
+}
+
+function inRange(t: TiffBlock, offset: number, size: number): boolean {
+  return offset >= 0 && size >= 0 && offset + size <= t.length;
+}
+
+const u16 = (t: TiffBlock, offset: number) => t.view.getUint16(t.base + offset, t.little);
+const u32 = (t: TiffBlock, offset: number) => t.view.getUint32(t.base + offset, t.little);
+const i32 = (t: TiffBlock, offset: number) => t.view.getInt32(t.base + offset, t.little);
+
+function bytesAt(t: TiffBlock, offset: number, size: number): Uint8Array {
+  return new Uint8Array(t.view.buffer, t.view.byteOffset + t.base + offset, size);
+}
+
+function readValue(t: TiffBlock, type: number, count: number, offset: number): ExifValue | null {
+  const size = (TYPE_SIZES[type] ?? 0) * count;
+  if (size === 0 || !inRange(t, offset, size)) return null;
+
+  if (type === 2) {
+    return new TextDecoder("latin1").decode(bytesAt(t, offset, count)).replace(/\0+$/, "").trim();
+  }
+  if (type === 7) {
+    // UNDEFINED: text-like payloads (UserComment, versions) decode as ASCII
+    const raw = bytesAt(t, offset, Math.min(count, 256));
+    const printable = raw.every((b) => b === 0 || (b >= 32 && b < 127));
+    return printable
+      ? new TextDecoder("latin1").decode(raw).replace(/\0+/g, " ").trim()
+      : Array.from(raw.slice(0, MAX_ARRAY_VALUES));
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < Math.min(count, MAX_ARRAY_VALUES); i++) {
+    const at = offset + i * TYPE_SIZES[type];
+    switch (type) {
+      case 1: values.push(t.view.getUint8(t.base + at)); break;
+      case 6: values.push(t.view.getInt8(t.base + at)); break;
+      case 3: values.push(u16(t, at)); break;
+      case 8: values.push(t.view.getInt16(t.base + at, t.little)); break;
+      case 4: values.push(u32(t, at)); break;
+      case 9: values.push(i32(t, at)); break;
+      case 5: {
+        const den = u32(t, at + 4);
+        values.push(den === 0 ? 0 : u32(t, at) / den);
+        break;
+      }
+      case 10: {
+        const den = i32(t, at + 4);
+        values.push(den === 0 ? 0 : i32(t, at) / den);
+        break;
+      }
+      case 11: values.push(t.view.getFloat32(t.base + at, t.little)); break;
+      case 12: values.push(t.view.getFloat64(t.base + at, t.little)); break;
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * UserComment starts with an 8-byte charset id. UNICODE payloads are
+ * UTF-16 in either byte order depending on the writer, so the order is
+ * sniffed from the first character.
+ */
+function readUserComment(t: TiffBlock, count: number, offset: number): string | null {
+  const size = Math.min(count, MAX_USER_COMMENT);
+  if (size < 8 || !inRange(t, offset, size)) return null;
+  const raw = bytesAt(t, offset, size);
+  const charset = new TextDecoder("latin1").decode(raw.subarray(0, 8)).replace(/\0+$/, "").trim();
+  const body = raw.subarray(8);
+  let text: string;
+  if (charset === "UNICODE") {
+    const bigEndian = body.length >= 2 ? body[0] === 0 && body[1] !== 0 : !t.little;
+    text = new TextDecoder(bigEndian ? "utf-16be" : "utf-16le").decode(body);
+  } else if (charset === "ASCII" || charset === "") {
+    text = new TextDecoder("utf-8").decode(body);
+  } else {
+    text = new TextDecoder("latin1").decode(body);
+  }
+  return text.replace(/\0+$/, "").trim();
+}
+
+/**
+ * Read one IFD. Returns raw tag ids → values and the next-IFD offset.
+ */
+function readIfd(t: TiffBlock, offset: number): { entries: Map<number, ExifValue>; next: number } {
+  const entries = new Map<number, ExifValue>();
+  if (!inRange(t, offset, 2)) return { entries, next: 0 };
+
+  const count = Math.min(u16(t, offset), MAX_ENTRIES_PER_IFD);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (!inRange(t, entry, 12)) break;
+    const tag = u16(t, entry);
+    if (SKIPPED_TAGS.has(tag)) continue;
+    const type = u16(t, entry + 2);
+    const n = u32(t, entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * n;
+    const valueOffset = size <= 4 ? entry + 8 : u32(t, entry + 8);
+    const value = tag === USER_COMMENT_TAG && type === 7
+      ? readUserComment(t, n, valueOffset)
+      : readValue(t, type, n, valueOffset);
+    if (value !== null) entries.set(tag, value);
+  }
+
+  const nextAt = offset + 2 + count * 12;
+  return { entries, next: inRange(t, nextAt, 4) ? u32(t, nextAt) : 0 };
+}
+
+function nameEntries(entries: Map<number, ExifValue>, names: Record<number, string>, into: Record<string, ExifValue>) {
+  entries.forEach((value, tag) => {
+    into[names[tag] ?? `0x${tag.toString(16).padStart(4, "0")}`] = value;
+  });
+}
+
+/**
+ * Parse a TIFF/EXIF block starting at `offset` (the "II*\0" / "MM\0*"
+ * header). Returns null when the header is invalid.
+ */
+export function parseExif(view: DataView, offset = 0, length = view.byteLength - offset): ExifData | null {
+  length = Math.min(length, view.byteLength - offset);
+  if (length < 8) return null;
+  const order = view.getUint16(offset);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  const t: TiffBlock = { view, base: offset, length, little };
+  if (u16(t, 2) !== 42) return null;
+
+  const tags: Record<string, ExifValue> = {};
+  const gps: Record<string, ExifValue> = {};
+  const visited = new Set<number>();
+
+  const ifd0Offset = u32(t, 4);
+  visited.add(ifd0Offset);
+  const ifd0 = readIfd(t, ifd0Offset);
+  nameEntries(ifd0.entries, TAG_NAMES, tags);
+
+  const exifPointer = ifd0.entries.get(0x8769);
+  if (typeof exifPointer === "number" && !visited.has(exifPointer)) {
+    visited.add(exifPointer);
+    nameEntries(readIfd(t, exifPointer).entries, TAG_NAMES, tags);
+  }
+
+  const gpsPointer = ifd0.entries.get(0x8825);
+  if (typeof gpsPointer === "number" && !visited.has(gpsPointer)) {
+    visited.add(gpsPointer);
+    nameEntries(readIfd(t, gpsPointer).entries, GPS_TAG_NAMES, gps);
+  }
+
+  // IFD1 carries the thumbnail; its tags are not merged into `tags`
+  let thumbnail: Uint8Array | null = null;
+  if (ifd0.next && !visited.has(ifd0.next)) {
+    const ifd1 = readIfd(t, ifd0.next).entries;
+    const thumbOffset = ifd1.get(0x0201);
+    const thumbLength = ifd1.get(0x0202);
+    if (typeof thumbOffset === "number" && typeof thumbLength === "number" && inRange(t, thumbOffset, thumbLength)) {
+      thumbnail = bytesAt(t, thumbOffset, thumbLength).slice();
+    }
+  }
+
+  for (const pointer of ["ExifIFDPointer", "GPSInfoIFDPointer", "InteroperabilityIFDPointer"]) delete tags[pointer];
+
+  return { byteOrder: little ? "II" : "MM", tags, gps, thumbnail };
+}
+
+/**
+ * Signed decimal degrees from a GPS rational triple and its N/S/E/W
+ * reference. Null when either part is missing or malformed.
+ */
+export function gpsToDecimal(value: ExifValue | undefined, ref: ExifValue | undefined): number | null {
+  if (!Array.isArray(value) || value.length < 1 || typeof ref !== "string") return null;
+  const [deg, min = 0, sec = 0] = value;
+  const decimal = deg + min / 60 + sec / 3600;
+  return /^[SW]/i.test(ref) ? -decimal : decimal;
+}
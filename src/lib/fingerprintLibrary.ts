@@ -1,4 +1,5 @@
 import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import type { GeneratorMetadataResult } from "@/lib/generatorMetadata";
 
 /**
  * Generator fingerprint signatures — statistical ranges for known deepfake generators.
@@ -74,22 +75,32 @@ export interface GeneratorMatch {
   name: string;
   label: string;
   similarity: number;
+  /** "metadata" when the match was read from generator traces in the file. */
+  source?: "signature" | "metadata";
 }
 
 export interface FingerprintResult {
   generatorMatch: GeneratorMatch;
   alternativeMatches: GeneratorMatch[];
   artifactSignature: ArtifactSignature;
+  /** Set when embedded generator metadata decided the attribution. */
+  metadataAttribution?: GeneratorMetadataResult;
 }
 
+/** Metadata traces at or above this confidence override signature matching. */
+export const METADATA_OVERRIDE_CONFIDENCE = 0.8;
+
 /**
  * Extract an artifact signature from existing analysis outputs.
  */
 export function extractArtifactSignature(result: AnalysisResult): ArtifactSignature {
-  // Frequency pattern: derive from GAN fingerprint confidence + visual deepfake probability
+  // Frequency pattern: measured from the power spectrum when the browser could decode the image,
+  // otherwise derived from GAN fingerprint confidence + visual deepfake probability
   const ganConf = result.ganFingerprints.confidence / 100;
   const deepfakeProb = result.visualDeepfakeDetection?.visualDeepfakeProbability ?? (100 - result.trustScore) / 100;
-  const frequencyPatternScore = clamp((ganConf * 0.6 + deepfakeProb * 0.4));
+  const frequencyPatternScore = result.spectralAnalysis
+    ? clamp(result.spectralAnalysis.frequencyPatternScore)
+    : clamp((ganConf * 0.6 + deepfakeProb * 0.4));
 
   // Texture uniformity: derive from texture analysis
   const texMap: Record<string, number> = { low: 0.8, normal: 0.3, high: 0.15 };
@@ -98,8 +109,7 @@ export function extractArtifactSignature(result: AnalysisResult): ArtifactSignat
   const textureUniformityScore = clamp((lapVar * 0.5 + smoothness * 0.5));
 
   // Color noise variance: derive from noise consistency
-  const noiseMap: Record<string, number> = { consistent: 0.15, inconsistent: 0.5, suspicious: 0.75 };
-  const colorNoiseVariance = clamp(noiseMap[result.textureAnalysis.noiseConsistency] ?? 0.3);
+  const colorNoiseVariance = clamp(0.1 + (1 - result.textureAnalysis.noiseConsistency / 100) * 0.8);
 
   // Landmark symmetry error: derive from structural graph
   const coherence = result.graphStats.graphCoherence / 100;
@@ -123,9 +133,14 @@ export function extractArtifactSignature(result: AnalysisResult): ArtifactSignat
 
 /**
  * Compare artifact signature against fingerprint library using
- * range-based similarity scoring.
+ * range-based similarity scoring. A confident generator trace from the
+ * file's metadata replaces the best signature match, which then ranks
+ * among the alternatives.
  */
-export function matchFingerprint(signature: ArtifactSignature): FingerprintResult {
+export function matchFingerprint(
+  signature: ArtifactSignature,
+  metadata?: GeneratorMetadataResult | null,
+): FingerprintResult {
   const matches: GeneratorMatch[] = FINGERPRINT_LIBRARY.map((gen) => {
     const dims = [
       rangeSimilarity(signature.frequencyPatternScore, gen.frequencyPatternScore),
@@ -135,11 +150,21 @@ export function matchFingerprint(signature: ArtifactSignature): FingerprintResul
       rangeSimilarity(signature.heatmapActivationIntensity, gen.heatmapActivationIntensity),
     ];
     const similarity = Math.round(dims.reduce((a, b) => a + b, 0) / dims.length * 100) / 100;
-    return { name: gen.name, label: gen.label, similarity };
+    return { name: gen.name, label: gen.label, similarity, source: "signature" as const };
   });
 
   matches.sort((a, b) => b.similarity - a.similarity);
 
+  if (metadata?.detected && metadata.label && metadata.confidence >= METADATA_OVERRIDE_CONFIDENCE) {
+    const name = metadata.generator ?? "UnidentifiedAI";
+    return {
+      generatorMatch: { name, label: metadata.label, similarity: metadata.confidence, source: "metadata" },
+      alternativeMatches: matches.filter((m) => m.name !== name),
+      artifactSignature: signature,
+      metadataAttribution: metadata,
+    };
+  }
+
   return {
     generatorMatch: matches[0],
     alternativeMatches: matches.slice(1),
@@ -1,4 +1,7 @@
 import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance, type DataProvenance } from "@/lib/dataProvenance";
+import { claimedCameraOf, isClaimedCamera } from "@/lib/prnu";
+import { segmentFrameScores } from "@/lib/temporalSegmentation";
 
 export type EvidenceCategory =
   | "visual_artifact"
@@ -15,8 +18,11 @@ export interface ForensicEvidenceObject {
   severity: "low" | "medium" | "high";
   confidence: number;
   timestamp: number | null;
+  /** Seconds; set when the evidence spans a stretch of the media rather than an instant. */
+  timeRange?: { start: number; end: number };
   description: string;
   supportingData: Record<string, unknown>;
+  provenance: DataProvenance;
 }
 
 export interface ChainOfCustodyMetadata {
@@ -25,8 +31,17 @@ export interface ChainOfCustodyMetadata {
   analysisVersion: string;
   modulesUsed: string[];
   analysisTime: number;
+  modelProvider: string | null;
 }
 
+/** C2PA failures that mean signed content was altered, not just misconfigured. */
+const BROKEN_BINDING_CODES = new Set([
+  "claimSignature.mismatch",
+  "assertion.hashedURI.mismatch",
+  "assertion.dataHash.mismatch",
+  "ingredient.manifest.mismatch",
+]);
+
 /**
  * Generates ForensicEvidenceObjects from existing AnalysisResult signals.
  * Does NOT invent new evidence — only structures what already exists.
@@ -35,6 +50,7 @@ export function generateEvidenceObjects(result: AnalysisResult): ForensicEvidenc
   const evidence: ForensicEvidenceObject[] = [];
   let counter = 0;
   const nextId = (prefix: string) => `${prefix}_${String(++counter).padStart(3, "0")}`;
+  const provenanceOf = (path: string) => getFieldProvenance(result, path);
 
   // 1. Manipulation regions → visual_artifact
   (result.manipulationRegions ?? []).forEach((mr) => {
@@ -47,6 +63,7 @@ export function generateEvidenceObjects(result: AnalysisResult): ForensicEvidenc
       timestamp: null,
       description: mr.description,
       supportingData: { region: mr.region, score: mr.score },
+      provenance: provenanceOf("manipulationRegions"),
     });
   });
 
@@ -61,70 +78,321 @@ export function generateEvidenceObjects(result: AnalysisResult): ForensicEvidenc
       timestamp: null,
       description: `GAN fingerprint patterns detected: ${result.ganFingerprints.patterns.join(", ")}`,
       supportingData: { patterns: result.ganFingerprints.patterns },
+      provenance: provenanceOf("ganFingerprints"),
+    });
+  }
+
+  // 2b. Measured spectral peaks → visual_artifact
+  const spectrum = result.spectralAnalysis;
+  if (spectrum && spectrum.frequencyPatternScore >= 0.5) {
+    const generatorPeaks = spectrum.peaks.filter((p) => p.kind !== "jpeg_grid");
+    const found = generatorPeaks.length > 0
+      ? generatorPeaks.map((p) => `${p.kind} peak at (${p.fx}, ${p.fy}) cycles/px`).join(", ")
+      : `raised high-frequency tail (+${spectrum.signature.highFrequencyExcess} log power)`;
+    evidence.push({
+      id: nextId("visual_artifact"),
+      category: "visual_artifact",
+      module: "SpectralAnalyzer",
+      severity: spectrum.frequencyPatternScore >= 0.8 ? "high" : "medium",
+      confidence: spectrum.frequencyPatternScore,
+      timestamp: null,
+      description: `Periodic frequency artifacts in the averaged power spectrum: ${found}`,
+      supportingData: {
+        signature: spectrum.signature,
+        peaks: generatorPeaks,
+        tilesAnalyzed: spectrum.tilesAnalyzed,
+      },
+      provenance: provenanceOf("spectralAnalysis"),
     });
   }
 
   // 3. Texture anomalies → visual_artifact
-  if (result.textureAnalysis.smoothnessAnomalies || result.textureAnalysis.noiseConsistency !== "consistent") {
+  if (result.textureAnalysis.smoothnessAnomalies || result.textureAnalysis.noiseConsistency < 75) {
     evidence.push({
       id: nextId("visual_artifact"),
       category: "visual_artifact",
       module: "TextureAnalyzer",
-      severity: result.textureAnalysis.noiseConsistency === "suspicious" ? "high" : "medium",
+      severity: result.textureAnalysis.noiseConsistency < 45 ? "high" : "medium",
       confidence: 0.7,
       timestamp: null,
-      description: `Texture anomaly: Laplacian variance ${result.textureAnalysis.laplacianVariance}, noise ${result.textureAnalysis.noiseConsistency}`,
+      description: `Texture anomaly: Laplacian variance ${result.textureAnalysis.laplacianVariance}, noise consistency ${result.textureAnalysis.noiseConsistency}%`,
       supportingData: { ...result.textureAnalysis },
+      provenance: provenanceOf("textureAnalysis"),
+    });
+  }
+
+  // 3b. Error level inconsistencies → visual_artifact
+  const ela = result.errorLevelAnalysis;
+  if (ela && ela.regions.length > 0 && ela.fakeProbability >= 0.5) {
+    const top = ela.regions[0];
+    evidence.push({
+      id: nextId("visual_artifact"),
+      category: "visual_artifact",
+      module: "ErrorLevelAnalyzer",
+      severity: ela.fakeProbability >= 0.8 ? "high" : "medium",
+      confidence: ela.fakeProbability,
+      timestamp: null,
+      description: `${ela.regions.length} region(s) re-compress differently from the rest of the image at JPEG q${Math.round(ela.quality * 100)}; strongest is ${top.contrast.toFixed(1)}× the median error level`,
+      supportingData: {
+        quality: ela.quality,
+        medianBlockError: ela.medianBlockError,
+        regions: ela.regions,
+      },
+      provenance: provenanceOf("errorLevelAnalysis"),
     });
   }
 
+  // 3c. Cloned regions → visual_artifact, one per source/target pair
+  const copyMove = result.copyMoveAnalysis;
+  copyMove?.pairs.forEach((pair) => {
+    const { dx, dy, scale, rotation } = pair.transform;
+    const warped = scale !== 1 || rotation !== 0;
+    evidence.push({
+      id: nextId("visual_artifact"),
+      category: "visual_artifact",
+      module: "CopyMoveDetector",
+      severity: copyMove.fakeProbability >= 0.8 ? "high" : "medium",
+      confidence: Math.min(copyMove.fakeProbability, pair.similarity),
+      timestamp: null,
+      description: `Region duplicated within the image: ${pair.blocks} matching blocks shifted by (${dx}, ${dy}) px${warped ? `, scale ${scale}, rotation ${rotation}°` : ""}`,
+      supportingData: {
+        source: pair.source,
+        target: pair.target,
+        transform: pair.transform,
+        blocks: pair.blocks,
+        imageSize: { width: copyMove.width, height: copyMove.height },
+      },
+      provenance: provenanceOf("copyMoveAnalysis"),
+    });
+  });
+
+  // 3d. Noise-level outliers → visual_artifact, one per localized region
+  const noise = result.noiseResidualAnalysis;
+  noise?.regions
+    .filter((r) => r.score >= 0.5)
+    .forEach((r) => {
+      evidence.push({
+        id: nextId("visual_artifact"),
+        category: "visual_artifact",
+        module: "NoiseResidualAnalyzer",
+        severity: r.score >= 0.85 && noise.fakeProbability >= 0.5 ? "high" : "medium",
+        confidence: Math.min(r.score, Math.max(noise.fakeProbability, 0.3)),
+        timestamp: null,
+        description: `Possible splice: region noise level is ${r.noiseRatio}× the frame median (${r.noiseRatio < 1 ? "smoother" : "noisier"} than its surroundings)`,
+        supportingData: {
+          region: { x: r.x, y: r.y, width: r.width, height: r.height },
+          score: r.score,
+          noiseRatio: r.noiseRatio,
+          medianNoise: noise.medianNoise,
+          noiseConsistency: noise.noiseConsistency,
+        },
+        provenance: provenanceOf("noiseResidualAnalysis"),
+      });
+    });
+
   // 4. Metadata irregularities → metadata_irregularity
   if (result.metadataAnalysis.suspicious || !result.metadataAnalysis.hasMetadata) {
+    // Findings parsed from the file carry their own severity
+    const parsedHigh = result.metadataAnalysis.details?.some((d) => d.severity === "high");
     evidence.push({
       id: nextId("metadata"),
       category: "metadata_irregularity",
       module: "MetadataAnalyzer",
-      severity: result.metadataAnalysis.suspicious ? "medium" : "low",
-      confidence: 0.65,
+      severity: parsedHigh ? "high" : result.metadataAnalysis.suspicious ? "medium" : "low",
+      confidence: result.metadataAnalysis.details ? 0.85 : 0.65,
       timestamp: null,
       description: result.metadataAnalysis.suspicious
         ? `Suspicious metadata signatures: ${result.metadataAnalysis.findings.join("; ")}`
         : "EXIF metadata missing — possible indicator of re-encoding or AI generation.",
-      supportingData: { findings: result.metadataAnalysis.findings },
+      supportingData: {
+        findings: result.metadataAnalysis.findings,
+        ...(result.metadataAnalysis.details && { details: result.metadataAnalysis.details }),
+      },
+      provenance: provenanceOf("metadataAnalysis"),
     });
   }
 
-  // 5. Frame anomalies → temporal_drift
-  result.frameAnalysis
-    .filter((f) => f.anomalyType && f.confidence < 70)
-    .forEach((f) => {
-      evidence.push({
-        id: nextId("temporal"),
-        category: "temporal_drift",
-        module: "TemporalAnalyzer",
-        severity: f.confidence < 50 ? "high" : "medium",
-        confidence: (100 - f.confidence) / 100,
-        timestamp: f.timestamp,
-        description: `Temporal anomaly (${f.anomalyType?.replace(/_/g, " ")}) at frame ${f.frameNumber + 1}`,
-        supportingData: { frameNumber: f.frameNumber, anomalyType: f.anomalyType },
+  // 4b. Earlier JPEG compression → metadata_irregularity
+  const compression = result.metadataAnalysis.compression;
+  if (compression?.doubleCompression?.detected) {
+    const dc = compression.doubleCompression;
+    evidence.push({
+      id: nextId("metadata"),
+      category: "metadata_irregularity",
+      module: "JpegCompressionAnalyzer",
+      severity: dc.probability >= 0.9 ? "high" : "medium",
+      confidence: dc.probability,
+      timestamp: null,
+      description: `JPEG shows traces of an earlier compression${dc.priorQuality !== null ? ` at quality ≈ ${dc.priorQuality}` : ""} before the current save at quality ≈ ${compression.quality}`,
+      supportingData: {
+        currentQuality: compression.quality,
+        priorQuality: dc.priorQuality,
+        positions: dc.positions.filter((p) => p.priorStep !== null),
+        tableMatch: compression.tableMatch?.label ?? "custom tables",
+      },
+      provenance: provenanceOf("metadataAnalysis"),
+    });
+  }
+
+  // 4c. Sensor fingerprint contradicts the claimed camera → metadata_irregularity
+  const camera = result.cameraIdentification;
+  const claimedCamera = claimedCameraOf(result.metadataAnalysis.fields);
+  const claimedRef = claimedCamera ? camera?.matches.find((m) => isClaimedCamera(m, claimedCamera)) : undefined;
+  const other = claimedCamera ? camera?.matches.find((m) => m.verdict === "match" && !isClaimedCamera(m, claimedCamera)) : undefined;
+  if (claimedRef?.verdict === "no_match" || other) {
+    evidence.push({
+      id: nextId("metadata"),
+      category: "metadata_irregularity",
+      module: "SensorFingerprintMatcher",
+      severity: other ? "high" : "medium",
+      confidence: other ? 0.9 : 0.75,
+      timestamp: null,
+      description: other
+        ? `Metadata names "${claimedCamera}" but the sensor noise matches ${other.label} (PCE ${other.pce})`
+        : `Image lacks the sensor fingerprint of the claimed camera "${claimedCamera}" (PCE ${claimedRef?.pce})`,
+      supportingData: {
+        claimedCamera,
+        claimedReference: claimedRef ?? null,
+        matchedReference: other ?? null,
+      },
+      provenance: provenanceOf("cameraIdentification"),
+    });
+  }
+
+  // 5. Broken Content Credentials → metadata_irregularity
+  // A manifest that is merely unsigned-by-a-trusted-party is not broken.
+  if (result.contentCredentials?.status === "invalid") {
+    result.contentCredentials.failure
+      .filter((f) => f.code !== "signingCredential.untrusted")
+      .forEach((f) => {
+        const tampered = BROKEN_BINDING_CODES.has(f.code);
+        evidence.push({
+          id: nextId("metadata"),
+          category: "metadata_irregularity",
+          module: "ContentCredentialsVerifier",
+          severity: tampered ? "high" : "medium",
+          confidence: tampered ? 0.95 : 0.8,
+          timestamp: null,
+          description: `C2PA manifest failed validation (${f.code}): ${f.explanation}`,
+          supportingData: { code: f.code, manifest: f.manifest, ...(f.url && { url: f.url }) },
+          provenance: provenanceOf("contentCredentials"),
+        });
       });
+  }
+
+  // 5b. Generator traces in the file → metadata_irregularity
+  const generator = result.generatorMetadata;
+  if (generator?.detected) {
+    evidence.push({
+      id: nextId("metadata"),
+      category: "metadata_irregularity",
+      module: "GeneratorMetadataDetector",
+      severity: generator.confidence >= 0.85 ? "high" : "medium",
+      confidence: generator.confidence,
+      timestamp: null,
+      description: `File metadata identifies ${generator.label}: ${generator.traces.map((t) => `${t.source} ${t.field}`).join("; ")}`,
+      supportingData: {
+        generator: generator.generator,
+        ...(generator.digitalSourceType && { digitalSourceType: generator.digitalSourceType }),
+        parameters: generator.parameters,
+      },
+      provenance: provenanceOf("generatorMetadata"),
     });
+  }
 
-  // 6. Audio anomalies → audio_anomaly
+  // 6. Suspected manipulated segments → temporal_drift
+  // Padding frames never carry an anomalyType, so in a synthesized series
+  // only the model's flagged frames count as observations, and the
+  // segments are no better than the series they came from.
+  const frameProvenance = provenanceOf("frameAnalysis");
+  const { segments } = segmentFrameScores(result.frameAnalysis, {
+    placeholderScores: frameProvenance === "synthesized",
+    duration: result.keyframeSampling?.duration || undefined,
+  });
+  segments.forEach((s) => {
+    const frames = s.frameCount === 1 ? `frame ${s.firstFrame + 1}` : `frames ${s.firstFrame + 1}–${s.lastFrame + 1}`;
+    const types = s.anomalyTypes.length > 0 ? `: ${s.anomalyTypes.map((t) => t.replace(/_/g, " ")).join(", ")}` : "";
+    evidence.push({
+      id: nextId("temporal"),
+      category: "temporal_drift",
+      module: "TemporalSegmenter",
+      severity: s.severity,
+      confidence: s.confidence,
+      timestamp: s.start,
+      timeRange: { start: s.start, end: s.end },
+      description: `Suspected manipulated segment ${s.start.toFixed(1)}s–${s.end.toFixed(1)}s (${frames})${types}`,
+      supportingData: { ...s },
+      provenance: frameProvenance === "synthesized" ? "synthesized" : "derived",
+    });
+  });
+
+  // 7. Audio anomalies → audio_anomaly
+  // Measured segments carry the reasons they were flagged
+  const speech = result.audioForensics;
   result.audioAnomalies.forEach((a) => {
+    const segment = speech?.segments.find((s) => s.start === a.start && s.end === a.end);
     evidence.push({
       id: nextId("audio"),
       category: "audio_anomaly",
-      module: "AudioAnalyzer",
+      module: segment ? "SpeechForensicsAnalyzer" : "AudioAnalyzer",
       severity: a.severity,
       confidence: a.severity === "high" ? 0.85 : a.severity === "medium" ? 0.65 : 0.45,
       timestamp: a.start,
-      description: `Audio anomaly detected between ${a.start.toFixed(1)}s–${a.end.toFixed(1)}s`,
-      supportingData: { start: a.start, end: a.end },
+      timeRange: { start: a.start, end: a.end },
+      description: `Audio anomaly detected between ${a.start.toFixed(1)}s–${a.end.toFixed(1)}s${segment ? `: ${segment.reasons.join(", ")}` : ""}`,
+      supportingData: { start: a.start, end: a.end, ...(segment && { reasons: segment.reasons }) },
+      provenance: provenanceOf("audioAnomalies"),
+    });
+  });
+
+  // 7b. Measured synthetic-speech features → audio_anomaly
+  if (speech?.speechDetected && speech.syntheticProbability >= 0.5) {
+    const flagged = speech.indicators.filter((i) => i.strength >= 0.5);
+    evidence.push({
+      id: nextId("audio"),
+      category: "audio_anomaly",
+      module: "SpeechForensicsAnalyzer",
+      severity: speech.syntheticProbability >= 0.75 ? "high" : "medium",
+      confidence: speech.syntheticProbability,
+      timestamp: null,
+      description: `Acoustic features indicate synthetic speech: ${flagged.map((i) => i.detail).join("; ")}`,
+      supportingData: { features: speech.features, indicators: speech.indicators, speechSeconds: speech.speechSeconds },
+      provenance: provenanceOf("audioForensics"),
+    });
+  }
+
+  // 7c. Lip-sync offset and divergence → temporal_drift
+  const lipSync = result.lipSync;
+  if (lipSync?.status === "offset" && lipSync.offsetSeconds !== null) {
+    const offsetMs = Math.round(Math.abs(lipSync.offsetSeconds) * 1000);
+    evidence.push({
+      id: nextId("temporal"),
+      category: "temporal_drift",
+      module: "LipSyncAnalyzer",
+      severity: offsetMs >= 300 ? "high" : "medium",
+      confidence: lipSync.peakCorrelation,
+      timestamp: null,
+      description: `Audio ${lipSync.offsetSeconds > 0 ? "trails" : "leads"} mouth motion by ${offsetMs} ms`,
+      supportingData: { offsetSeconds: lipSync.offsetSeconds, peakCorrelation: lipSync.peakCorrelation },
+      provenance: provenanceOf("lipSync"),
+    });
+  }
+  (lipSync?.divergentSegments ?? []).forEach((s) => {
+    evidence.push({
+      id: nextId("temporal"),
+      category: "temporal_drift",
+      module: "LipSyncAnalyzer",
+      severity: s.end - s.start >= 4 ? "high" : "medium",
+      confidence: Math.min(1, Math.max(0, 1 - s.meanCorrelation)),
+      timestamp: s.start,
+      timeRange: { start: s.start, end: s.end },
+      description: `Lips and speech diverge between ${s.start.toFixed(1)}s–${s.end.toFixed(1)}s (correlation ${s.meanCorrelation.toFixed(2)})`,
+      supportingData: { ...s },
+      provenance: provenanceOf("lipSync"),
     });
   });
 
-  // 7. Robustness instability → robustness_instability
+  // 8. Robustness instability → robustness_instability
   result.robustnessTests
     .filter((r) => r.status !== "pass")
     .forEach((r) => {
@@ -137,10 +405,11 @@ export function generateEvidenceObjects(result: AnalysisResult): ForensicEvidenc
         timestamp: null,
         description: `Confidence drift of ${r.drift}% under ${r.mode} conditions (${r.description})`,
         supportingData: { mode: r.mode, drift: r.drift },
+        provenance: provenanceOf("robustnessTests"),
       });
     });
 
-  // 8. Structural inconsistencies → structural_inconsistency
+  // 9. Structural inconsistencies → structural_inconsistency
   if (result.graphStats.suspiciousNodes > 0) {
     evidence.push({
       id: nextId("structural"),
@@ -151,6 +420,7 @@ export function generateEvidenceObjects(result: AnalysisResult): ForensicEvidenc
       timestamp: null,
       description: `${result.graphStats.suspiciousNodes} suspicious keypoint nodes detected with ${result.graphStats.graphCoherence}% graph coherence`,
       supportingData: { ...result.graphStats },
+      provenance: provenanceOf("graphStats.suspiciousNodes"),
     });
   }
 
@@ -174,7 +444,17 @@ export function buildChainOfCustody(
     "DeepfakeDetector",
   ];
   if (result.mediaType !== "image") modulesUsed.push("AudioAnalyzer");
-  if (result.mediaType === "video") modulesUsed.push("TemporalAnalyzer");
+  if (result.audioForensics?.speechDetected) modulesUsed.push("SpeechForensicsAnalyzer");
+  if (result.mediaType === "video") modulesUsed.push("TemporalAnalyzer", "TemporalSegmenter");
+  if (result.lipSync) modulesUsed.push("LipSyncAnalyzer");
+  if (result.contentCredentials) modulesUsed.push("ContentCredentialsVerifier");
+  if (result.generatorMetadata) modulesUsed.push("GeneratorMetadataDetector");
+  if (result.spectralAnalysis) modulesUsed.push("SpectralAnalyzer");
+  if (result.errorLevelAnalysis) modulesUsed.push("ErrorLevelAnalyzer");
+  if (result.copyMoveAnalysis) modulesUsed.push("CopyMoveDetector");
+  if (result.noiseResidualAnalysis) modulesUsed.push("NoiseResidualAnalyzer");
+  if (result.metadataAnalysis.compression) modulesUsed.push("JpegCompressionAnalyzer");
+  if (result.cameraIdentification?.referencesCompared) modulesUsed.push("SensorFingerprintMatcher");
 
   return {
     fileHash,
@@ -182,5 +462,8 @@ export function buildChainOfCustody(
     analysisVersion: "DeepTrust_v1.3",
     modulesUsed,
     analysisTime: result.analysisTime,
+    modelProvider: result.modelProvider
+      ? `${result.modelProvider.name} (${result.modelProvider.model})`
+      : null,
   };
 }
@@ -9,7 +9,9 @@ import type { ForensicEvidenceObject, ChainOfCustodyMetadata } from "@/lib/foren
 import { calibrateConfidence } from "@/lib/confidenceCalibration";
 import { computeDetectorEnsemble } from "@/lib/detectorEnsemble";
 import { extractArtifactSignature, matchFingerprint } from "@/lib/fingerprintLibrary";
-import { analyzeProvenance } from "@/lib/provenanceAnalyzer";
+import { getFieldProvenance, PROVENANCE_LABELS } from "@/lib/dataProvenance";
+import { claimedCameraOf, contradictsClaimedCamera } from "@/lib/prnu";
+import { LIP_SYNC_LABELS } from "@/lib/lipSync";
 
 interface ReportInput {
   result: AnalysisResult;
@@ -47,6 +49,8 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
     }
   };
 
+  const tag = (path: string) => `[${PROVENANCE_LABELS[getFieldProvenance(result, path)]}]`;
+
   const heading = (text: string) => {
     ensurePage(14);
     y += 4;
@@ -112,6 +116,7 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   label("Analysis Date:", chainOfCustody?.uploadTimestamp || new Date().toISOString());
   label("Analysis Time:", `${result.analysisTime}s`);
   label("Analysis Version:", chainOfCustody?.analysisVersion || "DeepTrust_v1.3");
+  label("Model Provider:", chainOfCustody?.modelProvider || "N/A");
   y += 2;
 
   // ─── 2. Authenticity Assessment ───
@@ -142,6 +147,30 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   }
   y += 2;
 
+  // ─── 2b. Model Output Validation ───
+  if (result.schemaValidation && !result.schemaValidation.valid) {
+    heading("Model Output Validation");
+    note(
+      `${result.schemaValidation.issues.length} field(s) failed schema validation after ` +
+      `${result.schemaValidation.repairAttempts} repair attempt(s). Values for these fields are placeholder defaults, not findings.`
+    );
+    result.schemaValidation.issues.forEach((issue) => {
+      bullet(`${issue.path} — ${issue.problem} (${issue.message})`);
+    });
+    y += 2;
+  }
+
+  // ─── 2c. Data Provenance ───
+  const provenanceEntries = Object.entries(result.fieldProvenance ?? {});
+  if (provenanceEntries.length > 0) {
+    heading("Data Provenance");
+    note("Fields not listed are model-estimated. Synthesized values are placeholders and must not be cited as evidence.");
+    provenanceEntries
+      .filter(([, p]) => p !== "model-estimated")
+      .forEach(([path, p]) => label(`${path}:`, PROVENANCE_LABELS[p]));
+    y += 2;
+  }
+
   // ─── 3. Evidence Summary ───
   heading("Evidence Summary");
   result.observations.forEach((obs) => {
@@ -165,15 +194,183 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   doc.setFontSize(10);
   doc.setTextColor(c.fg);
 
+  // ─── 4b. Multi-View Preprocessing ───
+  const mv = result.multiViewAnalysis;
+  if (mv && mv.views.length > 0) {
+    heading("Multi-View Preprocessing");
+    mv.views.forEach((v) => {
+      label(`${v.view}:`, `Trust ${v.trustScore}/100${v.artifacts.length ? ` — ${v.artifacts.join(", ")}` : ""}`);
+    });
+    if (mv.missingViews.length > 0) note(`Not scored by the model: ${mv.missingViews.join(", ")}`);
+    mv.artifacts.filter((a) => a.weight > 1).forEach((a) => {
+      bullet(`${a.artifact} — seen in ${a.views.join(", ")} (weight ${a.weight})`);
+    });
+    label("View Consensus:", `${mv.consensus.replace(/_/g, " ")} (spread ${mv.scoreSpread})`);
+    y += 2;
+  }
+
+  // ─── 4c. Error Level Analysis ───
+  const ela = result.errorLevelAnalysis;
+  if (ela) {
+    heading(`Error Level Analysis ${tag("errorLevelAnalysis")}`);
+    label("Re-save Quality:", `JPEG q${Math.round(ela.quality * 100)}${ela.downscaled ? " (downscaled)" : ""}`);
+    label("Block Error:", `median ${ela.medianBlockError}, p95 ${ela.p95BlockError}, max pixel ${ela.maxError}`);
+    label("Inconsistency:", `${Math.round(ela.fakeProbability * 100)}%`);
+    ela.regions.slice(0, 4).forEach((r) => {
+      bullet(`Region at ${Math.round(r.x * 100)}%, ${Math.round(r.y * 100)}% (${Math.round(r.width * 100)}×${Math.round(r.height * 100)}% of frame): ${r.contrast.toFixed(1)}× median error`);
+    });
+    if (ela.overlayDataUrl) {
+      const h = Math.min(120, (70 * ela.height) / ela.width);
+      const w = (h * ela.width) / ela.height;
+      ensurePage(h + 4);
+      doc.addImage(ela.overlayDataUrl, "PNG", MARGIN, y, w, h);
+      y += h + 4;
+    }
+    y += 2;
+  }
+
+  // ─── 4d. Copy-Move Detection ───
+  const copyMove = result.copyMoveAnalysis;
+  if (copyMove) {
+    heading(`Copy-Move Detection ${tag("copyMoveAnalysis")}`);
+    label("Blocks Compared:", `${copyMove.blocksCompared} (${copyMove.width}×${copyMove.height} px)`);
+    if (copyMove.pairs.length === 0) {
+      note("No duplicated regions found.");
+    } else {
+      const pct = (v: number) => `${Math.round(v * 100)}%`;
+      copyMove.pairs.forEach((p) => {
+        ensurePage(LINE_H * 2);
+        const { dx, dy, scale, rotation } = p.transform;
+        bullet(`Source ${pct(p.source.x)}, ${pct(p.source.y)} → target ${pct(p.target.x)}, ${pct(p.target.y)}: ${p.blocks} blocks, shift (${dx}, ${dy}) px, scale ${scale}, rotation ${rotation}°`);
+      });
+    }
+    y += 2;
+  }
+
+  // ─── 4e. Noise Residual Analysis ───
+  const noise = result.noiseResidualAnalysis;
+  if (noise) {
+    heading(`Noise Residual Analysis ${tag("noiseResidualAnalysis")}`);
+    label("Noise Consistency:", `${noise.noiseConsistency}%`);
+    label("Median Noise Level:", `σ ${noise.medianNoise} (${noise.cols}×${noise.rows} blocks of ${noise.blockSize} px)`);
+    if (noise.downscaled) note("The image was downscaled before analysis, which weakens the noise signal.");
+    if (noise.regions.length === 0) {
+      note("No region with a foreign noise level was localized.");
+    } else {
+      const pct = (v: number) => `${Math.round(v * 100)}%`;
+      noise.regions.forEach((r) => {
+        ensurePage(LINE_H * 2);
+        bullet(`Region at ${pct(r.x)}, ${pct(r.y)} (${pct(r.width)} × ${pct(r.height)}): splice score ${pct(r.score)}, noise ${r.noiseRatio}× median`);
+      });
+    }
+    y += 2;
+  }
+
+  // ─── 4f. JPEG Compression ───
+  const compression = result.metadataAnalysis.compression;
+  if (compression) {
+    heading(`JPEG Compression ${tag("metadataAnalysis")}`);
+    label("Estimated Quality:", `${compression.quality}${compression.standardTables ? " (standard IJG tables)" : ""}`);
+    label("Quantization Tables:", compression.tableMatch?.label ?? "Custom (no library match)");
+    const dc = compression.doubleCompression;
+    if (!dc) {
+      note(`Coefficients not read (${compression.coding} coding); double compression was not tested.`);
+    } else if (dc.detected) {
+      label("Double Compression:", `Detected (${Math.round(dc.probability * 100)}%)${dc.priorQuality !== null ? `, earlier quality ≈ ${dc.priorQuality}` : ""}`);
+    } else {
+      label("Double Compression:", `Not detected (${compression.blocksAnalyzed} blocks read)`);
+    }
+    y += 2;
+  }
+
+  // ─── 4g. Frequency Spectrum ───
+  const spectrum = result.spectralAnalysis;
+  if (spectrum) {
+    heading(`Frequency Spectrum ${tag("spectralAnalysis")}`);
+    label("Frequency Pattern Score:", `${Math.round(spectrum.frequencyPatternScore * 100)}%`);
+    label("Spectral Slope:", `${spectrum.signature.spectralSlope} (${spectrum.tilesAnalyzed} tiles of ${spectrum.tileSize} px)`);
+    label("Upsampling / Checkerboard:", `${spectrum.signature.upsamplingScore} / ${spectrum.signature.checkerboardScore}`);
+    label("JPEG Grid:", `${spectrum.signature.jpegGridScore}`);
+    const generatorPeaks = spectrum.peaks.filter((p) => p.kind !== "jpeg_grid");
+    if (generatorPeaks.length === 0) {
+      note("No periodic peak beyond the JPEG block grid was found.");
+    } else {
+      generatorPeaks.forEach((p) => {
+        ensurePage(LINE_H * 2);
+        bullet(`${p.kind === "checkerboard" ? "Checkerboard" : "Upsampling"} peak at (${p.fx}, ${p.fy}) cycles/px, prominence ${p.prominence}`);
+      });
+    }
+    y += 2;
+  }
+
+  // ─── 4h. Sensor Fingerprint (PRNU) ───
+  const camera = result.cameraIdentification;
+  if (camera) {
+    heading(`Sensor Fingerprint (PRNU) ${tag("cameraIdentification")}`);
+    const claimed = claimedCameraOf(result.metadataAnalysis.fields);
+    label("Claimed Camera:", claimed ?? "Not stated in metadata");
+    label("References Compared:", `${camera.referencesCompared} at ${camera.width}×${camera.height}`);
+    if (camera.referencesCompared === 0) {
+      note("No reference fingerprint exists for this resolution.");
+    } else {
+      camera.matches.forEach((m) => {
+        ensurePage(LINE_H * 2);
+        bullet(`${m.label}: PCE ${m.pce} → ${m.verdict.replace("_", " ")}${m.rotation ? ` (rotated ${m.rotation}°)` : ""}`);
+      });
+      if (claimed && contradictsClaimedCamera(camera, claimed)) note("⚠ The sensor fingerprint contradicts the camera named in the metadata.");
+    }
+    y += 2;
+  }
+
+  // ─── 4i. Synthetic Speech ───
+  const speech = result.audioForensics;
+  if (speech) {
+    heading(`Synthetic Speech Analysis ${tag("audioForensics")}`);
+    if (!speech.speechDetected) {
+      note(`Too little voiced speech (${speech.speechSeconds}s) to measure.`);
+    } else {
+      const f = speech.features;
+      label("Synthetic-Speech Probability:", `${Math.round(speech.syntheticProbability * 100)}% (${speech.speechSeconds}s voiced${speech.truncated ? `, first ${speech.duration}s` : ""})`);
+      label("Pitch / Jitter / Shimmer:", `${f.meanPitchHz ?? "—"} Hz / ${f.jitter !== null ? `${(f.jitter * 100).toFixed(2)}%` : "—"} / ${f.shimmerDb ?? "—"} dB`);
+      label("Phase Coherence:", `${f.phaseCoherence ?? "—"}`);
+      label("Cutoff:", `${f.cutoffHz} Hz (${f.cutoffSharpness} dB/kHz)`);
+      label("Pauses / Breaths:", `${f.pauseCount} / ${f.breathCount} (${Math.round(f.digitalSilenceRatio * 100)}% digital silence)`);
+      speech.indicators.filter((i) => i.strength >= 0.5).forEach((i) => {
+        ensurePage(LINE_H * 2);
+        bullet(i.detail);
+      });
+    }
+    y += 2;
+  }
+
+  // ─── 4j. Lip Sync ───
+  const lipSync = result.lipSync;
+  if (lipSync) {
+    heading(`Lip-Sync Analysis ${tag("lipSync")}`);
+    if (lipSync.status === "inconclusive") {
+      note(`Inconclusive: face found in ${Math.round(lipSync.faceCoverage * 100)}% of frames, speech in ${Math.round(lipSync.speechCoverage * 100)}%.`);
+    } else {
+      label("Status:", LIP_SYNC_LABELS[lipSync.status]);
+      label("A/V Offset:", lipSync.offsetSeconds !== null ? `${Math.round(lipSync.offsetSeconds * 1000)} ms (positive: audio late)` : "not coupled");
+      label("Peak Correlation:", `${lipSync.peakCorrelation} (sync confidence ${Math.round(lipSync.syncConfidence * 100)}%)`);
+      label("Analysed:", `${lipSync.truncated ? "first " : ""}${lipSync.duration}s at ${lipSync.frameRate} fps`);
+      lipSync.divergentSegments.forEach((s) => {
+        ensurePage(LINE_H * 2);
+        bullet(`${s.start.toFixed(1)}s–${s.end.toFixed(1)}s: lips and speech diverge (correlation ${s.meanCorrelation.toFixed(2)})`);
+      });
+    }
+    y += 2;
+  }
+
   // ─── 5. Robustness Analysis ───
-  heading("Robustness Analysis");
+  heading(`Robustness Analysis ${tag("robustnessTests")}`);
   result.robustnessTests.forEach((r) => {
     const statusIcon = r.status === "pass" ? "✓" : r.status === "warning" ? "⚠" : "✗";
     label(`${statusIcon} ${r.mode}:`, `Confidence ${r.confidence}% (drift ${r.drift > 0 ? "+" : ""}${r.drift}%)`);
   });
   if (result.confidenceDrift) {
     y += 2;
-    label("Stability Score:", `${result.confidenceDrift.stabilityScore} — ${result.confidenceDrift.stabilityStatus}`);
+    label("Stability Score:", `${result.confidenceDrift.stabilityScore} — ${result.confidenceDrift.stabilityStatus} ${tag("confidenceDrift")}`);
   }
   y += 2;
 
@@ -184,7 +381,7 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   y = MARGIN;
 
   // ─── 6. Timeline Anomaly Analysis ───
-  heading("Timeline Anomaly Analysis");
+  heading(`Timeline Anomaly Analysis ${tag("frameAnalysis")}`);
   const anomalyFrames = result.frameAnalysis.filter((f) => f.anomalyType);
   if (anomalyFrames.length > 0) {
     anomalyFrames.forEach((f) => {
@@ -193,10 +390,18 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   } else {
     note("No temporal anomalies detected in frame analysis.");
   }
+  // Segments are read from the evidence objects so both sections agree
+  const segments = evidenceObjects.filter((e) => e.category === "temporal_drift" && e.timeRange);
+  if (segments.length > 0) {
+    label("Suspected Segments:", String(segments.length));
+    segments.forEach((e) => {
+      bullet(`${e.timeRange!.start.toFixed(1)}s–${e.timeRange!.end.toFixed(1)}s: ${(e.confidence * 100).toFixed(0)}% manipulation posterior, ${e.severity} severity`);
+    });
+  }
   y += 2;
 
   // ─── 7. Heatmap Evidence ───
-  heading("Heatmap Evidence");
+  heading(`Heatmap Evidence ${tag("heatmapRegions")}`);
   if (result.heatmapRegions.length > 0) {
     const highRegions = result.heatmapRegions.filter((r) => r.intensity > 0.5);
     label("Regions Analyzed:", String(result.heatmapRegions.length));
@@ -210,7 +415,7 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
 
   // ─── 8. Manipulation Regions ───
   if (result.manipulationRegions && result.manipulationRegions.length > 0) {
-    heading("Manipulation Localization");
+    heading(`Manipulation Localization ${tag("manipulationRegions")}`);
     result.manipulationRegions.forEach((mr) => {
       bullet(`[${mr.severity.toUpperCase()}] ${mr.region}: ${mr.description} (score ${(mr.score * 100).toFixed(0)}%)`);
     });
@@ -220,25 +425,62 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   // ─── 9. Generator Attribution ───
   heading("DeepFake Generator Attribution");
   const sig = extractArtifactSignature(result);
-  const fp = matchFingerprint(sig);
+  const fp = matchFingerprint(sig, result.generatorMetadata);
   label("Best Match:", `${fp.generatorMatch.label} — ${Math.round(fp.generatorMatch.similarity * 100)}%`);
   fp.alternativeMatches.slice(0, 3).forEach((m) => {
     label(`  ${m.label}:`, `${Math.round(m.similarity * 100)}%`);
   });
-  note(`Artifacts ${fp.generatorMatch.similarity >= 0.6 ? "consistent" : "weakly correlated"} with ${fp.generatorMatch.label}-style synthesis.`);
+  const attribution = fp.metadataAttribution;
+  if (attribution) {
+    const { parameters } = attribution;
+    if (parameters.model) label("Model:", parameters.model);
+    if (parameters.seed) label("Seed:", parameters.seed);
+    if (parameters.sampler) label("Sampler:", `${parameters.sampler}${parameters.steps ? `, ${parameters.steps} steps` : ""}`);
+    if (parameters.prompt) bullet(`Prompt: ${parameters.prompt.slice(0, 300)}`);
+    attribution.traces.forEach((t) => {
+      ensurePage(LINE_H * 2);
+      bullet(`${t.source} ${t.field}: ${t.excerpt}`);
+    });
+    note(`Attribution read from generator metadata embedded in the file ${tag("generatorMetadata")}.`);
+  } else {
+    note(`Artifacts ${fp.generatorMatch.similarity >= 0.6 ? "consistent" : "weakly correlated"} with ${fp.generatorMatch.label}-style synthesis.`);
+  }
   y += 2;
 
   // ─── 10. Content Provenance ───
   heading("Content Provenance");
-  const prov = analyzeProvenance(result.trustScore, result.mediaType, result.frameAnalysis.length);
-  if (prov.bestMatch) {
+  const prov = result.provenance;
+  if (!prov?.hashSignature) {
+    note("Perceptual hashes not available for this media.");
+  } else {
+    label("pHash:", prov.hashSignature.pHash);
+    label("dHash:", prov.hashSignature.dHash);
+    label("aHash:", prov.hashSignature.averageHash);
+  }
+  if (prov?.bestMatch) {
     label("Source:", prov.bestMatch.sourceLabel);
     label("Similarity:", `${Math.round(prov.bestMatch.similarityScore * 100)}%`);
+    if (prov.bestMatch.distance !== undefined) label("Hamming Distance:", `${prov.bestMatch.distance}/64`);
+    if (prov.bestMatch.corpus) label("Corpus:", prov.bestMatch.corpus);
     note("Media likely originates from previously published content.");
-  } else {
+  } else if (prov?.indexError) {
+    note(`Reference index could not be searched: ${prov.indexError}`);
+  } else if (prov?.hashSignature) {
     note("No strong provenance match found in reference index.");
   }
-  if (prov.matches.length > 0) {
+  if (prov?.sequenceMatch) {
+    const { alignment } = prov.sequenceMatch;
+    y += 2;
+    label("Sequence Match:", prov.sequenceMatch.sourceLabel);
+    label("Reference Offset:", `${alignment.offset >= 0 ? "+" : ""}${alignment.offset.toFixed(1)}s`);
+    label("Keyframes Matched:", `${alignment.matchedFrames}/${alignment.queryFrames} (${Math.round(alignment.coverage * 100)}%)`);
+    alignment.segments.forEach((seg) => {
+      bullet(`${seg.queryStart.toFixed(1)}–${seg.queryEnd.toFixed(1)}s matches reference ${seg.referenceStart.toFixed(1)}–${seg.referenceEnd.toFixed(1)}s`);
+    });
+    const edits = (["inserted", "removed", "reordered"] as const).filter((e) => alignment.edits[e]);
+    note(edits.length > 0 ? `Frames ${edits.join(", ")} relative to the reference.` : "No frame edits detected relative to the reference.");
+  }
+  if (prov && prov.matches.length > 0) {
     y += 2;
     prov.matches.forEach((m) => {
       label(`  ${m.sourceLabel}:`, `${Math.round(m.similarityScore * 100)}%`);
@@ -246,12 +488,49 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
   }
   y += 2;
 
+  // ─── 10b. Content Credentials ───
+  const c2pa = result.contentCredentials;
+  if (c2pa) {
+    heading(`Content Credentials (C2PA) ${tag("contentCredentials")}`);
+    if (c2pa.status === "absent") {
+      note("No C2PA manifest is embedded in this file.");
+    } else {
+      const statusText = {
+        valid: "Valid — signer on local trust list",
+        untrusted: "Intact — signer not on local trust list",
+        invalid: "Failed validation",
+      }[c2pa.status];
+      label("Status:", statusText);
+      const active = c2pa.manifests.find((m) => m.label === c2pa.activeManifest);
+      if (active) {
+        label("Claim Generator:", active.claimGenerator);
+        if (active.signer) {
+          label("Signer:", active.signer.organization ?? active.signer.commonName ?? "unnamed");
+          label("Issuer:", active.signer.issuer);
+          label("Algorithm:", `${active.signer.algorithm}${active.signer.timestamped ? " (timestamped)" : ""}`);
+        }
+        active.actions.forEach((a) => {
+          bullet(`${a.action}${a.softwareAgent ? ` by ${a.softwareAgent}` : ""}${a.when ? ` at ${a.when}` : ""}`);
+        });
+        active.ingredients.forEach((ing) => {
+          const child = c2pa.manifests.find((m) => m.label === ing.manifestLabel);
+          bullet(`Ingredient (${ing.relationship}): ${ing.title}${child ? ` — ${child.claimGenerator}` : " — no credentials"}`);
+        });
+      }
+      c2pa.failure.forEach((f) => {
+        ensurePage(LINE_H * 2);
+        bullet(`${f.code}: ${f.explanation}`);
+      });
+    }
+    y += 2;
+  }
+
   // ─── 11. Evidence Objects ───
   if (evidenceObjects.length > 0) {
     heading("Forensic Evidence Objects");
     evidenceObjects.forEach((e) => {
       ensurePage(LINE_H * 2);
-      bullet(`[${e.severity.toUpperCase()}] ${e.category.replace(/_/g, " ")} — ${e.description} (confidence ${(e.confidence * 100).toFixed(0)}%)`);
+      bullet(`[${e.severity.toUpperCase()}] ${e.category.replace(/_/g, " ")} — ${e.description} (confidence ${(e.confidence * 100).toFixed(0)}%) [${PROVENANCE_LABELS[e.provenance]}]`);
     });
     y += 2;
   }
@@ -262,6 +541,7 @@ export function generateForensicReport({ result, evidenceObjects, chainOfCustody
     label("File Hash:", chainOfCustody.fileHash);
     label("Upload Time:", chainOfCustody.uploadTimestamp);
     label("Version:", chainOfCustody.analysisVersion);
+    label("Model Provider:", chainOfCustody.modelProvider || "N/A");
     label("Modules Used:", chainOfCustody.modulesUsed.join(", "));
   }
 
@@ -0,0 +1,463 @@
+/**
+ * AI Generator Metadata Detection
+ * Reads the traces image generators leave in the file: Stable Diffusion
+ * "parameters" text (PNG chunks or EXIF UserComment), ComfyUI and InvokeAI
+ * workflow JSON, NovelAI comment JSON, generator names in software fields,
+ * and the IPTC digital source type (XMP or C2PA actions). Extracts the
+ * prompt, model, seed and sampler where the writer recorded them.
+ */
+
+import type { ContentCredentialsResult } from "@/lib/contentCredentials";
+import { extractMetadata, type MediaMetadata } from "@/lib/mediaMetadata";
+
+export type GeneratorTraceSource = "PNG text" | "EXIF" | "XMP" | "IPTC" | "C2PA";
+
+export interface GeneratorTrace {
+  source: GeneratorTraceSource;
+  /** Chunk keyword, tag or assertion the trace was read from. */
+  field: string;
+  /** The value as read from the file, truncated for display. */
+  excerpt: string;
+}
+
+export interface GenerationParameters {
+  prompt?: string;
+  negativePrompt?: string;
+  model?: string;
+  modelHash?: string;
+  seed?: string;
+  sampler?: string;
+  scheduler?: string;
+  steps?: number;
+  cfgScale?: number;
+  size?: string;
+}
+
+export interface GeneratorMetadataResult {
+  detected: boolean;
+  /** Fingerprint-library name where the family is known, e.g. "StableDiffusion". */
+  generator: string | null;
+  label: string | null;
+  /** 0–1; how unambiguous the strongest trace is. */
+  confidence: number;
+  /** IPTC digital source type code, e.g. "trainedAlgorithmicMedia". */
+  digitalSourceType: string | null;
+  parameters: GenerationParameters;
+  traces: GeneratorTrace[];
+}
+
+interface Identification {
+  generator: string | null;
+  label: string;
+  confidence: number;
+  parameters: GenerationParameters;
+  trace: GeneratorTrace;
+}
+
+const EXCERPT_LENGTH = 160;
+const MAX_PROMPT_LENGTH = 2000;
+/** A named generator corroborated by a digital source type gains this much. */
+const CORROBORATION_BONUS = 0.03;
+
+/** Software, CreatorTool and claim-generator values that name a generator. */
+const AI_GENERATORS: [RegExp, string, string][] = [
+  [/midjourney/i, "Midjourney", "Midjourney"],
+  [/dall[-·\s]?e|openai|chatgpt/i, "DALL-E", "OpenAI DALL·E"],
+  [/firefly/i, "Firefly", "Adobe Firefly"],
+  [/\bimagen\b|gemini/i, "Imagen", "Google Imagen"],
+  [/novelai/i, "NovelAI", "NovelAI"],
+  [/ideogram/i, "Ideogram", "Ideogram"],
+  [/leonardo\.?ai/i, "Leonardo", "Leonardo.Ai"],
+  [/\bflux\b/i, "Flux", "Black Forest Labs FLUX"],
+  [/stable diffusion|stability\.?ai|dreamstudio|comfyui|automatic1111|invokeai|fooocus/i, "StableDiffusion", "Stable Diffusion"],
+];
+
+/**
+ * IPTC NewsCodes digital source types that declare algorithmic content,
+ * with how strongly each implies the image is generated.
+ */
+const DIGITAL_SOURCE_TYPES: Record<string, { confidence: number; description: string }> = {
+  trainedAlgorithmicMedia: { confidence: 0.9, description: "generated by a trained model" },
+  compositeWithTrainedAlgorithmicMedia: { confidence: 0.85, description: "composited with model-generated content" },
+  algorithmicallyEnhanced: { confidence: 0.6, description: "enhanced by an algorithm" },
+  algorithmicMedia: { confidence: 0.75, description: "created by an algorithm without training data" },
+  compositeSynthetic: { confidence: 0.7, description: "composited from synthetic elements" },
+};
+
+const excerpt = (text: string) => (text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text);
+const clipPrompt = (text: string) => (text.length > MAX_PROMPT_LENGTH ? `${text.slice(0, MAX_PROMPT_LENGTH)}…` : text);
+
+function parseJson(text: string | undefined): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const asText = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : typeof v === "number" ? String(v) : undefined);
+const asNumber = (v: unknown) => {
+  const n = typeof v === "number" ? v : typeof v === "string" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/** Drop undefined keys so results compare and serialize cleanly. */
+function compact(params: GenerationParameters): GenerationParameters {
+  return Object.fromEntries(Object.entries(params).filter(([, v]) => v !== undefined)) as GenerationParameters;
+}
+
+// ============================================================
+// STABLE DIFFUSION WEB UIS (AUTOMATIC1111, Forge, SD.Next)
+// ============================================================
+
+/** "Key: value" pairs on the settings line; values may be quoted and contain commas. */
+function parseSettingsLine(line: string): Map<string, string> {
+  const settings = new Map<string, string>();
+  const re = /\s*([\w ()/-]+?):\s*("(?:\\.|[^"\\])*"|[^,]*)(?:,|$)/g;
+  for (const m of line.matchAll(re)) {
+    if (!m[1]) continue;
+    const raw = m[2].trim();
+    settings.set(m[1].trim().toLowerCase(), raw.startsWith('"') ? raw.slice(1, -1).replace(/\\"/g, '"') : raw);
+  }
+  return settings;
+}
+
+/**
+ * Parse the web-UI "parameters" text: prompt lines, an optional
+ * "Negative prompt:" block and a final "Steps: …, Sampler: …" line.
+ * Null when the text does not end in a settings line.
+ */
+export function parseWebUiParameters(text: string): GenerationParameters | null {
+  const lines = text.replace(/\r\n/g, "\n").trim().split("\n");
+  const last = lines[lines.length - 1] ?? "";
+  if (!/^Steps:\s*\d+/.test(last.trim())) return null;
+  const settings = parseSettingsLine(last);
+
+  const body = lines.slice(0, -1).join("\n");
+  const negativeAt = body.search(/^Negative prompt:/m);
+  const prompt = (negativeAt >= 0 ? body.slice(0, negativeAt) : body).trim();
+  const negative = negativeAt >= 0 ? body.slice(negativeAt).replace(/^Negative prompt:\s*/, "").trim() : "";
+  const sampler = settings.get("sampler");
+  const scheduler = settings.get("schedule type");
+
+  return compact({
+    prompt: prompt ? clipPrompt(prompt) : undefined,
+    negativePrompt: negative ? clipPrompt(negative) : undefined,
+    model: settings.get("model"),
+    modelHash: settings.get("model hash"),
+    seed: settings.get("seed"),
+    sampler: sampler && scheduler && scheduler !== "Automatic" ? `${sampler} (${scheduler})` : sampler,
+    steps: asNumber(settings.get("steps")),
+    cfgScale: asNumber(settings.get("cfg scale")),
+    size: settings.get("size"),
+  });
+}
+
+function webUiLabel(text: string): string {
+  const version = text.match(/Version:\s*([^,\n]+)/)?.[1]?.trim();
+  if (/Fooocus/i.test(text)) return "Stable Diffusion (Fooocus)";
+  if (version?.startsWith("f")) return "Stable Diffusion (Forge)";
+  return "Stable Diffusion (AUTOMATIC1111)";
+}
+
+// ============================================================
+// COMFYUI
+// ============================================================
+
+type ComfyNode = { class_type?: string; inputs?: Record<string, unknown> };
+
+/** Follow a node link ([nodeId, outputIndex]) to the node it points at. */
+function linked(graph: Record<string, ComfyNode>, input: unknown): ComfyNode | null {
+  return Array.isArray(input) && (typeof input[0] === "string" || typeof input[0] === "number")
+    ? graph[String(input[0])] ?? null
+    : null;
+}
+
+/** Text of the encoder node feeding a sampler's positive/negative input. */
+function conditioningText(graph: Record<string, ComfyNode>, input: unknown, depth = 0): string | undefined {
+  const node = linked(graph, input);
+  if (!node?.inputs || depth > 8) return undefined;
+  const direct = asText(node.inputs.text) ?? asText(node.inputs.text_g) ?? asText(node.inputs.prompt);
+  if (direct) return direct;
+  // Conditioning may pass through combine/zero-out nodes first
+  const upstream = node.inputs.conditioning ?? node.inputs.conditioning_1 ?? node.inputs.positive;
+  return conditioningText(graph, upstream, depth + 1) ?? asText(linked(graph, node.inputs.text)?.inputs?.value);
+}
+
+/**
+ * Parse a ComfyUI API-format prompt graph (node id → { class_type, inputs }).
+ * Parameters come from the first sampler node and the nodes it links to.
+ */
+export function parseComfyPrompt(graph: unknown): GenerationParameters | null {
+  if (!isRecord(graph)) return null;
+  const nodes = graph as Record<string, ComfyNode>;
+  const entries = Object.values(nodes).filter((n) => isRecord(n) && typeof n.class_type === "string");
+  if (entries.length === 0) return null;
+
+  const sampler = entries.find((n) => /^KSampler/.test(n.class_type!) || n.class_type === "SamplerCustom");
+  const loader = entries.find((n) => /CheckpointLoader|UNETLoader|UnetLoader/.test(n.class_type!));
+  const inputs = sampler?.inputs ?? {};
+  const seedNode = linked(nodes, inputs.seed ?? inputs.noise_seed);
+  const latent = linked(nodes, inputs.latent_image)?.inputs;
+
+  return compact({
+    prompt: (() => {
+      const text = conditioningText(nodes, inputs.positive);
+      return text ? clipPrompt(text) : undefined;
+    })(),
+    negativePrompt: (() => {
+      const text = conditioningText(nodes, inputs.negative);
+      return text ? clipPrompt(text) : undefined;
+    })(),
+    model: asText(loader?.inputs?.ckpt_name) ?? asText(loader?.inputs?.unet_name),
+    seed: asText(inputs.seed) ?? asText(inputs.noise_seed) ?? asText(seedNode?.inputs?.seed) ?? asText(seedNode?.inputs?.value),
+    sampler: asText(inputs.sampler_name),
+    scheduler: asText(inputs.scheduler),
+    steps: asNumber(inputs.steps),
+    cfgScale: asNumber(inputs.cfg),
+    size: latent && asNumber(latent.width) && asNumber(latent.height) ? `${latent.width}x${latent.height}` : undefined,
+  });
+}
+
+// ============================================================
+// OTHER WRITERS
+// ============================================================
+
+/** First non-empty value among alternative key names. */
+function pick(json: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) if (json[key] !== undefined && json[key] !== "") return json[key];
+  return undefined;
+}
+
+/** Flat parameter JSON as written by InvokeAI ("invokeai_metadata") and Fooocus ("parameters"). */
+function parseJsonParameters(json: unknown): GenerationParameters | null {
+  if (!isRecord(json)) return null;
+  const rawModel = pick(json, "model", "base_model", "base_model_name");
+  const model = isRecord(rawModel) ? asText(rawModel.model_name) ?? asText(rawModel.name) : asText(rawModel);
+  const prompt = asText(pick(json, "positive_prompt", "prompt"));
+  const negative = asText(pick(json, "negative_prompt"));
+  const width = asNumber(json.width);
+  const height = asNumber(json.height);
+  return compact({
+    prompt: prompt ? clipPrompt(prompt) : undefined,
+    negativePrompt: negative ? clipPrompt(negative) : undefined,
+    model,
+    seed: asText(json.seed),
+    sampler: asText(pick(json, "sampler", "sampler_name", "scheduler")),
+    scheduler: json.sampler !== undefined ? asText(json.scheduler) : undefined,
+    steps: asNumber(json.steps),
+    cfgScale: asNumber(pick(json, "cfg_scale", "guidance_scale")),
+    size: width && height ? `${width}x${height}` : asText(json.resolution),
+  });
+}
+
+/** NovelAI: prompt in "Description", settings JSON in "Comment", model in "Source". */
+function parseNovelAi(container: Record<string, string>): GenerationParameters {
+  const comment = parseJson(container.Comment);
+  const settings = isRecord(comment) ? comment : {};
+  return compact({
+    prompt: asText(container.Description) ?? asText(settings.prompt),
+    negativePrompt: asText(settings.uc),
+    model: asText(container.Source),
+    seed: asText(settings.seed),
+    sampler: asText(settings.sampler),
+    steps: asNumber(settings.steps),
+    cfgScale: asNumber(settings.scale),
+    size: asNumber(settings.width) && asNumber(settings.height) ? `${settings.width}x${settings.height}` : undefined,
+  });
+}
+
+function identifyByName(value: string): [string, string] | null {
+  const hit = AI_GENERATORS.find(([re]) => re.test(value));
+  return hit ? [hit[1], hit[2]] : null;
+}
+
+// ============================================================
+// DETECTION
+// ============================================================
+
+function identifyFromPngText(container: Record<string, string>): Identification[] {
+  const found: Identification[] = [];
+  const trace = (field: string): GeneratorTrace => ({ source: "PNG text", field, excerpt: excerpt(container[field]) });
+
+  if (container.parameters) {
+    const params = parseWebUiParameters(container.parameters);
+    const fooocus = isRecord(parseJson(container.parameters));
+    if (params || fooocus) {
+      found.push({
+        generator: "StableDiffusion",
+        label: params ? webUiLabel(container.parameters) : "Stable Diffusion (Fooocus)",
+        confidence: 0.97,
+        parameters: params ?? parseJsonParameters(parseJson(container.parameters)) ?? {},
+        trace: trace("parameters"),
+      });
+    }
+  }
+
+  const comfyParams = parseComfyPrompt(parseJson(container.prompt));
+  if (comfyParams || isRecord(parseJson(container.workflow))) {
+    found.push({
+      generator: "StableDiffusion",
+      label: "Stable Diffusion (ComfyUI)",
+      confidence: 0.95,
+      parameters: comfyParams ?? {},
+      trace: trace(comfyParams ? "prompt" : "workflow"),
+    });
+  }
+
+  const invoke = container.invokeai_metadata ?? container["sd-metadata"];
+  const invokeParams = parseJsonParameters(parseJson(invoke));
+  if (invokeParams || container.Dream) {
+    found.push({
+      generator: "StableDiffusion",
+      label: "Stable Diffusion (InvokeAI)",
+      confidence: 0.95,
+      parameters: invokeParams ?? {},
+      trace: trace(container.invokeai_metadata ? "invokeai_metadata" : container["sd-metadata"] ? "sd-metadata" : "Dream"),
+    });
+  }
+
+  if (/novelai/i.test(container.Software ?? "")) {
+    found.push({
+      generator: "NovelAI",
+      label: "NovelAI",
+      confidence: 0.95,
+      parameters: parseNovelAi(container),
+      trace: trace("Software"),
+    });
+  }
+  return found;
+}
+
+function identifyFromFields(meta: MediaMetadata, credentials: ContentCredentialsResult | null): Identification[] {
+  const found: Identification[] = [];
+  const candidates: [GeneratorTraceSource, string, unknown][] = [
+    ["EXIF", "Software", meta.exif?.tags.Software],
+    ["XMP", "xmp:CreatorTool", meta.xmp?.properties["xmp:CreatorTool"]],
+    ["XMP", "photoshop:Credit", meta.xmp?.properties["photoshop:Credit"]],
+    ["IPTC", "OriginatingProgram", meta.iptc?.OriginatingProgram?.[0]],
+    ["IPTC", "Credit", meta.iptc?.Credit?.[0]],
+    ["PNG text", "Software", meta.format === "png" ? meta.container.Software : undefined],
+    ["PNG text", "Author", meta.format === "png" ? meta.container.Author : undefined],
+  ];
+  for (const manifest of credentials?.manifests ?? []) {
+    candidates.push(["C2PA", `${manifest.label} claim_generator`, manifest.claimGenerator]);
+    manifest.actions.forEach((a) => candidates.push(["C2PA", `${manifest.label} ${a.action}`, a.softwareAgent]));
+  }
+
+  for (const [source, field, value] of candidates) {
+    if (typeof value !== "string" || !value.trim()) continue;
+    const hit = identifyByName(value);
+    if (!hit) continue;
+    found.push({
+      generator: hit[0],
+      label: hit[1],
+      // Signed manifests are harder to forge than free-text fields
+      confidence: source === "C2PA" ? 0.9 : 0.85,
+      parameters: {},
+      trace: { source, field, excerpt: excerpt(value.trim()) },
+    });
+  }
+
+  // A1111 writes its parameters into UserComment for JPEG and WebP output
+  const comment = meta.exif?.tags.UserComment;
+  const commentParams = typeof comment === "string" ? parseWebUiParameters(comment) : null;
+  if (typeof comment === "string" && commentParams) {
+    found.push({
+      generator: "StableDiffusion",
+      label: webUiLabel(comment),
+      confidence: 0.95,
+      parameters: commentParams,
+      trace: { source: "EXIF", field: "UserComment", excerpt: excerpt(comment) },
+    });
+  }
+  return found;
+}
+
+/** The code at the end of a NewsCodes URI, e.g. "trainedAlgorithmicMedia". */
+function digitalSourceCode(value: string): string | null {
+  const code = value.trim().split("/").pop() ?? "";
+  return code in DIGITAL_SOURCE_TYPES ? code : null;
+}
+
+function findDigitalSourceType(meta: MediaMetadata, credentials: ContentCredentialsResult | null): { code: string; trace: GeneratorTrace } | null {
+  const candidates: [GeneratorTraceSource, string, string | undefined][] = [
+    ["XMP", "Iptc4xmpExt:DigitalSourceType", meta.xmp?.properties["Iptc4xmpExt:DigitalSourceType"]],
+  ];
+  for (const manifest of credentials?.manifests ?? []) {
+    manifest.actions.forEach((a) => candidates.push(["C2PA", `${manifest.label} ${a.action}`, a.digitalSourceType]));
+  }
+  let best: { code: string; trace: GeneratorTrace } | null = null;
+  for (const [source, field, value] of candidates) {
+    const code = value ? digitalSourceCode(value) : null;
+    if (!code) continue;
+    if (!best || DIGITAL_SOURCE_TYPES[code].confidence > DIGITAL_SOURCE_TYPES[best.code].confidence) {
+      best = { code, trace: { source, field, excerpt: excerpt(value!.trim()) } };
+    }
+  }
+  return best;
+}
+
+/**
+ * Detect generator traces in parsed metadata. The strongest named trace
+ * sets the attribution; parameters are merged from every trace that names
+ * the same generator, and a digital source type declaring AI content
+ * corroborates it (or stands alone when no generator is named).
+ */
+export function detectGeneratorMetadata(
+  meta: MediaMetadata,
+  credentials: ContentCredentialsResult | null = null,
+): GeneratorMetadataResult {
+  const identified = [
+    ...(meta.format === "png" ? identifyFromPngText(meta.container) : []),
+    ...identifyFromFields(meta, credentials),
+  ].sort((a, b) => b.confidence - a.confidence);
+  const sourceType = findDigitalSourceType(meta, credentials);
+  const traces = identified.map((i) => i.trace);
+  if (sourceType) traces.push(sourceType.trace);
+
+  const primary = identified[0];
+  if (!primary) {
+    const declared = sourceType ? DIGITAL_SOURCE_TYPES[sourceType.code] : null;
+    return {
+      detected: declared !== null,
+      generator: null,
+      label: declared ? `Unidentified AI generator (${declared.description})` : null,
+      confidence: declared?.confidence ?? 0,
+      digitalSourceType: sourceType?.code ?? null,
+      parameters: {},
+      traces,
+    };
+  }
+
+  const parameters: GenerationParameters = {};
+  for (const id of identified.filter((i) => i.generator === primary.generator).reverse()) {
+    Object.assign(parameters, id.parameters);
+  }
+  Object.assign(parameters, primary.parameters);
+
+  const corroborated = sourceType !== null && DIGITAL_SOURCE_TYPES[sourceType.code].confidence >= 0.75;
+  return {
+    detected: true,
+    generator: primary.generator,
+    label: primary.label,
+    confidence: Math.min(0.99, primary.confidence + (corroborated ? CORROBORATION_BONUS : 0)),
+    digitalSourceType: sourceType?.code ?? null,
+    parameters,
+    traces,
+  };
+}
+
+/**
+ * Parse an uploaded file and detect generator traces. Returns null for
+ * containers without a metadata parser.
+ */
+export async function analyzeGeneratorMetadata(
+  file: Blob,
+  credentials: ContentCredentialsResult | null = null,
+): Promise<GeneratorMetadataResult | null> {
+  const meta = await extractMetadata(file);
+  return meta ? detectGeneratorMetadata(meta, credentials) : null;
+}
@@ -0,0 +1,355 @@
+/**
+ * Image Processing Primitives
+ * Pixel-level operations on decoded RGBA buffers, plus canvas helpers to
+ * decode uploads and encode results. Pure functions never touch the DOM.
+ */
+
+export interface RGBAImage {
+  width: number;
+  height: number;
+  /** Row-major RGBA, 4 bytes per pixel. */
+  data: Uint8ClampedArray;
+}
+
+export function createImage(width: number, height: number): RGBAImage {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+/**
+ * ITU-R BT.601 luma per pixel, 0-255.
+ */
+export function toLuminance(img: RGBAImage): Float32Array {
+  const out = new Float32Array(img.width * img.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = 0.299 * img.data[p] + 0.587 * img.data[p + 1] + 0.114 * img.data[p + 2];
+  }
+  return out;
+}
+
+/**
+ * Area-averaging downscale. Each output pixel is the mean of the source
+ * pixels it covers, which avoids the aliasing of nearest-neighbour sampling.
+ */
+export function downscale(img: RGBAImage, factor: number): RGBAImage {
+  return resizeArea(
+    img,
+    Math.max(1, Math.round(img.width * factor)),
+    Math.max(1, Math.round(img.height * factor))
+  );
+}
+
+/**
+ * Area-averaging resize to an exact size. Intended for shrinking; when a
+ * target dimension exceeds the source, pixels are repeated.
+ */
+export function resizeArea(img: RGBAImage, width: number, height: number): RGBAImage {
+  const out = createImage(width, height);
+  const sx = img.width / width;
+  const sy = img.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sy);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * sy));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sx);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * sx));
+      const sum = [0, 0, 0, 0];
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) {
+          const p = (yy * img.width + xx) * 4;
+          sum[0] += img.data[p];
+          sum[1] += img.data[p + 1];
+          sum[2] += img.data[p + 2];
+          sum[3] += img.data[p + 3];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const q = (y * width + x) * 4;
+      out.data[q] = sum[0] / n;
+      out.data[q + 1] = sum[1] / n;
+      out.data[q + 2] = sum[2] / n;
+      out.data[q + 3] = sum[3] / n;
+    }
+  }
+  return out;
+}
+
+function gaussianKernel(sigma: number): Float32Array {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let total = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const w = Math.exp(-(i * i) / (2 * sigma * sigma));
+    kernel[i + radius] = w;
+    total += w;
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= total;
+  return kernel;
+}
+
+/**
+ * Separable Gaussian blur with clamped edges.
+ */
+export function gaussianBlur(img: RGBAImage, sigma: number): RGBAImage {
+  if (sigma <= 0) return { ...img, data: new Uint8ClampedArray(img.data) };
+
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const { width, height } = img;
+  const temp = new Float32Array(img.data.length);
+  const out = createImage(width, height);
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const acc = [0, 0, 0, 0];
+      for (let k = -radius; k <= radius; k++) {
+        const xx = Math.min(width - 1, Math.max(0, x + k));
+        const p = (y * width + xx) * 4;
+        const w = kernel[k + radius];
+        acc[0] += img.data[p] * w;
+        acc[1] += img.data[p + 1] * w;
+        acc[2] += img.data[p + 2] * w;
+        acc[3] += img.data[p + 3] * w;
+      }
+      const q = (y * width + x) * 4;
+      temp[q] = acc[0];
+      temp[q + 1] = acc[1];
+      temp[q + 2] = acc[2];
+      temp[q + 3] = acc[3];
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const acc = [0, 0, 0, 0];
+      for (let k = -radius; k <= radius; k++) {
+        const yy = Math.min(height - 1, Math.max(0, y + k));
+        const p = (yy * width + x) * 4;
+        const w = kernel[k + radius];
+        acc[0] += temp[p] * w;
+        acc[1] += temp[p + 1] * w;
+        acc[2] += temp[p + 2] * w;
+        acc[3] += temp[p + 3] * w;
+      }
+      const q = (y * width + x) * 4;
+      out.data[q] = acc[0];
+      out.data[q + 1] = acc[1];
+      out.data[q + 2] = acc[2];
+      out.data[q + 3] = acc[3];
+    }
+  }
+  return out;
+}
+
+/**
+ * Histogram equalization of the luma channel. Chroma is preserved by
+ * scaling each pixel's RGB by the same ratio as its luma.
+ */
+export function equalizeHistogram(img: RGBAImage): RGBAImage {
+  const luma = toLuminance(img);
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < luma.length; i++) histogram[Math.round(luma[i])]++;
+
+  const cdf = new Uint32Array(256);
+  let running = 0;
+  for (let v = 0; v < 256; v++) {
+    running += histogram[v];
+    cdf[v] = running;
+  }
+  const cdfMin = cdf.find((c) => c > 0) ?? 0;
+  const range = Math.max(1, luma.length - cdfMin);
+
+  const out = createImage(img.width, img.height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    const y = luma[i];
+    const target = ((cdf[Math.round(y)] - cdfMin) / range) * 255;
+    const ratio = y > 0 ? target / y : 0;
+    if (y > 0) {
+      out.data[p] = img.data[p] * ratio;
+      out.data[p + 1] = img.data[p + 1] * ratio;
+      out.data[p + 2] = img.data[p + 2] * ratio;
+    } else {
+      out.data[p] = out.data[p + 1] = out.data[p + 2] = target;
+    }
+    out.data[p + 3] = img.data[p + 3];
+  }
+  return out;
+}
+
+/**
+ * Linear horizontal motion blur: a box filter `length` pixels wide.
+ */
+export function motionBlur(img: RGBAImage, length: number): RGBAImage {
+  const { width, height } = img;
+  const out = createImage(width, height);
+  const half = Math.floor(length / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const acc = [0, 0, 0, 0];
+      let n = 0;
+      for (let k = -half; k <= half; k++) {
+        const xx = x + k;
+        if (xx < 0 || xx >= width) continue;
+        const p = (y * width + xx) * 4;
+        acc[0] += img.data[p];
+        acc[1] += img.data[p + 1];
+        acc[2] += img.data[p + 2];
+        acc[3] += img.data[p + 3];
+        n++;
+      }
+      const q = (y * width + x) * 4;
+      out.data[q] = acc[0] / n;
+      out.data[q + 1] = acc[1] / n;
+      out.data[q + 2] = acc[2] / n;
+      out.data[q + 3] = acc[3] / n;
+    }
+  }
+  return out;
+}
+
+/**
+ * Apply an EXIF orientation (1-8) so the pixels read upright, matching
+ * what browsers do when decoding a file that carries the tag.
+ */
+export function orientImage(img: RGBAImage, orientation: number): RGBAImage {
+  if (orientation < 2 || orientation > 8) return img;
+  const { width, height } = img;
+  const transposed = orientation >= 5;
+  const out = createImage(transposed ? height : width, transposed ? width : height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let dx: number;
+      let dy: number;
+      switch (orientation) {
+        case 2: dx = width - 1 - x; dy = y; break;
+        case 3: dx = width - 1 - x; dy = height - 1 - y; break;
+        case 4: dx = x; dy = height - 1 - y; break;
+        case 5: dx = y; dy = x; break;
+        case 6: dx = height - 1 - y; dy = x; break;
+        case 7: dx = height - 1 - y; dy = width - 1 - x; break;
+        default: dx = y; dy = width - 1 - x; break;
+      }
+      const p = (y * width + x) * 4;
+      const q = (dy * out.width + dx) * 4;
+      out.data[q] = img.data[p];
+      out.data[q + 1] = img.data[p + 1];
+      out.data[q + 2] = img.data[p + 2];
+      out.data[q + 3] = img.data[p + 3];
+    }
+  }
+  return out;
+}
+
+/**
+ * Crop uniform dark borders (letterboxing), e.g. around EXIF thumbnails
+ * padded to a fixed 160x120 frame.
+ */
+export function trimDarkBorders(img: RGBAImage, threshold = 16): RGBAImage {
+  const { width, height } = img;
+  const gray = toLuminance(img);
+  const rowDark = (y: number) => {
+    for (let x = 0; x < width; x++) if (gray[y * width + x] > threshold) return false;
+    return true;
+  };
+  const colDark = (x: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) if (gray[y * width + x] > threshold) return false;
+    return true;
+  };
+
+  let top = 0;
+  let bottom = height - 1;
+  while (top < bottom && rowDark(top)) top++;
+  while (bottom > top && rowDark(bottom)) bottom--;
+  let left = 0;
+  let right = width - 1;
+  while (left < right && colDark(left, top, bottom)) left++;
+  while (right > left && colDark(right, top, bottom)) right--;
+
+  if (top === 0 && left === 0 && bottom === height - 1 && right === width - 1) return img;
+  const out = createImage(right - left + 1, bottom - top + 1);
+  for (let y = top; y <= bottom; y++) {
+    const row = img.data.subarray((y * width + left) * 4, (y * width + right + 1) * 4);
+    out.data.set(row, (y - top) * out.width * 4);
+  }
+  return out;
+}
+
+/** Mulberry32 PRNG, so perturbations are reproducible per seed. */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Add zero-mean Gaussian noise (Box-Muller) with the given standard
+ * deviation in 0-255 units. Alpha is untouched.
+ */
+export function addGaussianNoise(img: RGBAImage, sigma: number, seed = 1): RGBAImage {
+  const rand = seededRandom(seed);
+  const out = createImage(img.width, img.height);
+  for (let p = 0; p < img.data.length; p += 4) {
+    for (let c = 0; c < 3; c++) {
+      const u = Math.max(rand(), 1e-12);
+      const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+      out.data[p + c] = img.data[p + c] + gaussian * sigma;
+    }
+    out.data[p + 3] = img.data[p + 3];
+  }
+  return out;
+}
+
+// ============================================================
+// CANVAS I/O (browser only)
+// ============================================================
+
+/**
+ * Decode an image file to RGBA. When `maxDimension` is given the longer
+ * side is scaled down to it during decode.
+ */
+export async function decodeImageFile(file: Blob, maxDimension?: number): Promise<RGBAImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return { width, height, data: ctx.getImageData(0, 0, width, height).data };
+}
+
+/**
+ * Encode an RGBA image as a data URL.
+ */
+export function encodeImage(img: RGBAImage, type = "image/jpeg", quality = 0.92): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(img.data), img.width, img.height), 0, 0);
+  return canvas.toDataURL(type, quality);
+}
+
+/**
+ * Decode a data URL produced by `encodeImage` back to RGBA.
+ */
+export async function decodeDataUrl(dataUrl: string): Promise<RGBAImage> {
+  const blob = await (await fetch(dataUrl)).blob();
+  return decodeImageFile(blob);
+}
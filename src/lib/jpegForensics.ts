@@ -0,0 +1,658 @@
+/**
+ * JPEG Compression Forensics
+ * Reads quantization tables and entropy-coded DCT coefficients straight
+ * from the JPEG bytes. The tables give the encoder's quality setting and
+ * identify the software family that wrote them; coefficient histograms
+ * reveal an earlier compression with different tables, the trace left
+ * when a JPEG is decoded, edited and saved again.
+ */
+
+export interface JpegComponent {
+  id: number;
+  h: number;
+  v: number;
+  /** Quantization table slot. */
+  tq: number;
+}
+
+export interface JpegQuantTable {
+  slot: number;
+  /** 64 steps in natural (row-major) order. */
+  values: number[];
+}
+
+interface HuffmanTable {
+  maxcode: Int32Array;
+  valptr: Int32Array;
+  mincode: Int32Array;
+  values: Uint8Array;
+}
+
+interface JpegScan {
+  components: { index: number; td: number; ta: number }[];
+  /** Offset of the first entropy-coded byte. */
+  dataStart: number;
+}
+
+export interface JpegStructure {
+  width: number;
+  height: number;
+  /** "baseline" covers all sequential Huffman frames. */
+  coding: "baseline" | "progressive" | "other";
+  components: JpegComponent[];
+  quantTables: JpegQuantTable[];
+  restartInterval: number;
+  /** First scan, when the frame is sequential Huffman-coded. */
+  scan: JpegScan | null;
+  dc: (HuffmanTable | undefined)[];
+  ac: (HuffmanTable | undefined)[];
+}
+
+export interface CoefficientHistogram {
+  /** Natural-order index of the DCT coefficient (row * 8 + column). */
+  position: number;
+  /** Counts of quantized values -HIST_RANGE..HIST_RANGE. */
+  counts: number[];
+}
+
+export interface DoubleCompressionPosition {
+  position: number;
+  /** Quantization step of the current file at this position. */
+  currentStep: number;
+  /** Best-fitting step of an earlier compression; null when single compression fits best. */
+  priorStep: number | null;
+  /** Log-likelihood gain per coefficient of the double-compression fit, in nats. */
+  gain: number;
+}
+
+export interface DoubleCompressionResult {
+  detected: boolean;
+  /** 0–1. */
+  probability: number;
+  positions: DoubleCompressionPosition[];
+  /** IJG-equivalent quality of the earlier compression, when the prior steps fit a standard table. */
+  priorQuality: number | null;
+}
+
+export interface QuantTableProfile {
+  id: string;
+  label: string;
+  kind: "camera" | "software";
+  /** Encoders known to write these tables. */
+  examples: string[];
+  luminance: number[];
+  chrominance?: number[];
+  quality?: number;
+}
+
+export interface QuantTableMatch {
+  id: string;
+  label: string;
+  kind: QuantTableProfile["kind"];
+  examples: string[];
+  exact: boolean;
+  /** Mean absolute step difference to the profile. */
+  distance: number;
+}
+
+export interface JpegCompressionAnalysis {
+  width: number;
+  height: number;
+  coding: JpegStructure["coding"];
+  quantTables: JpegQuantTable[];
+  /** IJG-equivalent quality (1–100) of the luminance table. */
+  quality: number;
+  /** True when every table is exactly an IJG-scaled standard table. */
+  standardTables: boolean;
+  tableMatch: QuantTableMatch | null;
+  /** Luminance blocks whose coefficients were read. */
+  blocksAnalyzed: number;
+  /** Null when the coefficients could not be read (progressive or arithmetic-coded files). */
+  doubleCompression: DoubleCompressionResult | null;
+}
+
+/** Zigzag scan index → natural index. */
+export const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+];
+
+/** ITU-T T.81 Annex K example tables, natural order; the base of libjpeg's quality scaling. */
+export const IJG_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+export const IJG_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99),
+];
+
+export const HIST_RANGE = 40;
+/** Low-frequency AC coefficients (zigzag 1–9) carry most of the double-compression signal. */
+const HISTOGRAM_POSITIONS = ZIGZAG.slice(1, 10);
+/** Decoding stops after this many luminance blocks; the histograms are stable well before. */
+const MAX_BLOCKS = 120_000;
+const MIN_COEFFICIENTS = 1000;
+/** Positions where nearly every coefficient quantizes to zero carry no information. */
+const MIN_NONZERO_FRACTION = 0.05;
+const MAX_PRIOR_STEP = 32;
+/** Share of the single-compression model mixed into double hypotheses; absorbs pixel rounding between saves. */
+const ROUNDING_MIX = 0.1;
+/** Gain per coefficient above which a position counts as double-compressed. */
+const GAIN_THRESHOLD = 0.01;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// ============================================================
+// MARKER PARSING
+// ============================================================
+
+function buildHuffmanTable(bits: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxcode = new Int32Array(18).fill(-1);
+  const valptr = new Int32Array(17);
+  const mincode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let l = 1; l <= 16; l++) {
+    valptr[l] = k;
+    mincode[l] = code;
+    code += bits[l - 1];
+    k += bits[l - 1];
+    maxcode[l] = bits[l - 1] > 0 ? code - 1 : -1;
+    code <<= 1;
+  }
+  maxcode[17] = 0x7fffffff;
+  return { maxcode, valptr, mincode, values };
+}
+
+const SEQUENTIAL_HUFFMAN = new Set([0xc0, 0xc1]);
+const PROGRESSIVE_HUFFMAN = 0xc2;
+const OTHER_FRAMES = new Set([0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * Walk the marker segments up to the first scan. Returns null when the
+ * bytes are not a JPEG or the frame header is missing.
+ */
+export function parseJpegStructure(bytes: Uint8Array): JpegStructure | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const structure: JpegStructure = {
+    width: 0,
+    height: 0,
+    coding: "other",
+    components: [],
+    quantTables: [],
+    restartInterval: 0,
+    scan: null,
+    dc: [],
+    ac: [],
+  };
+  let frameSeen = false;
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) return frameSeen ? structure : null;
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0xd9) break;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const start = pos + 4;
+    const end = pos + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+
+    if (marker === 0xdb) {
+      let p = start;
+      while (p + 65 <= end) {
+        const precision = bytes[p] >> 4;
+        const slot = bytes[p] & 15;
+        p++;
+        const values = new Array<number>(64);
+        for (let i = 0; i < 64; i++) {
+          values[ZIGZAG[i]] = precision ? (bytes[p + 2 * i] << 8) | bytes[p + 2 * i + 1] : bytes[p + i];
+        }
+        p += precision ? 128 : 64;
+        structure.quantTables = [...structure.quantTables.filter((t) => t.slot !== slot), { slot, values }];
+      }
+    } else if (SEQUENTIAL_HUFFMAN.has(marker) || marker === PROGRESSIVE_HUFFMAN || OTHER_FRAMES.has(marker)) {
+      frameSeen = true;
+      structure.coding = SEQUENTIAL_HUFFMAN.has(marker) ? "baseline" : marker === PROGRESSIVE_HUFFMAN ? "progressive" : "other";
+      structure.height = (bytes[start + 1] << 8) | bytes[start + 2];
+      structure.width = (bytes[start + 3] << 8) | bytes[start + 4];
+      const count = bytes[start + 5];
+      for (let i = 0; i < count; i++) {
+        const c = start + 6 + i * 3;
+        structure.components.push({ id: bytes[c], h: bytes[c + 1] >> 4, v: bytes[c + 1] & 15, tq: bytes[c + 2] });
+      }
+    } else if (marker === 0xc4) {
+      let p = start;
+      while (p + 17 <= end) {
+        const tc = bytes[p] >> 4;
+        const th = bytes[p] & 15;
+        const bits = bytes.subarray(p + 1, p + 17);
+        const total = bits.reduce((s, b) => s + b, 0);
+        const table = buildHuffmanTable(bits, bytes.slice(p + 17, p + 17 + total));
+        (tc === 0 ? structure.dc : structure.ac)[th] = table;
+        p += 17 + total;
+      }
+    } else if (marker === 0xdd) {
+      structure.restartInterval = (bytes[start] << 8) | bytes[start + 1];
+    } else if (marker === 0xda) {
+      if (structure.coding === "baseline") {
+        const count = bytes[start];
+        const components = [];
+        for (let i = 0; i < count; i++) {
+          const id = bytes[start + 1 + i * 2];
+          const tables = bytes[start + 2 + i * 2];
+          components.push({ index: structure.components.findIndex((c) => c.id === id), td: tables >> 4, ta: tables & 15 });
+        }
+        if (components.every((c) => c.index >= 0)) structure.scan = { components, dataStart: end };
+      }
+      break;
+    }
+    pos = end;
+  }
+  return frameSeen ? structure : null;
+}
+
+// ============================================================
+// ENTROPY DECODING
+// ============================================================
+
+function bitReader(bytes: Uint8Array, start: number) {
+  let pos = start;
+  let acc = 0;
+  let count = 0;
+  let atMarker = false;
+
+  const fill = () => {
+    while (count <= 24) {
+      let byte = 0;
+      if (!atMarker && pos < bytes.length) {
+        byte = bytes[pos];
+        if (byte === 0xff) {
+          if (bytes[pos + 1] === 0) pos += 2;
+          else {
+            // Reached a marker: feed zeros until the caller restarts or stops
+            atMarker = true;
+            byte = 0;
+          }
+        } else {
+          pos++;
+        }
+      }
+      acc = ((acc << 8) | byte) >>> 0;
+      count += 8;
+    }
+  };
+
+  const bits = (n: number): number => {
+    if (n === 0) return 0;
+    if (count < n) fill();
+    count -= n;
+    return (acc >>> count) & ((1 << n) - 1);
+  };
+
+  return {
+    bits,
+    decode(table: HuffmanTable): number {
+      let code = bits(1);
+      let l = 1;
+      while (code > table.maxcode[l]) {
+        code = (code << 1) | bits(1);
+        if (++l > 16) throw new Error("Invalid Huffman code");
+      }
+      return table.values[table.valptr[l] + code - table.mincode[l]];
+    },
+    /** Skip to just past the next RSTn marker. */
+    restart() {
+      acc = 0;
+      count = 0;
+      atMarker = false;
+      while (pos + 1 < bytes.length && !(bytes[pos] === 0xff && bytes[pos + 1] >= 0xd0 && bytes[pos + 1] <= 0xd7)) pos++;
+      pos += 2;
+    },
+  };
+}
+
+function extend(value: number, size: number): number {
+  return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+}
+
+/**
+ * Decode the first scan of a sequential JPEG and histogram the quantized
+ * low-frequency AC coefficients of the first (luminance) component.
+ * Corrupt data ends decoding early; whatever was read is returned.
+ */
+export function readCoefficientHistograms(
+  bytes: Uint8Array,
+  structure: JpegStructure,
+  maxBlocks = MAX_BLOCKS,
+): { histograms: CoefficientHistogram[]; blocks: number } | null {
+  const scan = structure.scan;
+  if (structure.coding !== "baseline" || !scan) return null;
+  const scanComponents = scan.components.map((c) => ({ ...c, comp: structure.components[c.index] }));
+  if (scanComponents.some((c) => !structure.dc[c.td] || !structure.ac[c.ta])) return null;
+
+  const hMax = Math.max(...structure.components.map((c) => c.h));
+  const vMax = Math.max(...structure.components.map((c) => c.v));
+  const interleaved = scanComponents.length > 1;
+  let mcuCount: number;
+  if (interleaved) {
+    mcuCount = Math.ceil(structure.width / (8 * hMax)) * Math.ceil(structure.height / (8 * vMax));
+  } else {
+    const c = scanComponents[0].comp;
+    mcuCount = Math.ceil(Math.ceil((structure.width * c.h) / hMax) / 8) * Math.ceil(Math.ceil((structure.height * c.v) / vMax) / 8);
+  }
+
+  const histograms = HISTOGRAM_POSITIONS.map(() => new Array<number>(2 * HIST_RANGE + 1).fill(0));
+  const slotOf = new Map(HISTOGRAM_POSITIONS.map((natural, i) => [ZIGZAG.indexOf(natural), i]));
+  const reader = bitReader(bytes, scan.dataStart);
+  const coded = new Uint8Array(HISTOGRAM_POSITIONS.length);
+  let blocks = 0;
+
+  try {
+    for (let mcu = 0; mcu < mcuCount && blocks < maxBlocks; mcu++) {
+      if (structure.restartInterval > 0 && mcu > 0 && mcu % structure.restartInterval === 0) reader.restart();
+      for (const sc of scanComponents) {
+        const perMcu = interleaved ? sc.comp.h * sc.comp.v : 1;
+        const isLuma = sc.index === 0;
+        for (let b = 0; b < perMcu; b++) {
+          // Only the AC histograms are needed; the DC difference is skipped
+          reader.bits(reader.decode(structure.dc[sc.td]!));
+          coded.fill(0);
+          for (let k = 1; k < 64; ) {
+            const rs = reader.decode(structure.ac[sc.ta]!);
+            const run = rs >> 4;
+            const size = rs & 15;
+            if (size === 0) {
+              if (run !== 15) break;
+              k += 16;
+              continue;
+            }
+            k += run;
+            const value = extend(reader.bits(size), size);
+            const slot = isLuma ? slotOf.get(k) : undefined;
+            if (slot !== undefined) {
+              coded[slot] = 1;
+              if (Math.abs(value) <= HIST_RANGE) histograms[slot][value + HIST_RANGE]++;
+            }
+            k++;
+          }
+          if (isLuma) {
+            // Positions skipped by run-lengths or EOB are zero
+            coded.forEach((c, slot) => {
+              if (!c) histograms[slot][HIST_RANGE]++;
+            });
+            blocks++;
+          }
+        }
+      }
+    }
+  } catch {
+    // Truncated or corrupt entropy data
+  }
+
+  return {
+    histograms: HISTOGRAM_POSITIONS.map((position, i) => ({ position, counts: histograms[i] })),
+    blocks,
+  };
+}
+
+// ============================================================
+// QUALITY AND TABLE LIBRARY
+// ============================================================
+
+/** libjpeg's jpeg_quality_scaling + jpeg_add_quant_table with baseline limits. */
+export function scaledIjgTable(base: number[], quality: number): number[] {
+  const q = Math.max(1, Math.min(100, Math.round(quality)));
+  const scale = q < 50 ? Math.floor(5000 / q) : 200 - q * 2;
+  return base.map((v) => Math.max(1, Math.min(255, Math.floor((v * scale + 50) / 100))));
+}
+
+function meanAbsDiff(a: number[], b: number[]): number {
+  return a.reduce((s, v, i) => s + Math.abs(v - b[i]), 0) / a.length;
+}
+
+/**
+ * IJG-equivalent quality of a table: the standard scaling closest to it.
+ */
+export function estimateQuality(table: number[], base = IJG_LUMINANCE): { quality: number; exact: boolean } {
+  let best = { quality: 50, distance: Infinity };
+  for (let q = 1; q <= 100; q++) {
+    const distance = meanAbsDiff(table, scaledIjgTable(base, q));
+    if (distance < best.distance) best = { quality: q, distance };
+  }
+  return { quality: best.quality, exact: best.distance === 0 };
+}
+
+const IJG_ENCODERS = ["libjpeg / libjpeg-turbo", "GIMP", "ImageMagick", "Pillow", "browser canvas export", "many phone camera apps"];
+
+/**
+ * Known quantization tables. The IJG family covers every encoder built on
+ * libjpeg's standard scaling; device- or application-specific tables are
+ * listed as exact entries.
+ */
+export const QUANT_TABLE_LIBRARY: QuantTableProfile[] = Array.from({ length: 100 }, (_, i) => ({
+  id: `ijg-q${i + 1}`,
+  label: `libjpeg (IJG) standard tables, quality ${i + 1}`,
+  kind: "software" as const,
+  examples: IJG_ENCODERS,
+  luminance: scaledIjgTable(IJG_LUMINANCE, i + 1),
+  chrominance: scaledIjgTable(IJG_CHROMINANCE, i + 1),
+  quality: i + 1,
+}));
+
+/** Tables further than this (mean step difference) from every profile are reported as custom. */
+const MAX_MATCH_DISTANCE = 1;
+
+/**
+ * Match a file's luminance (and, when present, chrominance) table against
+ * the library. Returns null for custom tables.
+ */
+export function matchQuantTables(
+  luminance: number[],
+  chrominance?: number[],
+  library: QuantTableProfile[] = QUANT_TABLE_LIBRARY,
+): QuantTableMatch | null {
+  let best: { profile: QuantTableProfile; distance: number } | null = null;
+  for (const profile of library) {
+    let distance = meanAbsDiff(luminance, profile.luminance);
+    if (chrominance && profile.chrominance) distance = (distance + meanAbsDiff(chrominance, profile.chrominance)) / 2;
+    if (!best || distance < best.distance) best = { profile, distance };
+  }
+  if (!best || best.distance > MAX_MATCH_DISTANCE) return null;
+  const { profile, distance } = best;
+  return {
+    id: profile.id,
+    label: profile.label,
+    kind: profile.kind,
+    examples: profile.examples,
+    exact: distance === 0,
+    distance: Math.round(distance * 100) / 100,
+  };
+}
+
+// ============================================================
+// DOUBLE COMPRESSION
+// ============================================================
+
+function laplaceCdf(x: number, b: number): number {
+  return x < 0 ? 0.5 * Math.exp(x / b) : 1 - 0.5 * Math.exp(-x / b);
+}
+
+/** JPEG quantization rounds half away from zero. */
+function quantize(v: number): number {
+  return Math.sign(v) * Math.round(Math.abs(v));
+}
+
+/**
+ * Expected distribution of quantized values -HIST_RANGE..HIST_RANGE for
+ * Laplacian coefficients of scale `b` quantized with step `prior` and then
+ * re-quantized with `step`. A null prior models a single compression.
+ */
+function modelHistogram(b: number, step: number, prior: number | null): Float64Array {
+  const p = new Float64Array(2 * HIST_RANGE + 1);
+  const single = () => {
+    for (let k = -HIST_RANGE; k <= HIST_RANGE; k++) {
+      p[k + HIST_RANGE] = laplaceCdf((k + 0.5) * step, b) - laplaceCdf((k - 0.5) * step, b);
+    }
+  };
+  single();
+  if (prior !== null) {
+    const singleP = Float64Array.from(p);
+    p.fill(0);
+    const mMax = Math.ceil(((HIST_RANGE + 0.5) * step) / prior) + 1;
+    for (let m = -mMax; m <= mMax; m++) {
+      const k = quantize((m * prior) / step);
+      if (Math.abs(k) > HIST_RANGE) continue;
+      p[k + HIST_RANGE] += laplaceCdf((m + 0.5) * prior, b) - laplaceCdf((m - 0.5) * prior, b);
+    }
+    for (let i = 0; i < p.length; i++) p[i] = (1 - ROUNDING_MIX) * p[i] + ROUNDING_MIX * singleP[i];
+  }
+  const total = p.reduce((s, v) => s + v, 0);
+  for (let i = 0; i < p.length; i++) p[i] = Math.max(p[i] / total, 1e-9);
+  return p;
+}
+
+const MIXTURE_WEIGHTS = [0, 0.25, 0.5, 0.75];
+
+/**
+ * Best log-likelihood over two-component Laplacian mixtures with scales
+ * on a grid around `b0`. Real DCT coefficients are heavier-tailed than a
+ * single Laplacian; the mixture absorbs that smooth mismatch so that only
+ * periodic structure favours a double-compression model.
+ */
+function bestLikelihood(counts: number[], step: number, prior: number | null, b0: number): number {
+  const models = Array.from({ length: 25 }, (_, i) => modelHistogram(b0 * 2 ** ((i - 12) / 4), step, prior));
+  const bins = counts.flatMap((c, j) => (c ? [j] : []));
+  let best = -Infinity;
+  for (let i = 0; i < models.length; i++) {
+    for (let j = i; j < models.length; j++) {
+      for (const w of i === j ? [0] : MIXTURE_WEIGHTS) {
+        let ll = 0;
+        for (const k of bins) ll += counts[k] * Math.log((1 - w) * models[i][k] + w * models[j][k]);
+        best = Math.max(best, ll);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Compare single- and double-compression models for one coefficient
+ * position. Returns null when the histogram is too sparse to tell.
+ */
+export function fitPriorStep(counts: number[], step: number): { priorStep: number | null; gain: number } | null {
+  const total = counts.reduce((s, c) => s + c, 0);
+  if (total < MIN_COEFFICIENTS || 1 - counts[HIST_RANGE] / total < MIN_NONZERO_FRACTION) return null;
+  const meanAbs = counts.reduce((s, c, i) => s + c * Math.abs(i - HIST_RANGE), 0) / total;
+  const b0 = Math.max(0.5, meanAbs * step);
+
+  const single = bestLikelihood(counts, step, null, b0);
+  let best = { priorStep: null as number | null, ll: single };
+  for (let prior = 1; prior <= MAX_PRIOR_STEP; prior++) {
+    if (prior === step) continue;
+    const ll = bestLikelihood(counts, step, prior, b0);
+    if (ll > best.ll) best = { priorStep: prior, ll };
+  }
+  const gain = (best.ll - single) / total;
+  return { priorStep: gain >= GAIN_THRESHOLD ? best.priorStep : null, gain: Math.round(gain * 10000) / 10000 };
+}
+
+/**
+ * Quality of the standard table that best explains the prior steps.
+ */
+function priorQualityFrom(positions: DoubleCompressionPosition[]): number | null {
+  const fitted = positions.filter((p) => p.priorStep !== null);
+  if (fitted.length < 2) return null;
+  let best = { quality: 0, hits: -1, error: Infinity };
+  for (let q = 1; q <= 100; q++) {
+    const table = scaledIjgTable(IJG_LUMINANCE, q);
+    const hits = fitted.filter((p) => table[p.position] === p.priorStep).length;
+    const error = fitted.reduce((s, p) => s + Math.abs(table[p.position] - p.priorStep!), 0);
+    if (hits > best.hits || (hits === best.hits && error < best.error)) best = { quality: q, hits, error };
+  }
+  return best.hits >= Math.ceil(fitted.length / 2) ? best.quality : null;
+}
+
+/**
+ * Detect double compression from luminance coefficient histograms. An
+ * earlier quantization with a coarser step leaves periodic empty bins that
+ * a single quantization cannot produce. A finer earlier step only leaves
+ * faint peaks, which pixel rounding between the saves usually hides.
+ */
+export function detectDoubleCompression(histograms: CoefficientHistogram[], table: number[]): DoubleCompressionResult {
+  const positions: DoubleCompressionPosition[] = [];
+  for (const h of histograms) {
+    const fit = fitPriorStep(h.counts, table[h.position]);
+    if (fit) positions.push({ position: h.position, currentStep: table[h.position], ...fit });
+  }
+
+  const agreeing = positions.filter((p) => p.priorStep !== null).length;
+  const strength = positions.length > 0
+    ? positions.reduce((s, p) => s + Math.min(1, Math.max(0, p.gain) / (GAIN_THRESHOLD * 3)), 0) / positions.length
+    : 0;
+  const probability = positions.length > 0 ? clamp01(logistic((strength - 0.3) * 10)) : 0;
+
+  return {
+    detected: probability >= 0.5 && agreeing >= 2,
+    probability: Math.round(probability * 100) / 100,
+    positions,
+    priorQuality: priorQualityFrom(positions),
+  };
+}
+
+// ============================================================
+// ENTRY POINT
+// ============================================================
+
+/**
+ * Analyze the compression history of a JPEG file's bytes. Returns null
+ * when the bytes are not a JPEG or carry no quantization tables.
+ */
+export function analyzeJpegCompression(bytes: Uint8Array): JpegCompressionAnalysis | null {
+  const structure = parseJpegStructure(bytes);
+  if (!structure || structure.components.length === 0) return null;
+  const tableFor = (component?: JpegComponent) =>
+    component ? structure.quantTables.find((t) => t.slot === component.tq)?.values : undefined;
+  const luminance = tableFor(structure.components[0]);
+  if (!luminance) return null;
+  const chrominance = tableFor(structure.components[1]);
+
+  const lumaQuality = estimateQuality(luminance);
+  const chromaQuality = chrominance ? estimateQuality(chrominance, IJG_CHROMINANCE) : null;
+  const coefficients = readCoefficientHistograms(bytes, structure);
+
+  return {
+    width: structure.width,
+    height: structure.height,
+    coding: structure.coding,
+    quantTables: structure.quantTables,
+    quality: lumaQuality.quality,
+    standardTables: lumaQuality.exact && (chromaQuality?.exact ?? true),
+    tableMatch: matchQuantTables(luminance, chrominance),
+    blocksAnalyzed: coefficients?.blocks ?? 0,
+    doubleCompression: coefficients && coefficients.blocks > 0
+      ? detectDoubleCompression(coefficients.histograms, luminance)
+      : null,
+  };
+}
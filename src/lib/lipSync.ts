@@ -0,0 +1,357 @@
+/**
+ * Lip-Sync Consistency
+ * Measures whether mouth motion follows the speech in a video. A mouth
+ * opening signal is read from densely sampled frames (skin-tone face box,
+ * dark oral-cavity pixels in its lower third) and cross-correlated with the
+ * soundtrack's loudness envelope. The correlation peak gives the A/V
+ * offset; sliding windows at that offset give per-window sync confidence,
+ * and speech windows where the two stop moving together become divergent
+ * segments in seconds.
+ */
+
+import type { DecodedAudio } from "@/lib/audioTrack";
+import type { RGBAImage } from "@/lib/imageProcessing";
+import { sampleVideoWindow } from "@/lib/videoFrames";
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LipSyncWindow {
+  start: number;
+  end: number;
+  /** Pearson correlation of mouth opening and loudness at the global offset. */
+  correlation: number;
+  /** 0–1; null when the window holds too little speech or face to judge. */
+  confidence: number | null;
+  divergent: boolean;
+}
+
+export interface LipSyncSegment {
+  start: number;
+  end: number;
+  meanCorrelation: number;
+}
+
+export type LipSyncStatus = "in_sync" | "offset" | "diverged" | "inconclusive";
+
+export const LIP_SYNC_LABELS: Record<LipSyncStatus, string> = {
+  in_sync: "In sync",
+  offset: "Offset",
+  diverged: "Diverged",
+  inconclusive: "Inconclusive",
+};
+
+export interface LipSyncAnalysis {
+  status: LipSyncStatus;
+  /** Seconds analysed from the start of the video. */
+  duration: number;
+  truncated: boolean;
+  frameRate: number;
+  /** Share of sampled frames where a face was found. */
+  faceCoverage: number;
+  /** Share of sampled frames with speech-level loudness. */
+  speechCoverage: number;
+  /** Seconds the audio trails the picture (negative: audio leads); null when inconclusive. */
+  offsetSeconds: number | null;
+  /** Correlation at the offset. */
+  peakCorrelation: number;
+  /** 0–1 over the whole analysed stretch. */
+  syncConfidence: number;
+  windows: LipSyncWindow[];
+  divergentSegments: LipSyncSegment[];
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+const FRAME_RATE = 15;
+const MAX_SYNC_SECONDS = 20;
+const FRAME_DIMENSION = 160;
+/** Offsets searched either side of zero; broadcast drift stays well inside. */
+const MAX_OFFSET_SECONDS = 0.6;
+const WINDOW_SECONDS = 2;
+const HOP_SECONDS = 1;
+/** Slow drift (head motion, level changes) is removed below ~1 Hz. */
+const DETREND_SECONDS = 1;
+/** Frames louder than the noise floor by this much count as speech. */
+const SPEECH_MARGIN_DB = 12;
+/** A window needs this share of speech frames to be judged. */
+const MIN_WINDOW_SPEECH = 0.4;
+const MIN_FACE_COVERAGE = 0.6;
+const MIN_SPEECH_SECONDS = 3;
+/** Correlation treated as full sync confidence. */
+const GOOD_CORRELATION = 0.5;
+/** Speech windows below this correlation are divergent. */
+const DIVERGENCE_CORRELATION = 0.1;
+/** Below this overall peak the mouth and speech are not coupled at all. */
+const MIN_PEAK_CORRELATION = 0.2;
+/** Audio delay / advance the ear tolerates (ITU-R BT.1359 detectability). */
+const MAX_AUDIO_LAG = 0.125;
+const MAX_AUDIO_LEAD = 0.045;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const round = (v: number, digits = 3) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+// ============================================================
+// FACE & MOUTH
+// ============================================================
+
+/** Skin-tone chroma box in YCbCr (Chai & Ngan). */
+function isSkin(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.1687 * r - 0.3313 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.4187 * g - 0.0813 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+/**
+ * Bounding box of the dominant skin region: the rows and columns whose skin
+ * count reaches a third of the busiest one. Null when skin covers too
+ * little of the frame to be a face.
+ */
+export function locateFace(img: RGBAImage): FaceBox | null {
+  const { width, height, data } = img;
+  const cols = new Uint32Array(width);
+  const rows = new Uint32Array(height);
+  let total = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      if (!isSkin(data[p], data[p + 1], data[p + 2])) continue;
+      cols[x]++;
+      rows[y]++;
+      total++;
+    }
+  }
+  if (total < 0.02 * width * height) return null;
+
+  const span = (counts: Uint32Array): [number, number] => {
+    const limit = Math.max(...counts) / 3;
+    const first = counts.findIndex((c) => c >= limit);
+    let last = counts.length - 1;
+    while (last > first && counts[last] < limit) last--;
+    return [first, last];
+  };
+  const [x0, x1] = span(cols);
+  const [y0, y1] = span(rows);
+  const box = { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+  return box.width >= 8 && box.height >= 8 ? box : null;
+}
+
+/**
+ * Share of the mouth region (middle half, 62–92% down the face box) that
+ * is much darker than the face's own skin: the open oral cavity.
+ */
+export function mouthOpening(img: RGBAImage, face: FaceBox): number {
+  const { width, data } = img;
+  const luma = (x: number, y: number) => {
+    const p = (y * width + x) * 4;
+    return 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  };
+
+  // Reference skin brightness from the cheeks and nose band
+  const skin: number[] = [];
+  for (let y = face.y + Math.floor(face.height * 0.35); y < face.y + face.height * 0.6; y++) {
+    for (let x = face.x + Math.floor(face.width * 0.2); x < face.x + face.width * 0.8; x++) {
+      const p = (y * width + x) * 4;
+      if (isSkin(data[p], data[p + 1], data[p + 2])) skin.push(luma(x, y));
+    }
+  }
+  if (skin.length === 0) return 0;
+  skin.sort((a, b) => a - b);
+  const dark = 0.55 * skin[Math.floor(skin.length / 2)];
+
+  let count = 0;
+  let n = 0;
+  for (let y = face.y + Math.floor(face.height * 0.62); y < face.y + face.height * 0.92; y++) {
+    for (let x = face.x + Math.floor(face.width * 0.25); x < face.x + face.width * 0.75; x++) {
+      n++;
+      if (luma(x, y) < dark) count++;
+    }
+  }
+  return n > 0 ? count / n : 0;
+}
+
+// ============================================================
+// SIGNALS
+// ============================================================
+
+/** RMS loudness in dB over one frame interval centred on each time. */
+export function loudnessEnvelope(audio: Pick<DecodedAudio, "samples" | "sampleRate">, times: number[], frameRate: number): number[] {
+  const half = Math.floor(audio.sampleRate / frameRate / 2);
+  return times.map((t) => {
+    const centre = Math.round(t * audio.sampleRate);
+    const from = Math.max(0, centre - half);
+    const to = Math.min(audio.samples.length, centre + half);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += audio.samples[i] * audio.samples[i];
+    return 10 * Math.log10(sum / Math.max(1, to - from) + 1e-10);
+  });
+}
+
+/** Subtract a centred moving average of `radius` samples either side. */
+function detrend(signal: number[], radius: number): number[] {
+  return signal.map((_, i) => {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(signal.length, i + radius + 1);
+    let sum = 0;
+    for (let k = from; k < to; k++) sum += signal[k];
+    return signal[i] - sum / (to - from);
+  });
+}
+
+/** Fill nulls by linear interpolation between their nearest known neighbours. */
+function interpolateGaps(signal: (number | null)[]): number[] {
+  const known = signal.flatMap((v, i) => (v === null ? [] : [i]));
+  if (known.length === 0) return signal.map(() => 0);
+  return signal.map((v, i) => {
+    if (v !== null) return v;
+    const next = known.find((k) => k > i);
+    const prev = [...known].reverse().find((k) => k < i);
+    if (prev === undefined) return signal[next!]!;
+    if (next === undefined) return signal[prev]!;
+    return signal[prev]! + ((signal[next]! - signal[prev]!) * (i - prev)) / (next - prev);
+  });
+}
+
+/** Pearson correlation of a[i] with b[i + lag] over indices [from, to). */
+function laggedCorrelation(a: number[], b: number[], lag: number, from = 0, to = a.length): number {
+  let sa = 0, sb = 0, saa = 0, sbb = 0, sab = 0, n = 0;
+  for (let i = Math.max(from, -lag); i < Math.min(to, b.length - lag); i++) {
+    const x = a[i];
+    const y = b[i + lag];
+    sa += x; sb += y; saa += x * x; sbb += y * y; sab += x * y; n++;
+  }
+  if (n < 3) return 0;
+  const cov = sab - (sa * sb) / n;
+  const va = saa - (sa * sa) / n;
+  const vb = sbb - (sb * sb) / n;
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+/**
+ * Compare a mouth-opening series with a loudness series sampled at the same
+ * `frameRate` (null mouth values: no face in that frame).
+ */
+export function analyzeSyncSignals(
+  mouth: (number | null)[],
+  loudnessDb: number[],
+  frameRate: number,
+  { truncated = false }: { truncated?: boolean } = {},
+): LipSyncAnalysis {
+  const n = Math.min(mouth.length, loudnessDb.length);
+  const duration = n / frameRate;
+  const faceCoverage = n > 0 ? mouth.slice(0, n).filter((v) => v !== null).length / n : 0;
+
+  const sortedDb = loudnessDb.slice(0, n).sort((a, b) => a - b);
+  const noiseFloor = sortedDb[Math.floor(sortedDb.length * 0.1)] ?? 0;
+  const speech = loudnessDb.slice(0, n).map((db) => db > noiseFloor + SPEECH_MARGIN_DB);
+  const speechCoverage = n > 0 ? speech.filter(Boolean).length / n : 0;
+
+  const base = {
+    duration: round(duration, 2),
+    truncated,
+    frameRate,
+    faceCoverage: round(faceCoverage),
+    speechCoverage: round(speechCoverage),
+  };
+  if (faceCoverage < MIN_FACE_COVERAGE || speechCoverage * duration < MIN_SPEECH_SECONDS) {
+    return { ...base, status: "inconclusive", offsetSeconds: null, peakCorrelation: 0, syncConfidence: 0, windows: [], divergentSegments: [] };
+  }
+
+  const radius = Math.round(DETREND_SECONDS * frameRate);
+  const a = detrend(interpolateGaps(mouth.slice(0, n)), radius);
+  const b = detrend(loudnessDb.slice(0, n), radius);
+
+  // Global offset: correlation peak, refined between lags by a parabola
+  const maxLag = Math.round(MAX_OFFSET_SECONDS * frameRate);
+  const correlations = Array.from({ length: 2 * maxLag + 1 }, (_, k) => laggedCorrelation(a, b, k - maxLag));
+  const best = correlations.indexOf(Math.max(...correlations));
+  const peakCorrelation = correlations[best];
+  let lag = best - maxLag;
+  let refined = lag;
+  if (best > 0 && best < correlations.length - 1) {
+    const [l, c, r] = [correlations[best - 1], correlations[best], correlations[best + 1]];
+    const denom = l - 2 * c + r;
+    if (denom < 0) refined = lag + (0.5 * (l - r)) / denom;
+  }
+  if (peakCorrelation < MIN_PEAK_CORRELATION) lag = 0;
+
+  // Windows judged at the global offset
+  const windowFrames = Math.round(WINDOW_SECONDS * frameRate);
+  const hopFrames = Math.round(HOP_SECONDS * frameRate);
+  const windows: LipSyncWindow[] = [];
+  for (let from = 0; from < n; from += hopFrames) {
+    const to = Math.min(n, from + windowFrames);
+    const speechShare = speech.slice(from, to).filter(Boolean).length / (to - from);
+    const faceShare = mouth.slice(from, to).filter((v) => v !== null).length / (to - from);
+    const correlation = laggedCorrelation(a, b, lag, from, to);
+    const judged = speechShare >= MIN_WINDOW_SPEECH && faceShare >= MIN_FACE_COVERAGE;
+    windows.push({
+      start: round(from / frameRate, 2),
+      end: round(to / frameRate, 2),
+      correlation: round(correlation),
+      confidence: judged ? round(clamp01(correlation / GOOD_CORRELATION)) : null,
+      divergent: judged && correlation < DIVERGENCE_CORRELATION,
+    });
+    if (to === n) break;
+  }
+
+  const divergentSegments: LipSyncSegment[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    if (!windows[i].divergent) continue;
+    let j = i;
+    while (j + 1 < windows.length && windows[j + 1].divergent) j++;
+    const run = windows.slice(i, j + 1);
+    divergentSegments.push({
+      start: run[0].start,
+      end: run[run.length - 1].end,
+      meanCorrelation: round(run.reduce((s, w) => s + w.correlation, 0) / run.length),
+    });
+    i = j;
+  }
+
+  const judged = windows.filter((w) => w.confidence !== null);
+  const divergentShare = judged.length > 0 ? judged.filter((w) => w.divergent).length / judged.length : 0;
+  const offsetSeconds = peakCorrelation >= MIN_PEAK_CORRELATION ? round(refined / frameRate) : null;
+  const status: LipSyncStatus =
+    offsetSeconds === null || divergentShare > 0.5 ? "diverged"
+      : offsetSeconds > MAX_AUDIO_LAG || offsetSeconds < -MAX_AUDIO_LEAD ? "offset"
+      : "in_sync";
+
+  return {
+    ...base,
+    status,
+    offsetSeconds,
+    peakCorrelation: round(peakCorrelation),
+    syncConfidence: round(clamp01(peakCorrelation / GOOD_CORRELATION) * (1 - divergentShare)),
+    windows,
+    divergentSegments,
+  };
+}
+
+// ============================================================
+// BROWSER ENTRY POINT
+// ============================================================
+
+/**
+ * Sample the first MAX_SYNC_SECONDS of a video at FRAME_RATE and compare
+ * its mouth motion with the already decoded soundtrack.
+ */
+export async function analyzeLipSync(file: Blob, audio: DecodedAudio): Promise<LipSyncAnalysis> {
+  const frames = await sampleVideoWindow(file, {
+    seconds: MAX_SYNC_SECONDS,
+    framesPerSecond: FRAME_RATE,
+    maxDimension: FRAME_DIMENSION,
+  });
+  const mouth = frames.map((f) => {
+    const face = locateFace(f.image);
+    return face ? mouthOpening(f.image, face) : null;
+  });
+  const loudness = loudnessEnvelope(audio, frames.map((f) => f.timestamp), FRAME_RATE);
+  return analyzeSyncSignals(mouth, loudness, FRAME_RATE, { truncated: audio.duration > MAX_SYNC_SECONDS });
+}
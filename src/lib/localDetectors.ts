@@ -0,0 +1,161 @@
+/**
+ * Local Heuristic Detectors
+ * Cheap pixel-statistics detectors that run in the browser without a model.
+ * They are weak on their own but can be queried thousands of times, which
+ * makes them the target for black-box adversarial stress tests.
+ */
+
+import { toLuminance, type RGBAImage } from "@/lib/imageProcessing";
+
+export type LocalDetectorId = "smoothness" | "checkerboard" | "noise_consistency";
+
+export interface LocalDetectorScore {
+  id: LocalDetectorId;
+  label: string;
+  /** Raw statistic before mapping to a probability. */
+  statistic: number;
+  fakeProbability: number;
+}
+
+export interface LocalDetection {
+  detectors: LocalDetectorScore[];
+  /** Weighted mean of the detector probabilities. */
+  fakeProbability: number;
+}
+
+const WEIGHTS: Record<LocalDetectorId, number> = {
+  smoothness: 0.4,
+  checkerboard: 0.3,
+  noise_consistency: 0.3,
+};
+
+const BLOCK_SIZE = 16;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian. Generated faces and heavy
+ * retouching are often unnaturally smooth, giving a low variance.
+ */
+function laplacianVariance(luma: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+/**
+ * Phase asymmetry of the 2x2 checker response. Transposed-convolution
+ * upsampling leaves a period-2 pattern whose strength differs between
+ * even- and odd-aligned blocks; natural images show no such preference.
+ */
+function checkerboardAsymmetry(luma: Float32Array, width: number, height: number): number {
+  const phase = [0, 0];
+  const count = [0, 0];
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const response = Math.abs(luma[i] - luma[i + 1] - luma[i + width] + luma[i + width + 1]);
+      const p = (x & 1) === (y & 1) ? (x & 1) : -1;
+      if (p < 0) continue;
+      phase[p] += response;
+      count[p]++;
+    }
+  }
+  if (count[0] === 0 || count[1] === 0) return 0;
+  const even = phase[0] / count[0];
+  const odd = phase[1] / count[1];
+  return Math.abs(even - odd) / (even + odd + 1e-6);
+}
+
+/**
+ * Coefficient of variation of the per-block noise residual level.
+ * Spliced or locally regenerated regions carry a different noise level
+ * from the rest of the frame.
+ */
+function noiseLevelVariation(luma: Float32Array, width: number, height: number): number {
+  const blocksX = Math.floor(width / BLOCK_SIZE);
+  const blocksY = Math.floor(height / BLOCK_SIZE);
+  const levels: number[] = [];
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sumAbs = 0;
+      let n = 0;
+      for (let y = by * BLOCK_SIZE + 1; y < (by + 1) * BLOCK_SIZE - 1; y++) {
+        for (let x = bx * BLOCK_SIZE + 1; x < (bx + 1) * BLOCK_SIZE - 1; x++) {
+          const i = y * width + x;
+          // Residual against the 3x3 neighbourhood mean
+          const mean = (
+            luma[i - width - 1] + luma[i - width] + luma[i - width + 1] +
+            luma[i - 1] + luma[i] + luma[i + 1] +
+            luma[i + width - 1] + luma[i + width] + luma[i + width + 1]
+          ) / 9;
+          sumAbs += Math.abs(luma[i] - mean);
+          n++;
+        }
+      }
+      if (n > 0) levels.push(sumAbs / n);
+    }
+  }
+
+  if (levels.length < 2) return 0;
+  const mean = levels.reduce((a, b) => a + b, 0) / levels.length;
+  if (mean === 0) return 0;
+  const variance = levels.reduce((s, l) => s + (l - mean) ** 2, 0) / levels.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Run every local detector on an image.
+ */
+export function scoreImage(img: RGBAImage): LocalDetection {
+  const luma = toLuminance(img);
+  const { width, height } = img;
+
+  const lapVar = laplacianVariance(luma, width, height);
+  const checker = checkerboardAsymmetry(luma, width, height);
+  const noiseCv = noiseLevelVariation(luma, width, height);
+
+  const detectors: LocalDetectorScore[] = [
+    {
+      id: "smoothness",
+      label: "Laplacian Smoothness",
+      statistic: lapVar,
+      // Variance of ~100 is the midpoint; an order of magnitude either way saturates
+      fakeProbability: clamp01(logistic((2 - Math.log10(lapVar + 1)) * 3)),
+    },
+    {
+      id: "checkerboard",
+      label: "Checkerboard Phase",
+      statistic: checker,
+      fakeProbability: clamp01(checker * 5),
+    },
+    {
+      id: "noise_consistency",
+      label: "Noise Level Variation",
+      statistic: noiseCv,
+      fakeProbability: clamp01(logistic((noiseCv - 1) * 4)),
+    },
+  ];
+
+  const fakeProbability = detectors.reduce((s, d) => s + d.fakeProbability * WEIGHTS[d.id], 0);
+  return { detectors, fakeProbability };
+}
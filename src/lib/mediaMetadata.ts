@@ -0,0 +1,801 @@
+/**
+ * Media Metadata Extraction
+ * Parses the metadata actually embedded in an uploaded file: EXIF, XMP and
+ * IPTC blocks plus container-level fields from JPEG segments, PNG chunks,
+ * WebP RIFF chunks and ISO BMFF boxes (HEIC/HEIF, MP4, MOV). Embedded C2PA
+ * manifest stores are located and returned raw for lib/contentCredentials.
+ */
+
+import { parseExif, type ExifData } from "@/lib/exifParser";
+
+export type ContainerFormat = "jpeg" | "png" | "webp" | "heif" | "mp4" | "quicktime";
+
+export interface XmpHistoryEvent {
+  action: string;
+  softwareAgent?: string;
+  when?: string;
+}
+
+export interface XmpData {
+  /** Simple properties keyed by conventional prefix, e.g. "xmp:CreatorTool". */
+  properties: Record<string, string>;
+  /** xmpMM:History entries in document order. */
+  history: XmpHistoryEvent[];
+  packet: string;
+}
+
+export interface MediaMetadata {
+  format: ContainerFormat;
+  /** Pixel dimensions declared by the container (before EXIF orientation). */
+  width: number | null;
+  height: number | null;
+  exif: ExifData | null;
+  xmp: XmpData | null;
+  /** IPTC-IIM datasets by name; repeatable datasets keep every value. */
+  iptc: Record<string, string[]> | null;
+  /** Container-level fields: PNG text chunks, movie header times, QuickTime metadata. */
+  container: Record<string, string>;
+  /** Segment, chunk or box names in file order. */
+  structure: string[];
+  /** Raw JUMBF superbox of an embedded C2PA manifest store, reassembled. */
+  c2pa: Uint8Array | null;
+}
+
+/** Reads `length` bytes at `start`; may return fewer at end of file. */
+export type ReadRange = (start: number, length: number) => Promise<Uint8Array>;
+
+const MAX_BOX_READ = 32 * 1024 * 1024;
+/** Generation parameters (ComfyUI graphs in PNG text) run to tens of kB. */
+const MAX_TEXT_LENGTH = 256 * 1024;
+const MAX_STRUCTURE_ENTRIES = 200;
+
+const latin1 = new TextDecoder("latin1");
+const utf8 = new TextDecoder("utf-8");
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const ascii = (bytes: Uint8Array, start: number, length: number) => latin1.decode(bytes.subarray(start, start + length));
+
+function startsWith(bytes: Uint8Array, at: number, text: string): boolean {
+  if (at + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) if (bytes[at + i] !== text.charCodeAt(i)) return false;
+  return true;
+}
+
+function indexOfZero(bytes: Uint8Array, from: number): number {
+  for (let i = from; i < bytes.length; i++) if (bytes[i] === 0) return i;
+  return -1;
+}
+
+function clip(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text;
+}
+
+/** zlib-inflate with the platform DecompressionStream; null when unavailable. */
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof DecompressionStream === "undefined") return null;
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// XMP
+// ============================================================
+
+const XMP_NAMESPACES: Record<string, string> = {
+  "http://ns.adobe.com/xap/1.0/": "xmp",
+  "http://ns.adobe.com/xap/1.0/mm/": "xmpMM",
+  "http://ns.adobe.com/xap/1.0/sType/ResourceEvent#": "stEvt",
+  "http://ns.adobe.com/photoshop/1.0/": "photoshop",
+  "http://ns.adobe.com/exif/1.0/": "exif",
+  "http://ns.adobe.com/exif/1.0/aux/": "aux",
+  "http://cipa.jp/exif/1.0/": "exifEX",
+  "http://ns.adobe.com/tiff/1.0/": "tiff",
+  "http://ns.adobe.com/camera-raw-settings/1.0/": "crs",
+  "http://purl.org/dc/elements/1.1/": "dc",
+  "http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/": "Iptc4xmpCore",
+  "http://iptc.org/std/Iptc4xmpExt/2008-02-29/": "Iptc4xmpExt",
+};
+const RDF_NS = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const MM_NS = "http://ns.adobe.com/xap/1.0/mm/";
+const EVENT_NS = "http://ns.adobe.com/xap/1.0/sType/ResourceEvent#";
+
+function xmpKey(node: Element | Attr): string {
+  const prefix = (node.namespaceURI && XMP_NAMESPACES[node.namespaceURI]) ?? node.prefix ?? "";
+  return prefix ? `${prefix}:${node.localName}` : node.localName;
+}
+
+/**
+ * Parse an XMP packet into flat properties and the edit history.
+ */
+export function parseXmp(packet: string): XmpData | null {
+  const start = packet.indexOf("<x:xmpmeta");
+  const rdfStart = start >= 0 ? start : packet.indexOf("<rdf:RDF");
+  if (rdfStart < 0 || typeof DOMParser === "undefined") return null;
+  const endTag = start >= 0 ? "</x:xmpmeta>" : "</rdf:RDF>";
+  const end = packet.indexOf(endTag, rdfStart);
+  const xml = end >= 0 ? packet.slice(rdfStart, end + endTag.length) : packet.slice(rdfStart);
+
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) return null;
+
+  const properties: Record<string, string> = {};
+  const history: XmpHistoryEvent[] = [];
+  const append = (key: string, value: string) => {
+    const v = value.trim();
+    if (!v) return;
+    properties[key] = properties[key] ? `${properties[key]}; ${v}` : v;
+  };
+
+  const historyRoots = new Set(Array.from(doc.getElementsByTagNameNS(MM_NS, "History")));
+  const inHistory = (el: Element) => {
+    for (let p = el.parentElement; p; p = p.parentElement) if (historyRoots.has(p)) return true;
+    return false;
+  };
+  const isEventField = (node: Element | Attr) => node.namespaceURI === EVENT_NS;
+
+  for (const el of Array.from(doc.getElementsByTagName("*"))) {
+    if (inHistory(el)) {
+      if (el.namespaceURI !== RDF_NS || el.localName !== "li") continue;
+      // Event fields may be attributes or child elements, on the li or a nested Description
+      const event: Record<string, string> = {};
+      for (const node of [el, ...Array.from(el.getElementsByTagName("*"))]) {
+        Array.from(node.attributes).filter(isEventField).forEach((a) => (event[a.localName] = a.value));
+        if (isEventField(node)) event[node.localName] = node.textContent ?? "";
+      }
+      if (event.action) history.push({ action: event.action, softwareAgent: event.softwareAgent, when: event.when });
+      continue;
+    }
+
+    if (el.namespaceURI === RDF_NS && el.localName === "Description") {
+      Array.from(el.attributes).forEach((a) => {
+        if (a.prefix === "xmlns" || a.name === "xmlns" || a.namespaceURI === RDF_NS) return;
+        append(xmpKey(a), a.value);
+      });
+      continue;
+    }
+
+    if (el.children.length > 0) continue;
+    // Leaf: a simple property, or an rdf:li inside a Seq/Bag/Alt
+    let owner: Element | null = el;
+    while (owner && owner.namespaceURI === RDF_NS) owner = owner.parentElement;
+    if (owner && owner.namespaceURI !== RDF_NS && owner.localName !== "xmpmeta") {
+      // Resource-valued properties (e.g. Iptc4xmpExt:DigitalSourceType) carry their URI in rdf:resource
+      append(xmpKey(owner), el.textContent || el.getAttributeNS(RDF_NS, "resource") || "");
+    }
+  }
+
+  return { properties, history, packet: clip(packet) };
+}
+
+// ============================================================
+// IPTC-IIM
+// ============================================================
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: "ObjectName",
+  25: "Keywords",
+  55: "DateCreated",
+  60: "TimeCreated",
+  62: "DigitalCreationDate",
+  63: "DigitalCreationTime",
+  65: "OriginatingProgram",
+  70: "ProgramVersion",
+  80: "By-line",
+  90: "City",
+  95: "Province-State",
+  101: "Country",
+  110: "Credit",
+  115: "Source",
+  116: "CopyrightNotice",
+  120: "Caption-Abstract",
+};
+
+/**
+ * Parse IPTC-IIM application records (record 2).
+ */
+export function parseIptc(bytes: Uint8Array): Record<string, string[]> | null {
+  const view = viewOf(bytes);
+  const out: Record<string, string[]> = {};
+  let pos = 0;
+  while (pos + 5 <= bytes.length && bytes[pos] === 0x1c) {
+    const record = bytes[pos + 1];
+    const dataset = bytes[pos + 2];
+    let size = view.getUint16(pos + 3);
+    let dataStart = pos + 5;
+    if (size & 0x8000) {
+      // Extended dataset: the low bits give the length of the length field
+      const lengthBytes = size & 0x7fff;
+      if (lengthBytes > 4 || dataStart + lengthBytes > bytes.length) break;
+      size = 0;
+      for (let i = 0; i < lengthBytes; i++) size = size * 256 + bytes[dataStart + i];
+      dataStart += lengthBytes;
+    }
+    if (dataStart + size > bytes.length) break;
+    if (record === 2 && IPTC_DATASETS[dataset]) {
+      const name = IPTC_DATASETS[dataset];
+      (out[name] ??= []).push(utf8.decode(bytes.subarray(dataStart, dataStart + size)).trim());
+    }
+    pos = dataStart + size;
+  }
+  return Object.keys(out).length > 0 ? out : null;
+}
+
+/**
+ * Find the IPTC block (resource 0x0404) in Photoshop image resources.
+ */
+function parsePhotoshopResources(bytes: Uint8Array): Uint8Array | null {
+  const view = viewOf(bytes);
+  let pos = 0;
+  while (pos + 12 <= bytes.length && startsWith(bytes, pos, "8BIM")) {
+    const id = view.getUint16(pos + 4);
+    const nameLength = bytes[pos + 6];
+    // Pascal name padded so length byte + name is even
+    let cursor = pos + 6 + nameLength + 1;
+    if ((nameLength + 1) % 2) cursor++;
+    if (cursor + 4 > bytes.length) break;
+    const size = view.getUint32(cursor);
+    const dataStart = cursor + 4;
+    if (dataStart + size > bytes.length) break;
+    if (id === 0x0404) return bytes.subarray(dataStart, dataStart + size);
+    pos = dataStart + size + (size % 2);
+  }
+  return null;
+}
+
+// ============================================================
+// STILL-IMAGE CONTAINERS
+// ============================================================
+
+function emptyMetadata(format: ContainerFormat): MediaMetadata {
+  return { format, width: null, height: null, exif: null, xmp: null, iptc: null, container: {}, structure: [], c2pa: null };
+}
+
+/** True for a JUMBF superbox whose description box is typed "c2pa". */
+function isC2paStore(bytes: Uint8Array): boolean {
+  return bytes.length >= 24 && startsWith(bytes, 4, "jumb") && startsWith(bytes, 12, "jumd") && startsWith(bytes, 16, "c2pa");
+}
+
+/**
+ * Reassemble JUMBF boxes split across JPEG APP11 segments. Each segment
+ * carries "JP", a box instance number (En), a sequence number (Z) and a
+ * repeat of the box header, which continuation segments drop.
+ */
+function joinJumbfSegments(segments: Uint8Array[]): Uint8Array | null {
+  const instances = new Map<number, { seq: number; data: Uint8Array }[]>();
+  for (const seg of segments) {
+    if (seg.length < 16) continue;
+    const view = viewOf(seg);
+    const list = instances.get(view.getUint16(2)) ?? [];
+    list.push({ seq: view.getUint32(4), data: seg.subarray(8) });
+    instances.set(view.getUint16(2), list);
+  }
+  for (const list of instances.values()) {
+    list.sort((a, b) => a.seq - b.seq);
+    const headerSize = viewOf(list[0].data).getUint32(0) === 1 ? 16 : 8;
+    const parts = list.map((p, i) => (i === 0 ? p.data : p.data.subarray(headerSize)));
+    const joined = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+      joined.set(p, at);
+      at += p.length;
+    }
+    if (isC2paStore(joined)) return joined;
+  }
+  return null;
+}
+
+function pushStructure(meta: MediaMetadata, name: string) {
+  if (meta.structure.length < MAX_STRUCTURE_ENTRIES) meta.structure.push(name);
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+function parseJpeg(bytes: Uint8Array): MediaMetadata {
+  const meta = emptyMetadata("jpeg");
+  const view = viewOf(bytes);
+  const jumbfSegments: Uint8Array[] = [];
+  pushStructure(meta, "SOI");
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) break;
+    const marker = bytes[pos + 1];
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      pos += 2;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      pushStructure(meta, marker === 0xda ? "SOS" : "EOI");
+      break;
+    }
+
+    const length = view.getUint16(pos + 2);
+    const start = pos + 4;
+    const end = Math.min(bytes.length, pos + 2 + length);
+    const data = bytes.subarray(start, end);
+
+    if (marker >= 0xe0 && marker <= 0xef) {
+      const n = marker - 0xe0;
+      if (n === 1 && startsWith(data, 0, EXIF_HEADER)) {
+        pushStructure(meta, "APP1 Exif");
+        meta.exif ??= parseExif(view, start + EXIF_HEADER.length, data.length - EXIF_HEADER.length);
+      } else if (n === 1 && startsWith(data, 0, XMP_HEADER)) {
+        pushStructure(meta, "APP1 XMP");
+        meta.xmp ??= parseXmp(utf8.decode(data.subarray(XMP_HEADER.length)));
+      } else if (n === 13 && startsWith(data, 0, "Photoshop 3.0\0")) {
+        pushStructure(meta, "APP13 Photoshop");
+        const iim = parsePhotoshopResources(data.subarray(14));
+        if (iim) meta.iptc ??= parseIptc(iim);
+      } else if (n === 11 && startsWith(data, 0, "JP")) {
+        pushStructure(meta, "APP11 JUMBF");
+        jumbfSegments.push(data);
+      } else {
+        const zero = indexOfZero(data, 0);
+        const id = zero > 0 && zero < 32 ? ascii(data, 0, zero) : "";
+        pushStructure(meta, id ? `APP${n} ${id}` : `APP${n}`);
+      }
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      pushStructure(meta, `SOF${marker - 0xc0}`);
+      if (data.length >= 5) {
+        meta.height = viewOf(data).getUint16(1);
+        meta.width = viewOf(data).getUint16(3);
+      }
+    } else if (marker === 0xfe) {
+      pushStructure(meta, "COM");
+      meta.container.Comment = clip(latin1.decode(data).replace(/\0+$/, ""));
+    } else {
+      pushStructure(meta, { 0xdb: "DQT", 0xc4: "DHT", 0xdd: "DRI" }[marker] ?? `0xFF${marker.toString(16).toUpperCase()}`);
+    }
+    pos += 2 + length;
+  }
+  if (jumbfSegments.length > 0) meta.c2pa = joinJumbfSegments(jumbfSegments);
+  return meta;
+}
+
+async function parsePng(bytes: Uint8Array): Promise<MediaMetadata> {
+  const meta = emptyMetadata("png");
+  const view = viewOf(bytes);
+  let pos = 8;
+
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = ascii(bytes, pos + 4, 4);
+    const start = pos + 8;
+    const data = bytes.subarray(start, Math.min(bytes.length, start + length));
+    pushStructure(meta, type);
+
+    if (type === "IHDR" && data.length >= 8) {
+      meta.width = viewOf(data).getUint32(0);
+      meta.height = viewOf(data).getUint32(4);
+    } else if (type === "eXIf") {
+      meta.exif ??= parseExif(view, start, data.length);
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const keyEnd = indexOfZero(data, 0);
+      if (keyEnd > 0) {
+        const keyword = ascii(data, 0, keyEnd);
+        let text: string | null = null;
+        if (type === "tEXt") {
+          text = latin1.decode(data.subarray(keyEnd + 1));
+        } else if (type === "zTXt") {
+          const inflated = await inflate(data.subarray(keyEnd + 2));
+          text = inflated ? latin1.decode(inflated) : null;
+        } else {
+          const compressed = data[keyEnd + 1] === 1;
+          const langEnd = indexOfZero(data, keyEnd + 3);
+          const transEnd = langEnd >= 0 ? indexOfZero(data, langEnd + 1) : -1;
+          if (transEnd >= 0) {
+            const payload = data.subarray(transEnd + 1);
+            const raw = compressed ? await inflate(payload) : payload;
+            text = raw ? utf8.decode(raw) : null;
+          }
+        }
+        if (keyword === "XML:com.adobe.xmp" && text) {
+          meta.xmp ??= parseXmp(text);
+        } else {
+          meta.container[keyword] = text !== null ? clip(text) : "(compressed, not decoded)";
+        }
+      }
+    } else if (type === "caBX" && isC2paStore(data)) {
+      meta.c2pa ??= data.slice();
+    } else if (type === "tIME" && data.length >= 7) {
+      const d = viewOf(data);
+      const pad = (n: number) => String(n).padStart(2, "0");
+      meta.container.LastModified =
+        `${d.getUint16(0)}-${pad(data[2])}-${pad(data[3])}T${pad(data[4])}:${pad(data[5])}:${pad(data[6])}Z`;
+    } else if (type === "IEND") {
+      break;
+    }
+    pos = start + length + 4;
+  }
+  return meta;
+}
+
+function parseWebp(bytes: Uint8Array): MediaMetadata {
+  const meta = emptyMetadata("webp");
+  const view = viewOf(bytes);
+  let pos = 12;
+
+  while (pos + 8 <= bytes.length) {
+    const type = ascii(bytes, pos, 4);
+    const length = view.getUint32(pos + 4, true);
+    const start = pos + 8;
+    const data = bytes.subarray(start, Math.min(bytes.length, start + length));
+    pushStructure(meta, type.trim());
+
+    if (type === "VP8X" && data.length >= 10) {
+      meta.width = 1 + (data[4] | (data[5] << 8) | (data[6] << 16));
+      meta.height = 1 + (data[7] | (data[8] << 8) | (data[9] << 16));
+    } else if (type === "VP8 " && data.length >= 10 && meta.width === null) {
+      meta.width = viewOf(data).getUint16(6, true) & 0x3fff;
+      meta.height = viewOf(data).getUint16(8, true) & 0x3fff;
+    } else if (type === "VP8L" && data.length >= 5 && meta.width === null) {
+      const bits = viewOf(data).getUint32(1, true);
+      meta.width = (bits & 0x3fff) + 1;
+      meta.height = ((bits >> 14) & 0x3fff) + 1;
+    } else if (type === "EXIF") {
+      const skip = startsWith(data, 0, EXIF_HEADER) ? EXIF_HEADER.length : 0;
+      meta.exif ??= parseExif(view, start + skip, data.length - skip);
+    } else if (type === "XMP ") {
+      meta.xmp ??= parseXmp(utf8.decode(data));
+    } else if (type === "C2PA" && isC2paStore(data)) {
+      meta.c2pa ??= data.slice();
+    }
+    pos = start + length + (length % 2);
+  }
+  return meta;
+}
+
+// ============================================================
+// ISO BMFF (HEIF, MP4, MOV)
+// ============================================================
+
+interface Box {
+  type: string;
+  /** Absolute file offset of the payload. */
+  start: number;
+  size: number;
+  data: Uint8Array;
+}
+
+const CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf", "udta", "iprp", "ipco", "edts", "dinf"]);
+const XMP_UUID = "be7acfcb97a942e89c71999491e3afac";
+const C2PA_UUID = "d8fec3d61b0e483c92975828877ec481";
+const MAC_EPOCH_OFFSET = 2082844800;
+
+const QUICKTIME_ATOMS: Record<string, string> = {
+  "©too": "Encoder",
+  "©swr": "Software",
+  "©day": "CreationDate",
+  "©xyz": "Location",
+  "©mak": "Make",
+  "©mod": "Model",
+  "©nam": "Title",
+  "©cmt": "Comment",
+};
+
+const QUICKTIME_KEYS: Record<string, string> = {
+  "com.apple.quicktime.make": "Make",
+  "com.apple.quicktime.model": "Model",
+  "com.apple.quicktime.software": "Software",
+  "com.apple.quicktime.creationdate": "CreationDate",
+  "com.apple.quicktime.location.ISO6709": "Location",
+  "com.android.version": "AndroidVersion",
+};
+
+/** Child boxes of an in-memory payload. */
+function childBoxes(data: Uint8Array, baseOffset: number): Box[] {
+  const view = viewOf(data);
+  const boxes: Box[] = [];
+  let pos = 0;
+  while (pos + 8 <= data.length) {
+    let size = view.getUint32(pos);
+    const type = ascii(data, pos + 4, 4);
+    let header = 8;
+    if (size === 1 && pos + 16 <= data.length) {
+      size = Number(view.getBigUint64(pos + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = data.length - pos;
+    }
+    if (size < header) break;
+    const end = Math.min(data.length, pos + size);
+    boxes.push({ type, start: baseOffset + pos + header, size: size - header, data: data.subarray(pos + header, end) });
+    pos += size;
+  }
+  return boxes;
+}
+
+function macTime(seconds: number): string | null {
+  if (seconds <= 0) return null;
+  const date = new Date((seconds - MAC_EPOCH_OFFSET) * 1000);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** 'meta' is a full box in MP4/HEIF but a plain container in QuickTime. */
+function metaChildren(box: Box): Box[] {
+  const plain = startsWith(box.data, 4, "hdlr");
+  return plain ? childBoxes(box.data, box.start) : childBoxes(box.data.subarray(4), box.start + 4);
+}
+
+function readMovieHeader(meta: MediaMetadata, data: Uint8Array) {
+  const view = viewOf(data);
+  const version = data[0];
+  const created = version === 1 ? Number(view.getBigUint64(4)) : view.getUint32(4);
+  const modified = version === 1 ? Number(view.getBigUint64(12)) : view.getUint32(8);
+  const timescale = version === 1 ? view.getUint32(20) : view.getUint32(12);
+  const duration = version === 1 ? Number(view.getBigUint64(24)) : view.getUint32(16);
+  const createdIso = macTime(created);
+  const modifiedIso = macTime(modified);
+  if (createdIso) meta.container.MovieCreationTime = createdIso;
+  if (modifiedIso) meta.container.MovieModificationTime = modifiedIso;
+  if (timescale > 0) meta.container.Duration = `${(duration / timescale).toFixed(2)}s`;
+}
+
+function readItemList(meta: MediaMetadata, ilst: Box, keys: string[]) {
+  for (const item of childBoxes(ilst.data, ilst.start)) {
+    const code = item.type;
+    const keyIndex = (code.charCodeAt(0) << 24 | code.charCodeAt(1) << 16 | code.charCodeAt(2) << 8 | code.charCodeAt(3)) >>> 0;
+    const name = QUICKTIME_ATOMS[code] ?? (keys[keyIndex - 1] ? QUICKTIME_KEYS[keys[keyIndex - 1]] ?? keys[keyIndex - 1] : null);
+    if (!name) continue;
+    const dataBox = childBoxes(item.data, item.start).find((b) => b.type === "data");
+    if (dataBox && dataBox.data.length > 8) {
+      meta.container[name] = clip(utf8.decode(dataBox.data.subarray(8)).trim());
+    }
+  }
+}
+
+function readKeys(data: Uint8Array): string[] {
+  const view = viewOf(data);
+  const keys: string[] = [];
+  const count = data.length >= 8 ? view.getUint32(4) : 0;
+  let pos = 8;
+  for (let i = 0; i < count && pos + 8 <= data.length; i++) {
+    const size = view.getUint32(pos);
+    if (size < 8) break;
+    keys.push(utf8.decode(data.subarray(pos + 8, pos + size)));
+    pos += size;
+  }
+  return keys;
+}
+
+interface HeifItems {
+  exifItem: number | null;
+  xmpItem: number | null;
+  locations: Map<number, { method: number; extents: { offset: number; length: number }[] }>;
+  idat: Box | null;
+}
+
+function readUint(view: DataView, pos: number, size: number): number {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(pos);
+  if (size === 4) return view.getUint32(pos);
+  if (size === 8) return Number(view.getBigUint64(pos));
+  return 0;
+}
+
+function readItemInfo(items: HeifItems, data: Uint8Array) {
+  const version = data[0];
+  const count = version === 0 ? viewOf(data).getUint16(4) : viewOf(data).getUint32(4);
+  const entries = childBoxes(data.subarray(version === 0 ? 6 : 8), 0).filter((b) => b.type === "infe").slice(0, count);
+  for (const infe of entries) {
+    const v = infe.data[0];
+    if (v < 2) continue;
+    const view = viewOf(infe.data);
+    const id = v === 2 ? view.getUint16(4) : view.getUint32(4);
+    const typeAt = v === 2 ? 8 : 10;
+    const itemType = ascii(infe.data, typeAt, 4);
+    if (itemType === "Exif") items.exifItem = id;
+    if (itemType === "mime") {
+      const nameEnd = indexOfZero(infe.data, typeAt + 4);
+      const typeEnd = nameEnd >= 0 ? indexOfZero(infe.data, nameEnd + 1) : -1;
+      const contentType = nameEnd >= 0 ? ascii(infe.data, nameEnd + 1, (typeEnd >= 0 ? typeEnd : infe.data.length) - nameEnd - 1) : "";
+      if (contentType === "application/rdf+xml") items.xmpItem = id;
+    }
+  }
+}
+
+function readItemLocations(items: HeifItems, data: Uint8Array) {
+  const view = viewOf(data);
+  const version = data[0];
+  const offsetSize = data[4] >> 4;
+  const lengthSize = data[4] & 0x0f;
+  const baseOffsetSize = data[5] >> 4;
+  const indexSize = version > 0 ? data[5] & 0x0f : 0;
+  let pos = 6;
+  const count = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+  pos += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < count && pos < data.length; i++) {
+    const id = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+    pos += version < 2 ? 2 : 4;
+    const method = version > 0 ? view.getUint16(pos) & 0x0f : 0;
+    if (version > 0) pos += 2;
+    pos += 2; // data_reference_index
+    const base = readUint(view, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extentCount = view.getUint16(pos);
+    pos += 2;
+    const extents: { offset: number; length: number }[] = [];
+    for (let e = 0; e < extentCount; e++) {
+      pos += indexSize;
+      const offset = readUint(view, pos, offsetSize);
+      pos += offsetSize;
+      const length = readUint(view, pos, lengthSize);
+      pos += lengthSize;
+      extents.push({ offset: base + offset, length });
+    }
+    items.locations.set(id, { method, extents });
+  }
+}
+
+async function readItem(items: HeifItems, id: number, read: ReadRange): Promise<Uint8Array | null> {
+  const loc = items.locations.get(id);
+  if (!loc || loc.extents.length === 0) return null;
+  const parts: Uint8Array[] = [];
+  for (const extent of loc.extents) {
+    if (extent.length > MAX_BOX_READ) return null;
+    if (loc.method === 1 && items.idat) {
+      parts.push(items.idat.data.subarray(extent.offset, extent.offset + extent.length));
+    } else if (loc.method === 0) {
+      parts.push(await read(extent.offset, extent.length));
+    } else {
+      return null;
+    }
+  }
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(total);
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+async function parseBmff(size: number, read: ReadRange, majorBrand: string): Promise<MediaMetadata> {
+  const heifBrands = ["heic", "heix", "hevc", "heim", "heis", "hevm", "hevs", "mif1", "msf1", "avif"];
+  const format: ContainerFormat = heifBrands.includes(majorBrand) ? "heif" : majorBrand === "qt  " ? "quicktime" : "mp4";
+  const meta = emptyMetadata(format);
+  meta.container.MajorBrand = majorBrand.trim();
+
+  // Walk top-level box headers; only metadata-bearing boxes are read in full
+  const topLevel: Box[] = [];
+  let pos = 0;
+  while (pos + 8 <= size && topLevel.length < MAX_STRUCTURE_ENTRIES) {
+    const header = await read(pos, 16);
+    if (header.length < 8) break;
+    const view = viewOf(header);
+    let boxSize = view.getUint32(0);
+    const type = ascii(header, 4, 4);
+    let headerSize = 8;
+    if (boxSize === 1 && header.length >= 16) {
+      boxSize = Number(view.getBigUint64(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - pos;
+    }
+    if (boxSize < headerSize) break;
+    pushStructure(meta, type);
+    const wanted = type === "moov" || type === "meta" || type === "uuid";
+    const payloadSize = boxSize - headerSize;
+    const data = wanted && payloadSize <= MAX_BOX_READ ? await read(pos + headerSize, payloadSize) : new Uint8Array(0);
+    topLevel.push({ type, start: pos + headerSize, size: payloadSize, data });
+    pos += boxSize;
+  }
+
+  const items: HeifItems = { exifItem: null, xmpItem: null, locations: new Map(), idat: null };
+  let keys: string[] = [];
+
+  const visit = (boxes: Box[], depth: number) => {
+    if (depth > 8) return;
+    for (const box of boxes) {
+      if (depth > 0) pushStructure(meta, `${"  ".repeat(depth)}${box.type}`);
+      if (CONTAINER_BOXES.has(box.type)) {
+        visit(childBoxes(box.data, box.start), depth + 1);
+      } else if (box.type === "meta") {
+        const children = metaChildren(box);
+        const keysBox = children.find((c) => c.type === "keys");
+        if (keysBox) keys = readKeys(keysBox.data);
+        visit(children, depth + 1);
+      } else if (box.type === "mvhd" && box.data.length >= 20) {
+        readMovieHeader(meta, box.data);
+      } else if (box.type === "tkhd" && box.data.length >= 84) {
+        const view = viewOf(box.data);
+        const w = view.getUint32(box.data.length - 8) / 65536;
+        const h = view.getUint32(box.data.length - 4) / 65536;
+        if (w > 0 && h > 0 && meta.width === null) {
+          meta.width = Math.round(w);
+          meta.height = Math.round(h);
+        }
+      } else if (box.type === "ilst") {
+        readItemList(meta, box, keys);
+      } else if (QUICKTIME_ATOMS[box.type] && box.data.length > 4) {
+        // QuickTime user-data text atom: u16 length, u16 language, text
+        const length = viewOf(box.data).getUint16(0);
+        meta.container[QUICKTIME_ATOMS[box.type]] = clip(utf8.decode(box.data.subarray(4, 4 + length)).trim());
+      } else if (box.type === "uuid" && box.data.length > 16) {
+        const id = Array.from(box.data.subarray(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+        if (id === XMP_UUID) meta.xmp ??= parseXmp(utf8.decode(box.data.subarray(16)));
+        if (id === C2PA_UUID) {
+          // version/flags, purpose string, then (for "manifest") a u64 Merkle offset
+          const purposeEnd = indexOfZero(box.data, 20);
+          if (purposeEnd > 0 && ascii(box.data, 20, purposeEnd - 20) === "manifest") {
+            const store = box.data.subarray(purposeEnd + 9);
+            if (isC2paStore(store)) meta.c2pa ??= store.slice();
+          }
+        }
+      } else if (box.type === "iinf") {
+        readItemInfo(items, box.data);
+      } else if (box.type === "iloc") {
+        readItemLocations(items, box.data);
+      } else if (box.type === "idat") {
+        items.idat = box;
+      } else if (box.type === "ispe" && box.data.length >= 12) {
+        const view = viewOf(box.data);
+        const w = view.getUint32(4);
+        const h = view.getUint32(8);
+        if (w * h > (meta.width ?? 0) * (meta.height ?? 0)) {
+          meta.width = w;
+          meta.height = h;
+        }
+      }
+    }
+  };
+  visit(topLevel.filter((b) => b.data.length > 0), 0);
+
+  if (items.exifItem !== null) {
+    const payload = await readItem(items, items.exifItem, read);
+    if (payload && payload.length > 4) {
+      const skip = 4 + viewOf(payload).getUint32(0);
+      meta.exif = parseExif(viewOf(payload), skip, payload.length - skip);
+    }
+  }
+  if (items.xmpItem !== null && !meta.xmp) {
+    const payload = await readItem(items, items.xmpItem, read);
+    if (payload) meta.xmp = parseXmp(utf8.decode(payload));
+  }
+  return meta;
+}
+
+// ============================================================
+// ENTRY POINTS
+// ============================================================
+
+/**
+ * Sniff the container and parse its metadata. Returns null for formats
+ * without a parser here.
+ */
+export async function parseMediaMetadata(size: number, read: ReadRange): Promise<MediaMetadata | null> {
+  const head = await read(0, 32);
+  if (head.length < 12) return null;
+
+  if (head[0] === 0xff && head[1] === 0xd8) return parseJpeg(await read(0, size));
+  if (startsWith(head, 0, "\x89PNG\r\n\x1a\n")) return parsePng(await read(0, size));
+  if (startsWith(head, 0, "RIFF") && startsWith(head, 8, "WEBP")) return parseWebp(await read(0, size));
+  if (startsWith(head, 4, "ftyp")) return parseBmff(size, read, ascii(head, 8, 4));
+  return null;
+}
+
+/**
+ * Parse the metadata of an uploaded file, reading only the byte ranges
+ * each container needs.
+ */
+export function extractMetadata(file: Blob): Promise<MediaMetadata | null> {
+  return parseMediaMetadata(file.size, async (start, length) =>
+    new Uint8Array(await file.slice(start, start + length).arrayBuffer())
+  );
+}
+
+/** Same as extractMetadata for bytes already in memory. */
+export function extractMetadataFromBytes(bytes: Uint8Array): Promise<MediaMetadata | null> {
+  return parseMediaMetadata(bytes.length, async (start, length) => bytes.subarray(start, start + length));
+}
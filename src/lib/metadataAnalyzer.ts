@@ -0,0 +1,576 @@
+/**
+ * Metadata Analyzer
+ * Turns the metadata parsed from the file bytes into verifiable findings:
+ * editing software, mismatched timestamps, thumbnail/main-image mismatch,
+ * GPS inconsistencies, dimension mismatches and, for JPEGs, the
+ * compression history. Every finding quotes the values it rests on.
+ */
+
+import type { MetadataAnalysis, MetadataField, MetadataFinding } from "@/hooks/useMediaAnalysis";
+import { gpsToDecimal, type ExifValue } from "@/lib/exifParser";
+import { decodeImageFile, orientImage, trimDarkBorders } from "@/lib/imageProcessing";
+import { analyzeJpegCompression, type JpegCompressionAnalysis } from "@/lib/jpegForensics";
+import { extractMetadata, type MediaMetadata } from "@/lib/mediaMetadata";
+import { hammingDistance, perceptualHash } from "@/lib/perceptualHash";
+
+interface Stamp {
+  label: string;
+  raw: string;
+  /** Wall-clock time encoded as if UTC, in ms. */
+  wall: number;
+  /** Minutes east of UTC, when the source records a zone. */
+  offset: number | null;
+}
+
+/** Clock skew tolerated between timestamps written by the same device. */
+const TIMESTAMP_TOLERANCE_MIN = 2;
+/** GPS fixes can lag the shutter. */
+const GPS_TIME_TOLERANCE_MIN = 10;
+/** ~1 km at the equator. */
+const GPS_POSITION_TOLERANCE_DEG = 0.01;
+const MAX_TIMEZONE_MIN = 14 * 60;
+const THUMBNAIL_DECODE_DIMENSION = 256;
+const THUMBNAIL_ASPECT_TOLERANCE = 0.08;
+/** pHash bits; same-scene thumbnails usually land well under 10. */
+const THUMBNAIL_HASH_DISTANCE = 20;
+/** Coefficient decoding reads the whole file; larger JPEGs skip the compression checks. */
+const MAX_JPEG_BYTES = 64 * 1024 * 1024;
+
+const IMAGE_EDITORS: [RegExp, string][] = [
+  [/photoshop/i, "Adobe Photoshop"],
+  [/lightroom/i, "Adobe Lightroom"],
+  [/camera raw/i, "Adobe Camera Raw"],
+  [/\bgimp\b/i, "GIMP"],
+  [/affinity/i, "Affinity Photo"],
+  [/pixelmator/i, "Pixelmator"],
+  [/snapseed/i, "Snapseed"],
+  [/facetune/i, "Facetune"],
+  [/picsart/i, "PicsArt"],
+  [/\bcanva\b/i, "Canva"],
+  [/luminar/i, "Luminar"],
+  [/capture one/i, "Capture One"],
+  [/paint\.net/i, "Paint.NET"],
+  [/imagemagick/i, "ImageMagick"],
+  [/gd-jpeg/i, "GD library"],
+  [/after effects/i, "Adobe After Effects"],
+  [/premiere/i, "Adobe Premiere"],
+  [/davinci|resolve/i, "DaVinci Resolve"],
+  [/final cut/i, "Final Cut Pro"],
+  [/capcut/i, "CapCut"],
+];
+
+const REENCODERS: [RegExp, string][] = [
+  [/lavf|ffmpeg/i, "FFmpeg"],
+  [/handbrake/i, "HandBrake"],
+];
+
+// ============================================================
+// TIMESTAMPS
+// ============================================================
+
+function parseOffset(text: string | undefined): number | null {
+  if (!text) return null;
+  if (/^z$/i.test(text.trim())) return 0;
+  const m = text.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!m) return null;
+  const minutes = Number(m[2]) * 60 + Number(m[3]);
+  return m[1] === "-" ? -minutes : minutes;
+}
+
+/** "YYYY:MM:DD HH:MM:SS" (EXIF) or ISO 8601 with optional zone. Date-only values are ignored. */
+function parseStamp(label: string, raw: ExifValue | string | undefined, offsetText?: ExifValue): Stamp | null {
+  if (typeof raw !== "string") return null;
+  const m = raw.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!m || m[1] === "0000") return null;
+  const wall = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]), Number(m[6] ?? 0));
+  if (Number.isNaN(wall)) return null;
+  const offset = parseOffset(m[7]) ?? parseOffset(typeof offsetText === "string" ? offsetText : undefined);
+  return { label, raw: raw.trim(), wall, offset };
+}
+
+/** IPTC DateCreated (CCYYMMDD) + TimeCreated (HHMMSS±HHMM). */
+function parseIptcStamp(label: string, date?: string, time?: string): Stamp | null {
+  if (!date || !/^\d{8}$/.test(date) || !time) return null;
+  const t = time.match(/^(\d{2})(\d{2})(\d{2})([+-]\d{4})?$/);
+  if (!t) return null;
+  return parseStamp(label, `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6)}T${t[1]}:${t[2]}:${t[3]}${t[4] ?? ""}`);
+}
+
+const instant = (s: Stamp) => s.wall - (s.offset ?? 0) * 60000;
+
+/**
+ * Minutes from `a` to `b`. `exact` is false when only one side records a
+ * zone, in which case any whole-quarter-hour difference could be a
+ * timezone rather than a real discrepancy.
+ */
+function minutesBetween(a: Stamp, b: Stamp): { minutes: number; exact: boolean } {
+  if ((a.offset === null) === (b.offset === null)) {
+    const ms = a.offset === null ? b.wall - a.wall : instant(b) - instant(a);
+    return { minutes: ms / 60000, exact: true };
+  }
+  return { minutes: (b.wall - a.wall) / 60000, exact: false };
+}
+
+/** True when a difference cannot be explained by clock skew (or a timezone, if inexact). */
+function disagrees({ minutes, exact }: { minutes: number; exact: boolean }, tolerance: number): boolean {
+  if (exact) return Math.abs(minutes) > tolerance;
+  if (Math.abs(minutes) > MAX_TIMEZONE_MIN + tolerance) return true;
+  const fromQuarterHour = Math.abs(minutes - Math.round(minutes / 15) * 15);
+  return fromQuarterHour > tolerance;
+}
+
+function formatDuration(minutes: number): string {
+  const m = Math.abs(minutes);
+  if (m < 120) return `${Math.round(m)} min`;
+  if (m < 48 * 60) return `${(m / 60).toFixed(1)} h`;
+  return `${Math.round(m / 1440)} days`;
+}
+
+const quote = (s: Stamp) => `${s.label} = "${s.raw}"`;
+
+function checkTimestamps(meta: MediaMetadata, now: Date, editorFound: boolean): MetadataFinding[] {
+  const findings: MetadataFinding[] = [];
+  const tags = meta.exif?.tags ?? {};
+  const xmp = meta.xmp?.properties ?? {};
+  const iptc = meta.iptc ?? {};
+  const c = meta.container;
+
+  const capture =
+    parseStamp("EXIF DateTimeOriginal", tags.DateTimeOriginal, tags.OffsetTimeOriginal) ??
+    parseStamp("EXIF DateTimeDigitized", tags.DateTimeDigitized, tags.OffsetTimeDigitized);
+  const modified =
+    parseStamp("EXIF DateTime", tags.DateTime, tags.OffsetTime) ??
+    parseStamp("XMP xmp:ModifyDate", xmp["xmp:ModifyDate"]) ??
+    parseStamp("MP4 mvhd modification time", c.MovieModificationTime) ??
+    parseStamp("PNG tIME", c.LastModified);
+  const creations = [
+    parseStamp("XMP exif:DateTimeOriginal", xmp["exif:DateTimeOriginal"]),
+    parseStamp("XMP photoshop:DateCreated", xmp["photoshop:DateCreated"]),
+    parseStamp("XMP xmp:CreateDate", xmp["xmp:CreateDate"]),
+    parseIptcStamp("IPTC DateCreated/TimeCreated", iptc.DateCreated?.[0], iptc.TimeCreated?.[0]),
+    parseStamp("QuickTime CreationDate", c.CreationDate),
+    parseStamp("MP4 mvhd creation time", c.MovieCreationTime),
+  ].filter((s): s is Stamp => s !== null);
+
+  const primary = capture ?? creations.shift() ?? null;
+
+  if (primary && modified) {
+    const diff = minutesBetween(primary, modified);
+    if (diff.minutes < -TIMESTAMP_TOLERANCE_MIN && disagrees(diff, TIMESTAMP_TOLERANCE_MIN)) {
+      findings.push({
+        check: "timestamp_mismatch",
+        severity: "high",
+        message: `Modification time is ${formatDuration(diff.minutes)} before the capture time`,
+        evidence: `${quote(primary)}; ${quote(modified)}`,
+      });
+    } else if (diff.minutes > TIMESTAMP_TOLERANCE_MIN && disagrees(diff, TIMESTAMP_TOLERANCE_MIN)) {
+      findings.push({
+        check: "timestamp_mismatch",
+        severity: editorFound ? "medium" : "low",
+        message: `File was modified ${formatDuration(diff.minutes)} after capture`,
+        evidence: `${quote(primary)}; ${quote(modified)}`,
+      });
+    }
+  }
+
+  if (primary) {
+    for (const other of creations) {
+      const diff = minutesBetween(primary, other);
+      if (!disagrees(diff, TIMESTAMP_TOLERANCE_MIN)) continue;
+      findings.push({
+        check: "timestamp_mismatch",
+        severity: "medium",
+        message: `Creation timestamps disagree by ${formatDuration(diff.minutes)}`,
+        evidence: `${quote(primary)}; ${quote(other)}`,
+      });
+    }
+  }
+
+  const horizon = now.getTime() + 24 * 3600 * 1000;
+  for (const stamp of [primary, modified, ...creations]) {
+    if (stamp && instant(stamp) > horizon) {
+      findings.push({
+        check: "timestamp_mismatch",
+        severity: "medium",
+        message: "Timestamp lies in the future",
+        evidence: quote(stamp),
+      });
+    }
+  }
+
+  return findings;
+}
+
+// ============================================================
+// EDITING SOFTWARE
+// ============================================================
+
+function softwareFields(meta: MediaMetadata): { source: string; value: string }[] {
+  const tags = meta.exif?.tags ?? {};
+  const fields: { source: string; value: string }[] = [];
+  const add = (source: string, value: unknown) => {
+    if (typeof value === "string" && value.trim()) fields.push({ source, value: value.trim() });
+  };
+  add("EXIF Software", tags.Software);
+  add("EXIF ProcessingSoftware", tags.ProcessingSoftware);
+  add("XMP xmp:CreatorTool", meta.xmp?.properties["xmp:CreatorTool"]);
+  meta.xmp?.history.forEach((e) => add(`XMP history (${e.action})`, e.softwareAgent));
+  add("IPTC OriginatingProgram", meta.iptc?.OriginatingProgram?.[0]);
+  add(`${meta.format.toUpperCase()} Software`, meta.container.Software);
+  add(`${meta.format.toUpperCase()} Encoder`, meta.container.Encoder);
+  add("JPEG comment", meta.container.Comment);
+  return fields;
+}
+
+function checkSoftware(meta: MediaMetadata): MetadataFinding[] {
+  const hits = new Map<string, { severity: MetadataFinding["severity"]; evidence: string[] }>();
+  for (const field of softwareFields(meta)) {
+    const editor = IMAGE_EDITORS.find(([re]) => re.test(field.value));
+    const encoder = editor ? null : REENCODERS.find(([re]) => re.test(field.value));
+    const match = editor ?? encoder;
+    if (!match) continue;
+    const entry = hits.get(match[1]) ?? { severity: editor ? "medium" : "low", evidence: [] };
+    const quoted = `${field.source} = "${field.value}"`;
+    if (!entry.evidence.includes(quoted)) entry.evidence.push(quoted);
+    hits.set(match[1], entry);
+  }
+
+  const findings: MetadataFinding[] = [...hits].map(([name, hit]) => ({
+    check: "editing_software",
+    severity: hit.severity,
+    message: hit.severity === "medium" ? `Edited with ${name}` : `Re-encoded with ${name}`,
+    evidence: hit.evidence.join("; "),
+  }));
+
+  const props = meta.xmp?.properties ?? {};
+  const developKeys = Object.keys(props).filter((k) => k.startsWith("crs:"));
+  if (developKeys.length > 0 && !hits.has("Adobe Camera Raw") && !hits.has("Adobe Lightroom")) {
+    findings.push({
+      check: "editing_software",
+      severity: "low",
+      message: "Raw development settings present",
+      evidence: `XMP ${developKeys.slice(0, 3).join(", ")}${developKeys.length > 3 ? ", …" : ""}`,
+    });
+  }
+  if (props["photoshop:History"]) {
+    findings.push({
+      check: "editing_software",
+      severity: "medium",
+      message: "Photoshop edit history recorded",
+      evidence: `XMP photoshop:History = "${props["photoshop:History"].slice(0, 120)}"`,
+    });
+  }
+  return findings;
+}
+
+// ============================================================
+// GPS
+// ============================================================
+
+/** XMP GPS coordinate: "DDD,MM.mmk" or "DDD,MM,SSk". */
+function parseXmpCoordinate(text: string | undefined): number | null {
+  const m = text?.trim().match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!m) return null;
+  const value = Number(m[1]) + Number(m[2]) / 60 + Number(m[3] ?? 0) / 3600;
+  return /[SW]/i.test(m[4]) ? -value : value;
+}
+
+/** ISO 6709 string as written by QuickTime, e.g. "+37.7749-122.4194+010.000/". */
+function parseIso6709(text: string | undefined): { lat: number; lon: number } | null {
+  const m = text?.match(/^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/);
+  return m ? { lat: Number(m[1]), lon: Number(m[2]) } : null;
+}
+
+function checkGps(meta: MediaMetadata, capture: Stamp | null): MetadataFinding[] {
+  const findings: MetadataFinding[] = [];
+  const gps = meta.exif?.gps ?? {};
+  const quoteTag = (name: string) => `EXIF ${name} = ${JSON.stringify(gps[name])}`;
+
+  let exifPosition: { lat: number; lon: number } | null = null;
+  if (gps.GPSLatitude !== undefined || gps.GPSLongitude !== undefined) {
+    const lat = gpsToDecimal(gps.GPSLatitude, gps.GPSLatitudeRef);
+    const lon = gpsToDecimal(gps.GPSLongitude, gps.GPSLongitudeRef);
+    const evidence = ["GPSLatitude", "GPSLatitudeRef", "GPSLongitude", "GPSLongitudeRef"].map(quoteTag).join("; ");
+    if (lat === null || lon === null) {
+      findings.push({ check: "gps_inconsistency", severity: "high", message: "GPS coordinates are malformed or missing their N/S/E/W reference", evidence });
+    } else if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      findings.push({ check: "gps_inconsistency", severity: "high", message: "GPS coordinates are out of range", evidence });
+    } else if (lat === 0 && lon === 0) {
+      findings.push({ check: "gps_inconsistency", severity: "medium", message: "GPS position is exactly 0°, 0° (placeholder value)", evidence });
+    } else {
+      exifPosition = { lat, lon };
+    }
+  }
+
+  const xmpProps = meta.xmp?.properties ?? {};
+  const xmpLat = parseXmpCoordinate(xmpProps["exif:GPSLatitude"]);
+  const xmpLon = parseXmpCoordinate(xmpProps["exif:GPSLongitude"]);
+  const others: { label: string; lat: number; lon: number }[] = [];
+  if (xmpLat !== null && xmpLon !== null) {
+    others.push({ label: `XMP exif:GPSLatitude/Longitude = "${xmpProps["exif:GPSLatitude"]}, ${xmpProps["exif:GPSLongitude"]}"`, lat: xmpLat, lon: xmpLon });
+  }
+  const qt = parseIso6709(meta.container.Location);
+  if (qt) others.push({ label: `QuickTime Location = "${meta.container.Location}"`, ...qt });
+
+  const reference = exifPosition
+    ? { label: `EXIF GPS = ${exifPosition.lat.toFixed(5)}, ${exifPosition.lon.toFixed(5)}`, ...exifPosition }
+    : others.shift();
+  if (reference) {
+    for (const other of others) {
+      const delta = Math.max(Math.abs(other.lat - reference.lat), Math.abs(other.lon - reference.lon));
+      if (delta > GPS_POSITION_TOLERANCE_DEG) {
+        findings.push({
+          check: "gps_inconsistency",
+          severity: "medium",
+          message: `GPS positions disagree by ${delta.toFixed(3)}°`,
+          evidence: `${reference.label}; ${other.label}`,
+        });
+      }
+    }
+  }
+
+  // GPS time is UTC; compare against the capture time
+  const gpsDate = typeof gps.GPSDateStamp === "string" ? gps.GPSDateStamp : null;
+  const gpsTime = Array.isArray(gps.GPSTimeStamp) ? gps.GPSTimeStamp : null;
+  if (capture && gpsDate && gpsTime && gpsTime.length === 3) {
+    const [h, m, s] = gpsTime;
+    const pad = (n: number) => String(Math.floor(n)).padStart(2, "0");
+    const fix = parseStamp("EXIF GPSDateStamp/GPSTimeStamp", `${gpsDate} ${pad(h)}:${pad(m)}:${pad(s)}Z`);
+    if (fix) {
+      const diff = minutesBetween(capture, fix);
+      if (disagrees(diff, GPS_TIME_TOLERANCE_MIN)) {
+        findings.push({
+          check: "gps_inconsistency",
+          severity: "medium",
+          message: diff.exact
+            ? `GPS fix time differs from capture time by ${formatDuration(diff.minutes)}`
+            : `GPS fix time is ${formatDuration(diff.minutes)} from capture time, not a timezone offset`,
+          evidence: `${quote(capture)}; ${quote(fix)}`,
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+// ============================================================
+// DIMENSIONS & THUMBNAIL
+// ============================================================
+
+function checkDimensions(meta: MediaMetadata): MetadataFinding[] {
+  const tags = meta.exif?.tags ?? {};
+  const w = tags.PixelXDimension;
+  const h = tags.PixelYDimension;
+  if (typeof w !== "number" || typeof h !== "number" || !meta.width || !meta.height) return [];
+  const same = (w === meta.width && h === meta.height) || (w === meta.height && h === meta.width);
+  if (same) return [];
+  return [{
+    check: "dimension_mismatch",
+    severity: "medium",
+    message: "EXIF dimensions do not match the image (resized or cropped after capture)",
+    evidence: `EXIF PixelXDimension × PixelYDimension = ${w} × ${h}; ${meta.format.toUpperCase()} frame = ${meta.width} × ${meta.height}`,
+  }];
+}
+
+/**
+ * Compare the EXIF thumbnail against the main image. Editors that rewrite
+ * pixels but copy EXIF verbatim leave a stale thumbnail behind.
+ */
+async function checkThumbnail(meta: MediaMetadata, file: Blob): Promise<MetadataFinding[]> {
+  const thumbBytes = meta.exif?.thumbnail;
+  if (!thumbBytes || thumbBytes.length < 64) return [];
+
+  const orientation = typeof meta.exif?.tags.Orientation === "number" ? meta.exif.tags.Orientation : 1;
+  const [thumbRaw, main] = await Promise.all([
+    decodeImageFile(new Blob([thumbBytes], { type: "image/jpeg" })),
+    decodeImageFile(file, THUMBNAIL_DECODE_DIMENSION),
+  ]);
+  // Browsers orient the main image on decode; the thumbnail needs it applied by hand
+  const thumb = trimDarkBorders(orientImage(thumbRaw, orientation));
+  const mainTrimmed = trimDarkBorders(main);
+
+  const findings: MetadataFinding[] = [];
+  const thumbAspect = thumb.width / thumb.height;
+  const mainAspect = mainTrimmed.width / mainTrimmed.height;
+  const aspectDelta = Math.abs(thumbAspect - mainAspect) / mainAspect;
+  if (aspectDelta > THUMBNAIL_ASPECT_TOLERANCE) {
+    findings.push({
+      check: "thumbnail_mismatch",
+      severity: "medium",
+      message: "Embedded thumbnail has a different aspect ratio (image cropped after capture)",
+      evidence: `EXIF thumbnail ${thumb.width} × ${thumb.height} (${thumbAspect.toFixed(2)}); image ${mainAspect.toFixed(2)}`,
+    });
+  }
+
+  const distance = hammingDistance(perceptualHash(thumb), perceptualHash(mainTrimmed));
+  if (distance > THUMBNAIL_HASH_DISTANCE) {
+    findings.push({
+      check: "thumbnail_mismatch",
+      severity: "high",
+      message: "Embedded thumbnail shows different content from the main image",
+      evidence: `pHash distance thumbnail ↔ image = ${distance}/64 bits (threshold ${THUMBNAIL_HASH_DISTANCE})`,
+    });
+  }
+  return findings;
+}
+
+// ============================================================
+// JPEG COMPRESSION
+// ============================================================
+
+/** DCT coefficient as (row, column) of the 8x8 block. */
+const coefficientName = (position: number) => `(${position >> 3},${position & 7})`;
+
+/**
+ * Findings from the quantization tables and coefficient histograms:
+ * an earlier compression, and standard software tables in a file that
+ * names a camera but no editing software.
+ */
+export function checkCompression(meta: MediaMetadata, compression: JpegCompressionAnalysis): MetadataFinding[] {
+  const findings: MetadataFinding[] = [];
+
+  const dc = compression.doubleCompression;
+  if (dc?.detected) {
+    const fitted = dc.positions.filter((p) => p.priorStep !== null);
+    findings.push({
+      check: "double_compression",
+      severity: "medium",
+      message: dc.priorQuality !== null
+        ? `JPEG was compressed twice (earlier quality ≈ ${dc.priorQuality}, current ≈ ${compression.quality})`
+        : `JPEG was compressed twice (current quality ≈ ${compression.quality})`,
+      evidence: `Luminance DCT steps now ← before: ${fitted
+        .map((p) => `${coefficientName(p.position)} ${p.currentStep} ← ${p.priorStep}`)
+        .join(", ")}; ${compression.blocksAnalyzed} blocks read`,
+    });
+  }
+
+  const tags = meta.exif?.tags ?? {};
+  const camera = [tags.Make, tags.Model].filter((v) => typeof v === "string" && v.trim()).join(" ");
+  const softwareNamed = softwareFields(meta).some((f) =>
+    [...IMAGE_EDITORS, ...REENCODERS].some(([re]) => re.test(f.value)),
+  );
+  const match = compression.tableMatch;
+  if (camera && !softwareNamed && match?.exact && match.kind === "software") {
+    findings.push({
+      check: "quantization_table",
+      severity: "low",
+      message: "Camera named in EXIF, but the quantization tables are standard software tables (re-saved, or a phone encoder that uses them)",
+      evidence: `EXIF Make/Model = "${camera}"; tables = ${match.label}`,
+    });
+  }
+  return findings;
+}
+
+// ============================================================
+// SUMMARY
+// ============================================================
+
+function summarizeFields(meta: MediaMetadata): MetadataField[] {
+  const tags = meta.exif?.tags ?? {};
+  const gps = meta.exif?.gps ?? {};
+  const xmp = meta.xmp?.properties ?? {};
+  const c = meta.container;
+  const fields: MetadataField[] = [];
+  const add = (label: string, value: unknown, source: MetadataField["source"]) => {
+    if ((typeof value === "string" && value.trim()) || typeof value === "number") {
+      fields.push({ label, value: String(value).trim(), source });
+    }
+  };
+
+  add("Format", meta.format.toUpperCase(), "Container");
+  if (meta.width && meta.height) add("Dimensions", `${meta.width} × ${meta.height}`, "Container");
+  const camera = [tags.Make, tags.Model].filter((v) => typeof v === "string").join(" ");
+  add("Camera", camera, "EXIF");
+  if (!camera) add("Camera", [c.Make, c.Model].filter(Boolean).join(" "), "Container");
+  add("Lens", tags.LensModel, "EXIF");
+  add("Software", tags.Software, "EXIF");
+  add("Creator Tool", xmp["xmp:CreatorTool"], "XMP");
+  add("Encoder", c.Encoder ?? c.Software, "Container");
+  add("Captured", tags.DateTimeOriginal, "EXIF");
+  add("Modified", tags.DateTime, "EXIF");
+  add("Created", c.CreationDate ?? c.MovieCreationTime, "Container");
+  const lat = gpsToDecimal(gps.GPSLatitude, gps.GPSLatitudeRef);
+  const lon = gpsToDecimal(gps.GPSLongitude, gps.GPSLongitudeRef);
+  if (lat !== null && lon !== null) add("GPS", `${lat.toFixed(5)}, ${lon.toFixed(5)}`, "EXIF");
+  else add("GPS", c.Location, "Container");
+  add("By-line", meta.iptc?.["By-line"]?.join(", "), "IPTC");
+  add("Program", meta.iptc?.OriginatingProgram?.[0], "IPTC");
+  return fields;
+}
+
+/** True when the file carries descriptive metadata beyond bare container structure. */
+function hasDescriptiveMetadata(meta: MediaMetadata): boolean {
+  const descriptiveContainerKeys = Object.keys(meta.container).filter((k) => !["MajorBrand", "Duration"].includes(k));
+  return Boolean(meta.exif || meta.xmp || meta.iptc || descriptiveContainerKeys.length > 0);
+}
+
+/**
+ * Synchronous checks over parsed metadata (everything except the
+ * thumbnail comparison, which needs to decode pixels).
+ */
+export function evaluateMetadata(meta: MediaMetadata, now = new Date()): MetadataFinding[] {
+  const software = checkSoftware(meta);
+  const tags = meta.exif?.tags ?? {};
+  const capture =
+    parseStamp("EXIF DateTimeOriginal", tags.DateTimeOriginal, tags.OffsetTimeOriginal) ??
+    parseStamp("EXIF DateTimeDigitized", tags.DateTimeDigitized, tags.OffsetTimeDigitized);
+
+  return [
+    ...software,
+    ...checkTimestamps(meta, now, software.some((f) => f.severity === "medium")),
+    ...checkGps(meta, capture),
+    ...checkDimensions(meta),
+  ];
+}
+
+/**
+ * Build a MetadataAnalysis from already-parsed metadata and findings.
+ */
+export function toMetadataAnalysis(
+  meta: MediaMetadata,
+  details: MetadataFinding[],
+  compression?: JpegCompressionAnalysis,
+): MetadataAnalysis {
+  const hasMetadata = hasDescriptiveMetadata(meta);
+  const findings = details.map((d) => `${d.message} (${d.evidence})`);
+  if (!hasMetadata) findings.unshift(`No EXIF, XMP or IPTC metadata in the ${meta.format.toUpperCase()} file`);
+  return {
+    hasMetadata,
+    suspicious: details.some((d) => d.severity !== "low"),
+    findings,
+    format: meta.format,
+    details,
+    fields: summarizeFields(meta),
+    ...(compression && { compression }),
+  };
+}
+
+/**
+ * Parse and analyze the metadata embedded in an uploaded file. Returns
+ * null for containers without a parser, so the model estimate is kept.
+ */
+export async function analyzeMetadata(file: File): Promise<MetadataAnalysis | null> {
+  const meta = await extractMetadata(file);
+  if (!meta) return null;
+
+  const details = evaluateMetadata(meta);
+  if (file.type.startsWith("image/")) {
+    try {
+      details.push(...await checkThumbnail(meta, file));
+    } catch (err) {
+      console.warn("Thumbnail comparison skipped:", err);
+    }
+  }
+
+  let compression: JpegCompressionAnalysis | null = null;
+  if (meta.format === "jpeg" && file.size <= MAX_JPEG_BYTES) {
+    try {
+      compression = analyzeJpegCompression(new Uint8Array(await file.arrayBuffer()));
+      if (compression) details.push(...checkCompression(meta, compression));
+    } catch (err) {
+      console.warn("JPEG compression analysis skipped:", err);
+    }
+  }
+  return toMetadataAnalysis(meta, details, compression ?? undefined);
+}
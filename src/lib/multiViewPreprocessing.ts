@@ -0,0 +1,55 @@
+/**
+ * Multi-View Preprocessing
+ * Builds the preprocessing variants sent to the vision model alongside the
+ * original upload. Artifacts that survive several views carry more weight.
+ */
+
+import {
+  decodeImageFile,
+  downscale,
+  encodeImage,
+  equalizeHistogram,
+  gaussianBlur,
+} from "@/lib/imageProcessing";
+
+export type AnalysisViewName = "original" | "downscaled" | "blurred" | "equalized";
+
+export interface AnalysisView {
+  name: AnalysisViewName;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export const VIEW_LABELS: Record<AnalysisViewName, string> = {
+  original: "Original",
+  downscaled: "Downscaled 50%",
+  blurred: "Gaussian Blur",
+  equalized: "Histogram Equalized",
+};
+
+/** Longest side of the working copy the variants are computed from. */
+const MAX_WORKING_DIMENSION = 1536;
+const BLUR_SIGMA = 2;
+
+/**
+ * Decode an image upload and produce the downscaled, blurred and
+ * histogram-equalized views. The original is not re-encoded; the caller
+ * sends the uploaded bytes unchanged.
+ */
+export async function buildPreprocessedViews(file: File): Promise<AnalysisView[]> {
+  const working = await decodeImageFile(file, MAX_WORKING_DIMENSION);
+
+  const variants: [AnalysisViewName, typeof working][] = [
+    ["downscaled", downscale(working, 0.5)],
+    ["blurred", gaussianBlur(working, BLUR_SIGMA)],
+    ["equalized", equalizeHistogram(working)],
+  ];
+
+  return variants.map(([name, img]) => ({
+    name,
+    dataUrl: encodeImage(img),
+    width: img.width,
+    height: img.height,
+  }));
+}
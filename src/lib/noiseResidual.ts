@@ -0,0 +1,272 @@
+/**
+ * Noise Residual Analysis
+ * Localizes splicing by comparing sensor noise across the frame. A
+ * high-pass filter strips image content and leaves mostly noise; the
+ * noise level is then estimated per block. Content pasted from another
+ * photo, or smoothed and re-grained, carries a noise level that differs
+ * from its surroundings and shows up as outlier blocks in the map.
+ */
+
+import { createImage, decodeImageFile, encodeImage, toLuminance, type RGBAImage } from "@/lib/imageProcessing";
+
+export interface NoiseRegion {
+  /** Bounding box in 0–1 image coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** 0–1 mean splice probability of the blocks in the region. */
+  score: number;
+  /** Region noise level over the image median; below 1 is smoother. */
+  noiseRatio: number;
+}
+
+export interface NoiseResidualAnalysis {
+  width: number;
+  height: number;
+  /** True when the upload was decoded below full resolution. */
+  downscaled: boolean;
+  /** Block grid of the splice map, in pixels of the analyzed image. */
+  blockSize: number;
+  cols: number;
+  rows: number;
+  /** Estimated noise standard deviation per block (0–255 units); -1 where clipped. */
+  blockNoise: number[];
+  /** Row-major 0–1 splice probability per block. */
+  spliceMap: number[];
+  /** Median block noise level across the frame. */
+  medianNoise: number;
+  regions: NoiseRegion[];
+  /** 0–100; 100 when the noise level is uniform across the frame. */
+  noiseConsistency: number;
+  /** 0–1; driven by the strongest localized region. */
+  fakeProbability: number;
+  /** PNG data URL of the splice map, one pixel per block. */
+  overlayDataUrl?: string;
+}
+
+const BLOCK_SIZE = 32;
+/** Longest side decoded at full resolution; downscaling averages the noise away. */
+const MAX_WORKING_DIMENSION = 2048;
+/** Blocks whose mean luma is this close to black or white are clipped and carry no noise. */
+const CLIP_MARGIN = 8;
+/** Floor on the robust spread of log noise, so very clean images do not flag grain. */
+const MIN_LOG_SPREAD = 0.12;
+/** Blocks this many robust deviations from the median are likely foreign. */
+const OUTLIER_DEVIATIONS = 3;
+const REGION_THRESHOLD = 0.5;
+const MIN_REGION_BLOCKS = 2;
+const MAX_REGIONS = 8;
+/** Median of |N(0,1)|; converts a median absolute residual into a standard deviation. */
+const MAD_TO_SIGMA = 0.6745;
+/** L2 norm of the high-pass kernel below. */
+const KERNEL_NORM = 6;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function median(values: ArrayLike<number>): number {
+  if (values.length === 0) return 0;
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// ============================================================
+// RESIDUAL AND NOISE ESTIMATION
+// ============================================================
+
+/**
+ * High-pass residual with the [1 -2 1; -2 4 -2; 1 -2 1] kernel, which
+ * cancels flat areas, ramps and most straight edges. Border pixels are 0.
+ */
+export function highPassResidual(luma: Float32Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      out[i] =
+        luma[i - width - 1] - 2 * luma[i - width] + luma[i - width + 1] -
+        2 * luma[i - 1] + 4 * luma[i] - 2 * luma[i + 1] +
+        luma[i + width - 1] - 2 * luma[i + width] + luma[i + width + 1];
+    }
+  }
+  return out;
+}
+
+/**
+ * Robust per-block noise estimate: the median absolute residual scaled to
+ * a standard deviation. The median ignores the few residual pixels that
+ * fall on texture and edges. Clipped blocks are reported as -1.
+ */
+export function estimateBlockNoise(
+  luma: Float32Array,
+  residual: Float32Array,
+  width: number,
+  height: number,
+  blockSize = BLOCK_SIZE,
+): { cols: number; rows: number; noise: Float32Array } {
+  const cols = Math.floor(width / blockSize);
+  const rows = Math.floor(height / blockSize);
+  const noise = new Float32Array(cols * rows);
+  const abs = new Float32Array(blockSize * blockSize);
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < cols; bx++) {
+      let n = 0;
+      let lumaSum = 0;
+      for (let y = by * blockSize; y < (by + 1) * blockSize; y++) {
+        // Residual is undefined on the image border
+        if (y === 0 || y === height - 1) continue;
+        for (let x = bx * blockSize; x < (bx + 1) * blockSize; x++) {
+          if (x === 0 || x === width - 1) continue;
+          abs[n++] = Math.abs(residual[y * width + x]);
+          lumaSum += luma[y * width + x];
+        }
+      }
+      const meanLuma = lumaSum / Math.max(1, n);
+      noise[by * cols + bx] = meanLuma < CLIP_MARGIN || meanLuma > 255 - CLIP_MARGIN
+        ? -1
+        : median(abs.subarray(0, n)) / MAD_TO_SIGMA / KERNEL_NORM;
+    }
+  }
+  return { cols, rows, noise };
+}
+
+// ============================================================
+// SPLICE MAP
+// ============================================================
+
+function spliceRegions(
+  map: Float32Array,
+  noise: Float32Array,
+  cols: number,
+  rows: number,
+  width: number,
+  height: number,
+  medianNoise: number,
+  blockSize: number,
+): NoiseRegion[] {
+  const seen = new Uint8Array(map.length);
+  const regions: NoiseRegion[] = [];
+
+  for (let start = 0; start < map.length; start++) {
+    if (map[start] < REGION_THRESHOLD || seen[start]) continue;
+    const stack = [start];
+    const members: number[] = [];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      members.push(i);
+      const bx = i % cols;
+      const by = (i - bx) / cols;
+      const neighbours = [bx > 0 ? i - 1 : -1, bx < cols - 1 ? i + 1 : -1, by > 0 ? i - cols : -1, by < rows - 1 ? i + cols : -1];
+      for (const j of neighbours) {
+        if (j >= 0 && map[j] >= REGION_THRESHOLD && !seen[j]) {
+          seen[j] = 1;
+          stack.push(j);
+        }
+      }
+    }
+    if (members.length < MIN_REGION_BLOCKS) continue;
+
+    const xs = members.map((i) => i % cols);
+    const ys = members.map((i) => Math.floor(i / cols));
+    const x0 = Math.min(...xs) * blockSize;
+    const y0 = Math.min(...ys) * blockSize;
+    regions.push({
+      x: x0 / width,
+      y: y0 / height,
+      width: ((Math.max(...xs) + 1) * blockSize - x0) / width,
+      height: ((Math.max(...ys) + 1) * blockSize - y0) / height,
+      score: Math.round((members.reduce((s, i) => s + map[i], 0) / members.length) * 100) / 100,
+      noiseRatio: Math.round((median(members.map((i) => noise[i])) / Math.max(medianNoise, 0.05)) * 100) / 100,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.score * b.width * b.height - a.score * a.width * a.height)
+    .slice(0, MAX_REGIONS);
+}
+
+/**
+ * Run the noise-residual analysis on a decoded image. Each block's noise
+ * level is compared with the frame median in log space, where a region
+ * twice as noisy and one half as noisy are equally far from the norm.
+ */
+export function analyzeNoiseResidual(img: RGBAImage, blockSize = BLOCK_SIZE): NoiseResidualAnalysis {
+  const luma = toLuminance(img);
+  const residual = highPassResidual(luma, img.width, img.height);
+  const { cols, rows, noise } = estimateBlockNoise(luma, residual, img.width, img.height, blockSize);
+
+  const valid = Array.from(noise).filter((n) => n >= 0);
+  const medianNoise = median(valid);
+  const logs = valid.map((n) => Math.log(Math.max(n, 0.05)));
+  const logMedian = median(logs);
+  const spread = Math.max(median(logs.map((l) => Math.abs(l - logMedian))) * 1.4826, MIN_LOG_SPREAD);
+
+  const map = new Float32Array(noise.length);
+  noise.forEach((n, i) => {
+    if (n < 0) return;
+    const deviation = Math.abs(Math.log(Math.max(n, 0.05)) - logMedian) / spread;
+    map[i] = logistic((deviation - OUTLIER_DEVIATIONS) * 1.5);
+  });
+
+  const regions = spliceRegions(map, noise, cols, rows, img.width, img.height, medianNoise, blockSize);
+
+  // A foreign region is a minority of the frame; when most blocks disagree
+  // the noise simply varies with content and the map is not localizing anything.
+  const flaggedFraction = map.reduce((s, p) => s + (p >= REGION_THRESHOLD ? 1 : 0), 0) / Math.max(1, valid.length);
+  const localized = flaggedFraction < 0.4 ? 1 : 0.3;
+  const fakeProbability = regions.length > 0 ? clamp01(regions[0].score * localized) : 0;
+
+  return {
+    width: img.width,
+    height: img.height,
+    downscaled: false,
+    blockSize,
+    cols,
+    rows,
+    blockNoise: Array.from(noise, (n) => (n < 0 ? -1 : Math.round(n * 100) / 100)),
+    spliceMap: Array.from(map, (p) => Math.round(p * 100) / 100),
+    medianNoise: Math.round(medianNoise * 100) / 100,
+    regions,
+    noiseConsistency: Math.round((1 - fakeProbability) * 100),
+    fakeProbability: Math.round(fakeProbability * 100) / 100,
+  };
+}
+
+/**
+ * Render the splice map at one pixel per block: transparent where the
+ * noise matches the frame, through orange to opaque red.
+ */
+export function renderSpliceOverlay(map: number[], cols: number, rows: number): RGBAImage {
+  const out = createImage(cols, rows);
+  map.forEach((p, i) => {
+    out.data[i * 4] = 255;
+    out.data[i * 4 + 1] = Math.round(160 * (1 - p));
+    out.data[i * 4 + 2] = 0;
+    out.data[i * 4 + 3] = Math.round(p * 220);
+  });
+  return out;
+}
+
+/**
+ * Analyze an uploaded image in the browser.
+ */
+export async function analyzeNoiseResiduals(file: Blob): Promise<NoiseResidualAnalysis> {
+  const bitmap = await createImageBitmap(file);
+  const longest = Math.max(bitmap.width, bitmap.height);
+  bitmap.close();
+
+  const downscaled = longest > MAX_WORKING_DIMENSION;
+  const img = await decodeImageFile(file, downscaled ? MAX_WORKING_DIMENSION : undefined);
+  const analysis = analyzeNoiseResidual(img);
+  if (analysis.cols === 0 || analysis.rows === 0) return { ...analysis, downscaled };
+  const overlay = renderSpliceOverlay(analysis.spliceMap, analysis.cols, analysis.rows);
+  return { ...analysis, downscaled, overlayDataUrl: encodeImage(overlay, "image/png") };
+}
@@ -0,0 +1,172 @@
+/**
+ * Perceptual Hashing
+ * 64-bit pHash (DCT), dHash (horizontal gradient) and aHash (mean) plus a
+ * per-channel colour histogram, all computed from decoded pixels.
+ */
+
+import { resizeArea, toLuminance, type RGBAImage } from "@/lib/imageProcessing";
+
+export interface ImageHashes {
+  pHash: string;
+  dHash: string;
+  averageHash: string;
+  /** 8 bins each for R, G and B, every channel normalised to sum to 1. */
+  colorHistogramSignature: number[];
+}
+
+const HISTOGRAM_BINS = 8;
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+
+/**
+ * Pack a bit array (MSB first) into a lowercase hex string.
+ */
+function bitsToHex(bits: boolean[]): string {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function grayAt(img: RGBAImage, width: number, height: number): Float32Array {
+  return toLuminance(resizeArea(img, width, height));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Average hash: 8x8 grayscale thumbnail thresholded at its mean.
+ */
+export function averageHash(img: RGBAImage): string {
+  const gray = grayAt(img, HASH_SIZE, HASH_SIZE);
+  const mean = gray.reduce((a, b) => a + b, 0) / gray.length;
+  return bitsToHex(Array.from(gray, (v) => v > mean));
+}
+
+/**
+ * Difference hash: 9x8 thumbnail, one bit per horizontal gradient sign.
+ */
+export function differenceHash(img: RGBAImage): string {
+  const w = HASH_SIZE + 1;
+  const gray = grayAt(img, w, HASH_SIZE);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      bits.push(gray[y * w + x + 1] > gray[y * w + x]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+let cosTable: Float32Array | null = null;
+
+/** cos((2x + 1) * u * pi / 2N) for the 32-point DCT-II, cached. */
+function dctCosines(): Float32Array {
+  if (cosTable) return cosTable;
+  cosTable = new Float32Array(DCT_SIZE * DCT_SIZE);
+  for (let u = 0; u < DCT_SIZE; u++) {
+    for (let x = 0; x < DCT_SIZE; x++) {
+      cosTable[u * DCT_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE));
+    }
+  }
+  return cosTable;
+}
+
+/**
+ * Perceptual hash: 32x32 grayscale, separable 2D DCT-II, the 8x8 lowest
+ * frequencies thresholded at their median.
+ */
+export function perceptualHash(img: RGBAImage): string {
+  const n = DCT_SIZE;
+  const gray = grayAt(img, n, n);
+  const cos = dctCosines();
+
+  // Rows, then columns; only the first HASH_SIZE frequencies are needed
+  const rows = new Float32Array(n * HASH_SIZE);
+  for (let y = 0; y < n; y++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let x = 0; x < n; x++) sum += gray[y * n + x] * cos[u * n + x];
+      rows[y * HASH_SIZE + u] = sum;
+    }
+  }
+
+  const coeffs: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) sum += rows[y * HASH_SIZE + u] * cos[v * n + y];
+      coeffs.push(sum);
+    }
+  }
+
+  const threshold = median(coeffs);
+  return bitsToHex(coeffs.map((c) => c > threshold));
+}
+
+/**
+ * Per-channel colour histogram, 8 bins per channel.
+ */
+export function colorHistogram(img: RGBAImage): number[] {
+  const bins = new Array(HISTOGRAM_BINS * 3).fill(0);
+  const shift = 8 - Math.log2(HISTOGRAM_BINS);
+  let count = 0;
+  for (let p = 0; p < img.data.length; p += 4) {
+    if (img.data[p + 3] === 0) continue;
+    bins[img.data[p] >> shift]++;
+    bins[HISTOGRAM_BINS + (img.data[p + 1] >> shift)]++;
+    bins[2 * HISTOGRAM_BINS + (img.data[p + 2] >> shift)]++;
+    count++;
+  }
+  return bins.map((b) => (count > 0 ? Math.round((b / count) * 1000) / 1000 : 0));
+}
+
+export function hashImage(img: RGBAImage): ImageHashes {
+  return {
+    pHash: perceptualHash(img),
+    dHash: differenceHash(img),
+    averageHash: averageHash(img),
+    colorHistogramSignature: colorHistogram(img),
+  };
+}
+
+/**
+ * Number of differing bits between two equal-length hex hashes.
+ */
+export function hammingDistance(a: string, b: string): number {
+  const len = Math.min(a.length, b.length);
+  let distance = 0;
+  for (let i = 0; i < len; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 1 - normalised Hamming distance.
+ */
+export function hashSimilarity(a: string, b: string): number {
+  const maxBits = Math.min(a.length, b.length) * 4;
+  if (maxBits === 0) return 0;
+  return 1 - hammingDistance(a, b) / maxBits;
+}
+
+/**
+ * Histogram intersection averaged over the three channels, 0-1.
+ */
+export function histogramSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let intersection = 0;
+  for (let i = 0; i < a.length; i++) intersection += Math.min(a[i], b[i]);
+  return intersection / 3;
+}
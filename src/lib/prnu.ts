@@ -0,0 +1,400 @@
+/**
+ * PRNU Sensor Fingerprinting
+ * Every camera sensor has a fixed pattern of pixel sensitivities
+ * (photo-response non-uniformity) that multiplies into each photo it
+ * takes. A reference fingerprint K is estimated from the noise residuals
+ * of known images; a questioned image is attributed to that camera when
+ * its residual correlates with K·I. The correlation is scored as
+ * peak-to-correlation energy (PCE) over all circular shifts of a
+ * centre crop, which tolerates small crops and off-by-one alignment.
+ * Resampling destroys the pattern, so everything runs at full resolution.
+ */
+
+import type { MetadataField } from "@/hooks/useMediaAnalysis";
+import { decodeImageFile, type RGBAImage } from "@/lib/imageProcessing";
+import { fft2d } from "@/lib/spectralAnalysis";
+import { fetchCameraReferences, type CameraReference } from "@/lib/cameraFingerprintIndex";
+
+export type PrnuVerdict = "match" | "inconclusive" | "no_match";
+
+export interface CameraMatch {
+  cameraId: string;
+  label: string;
+  make: string | null;
+  model: string | null;
+  /** Images the reference fingerprint was estimated from. */
+  imageCount: number;
+  /** Peak-to-correlation energy; ≥ PCE_MATCH_THRESHOLD is attributed to the camera. */
+  pce: number;
+  /** Normalized correlation at the peak. */
+  correlation: number;
+  /** Circular shift of the peak in pixels; (0, 0) for an uncropped image. */
+  shift: { dx: number; dy: number };
+  /** Clockwise quarter turn applied to the questioned image, for portrait/landscape mismatches. */
+  rotation: 0 | 90 | 270;
+  verdict: PrnuVerdict;
+}
+
+export interface CameraIdentificationResult {
+  width: number;
+  height: number;
+  cropSize: number;
+  referencesCompared: number;
+  /** Compared references, highest PCE first. */
+  matches: CameraMatch[];
+  /** Verdict of the best reference, or no_reference when none has this resolution. */
+  verdict: PrnuVerdict | "no_reference";
+}
+
+export interface CameraFingerprint {
+  width: number;
+  height: number;
+  cropSize: number;
+  imageCount: number;
+  /** K, cropSize × cropSize, row-major. */
+  fingerprint: Float32Array;
+  skipped: { name: string; reason: string }[];
+}
+
+/** Side of the centre crop the fingerprint covers. */
+export const PRNU_CROP_SIZE = 512;
+/** Conventional PCE threshold for attributing an image to a sensor. */
+export const PCE_MATCH_THRESHOLD = 60;
+/** Above this, chance peaks over a full shift search become unlikely but not negligible. */
+export const PCE_INCONCLUSIVE_THRESHOLD = 40;
+/** Variance of the noise the denoiser removes (σ = 3 gray levels). */
+const DENOISE_VARIANCE = 9;
+/** Pixels at or above this level are clipped and carry no PRNU. */
+const SATURATION_LEVEL = 250;
+/** Half-width of the area around the peak excluded from the PCE energy. */
+const PCE_EXCLUSION_RADIUS = 5;
+
+function mean(values: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return sum / values.length;
+}
+
+// ============================================================
+// RESIDUALS
+// ============================================================
+
+/**
+ * Luminance of the centred `size`×`size` crop, or null when the image is
+ * smaller than that.
+ */
+export function cropLuminance(img: RGBAImage, size: number): Float32Array | null {
+  if (img.width < size || img.height < size) return null;
+  const x0 = Math.floor((img.width - size) / 2);
+  const y0 = Math.floor((img.height - size) / 2);
+  const out = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = ((y0 + y) * img.width + x0 + x) * 4;
+      out[y * size + x] = 0.299 * img.data[p] + 0.587 * img.data[p + 1] + 0.114 * img.data[p + 2];
+    }
+  }
+  return out;
+}
+
+/** Rotate a square array clockwise by `quarterTurns` × 90°. */
+export function rotateSquare(values: Float32Array, size: number, quarterTurns: number): Float32Array {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  if (turns === 0) return values;
+  const out = new Float32Array(values.length);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const [nx, ny] = turns === 1 ? [size - 1 - y, x] : turns === 2 ? [size - 1 - x, size - 1 - y] : [y, size - 1 - x];
+      out[ny * size + nx] = values[y * size + x];
+    }
+  }
+  return out;
+}
+
+/**
+ * Subtract each row's mean, then each column's. Removes the row/column
+ * artifacts shared by all sensors of a model (readout, demosaicing) so
+ * they do not correlate across cameras.
+ */
+export function zeroMeanRowsColumns(values: Float32Array, size: number): Float32Array {
+  const out = Float32Array.from(values);
+  for (let y = 0; y < size; y++) {
+    let sum = 0;
+    for (let x = 0; x < size; x++) sum += out[y * size + x];
+    const m = sum / size;
+    for (let x = 0; x < size; x++) out[y * size + x] -= m;
+  }
+  for (let x = 0; x < size; x++) {
+    let sum = 0;
+    for (let y = 0; y < size; y++) sum += out[y * size + x];
+    const m = sum / size;
+    for (let y = 0; y < size; y++) out[y * size + x] -= m;
+  }
+  return out;
+}
+
+/**
+ * Noise residual W = I − F(I) with a local Wiener denoiser F: in flat
+ * areas the residual is the deviation from the 3×3 mean, in textured
+ * areas it is attenuated in proportion to the local variance so edges
+ * do not leak into the fingerprint.
+ */
+export function extractResidual(luma: Float32Array, size: number): Float32Array {
+  const residual = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let sum = 0;
+      let sumSq = 0;
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy;
+        if (yy < 0 || yy >= size) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx;
+          if (xx < 0 || xx >= size) continue;
+          const v = luma[yy * size + xx];
+          sum += v;
+          sumSq += v * v;
+          n++;
+        }
+      }
+      const m = sum / n;
+      const variance = Math.max(0, sumSq / n - m * m);
+      residual[y * size + x] = ((luma[y * size + x] - m) * DENOISE_VARIANCE) / Math.max(variance, DENOISE_VARIANCE);
+    }
+  }
+  return zeroMeanRowsColumns(residual, size);
+}
+
+/**
+ * Maximum-likelihood fingerprint K = Σ Wᵢ·Iᵢ / Σ Iᵢ² over same-size
+ * luminance crops. Saturated pixels are left out.
+ */
+export function estimateFingerprint(crops: Float32Array[], size: number): Float32Array {
+  const numerator = new Float64Array(size * size);
+  const denominator = new Float64Array(size * size);
+  for (const luma of crops) {
+    const residual = extractResidual(luma, size);
+    for (let i = 0; i < numerator.length; i++) {
+      if (luma[i] >= SATURATION_LEVEL) continue;
+      numerator[i] += residual[i] * luma[i];
+      denominator[i] += luma[i] * luma[i];
+    }
+  }
+  const k = Float32Array.from(numerator, (num, i) => (denominator[i] > 0 ? num / denominator[i] : 0));
+  return zeroMeanRowsColumns(k, size);
+}
+
+// ============================================================
+// CORRELATION
+// ============================================================
+
+/**
+ * Normalized cross-correlation of `a` and `b` over every circular shift,
+ * scored as PCE: the squared peak over the mean squared correlation
+ * outside a small neighbourhood of the peak.
+ */
+export function peakToCorrelationEnergy(
+  a: Float32Array,
+  b: Float32Array,
+  size: number,
+): { pce: number; correlation: number; shift: { dx: number; dy: number } } {
+  const ma = mean(a);
+  const mb = mean(b);
+  const aRe = Float64Array.from(a, (v) => v - ma);
+  const bRe = Float64Array.from(b, (v) => v - mb);
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < aRe.length; i++) {
+    normA += aRe[i] * aRe[i];
+    normB += bRe[i] * bRe[i];
+  }
+  const norm = Math.sqrt(normA * normB);
+  if (norm === 0) return { pce: 0, correlation: 0, shift: { dx: 0, dy: 0 } };
+
+  const aIm = new Float64Array(aRe.length);
+  const bIm = new Float64Array(bRe.length);
+  fft2d(aRe, aIm, size);
+  fft2d(bRe, bIm, size);
+  // A · conj(B), then back: the circular cross-correlation
+  for (let i = 0; i < aRe.length; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aIm[i] * bRe[i] - aRe[i] * bIm[i];
+    aRe[i] = re;
+    aIm[i] = im;
+  }
+  fft2d(aRe, aIm, size, true);
+  const scale = 1 / (aRe.length * norm);
+
+  let peak = 0;
+  for (let i = 1; i < aRe.length; i++) if (aRe[i] > aRe[peak]) peak = i;
+  const px = peak % size;
+  const py = Math.floor(peak / size);
+
+  let energy = 0;
+  let count = 0;
+  for (let y = 0; y < size; y++) {
+    const dy = Math.min(Math.abs(y - py), size - Math.abs(y - py));
+    for (let x = 0; x < size; x++) {
+      const dx = Math.min(Math.abs(x - px), size - Math.abs(x - px));
+      if (dx <= PCE_EXCLUSION_RADIUS && dy <= PCE_EXCLUSION_RADIUS) continue;
+      const c = aRe[y * size + x] * scale;
+      energy += c * c;
+      count++;
+    }
+  }
+  const correlation = aRe[peak] * scale;
+  const wrap = (v: number) => (v > size / 2 ? v - size : v);
+  return {
+    pce: energy > 0 ? (correlation * correlation) / (energy / count) : 0,
+    correlation,
+    shift: { dx: wrap(px), dy: wrap(py) },
+  };
+}
+
+/** Map a PCE score to a verdict. */
+export function verdictFor(pce: number): PrnuVerdict {
+  if (pce >= PCE_MATCH_THRESHOLD) return "match";
+  if (pce >= PCE_INCONCLUSIVE_THRESHOLD) return "inconclusive";
+  return "no_match";
+}
+
+/**
+ * Compare a questioned luminance crop against a fingerprint. The residual
+ * should carry K·I, so that is the template it is correlated with.
+ */
+export function correlateWithFingerprint(luma: Float32Array, fingerprint: Float32Array, size: number) {
+  const residual = extractResidual(luma, size);
+  const expected = Float32Array.from(fingerprint, (k, i) => k * luma[i]);
+  return peakToCorrelationEnergy(residual, expected, size);
+}
+
+/**
+ * Score a decoded image against every reference of its resolution, in
+ * either orientation.
+ */
+export function identifyCamera(img: RGBAImage, references: CameraReference[]): CameraIdentificationResult {
+  const matches: CameraMatch[] = [];
+  for (const ref of references) {
+    const luma = cropLuminance(img, ref.cropSize);
+    if (!luma) continue;
+    const sameOrientation = ref.width === img.width && ref.height === img.height;
+    const rotated = ref.width === img.height && ref.height === img.width;
+    if (!sameOrientation && !rotated) continue;
+
+    // A portrait shot from a landscape sensor may have been rotated either way
+    const tries: CameraMatch["rotation"][] = sameOrientation ? [0] : [90, 270];
+    let best: (ReturnType<typeof correlateWithFingerprint> & { rotation: CameraMatch["rotation"] }) | null = null;
+    for (const rotation of tries) {
+      const score = correlateWithFingerprint(rotateSquare(luma, ref.cropSize, rotation / 90), ref.fingerprint, ref.cropSize);
+      if (!best || score.pce > best.pce) best = { ...score, rotation };
+    }
+    if (!best) continue;
+    matches.push({
+      cameraId: ref.cameraId,
+      label: ref.label,
+      make: ref.make,
+      model: ref.model,
+      imageCount: ref.imageCount,
+      pce: Math.round(best.pce * 10) / 10,
+      correlation: Math.round(best.correlation * 10000) / 10000,
+      shift: best.shift,
+      rotation: best.rotation,
+      verdict: verdictFor(best.pce),
+    });
+  }
+  matches.sort((a, b) => b.pce - a.pce);
+  return {
+    width: img.width,
+    height: img.height,
+    cropSize: references[0]?.cropSize ?? PRNU_CROP_SIZE,
+    referencesCompared: matches.length,
+    matches,
+    verdict: matches[0]?.verdict ?? "no_reference",
+  };
+}
+
+/**
+ * Whether a reference is the camera named in the file's metadata, e.g.
+ * "Canon EOS R5" against make "Canon", model "EOS R5".
+ */
+export function isClaimedCamera(match: Pick<CameraMatch, "label" | "make" | "model">, claimed: string): boolean {
+  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim();
+  const target = normalize(claimed);
+  if (!target) return false;
+  const makeModel = normalize([match.make, match.model].filter(Boolean).join(" "));
+  return makeModel === target || normalize(match.label) === target;
+}
+
+/** The camera named in parsed metadata (EXIF Make + Model), if any. */
+export function claimedCameraOf(fields: MetadataField[] | undefined): string | null {
+  return fields?.find((f) => f.label === "Camera")?.value.trim() || null;
+}
+
+/**
+ * Whether the sensor fingerprint contradicts the claimed camera: the
+ * claimed camera's reference does not match, or another camera's does.
+ */
+export function contradictsClaimedCamera(result: CameraIdentificationResult, claimed: string | null): boolean {
+  if (!claimed) return false;
+  const claimedRef = result.matches.find((m) => isClaimedCamera(m, claimed));
+  const other = result.matches.find((m) => m.verdict === "match" && !isClaimedCamera(m, claimed));
+  return claimedRef?.verdict === "no_match" || !!other;
+}
+
+// ============================================================
+// BROWSER ENTRY POINTS
+// ============================================================
+
+/**
+ * Estimate a reference fingerprint from images known to come from one
+ * camera. Images that do not share the first image's resolution are
+ * skipped; about 20 or more well-lit, low-texture photos give a usable K.
+ */
+export async function buildCameraFingerprint(files: File[], cropSize = PRNU_CROP_SIZE): Promise<CameraFingerprint> {
+  const crops: Float32Array[] = [];
+  const skipped: CameraFingerprint["skipped"] = [];
+  let width = 0;
+  let height = 0;
+  for (const file of files) {
+    try {
+      const img = await decodeImageFile(file);
+      if (crops.length === 0) {
+        width = img.width;
+        height = img.height;
+      }
+      const luma = cropLuminance(img, cropSize);
+      if (!luma) {
+        skipped.push({ name: file.name, reason: `Smaller than ${cropSize}×${cropSize}` });
+      } else if (img.width === width && img.height === height) {
+        crops.push(luma);
+      } else if (img.width === height && img.height === width) {
+        skipped.push({ name: file.name, reason: "Rotated relative to the first image" });
+      } else {
+        skipped.push({ name: file.name, reason: `Resolution ${img.width}×${img.height} differs from ${width}×${height}` });
+      }
+    } catch (err) {
+      skipped.push({ name: file.name, reason: err instanceof Error ? err.message : "Could not decode" });
+    }
+  }
+  if (crops.length === 0) throw new Error("No usable reference images");
+  return { width, height, cropSize, imageCount: crops.length, fingerprint: estimateFingerprint(crops, cropSize), skipped };
+}
+
+/**
+ * Compare an uploaded image against the stored references of its
+ * resolution. Decodes at full size; PRNU does not survive resampling.
+ */
+export async function analyzeSensorFingerprint(file: Blob): Promise<CameraIdentificationResult | null> {
+  const bitmap = await createImageBitmap(file);
+  const { width, height } = bitmap;
+  bitmap.close();
+  if (width < PRNU_CROP_SIZE || height < PRNU_CROP_SIZE) return null;
+
+  // Only pay for the full-size decode when there is something to compare against
+  const references = await fetchCameraReferences(width, height);
+  if (references.length === 0) {
+    return { width, height, cropSize: PRNU_CROP_SIZE, referencesCompared: 0, matches: [], verdict: "no_reference" };
+  }
+  return identifyCamera(await decodeImageFile(file), references);
+}
@@ -1,14 +1,24 @@
 /**
  * Content Provenance Analyzer
- * Generates perceptual hashes and matches against an internal provenance index.
+ * Computes perceptual hashes from the media's pixels and matches them
+ * against the reference-media index (see lib/provenanceIndex).
  */
 
+import { decodeImageFile } from "@/lib/imageProcessing";
+import { hashImage, perceptualHash } from "@/lib/perceptualHash";
+import { fetchReferenceKeyframes, searchProvenanceIndex } from "@/lib/provenanceIndex";
+import { alignFrameSequences, type FrameHash, type SequenceAlignment } from "@/lib/sequenceAlignment";
+import { sampleVideoKeyframes } from "@/lib/videoFrames";
+
 export interface PerceptualHashSignature {
   pHash: string;
   dHash: string;
   averageHash: string;
   colorHistogramSignature: number[];
+  /** Keyframe pHashes on a fixed time grid (videos only). */
   frameHashes?: string[];
+  /** Seconds into the video for each entry of frameHashes. */
+  frameTimestamps?: number[];
 }
 
 export interface ProvenanceMatch {
@@ -17,125 +27,166 @@ export interface ProvenanceMatch {
   matchType: "exact" | "video_frame" | "near_duplicate" | "no_match";
   sourceLabel: string;
   timestamp: string;
+  /** Differing pHash bits against the closest reference frame. */
+  distance?: number;
+  corpus?: string;
+  /** Seconds into the reference video, for video_frame matches. */
+  frameTimestamp?: number | null;
+  mediaType?: "image" | "video";
+}
+
+export interface VideoSequenceMatch {
+  sourceMatch: string;
+  sourceLabel: string;
+  corpus: string;
+  alignment: SequenceAlignment;
 }
 
 export interface ProvenanceResult {
-  hashSignature: PerceptualHashSignature;
+  /** Null when the media has no visual track to hash. */
+  hashSignature: PerceptualHashSignature | null;
   matches: ProvenanceMatch[];
   bestMatch: ProvenanceMatch | null;
-  status: "complete" | "pending" | "no_match";
+  status: "complete" | "pending" | "no_match" | "unsupported";
+  /** Keyframe alignment against the best-matching reference video. */
+  sequenceMatch?: VideoSequenceMatch | null;
+  /** Set when hashes were computed but the reference index could not be searched. */
+  indexError?: string;
 }
 
-interface ProvenanceIndexEntry {
-  id: string;
-  pHash: string;
-  sourceLabel: string;
-  matchType: "video_frame" | "exact" | "near_duplicate";
-  timestamp: string;
-}
+/** Hashing only needs a thumbnail; decoding smaller keeps large photos cheap. */
+const HASH_DECODE_DIMENSION = 512;
 
-// Lightweight internal reference index (simulated known sources)
-const PROVENANCE_INDEX: ProvenanceIndexEntry[] = [
-  { id: "yt_2024_001", pHash: "a3c1f8e2b7d04961", sourceLabel: "YouTube video (2024)", matchType: "video_frame", timestamp: "2024-03-15T08:22:00Z" },
-  { id: "stock_001", pHash: "f1e2d3c4b5a69788", sourceLabel: "Stock photo library", matchType: "exact", timestamp: "2023-11-20T14:10:00Z" },
-  { id: "social_001", pHash: "1a2b3c4d5e6f7081", sourceLabel: "Social media post (2025)", matchType: "near_duplicate", timestamp: "2025-01-08T19:45:00Z" },
-  { id: "news_001", pHash: "e7d6c5b4a3928170", sourceLabel: "News broadcast frame", matchType: "video_frame", timestamp: "2024-07-22T06:30:00Z" },
-  { id: "dataset_001", pHash: "0f1e2d3c4b5a6978", sourceLabel: "Research dataset sample", matchType: "exact", timestamp: "2023-06-01T00:00:00Z" },
-];
+/** Keyframe grid for videos; the middle keyframe supplies the primary hashes. */
+const KEYFRAME_INTERVAL_SECONDS = 1;
+const MAX_KEYFRAMES = 120;
+
+/** Keyframes sent to the index search; the full sequence is aligned afterwards. */
+const MAX_SEARCH_KEYFRAMES = 16;
+
+/** Reference videos fetched for sequence alignment. */
+const MAX_ALIGNMENT_CANDIDATES = 3;
 
 /**
- * Generate a simple perceptual hash from a numeric seed.
- * In production this would use actual image pixel data.
+ * Compute perceptual hashes from the media's own pixels. Images are decoded
+ * directly; videos are hashed per keyframe on a fixed grid. Returns null for
+ * media without a visual track.
  */
-function generateSimpleHash(seed: number): string {
-  let hash = seed;
-  const chars = "0123456789abcdef";
-  let result = "";
-  for (let i = 0; i < 16; i++) {
-    hash = ((hash * 1103515245 + 12345) & 0x7fffffff) >>> 0;
-    result += chars[hash % 16];
+export async function computeHashSignature(file: File): Promise<PerceptualHashSignature | null> {
+  if (file.type.startsWith("image/")) {
+    const image = await decodeImageFile(file, HASH_DECODE_DIMENSION);
+    return hashImage(image);
   }
-  return result;
-}
 
-/**
- * Compute Hamming distance between two hex hash strings.
- */
-function hammingDistance(a: string, b: string): number {
-  const len = Math.min(a.length, b.length);
-  let distance = 0;
-  for (let i = 0; i < len; i++) {
-    const va = parseInt(a[i], 16);
-    const vb = parseInt(b[i], 16);
-    let xor = va ^ vb;
-    while (xor) {
-      distance += xor & 1;
-      xor >>= 1;
-    }
+  if (file.type.startsWith("video/")) {
+    const frames = await sampleVideoKeyframes(file, {
+      intervalSeconds: KEYFRAME_INTERVAL_SECONDS,
+      maxFrames: MAX_KEYFRAMES,
+    });
+    if (frames.length === 0) return null;
+    const primary = hashImage(frames[Math.floor(frames.length / 2)].image);
+    return {
+      ...primary,
+      frameHashes: frames.map((f) => perceptualHash(f.image)),
+      frameTimestamps: frames.map((f) => f.timestamp),
+    };
   }
-  return distance;
+
+  return null;
+}
+
+/** Evenly spread subset of at most `max` items. */
+function spread<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(((i + 0.5) * items.length) / max)]);
 }
 
 /**
- * Compute similarity from Hamming distance.
+ * Match a hash signature against the reference index. A spread of video
+ * keyframes is queried; the index keeps the closest frame per source.
  */
-function hashSimilarity(a: string, b: string): number {
-  const maxBits = Math.min(a.length, b.length) * 4;
-  if (maxBits === 0) return 0;
-  return 1 - hammingDistance(a, b) / maxBits;
+export async function matchSignature(hashSignature: PerceptualHashSignature): Promise<ProvenanceMatch[]> {
+  const keyframes = spread(hashSignature.frameHashes ?? [], MAX_SEARCH_KEYFRAMES);
+  const queries = [...new Set([hashSignature.pHash, ...keyframes])];
+  const hits = await searchProvenanceIndex(queries, { limit: 3 });
+
+  return hits.map((hit) => {
+    const similarity = Math.round((1 - hit.distance / 64) * 100) / 100;
+    return {
+      sourceMatch: hit.sourceId,
+      similarityScore: similarity,
+      // The index's own type; how close the hash is stays in similarityScore and distance
+      matchType: hit.matchType,
+      sourceLabel: hit.sourceLabel,
+      timestamp: hit.publishedAt ?? "",
+      distance: hit.distance,
+      corpus: hit.corpus,
+      frameTimestamp: hit.frameTimestamp,
+      mediaType: hit.mediaType,
+    };
+  });
 }
 
 /**
- * Run provenance analysis against an analysis result.
- * Consumes existing trust score and modality data as seed for hash generation.
+ * Align the upload's keyframes against each candidate reference video and
+ * keep the alignment with the most in-order matches.
  */
-export function analyzeProvenance(
-  trustScore: number,
-  mediaType: "image" | "video" | "audio",
-  frameCount: number
-): ProvenanceResult {
-  // Generate perceptual hashes using trust score as seed (deterministic per analysis)
-  const seed = Math.round(trustScore * 1000) + frameCount;
-  const pHash = generateSimpleHash(seed);
-  const dHash = generateSimpleHash(seed + 7);
-  const averageHash = generateSimpleHash(seed + 13);
-
-  // Generate color histogram signature
-  const colorHistogramSignature: number[] = [];
-  for (let i = 0; i < 8; i++) {
-    colorHistogramSignature.push(((seed * (i + 1) * 31) % 256) / 255);
-  }
+export async function matchVideoSequence(
+  hashSignature: PerceptualHashSignature,
+  matches: ProvenanceMatch[],
+): Promise<VideoSequenceMatch | null> {
+  const { frameHashes, frameTimestamps } = hashSignature;
+  if (!frameHashes?.length) return null;
+
+  const query: FrameHash[] = frameHashes.map((hash, i) => ({ hash, timestamp: frameTimestamps?.[i] ?? i }));
+  const candidates = matches
+    .filter((m) => m.mediaType === "video" && m.corpus)
+    .slice(0, MAX_ALIGNMENT_CANDIDATES);
 
-  // Frame hashes for video
-  const frameHashes: string[] = [];
-  if (mediaType === "video") {
-    for (let i = 0; i < Math.min(frameCount, 8); i++) {
-      frameHashes.push(generateSimpleHash(seed + i * 17));
+  let best: VideoSequenceMatch | null = null;
+  for (const candidate of candidates) {
+    const reference = await fetchReferenceKeyframes(candidate.corpus!, candidate.sourceMatch);
+    const alignment = alignFrameSequences(query, reference);
+    if (!alignment) continue;
+    const better = !best ||
+      alignment.matchedFrames > best.alignment.matchedFrames ||
+      (alignment.matchedFrames === best.alignment.matchedFrames && alignment.meanDistance < best.alignment.meanDistance);
+    if (better) {
+      best = { sourceMatch: candidate.sourceMatch, sourceLabel: candidate.sourceLabel, corpus: candidate.corpus!, alignment };
     }
   }
+  return best;
+}
 
-  const hashSignature: PerceptualHashSignature = {
-    pHash,
-    dHash,
-    averageHash,
-    colorHistogramSignature,
-    frameHashes: frameHashes.length > 0 ? frameHashes : undefined,
-  };
+/**
+ * Run provenance analysis on the uploaded media.
+ */
+export async function analyzeProvenance(file: File): Promise<ProvenanceResult> {
+  const hashSignature = await computeHashSignature(file);
+  if (!hashSignature) {
+    return { hashSignature: null, matches: [], bestMatch: null, status: "unsupported" };
+  }
 
-  // Match against provenance index
-  const matches: ProvenanceMatch[] = PROVENANCE_INDEX.map((entry) => {
-    const similarity = hashSimilarity(pHash, entry.pHash);
+  let matches: ProvenanceMatch[];
+  try {
+    matches = await matchSignature(hashSignature);
+  } catch (err) {
     return {
-      sourceMatch: entry.id,
-      similarityScore: Math.round(similarity * 100) / 100,
-      matchType: (similarity >= 0.9 ? "exact" : similarity >= 0.75 ? entry.matchType : "no_match") as ProvenanceMatch["matchType"],
-      sourceLabel: entry.sourceLabel,
-      timestamp: entry.timestamp,
+      hashSignature,
+      matches: [],
+      bestMatch: null,
+      status: "no_match",
+      indexError: err instanceof Error ? err.message : "Provenance index unavailable",
     };
-  })
-    .filter((m) => m.similarityScore >= 0.3)
-    .sort((a, b) => b.similarityScore - a.similarityScore)
-    .slice(0, 3);
+  }
+
+  let sequenceMatch: VideoSequenceMatch | null = null;
+  let indexError: string | undefined;
+  try {
+    sequenceMatch = await matchVideoSequence(hashSignature, matches);
+  } catch (err) {
+    indexError = err instanceof Error ? err.message : "Reference keyframes unavailable";
+  }
 
   const bestMatch = matches.length > 0 && matches[0].similarityScore >= 0.75 ? matches[0] : null;
 
@@ -143,6 +194,8 @@ export function analyzeProvenance(
     hashSignature,
     matches,
     bestMatch,
-    status: "complete",
+    sequenceMatch,
+    status: bestMatch || sequenceMatch ? "complete" : "no_match",
+    ...(indexError && { indexError }),
   };
 }
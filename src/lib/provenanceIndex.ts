@@ -0,0 +1,87 @@
+/**
+ * Provenance Index Client
+ * Nearest-neighbour search and reference keyframe lookup over the
+ * reference-media index stored in the `provenance_index` table. Search runs server-side via multi-index hashing
+ * (see supabase/migrations/*_provenance_index.sql).
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { FrameHash } from "@/lib/sequenceAlignment";
+
+export interface IndexMatch {
+  id: string;
+  corpus: string;
+  sourceId: string;
+  sourceLabel: string;
+  matchType: "exact" | "video_frame" | "near_duplicate";
+  mediaType: "image" | "video";
+  frameTimestamp: number | null;
+  publishedAt: string | null;
+  /** Hamming distance between the 64-bit pHashes. */
+  distance: number;
+}
+
+/** Matches beyond this many differing bits are not near-duplicates. */
+export const DEFAULT_MAX_DISTANCE = 16;
+
+/**
+ * Convert a 16-digit hex hash to the decimal form of a signed 64-bit
+ * integer, matching Postgres `bigint`. Kept as a string because JSON
+ * numbers lose precision above 2^53.
+ */
+export function hexToInt64(hex: string): string {
+  return BigInt.asIntN(64, BigInt(`0x${hex}`)).toString();
+}
+
+/** Inverse of hexToInt64. */
+export function int64ToHex(value: string): string {
+  return BigInt.asUintN(64, BigInt(value)).toString(16).padStart(16, "0");
+}
+
+/**
+ * Find reference entries within `maxDistance` bits of any of the query
+ * hashes. Returns the closest frame per source, nearest first.
+ */
+export async function searchProvenanceIndex(
+  hashes: string[],
+  { maxDistance = DEFAULT_MAX_DISTANCE, limit = 10 }: { maxDistance?: number; limit?: number } = {},
+): Promise<IndexMatch[]> {
+  const { data, error } = await supabase.rpc("search_provenance_index", {
+    // Sent as decimal strings; PostgREST casts them to bigint[]
+    query_hashes: hashes.map(hexToInt64),
+    max_distance: maxDistance,
+    match_limit: limit,
+  });
+  if (error) throw new Error(`Provenance index search failed: ${error.message}`);
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    corpus: row.corpus,
+    sourceId: row.source_id,
+    sourceLabel: row.source_label,
+    matchType: row.match_type as IndexMatch["matchType"],
+    mediaType: row.media_type as IndexMatch["mediaType"],
+    frameTimestamp: row.frame_timestamp ?? null,
+    publishedAt: row.published_at ?? null,
+    distance: row.distance,
+  }));
+}
+
+/**
+ * All indexed keyframes of one reference video, in order.
+ */
+export async function fetchReferenceKeyframes(corpus: string, sourceId: string): Promise<FrameHash[]> {
+  const { data, error } = await supabase
+    .from("provenance_index")
+    // Cast server-side: bigint hashes do not survive JSON numbers
+    .select("frame_index, frame_timestamp, phash::text")
+    .eq("corpus", corpus)
+    .eq("source_id", sourceId)
+    .order("frame_index");
+  if (error) throw new Error(`Reference keyframe lookup failed: ${error.message}`);
+
+  return (data ?? []).map((row) => ({
+    timestamp: row.frame_timestamp ?? row.frame_index,
+    hash: int64ToHex(String(row.phash)),
+  }));
+}
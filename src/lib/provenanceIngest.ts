@@ -0,0 +1,105 @@
+/**
+ * Provenance Corpus Ingestion
+ * Hashes reference media in the browser and uploads the rows to the
+ * provenance index through the ingest-provenance edge function.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { computeHashSignature } from "@/lib/provenanceAnalyzer";
+import { hexToInt64, type IndexMatch } from "@/lib/provenanceIndex";
+
+export interface ReferenceMedia {
+  file: File;
+  sourceId: string;
+  sourceLabel: string;
+  matchType?: IndexMatch["matchType"];
+  publishedAt?: string;
+}
+
+export interface IngestOptions {
+  corpus: string;
+  /** Shared secret checked by the ingest-provenance function. */
+  ingestKey: string;
+  /** Rows per request. */
+  batchSize?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface IngestReport {
+  inserted: number;
+  skipped: { sourceId: string; reason: string }[];
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+/** Entries per request accepted by ingest-provenance. */
+const MAX_BATCH_SIZE = 1000;
+
+/**
+ * Hash each reference file and upload the rows in batches.
+ * Videos contribute one row per sampled frame.
+ */
+export async function ingestReferenceMedia(items: ReferenceMedia[], options: IngestOptions): Promise<IngestReport> {
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE));
+  const report: IngestReport = { inserted: 0, skipped: [] };
+  let pending: Record<string, unknown>[] = [];
+
+  // A long video adds many rows at once, so batches are cut to size here
+  const flush = async (minimum = batchSize) => {
+    while (pending.length > 0 && pending.length >= minimum) {
+      const entries = pending.slice(0, batchSize);
+      const { data, error } = await supabase.functions.invoke("ingest-provenance", {
+        body: { corpus: options.corpus, entries },
+        headers: { "x-ingest-key": options.ingestKey },
+      });
+      if (error) throw new Error(`Provenance ingest failed: ${error.message}`);
+      report.inserted += data?.inserted ?? 0;
+      pending = pending.slice(batchSize);
+    }
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    try {
+      const signature = await computeHashSignature(item.file);
+      if (!signature) {
+        report.skipped.push({ sourceId: item.sourceId, reason: "No visual track to hash" });
+      } else {
+        const isVideo = item.file.type.startsWith("video/");
+        const base = {
+          sourceId: item.sourceId,
+          sourceLabel: item.sourceLabel,
+          matchType: item.matchType ?? (isVideo ? "video_frame" : "near_duplicate"),
+          mediaType: isVideo ? "video" : "image",
+          publishedAt: item.publishedAt ?? null,
+        };
+        if (isVideo && signature.frameHashes?.length) {
+          signature.frameHashes.forEach((pHash, frameIndex) => {
+            pending.push({
+              ...base,
+              frameIndex,
+              frameTimestamp: signature.frameTimestamps?.[frameIndex] ?? null,
+              pHash: hexToInt64(pHash),
+            });
+          });
+        } else {
+          pending.push({
+            ...base,
+            frameIndex: 0,
+            pHash: hexToInt64(signature.pHash),
+            dHash: hexToInt64(signature.dHash),
+            aHash: hexToInt64(signature.averageHash),
+            colorHistogram: signature.colorHistogramSignature,
+          });
+        }
+      }
+    } catch (err) {
+      report.skipped.push({ sourceId: item.sourceId, reason: err instanceof Error ? err.message : "Hashing failed" });
+    }
+
+    await flush();
+    options.onProgress?.(i + 1, items.length);
+  }
+
+  await flush(1);
+  return report;
+}
@@ -0,0 +1,222 @@
+/**
+ * Robustness Runner
+ * Applies real perturbations (JPEG re-compression, motion blur, Gaussian
+ * noise, downscaling) to an image, re-analyzes each variant and measures
+ * how far the trust score drifts from a clean re-analysis.
+ *
+ * Variants are cut from a working copy decoded at no more than 1536px and
+ * sent inline without preprocessing views, while the primary analysis saw
+ * the full-resolution original and its views. The reference is therefore
+ * the unperturbed working copy sent down the same path, so the measured
+ * drift comes from the perturbation and not from the change of input.
+ */
+
+import type { AnalysisResult, ConfidenceDrift } from "@/hooks/useMediaAnalysis";
+import { withFieldProvenance } from "@/lib/dataProvenance";
+import {
+  addGaussianNoise,
+  decodeImageFile,
+  downscale,
+  encodeImage,
+  motionBlur,
+  type RGBAImage,
+} from "@/lib/imageProcessing";
+
+type DriftCondition = "compressed" | "blurred" | "noise" | "downscaled";
+
+export interface RobustnessVariant {
+  id: string;
+  mode: string;
+  description: string;
+  condition: DriftCondition;
+  render: (img: RGBAImage) => string;
+}
+
+/** Quality for variants whose perturbation is not compression itself. */
+const CARRIER_QUALITY = 0.95;
+const MAX_WORKING_DIMENSION = 1536;
+
+/**
+ * Variants in the order they are run. A budget of N runs the first N, so the
+ * list leads with one variant per drift condition.
+ */
+export const ROBUSTNESS_VARIANTS: RobustnessVariant[] = [
+  {
+    id: "jpeg_70",
+    mode: "JPEG q70",
+    description: "Re-compressed as JPEG at quality 70",
+    condition: "compressed",
+    render: (img) => encodeImage(img, "image/jpeg", 0.7),
+  },
+  {
+    id: "motion_blur",
+    mode: "Motion Blur",
+    description: "9px horizontal motion blur",
+    condition: "blurred",
+    render: (img) => encodeImage(motionBlur(img, 9), "image/jpeg", CARRIER_QUALITY),
+  },
+  {
+    id: "gaussian_noise",
+    mode: "Noise",
+    description: "Gaussian noise, sigma 8",
+    condition: "noise",
+    render: (img) => encodeImage(addGaussianNoise(img, 8), "image/jpeg", CARRIER_QUALITY),
+  },
+  {
+    id: "downscale_50",
+    mode: "Downscaled",
+    description: "Downscaled to 50% with area averaging",
+    condition: "downscaled",
+    render: (img) => encodeImage(downscale(img, 0.5), "image/jpeg", CARRIER_QUALITY),
+  },
+  {
+    id: "jpeg_90",
+    mode: "JPEG q90",
+    description: "Re-compressed as JPEG at quality 90",
+    condition: "compressed",
+    render: (img) => encodeImage(img, "image/jpeg", 0.9),
+  },
+  {
+    id: "jpeg_50",
+    mode: "JPEG q50",
+    description: "Re-compressed as JPEG at quality 50",
+    condition: "compressed",
+    render: (img) => encodeImage(img, "image/jpeg", 0.5),
+  },
+];
+
+export const DEFAULT_ROBUSTNESS_BUDGET = 4;
+
+export interface RobustnessRunOptions {
+  /** Maximum number of variants to re-analyze, besides the clean reference. */
+  budget?: number;
+  /** Re-run the analysis on a variant and return its trust score. */
+  reanalyze: (dataUrl: string) => Promise<number>;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface MeasuredVariant {
+  variant: RobustnessVariant;
+  trustScore: number;
+}
+
+export interface RobustnessRun {
+  /** Trust score of the clean working copy; null when its re-analysis failed. */
+  baseline: number | null;
+  measured: MeasuredVariant[];
+  /** Variant ids whose re-analysis failed; `clean` for the reference. */
+  failed: string[];
+}
+
+/** Id of the unperturbed reference in `RobustnessRun.failed`. */
+export const CLEAN_VARIANT_ID = "clean";
+
+/**
+ * Pass/warning/fail from trust-score drift in points.
+ */
+export function driftStatus(drift: number): "pass" | "warning" | "fail" {
+  if (Math.abs(drift) <= 5) return "pass";
+  if (Math.abs(drift) <= 15) return "warning";
+  return "fail";
+}
+
+/**
+ * Re-analyze the clean working copy, then up to `budget` variants of it,
+ * sequentially to stay within provider rate limits. Without a clean
+ * reference there is nothing to measure drift against, so the variants
+ * are skipped.
+ */
+export async function runRobustnessTests(file: File, options: RobustnessRunOptions): Promise<RobustnessRun> {
+  const budget = Math.max(0, Math.min(options.budget ?? DEFAULT_ROBUSTNESS_BUDGET, ROBUSTNESS_VARIANTS.length));
+  const variants = ROBUSTNESS_VARIANTS.slice(0, budget);
+  const run: RobustnessRun = { baseline: null, measured: [], failed: [] };
+  if (variants.length === 0) return run;
+
+  const working = await decodeImageFile(file, MAX_WORKING_DIMENSION);
+  const total = variants.length + 1;
+
+  try {
+    run.baseline = await options.reanalyze(encodeImage(working, "image/jpeg", CARRIER_QUALITY));
+  } catch (err) {
+    console.warn("Robustness reference failed:", err);
+    run.failed.push(CLEAN_VARIANT_ID);
+    options.onProgress?.(total, total);
+    return run;
+  }
+  options.onProgress?.(1, total);
+
+  for (const variant of variants) {
+    try {
+      const trustScore = await options.reanalyze(variant.render(working));
+      run.measured.push({ variant, trustScore });
+    } catch (err) {
+      console.warn(`Robustness variant ${variant.id} failed:`, err);
+      run.failed.push(variant.id);
+    }
+    options.onProgress?.(1 + run.measured.length + run.failed.length, total);
+  }
+
+  return run;
+}
+
+/**
+ * Replace the model's robustness estimates with the measured drift. The
+ * clean re-analysis is the reference; conditions that were not run are
+ * null. A run without a reference or variants leaves the result as is.
+ */
+export function applyRobustnessRun(result: AnalysisResult, run: RobustnessRun): AnalysisResult {
+  if (run.baseline === null || run.measured.length === 0) return result;
+
+  const clean = run.baseline;
+  const robustnessTests: AnalysisResult["robustnessTests"] = [
+    {
+      mode: "Clean",
+      description: "Working copy re-encoded and re-analyzed like the variants",
+      confidence: clean,
+      drift: 0,
+      status: "pass",
+    },
+    ...run.measured.map(({ variant, trustScore }) => {
+      const drift = trustScore - clean;
+      return {
+        mode: variant.mode,
+        description: variant.description,
+        confidence: trustScore,
+        drift,
+        status: driftStatus(drift),
+      };
+    }),
+  ];
+
+  // Fake probability per condition; the worst variant represents a condition
+  const fakeProbability = (trustScore: number) => (100 - trustScore) / 100;
+  const worst = (condition: DriftCondition): number | null => {
+    const scores = run.measured
+      .filter((m) => m.variant.condition === condition)
+      .map((m) => fakeProbability(m.trustScore));
+    if (scores.length === 0) return null;
+    const cleanProb = fakeProbability(clean);
+    return scores.reduce((a, b) => (Math.abs(b - cleanProb) > Math.abs(a - cleanProb) ? b : a));
+  };
+
+  const cleanScore = fakeProbability(clean);
+  const allScores = [cleanScore, ...run.measured.map((m) => fakeProbability(m.trustScore))];
+  const mean = allScores.reduce((a, b) => a + b, 0) / allScores.length;
+  const variance = allScores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / allScores.length;
+  const stabilityScore = Math.min(1, Math.max(0, 1 - Math.sqrt(variance)));
+
+  const confidenceDrift: ConfidenceDrift = {
+    cleanScore,
+    compressedScore: worst("compressed"),
+    blurredScore: worst("blurred"),
+    noiseScore: worst("noise"),
+    downscaledScore: worst("downscaled"),
+    stabilityScore,
+    stabilityStatus: stabilityScore > 0.85 ? "stable" : "sensitive",
+  };
+
+  return withFieldProvenance(
+    { ...result, robustnessTests, confidenceDrift },
+    { robustnessTests: "measured", confidenceDrift: "measured" }
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Frame-Sequence Alignment
+ * Aligns the keyframe hashes of an uploaded video against a reference
+ * video's keyframes and reports where the footage sits in the reference
+ * and how it was edited (inserted, removed or reordered frames).
+ */
+
+import { hammingDistance } from "@/lib/perceptualHash";
+
+export interface FrameHash {
+  /** Seconds from the start of the video. */
+  timestamp: number;
+  /** 64-bit pHash as 16 hex digits. */
+  hash: string;
+}
+
+export interface AlignedSegment {
+  queryStart: number;
+  queryEnd: number;
+  referenceStart: number;
+  referenceEnd: number;
+  frames: number;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface SequenceAlignment {
+  /** Reference time minus query time (seconds), median over matched frames. */
+  offset: number;
+  /** Fraction of query keyframes matched in order. */
+  coverage: number;
+  matchedFrames: number;
+  queryFrames: number;
+  /** Mean pHash distance over matched frames, in bits. */
+  meanDistance: number;
+  segments: AlignedSegment[];
+  /** Query ranges with no counterpart in the reference. */
+  insertedRanges: TimeRange[];
+  /** Reference ranges inside the matched span missing from the query. */
+  removedRanges: TimeRange[];
+  /** Query timestamps whose content appears in the reference out of order. */
+  reorderedFrames: number[];
+  edits: { inserted: boolean; removed: boolean; reordered: boolean };
+}
+
+export interface AlignmentOptions {
+  /** Frames further apart than this (bits) never match. */
+  matchDistance?: number;
+  /** Shortest unmatched run reported as an insertion or removal. */
+  minEditFrames?: number;
+  /** Fewer in-order matches than this means no alignment. */
+  minMatchedFrames?: number;
+}
+
+interface Pair {
+  query: number;
+  reference: number;
+  distance: number;
+}
+
+/**
+ * Highest-scoring monotone matching (weighted LCS). Each pair scores
+ * `matchDistance + 1 - distance`, so close matches are preferred and
+ * unmatched frames cost nothing.
+ */
+function monotoneAlignment(distances: number[][], matchDistance: number): Pair[] {
+  const n = distances.length;
+  const m = n > 0 ? distances[0].length : 0;
+  const score = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const d = distances[i - 1][j - 1];
+      const diag = d <= matchDistance ? score[i - 1][j - 1] + matchDistance + 1 - d : -Infinity;
+      score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], diag);
+    }
+  }
+
+  const pairs: Pair[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    const d = distances[i - 1][j - 1];
+    if (d <= matchDistance && score[i][j] === score[i - 1][j - 1] + matchDistance + 1 - d) {
+      pairs.push({ query: i - 1, reference: j - 1, distance: d });
+      i--;
+      j--;
+    } else if (score[i][j] === score[i - 1][j]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return pairs.reverse();
+}
+
+/** Group sorted indices into runs of consecutive values. */
+function runs(indices: number[]): number[][] {
+  const out: number[][] = [];
+  for (const idx of indices) {
+    const last = out[out.length - 1];
+    if (last && idx === last[last.length - 1] + 1) last.push(idx);
+    else out.push([idx]);
+  }
+  return out;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * Align a query keyframe sequence against a reference sequence. Both
+ * should be sampled on the same time grid (see sampleVideoKeyframes).
+ * Returns null when too few frames match in order.
+ */
+export function alignFrameSequences(
+  query: FrameHash[],
+  reference: FrameHash[],
+  { matchDistance = 10, minEditFrames = 2, minMatchedFrames = 3 }: AlignmentOptions = {},
+): SequenceAlignment | null {
+  if (query.length === 0 || reference.length === 0) return null;
+
+  const distances = query.map((q) => reference.map((r) => hammingDistance(q.hash, r.hash)));
+  const pairs = monotoneAlignment(distances, matchDistance);
+  if (pairs.length < Math.min(minMatchedFrames, query.length)) return null;
+
+  const alignedQuery = new Set(pairs.map((p) => p.query));
+  const alignedReference = new Set(pairs.map((p) => p.reference));
+
+  // Unaligned query frames: reordered if their best reference match falls
+  // outside the window between their aligned neighbours, else inserted
+  const reordered: number[] = [];
+  const inserted: number[] = [];
+  for (let i = 0; i < query.length; i++) {
+    if (alignedQuery.has(i)) continue;
+    let best = -1;
+    for (let j = 0; j < reference.length; j++) {
+      if (distances[i][j] <= matchDistance && (best < 0 || distances[i][j] < distances[i][best])) best = j;
+    }
+    if (best < 0) {
+      inserted.push(i);
+      continue;
+    }
+    const prev = [...pairs].reverse().find((p) => p.query < i);
+    const next = pairs.find((p) => p.query > i);
+    const lo = prev ? prev.reference : -1;
+    const hi = next ? next.reference : reference.length;
+    if (best < lo || best > hi) {
+      reordered.push(i);
+      alignedReference.add(best);
+    }
+  }
+
+  // Reference frames skipped inside the matched span
+  const firstRef = pairs[0].reference;
+  const lastRef = pairs[pairs.length - 1].reference;
+  const skipped: number[] = [];
+  for (let j = firstRef; j <= lastRef; j++) if (!alignedReference.has(j)) skipped.push(j);
+
+  const insertedRanges = runs(inserted)
+    .filter((r) => r.length >= minEditFrames)
+    .map((r) => ({ start: query[r[0]].timestamp, end: query[r[r.length - 1]].timestamp }));
+  const removedRanges = runs(skipped)
+    .filter((r) => r.length >= minEditFrames)
+    .map((r) => ({ start: reference[r[0]].timestamp, end: reference[r[r.length - 1]].timestamp }));
+
+  // Contiguous segments: consecutive query frames mapping to consecutive
+  // reference frames (one skipped reference frame is tolerated as jitter)
+  const segments: AlignedSegment[] = [];
+  let start = pairs[0];
+  for (let k = 1; k <= pairs.length; k++) {
+    const prev = pairs[k - 1];
+    const cur = pairs[k];
+    const contiguous = cur && cur.query === prev.query + 1 && cur.reference - prev.reference <= 2;
+    if (!contiguous) {
+      segments.push({
+        queryStart: query[start.query].timestamp,
+        queryEnd: query[prev.query].timestamp,
+        referenceStart: reference[start.reference].timestamp,
+        referenceEnd: reference[prev.reference].timestamp,
+        frames: prev.query - start.query + 1,
+      });
+      if (cur) start = cur;
+    }
+  }
+
+  return {
+    offset: round1(median(pairs.map((p) => reference[p.reference].timestamp - query[p.query].timestamp))),
+    coverage: Math.round((pairs.length / query.length) * 100) / 100,
+    matchedFrames: pairs.length,
+    queryFrames: query.length,
+    meanDistance: round1(pairs.reduce((sum, p) => sum + p.distance, 0) / pairs.length),
+    segments,
+    insertedRanges,
+    removedRanges,
+    reorderedFrames: reordered.map((i) => query[i].timestamp),
+    edits: {
+      inserted: insertedRanges.length > 0,
+      removed: removedRanges.length > 0,
+      reordered: reordered.length > 0,
+    },
+  };
+}
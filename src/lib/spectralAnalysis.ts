@@ -0,0 +1,400 @@
+/**
+ * Frequency-Spectrum Analysis
+ * Averages the 2D power spectrum of windowed luminance tiles and looks for
+ * the periodic peaks that generator upsampling layers leave behind (a
+ * checkerboard shows up at the diagonal Nyquist corner, 2× and 4×
+ * upsampling at 1/2 and 1/4 cycles per pixel). JPEG's 8-pixel block grid
+ * produces peaks at every multiple of 1/8 cycle, so those are measured
+ * separately and discounted. The azimuthally averaged spectrum gives the
+ * high-frequency falloff, which generated images often get wrong.
+ */
+
+import { decodeImageFile, encodeImage, toLuminance, createImage, type RGBAImage } from "@/lib/imageProcessing";
+
+export interface SpectralPeak {
+  /** Frequency in cycles per pixel, 0–0.5. */
+  fx: number;
+  fy: number;
+  /** Natural-log power above the surrounding spectrum. */
+  prominence: number;
+  kind: "upsampling" | "checkerboard" | "jpeg_grid";
+}
+
+export interface SpectralSignature {
+  /** Log-log slope of the radial power spectrum; natural photos sit near -2 to -3. */
+  spectralSlope: number;
+  /** Mean log power of the top frequency band above the slope fit; positive is a raised tail. */
+  highFrequencyExcess: number;
+  /** Strongest upsampling peak (1/4 or 1/2 cycle on an axis) above the neighbouring JPEG-grid harmonics. */
+  upsamplingScore: number;
+  /** Diagonal Nyquist peak above the neighbouring JPEG-grid harmonics. */
+  checkerboardScore: number;
+  /** Mean prominence at odd multiples of 1/8 cycle, where only the JPEG grid puts energy. */
+  jpegGridScore: number;
+}
+
+export interface SpectralAnalysis {
+  /** Side of the square FFT tiles, in pixels. */
+  tileSize: number;
+  tilesAnalyzed: number;
+  /** dB relative to the lowest non-DC frequency, one value per integer radius 0…tileSize/2. */
+  radialProfile: number[];
+  signature: SpectralSignature;
+  peaks: SpectralPeak[];
+  /** 0–1; measured input for fingerprint matching and the frequency detector. */
+  frequencyPatternScore: number;
+  /** PNG data URL of the centred log-power spectrum. */
+  spectrumDataUrl?: string;
+}
+
+const TILE_SIZE = 256;
+const MAX_TILES = 16;
+/** Tiles this flat (luma standard deviation) only contribute window leakage. */
+const MIN_TILE_STD = 2;
+const MAX_WORKING_DIMENSION = 4096;
+/** Peaks below this prominence (natural log, ≈ 4.5× power) are not reported. */
+const MIN_PEAK_PROMINENCE = 1.5;
+
+function clamp01(v: number): number {
+  return Math.max(0, Math.min(1, v));
+}
+
+function logistic(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// ============================================================
+// FFT
+// ============================================================
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same
+ * power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const next = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = next;
+      }
+    }
+  }
+}
+
+/**
+ * In-place 2D FFT of a square `size`×`size` array, rows then columns.
+ * Pass `inverse` for the unnormalized inverse transform.
+ */
+export function fft2d(re: Float64Array, im: Float64Array, size: number, inverse = false): void {
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  // The inverse is the forward transform of the conjugate, conjugated
+  const sign = inverse ? -1 : 1;
+  const pass = (stride: number, step: number) => {
+    for (let line = 0; line < size; line++) {
+      for (let i = 0; i < size; i++) {
+        rowRe[i] = re[line * stride + i * step];
+        rowIm[i] = sign * im[line * stride + i * step];
+      }
+      fft(rowRe, rowIm);
+      for (let i = 0; i < size; i++) {
+        re[line * stride + i * step] = rowRe[i];
+        im[line * stride + i * step] = sign * rowIm[i];
+      }
+    }
+  };
+  pass(size, 1);
+  pass(1, size);
+}
+
+/**
+ * Power spectrum |F(u,v)|² of a square tile, unshifted (DC at index 0).
+ */
+export function powerSpectrum(tile: Float64Array, size: number): Float64Array {
+  const re = Float64Array.from(tile);
+  const im = new Float64Array(size * size);
+  fft2d(re, im, size);
+  const power = new Float64Array(size * size);
+  for (let i = 0; i < power.length; i++) power[i] = re[i] * re[i] + im[i] * im[i];
+  return power;
+}
+
+// ============================================================
+// SPECTRUM ACCUMULATION
+// ============================================================
+
+function hannWindow(size: number): Float64Array {
+  return Float64Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1)));
+}
+
+/**
+ * Mean power spectrum over up to MAX_TILES textured tiles spread across
+ * the image. Each tile is mean-subtracted and Hann-windowed.
+ */
+export function averagePowerSpectrum(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  size = TILE_SIZE,
+): { power: Float64Array; tiles: number } | null {
+  const cols = Math.floor(width / size);
+  const rows = Math.floor(height / size);
+  if (cols === 0 || rows === 0) return null;
+
+  const positions: [number, number][] = [];
+  for (let ty = 0; ty < rows; ty++) for (let tx = 0; tx < cols; tx++) positions.push([tx * size, ty * size]);
+  const stride = Math.max(1, positions.length / MAX_TILES);
+  const chosen = Array.from({ length: Math.min(MAX_TILES, positions.length) }, (_, i) => positions[Math.floor(i * stride)]);
+
+  const window = hannWindow(size);
+  const power = new Float64Array(size * size);
+  const tile = new Float64Array(size * size);
+  let tiles = 0;
+  for (const [x0, y0] of chosen) {
+    let sum = 0;
+    let sumSq = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const v = luma[(y0 + y) * width + x0 + x];
+        tile[y * size + x] = v;
+        sum += v;
+        sumSq += v * v;
+      }
+    }
+    const mean = sum / tile.length;
+    if (sumSq / tile.length - mean * mean < MIN_TILE_STD * MIN_TILE_STD) continue;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) tile[y * size + x] = (tile[y * size + x] - mean) * window[x] * window[y];
+    }
+    const p = powerSpectrum(tile, size);
+    for (let i = 0; i < power.length; i++) power[i] += p[i];
+    tiles++;
+  }
+  if (tiles === 0) return null;
+  for (let i = 0; i < power.length; i++) power[i] /= tiles;
+  return { power, tiles };
+}
+
+/** Mean power per integer radius, 0…size/2. */
+export function radialAverage(power: Float64Array, size: number): number[] {
+  const half = size / 2;
+  const sums = new Float64Array(half + 1);
+  const counts = new Float64Array(half + 1);
+  for (let v = 0; v < size; v++) {
+    const fy = v <= half ? v : v - size;
+    for (let u = 0; u < size; u++) {
+      const fx = u <= half ? u : u - size;
+      const r = Math.round(Math.hypot(fx, fy));
+      if (r > half) continue;
+      sums[r] += power[v * size + u];
+      counts[r]++;
+    }
+  }
+  return Array.from(sums, (s, r) => (counts[r] > 0 ? s / counts[r] : 0));
+}
+
+// ============================================================
+// SIGNATURE
+// ============================================================
+
+interface PeakMeasure {
+  /** Strongest log power in the 3x3 neighbourhood. */
+  peak: number;
+  /** `peak` over the median of a ring 3–5 bins out. */
+  prominence: number;
+}
+
+/** Measure a candidate peak at an unshifted frequency index. */
+function measurePeak(logPower: Float64Array, size: number, u: number, v: number): PeakMeasure {
+  const at = (du: number, dv: number) => logPower[((v + dv + size) % size) * size + ((u + du + size) % size)];
+  let peak = -Infinity;
+  for (let dv = -1; dv <= 1; dv++) for (let du = -1; du <= 1; du++) peak = Math.max(peak, at(du, dv));
+  const ring: number[] = [];
+  for (let dv = -5; dv <= 5; dv++) {
+    for (let du = -5; du <= 5; du++) {
+      if (Math.max(Math.abs(du), Math.abs(dv)) >= 3) ring.push(at(du, dv));
+    }
+  }
+  return { peak, prominence: peak - median(ring) };
+}
+
+function fitSlope(profile: number[], from: number, to: number): { slope: number; intercept: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let r = from; r <= to; r++) {
+    if (profile[r] <= 0) continue;
+    xs.push(Math.log(r));
+    ys.push(Math.log(profile[r]));
+  }
+  const n = xs.length;
+  const mx = xs.reduce((s, x) => s + x, 0) / n;
+  const my = ys.reduce((s, y) => s + y, 0) / n;
+  const sxy = xs.reduce((s, x, i) => s + (x - mx) * (ys[i] - my), 0);
+  const sxx = xs.reduce((s, x) => s + (x - mx) ** 2, 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, intercept: my - slope * mx };
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Build the spectral signature and peak list from an averaged power
+ * spectrum.
+ */
+export function analyzeSpectrum(power: Float64Array, size: number, tiles: number): SpectralAnalysis {
+  const logPower = Float64Array.from(power, (p) => Math.log(p + 1e-9));
+  const profile = radialAverage(power, size);
+  const half = size / 2;
+  const eighth = size / 8;
+
+  // Slope over mid frequencies; the tail is judged against its extrapolation
+  const fit = fitSlope(profile, Math.max(2, Math.round(size / 32)), Math.round(half * 0.6));
+  const tail: number[] = [];
+  for (let r = Math.round(half * 0.75); r < half; r++) {
+    if (profile[r] > 0) tail.push(Math.log(profile[r]) - (fit.intercept + fit.slope * Math.log(r)));
+  }
+  const highFrequencyExcess = tail.length > 0 ? tail.reduce((s, v) => s + v, 0) / tail.length : 0;
+
+  // Candidates are the 1/8-cycle lattice; both signs of fx are checked since the spectrum is only symmetric through the origin
+  const grid: PeakMeasure[][] = [];
+  for (let l = 0; l <= 4; l++) {
+    grid.push([]);
+    for (let k = 0; k <= 4; k++) {
+      const a = measurePeak(logPower, size, k * eighth, l * eighth);
+      const b = measurePeak(logPower, size, (size - k * eighth) % size, l * eighth);
+      grid[l].push(k === 0 && l === 0 ? { peak: -Infinity, prominence: 0 } : a.prominence >= b.prominence ? a : b);
+    }
+  }
+  // JPEG blocking also lights the odd eighths next to each candidate, at no lower a power; a generator peak stands above them
+  const excess = (k: number, l: number) => {
+    const at = (a: number, b: number) => grid[b > 4 ? 8 - b : b][a > 4 ? 8 - a : a].peak;
+    const neighbours = Math.max(at(Math.abs(k - 1), l), at(k + 1, l), at(k, Math.abs(l - 1)), at(k, l + 1));
+    return Math.max(0, Math.min(grid[l][k].prominence, grid[l][k].peak - neighbours));
+  };
+
+  const oddEighths = [1, 3].flatMap((k) => [grid[0][k].prominence, grid[k][0].prominence]);
+  const jpegGridScore = Math.max(0, oddEighths.reduce((s, p) => s + p, 0) / oddEighths.length);
+  const upsamplingScore = Math.max(excess(2, 0), excess(0, 2), excess(4, 0), excess(0, 4));
+  const checkerboardScore = excess(4, 4);
+
+  const peaks: SpectralPeak[] = [];
+  for (let l = 0; l <= 4; l++) {
+    for (let k = 0; k <= 4; k++) {
+      if (grid[l][k].prominence < MIN_PEAK_PROMINENCE) continue;
+      const generator = excess(k, l) >= MIN_PEAK_PROMINENCE;
+      peaks.push({
+        fx: k / 8,
+        fy: l / 8,
+        prominence: round2(grid[l][k].prominence),
+        kind: generator && k === 4 && l === 4 ? "checkerboard"
+          : generator && (k === 0 || l === 0) && (k + l) % 2 === 0 ? "upsampling"
+          : "jpeg_grid",
+      });
+    }
+  }
+  peaks.sort((a, b) => b.prominence - a.prominence);
+
+  const peakScore = logistic((Math.max(upsamplingScore, checkerboardScore) - 1.2) * 3);
+  const tailScore = logistic((highFrequencyExcess - 0.8) * 3);
+  const frequencyPatternScore = clamp01(Math.max(peakScore, tailScore * 0.5));
+
+  const base = profile[1] > 0 ? profile[1] : 1;
+  return {
+    tileSize: size,
+    tilesAnalyzed: tiles,
+    radialProfile: profile.map((p) => round2(10 * Math.log10(Math.max(p, 1e-9) / base))),
+    signature: {
+      spectralSlope: round2(fit.slope),
+      highFrequencyExcess: round2(highFrequencyExcess),
+      upsamplingScore: round2(upsamplingScore),
+      checkerboardScore: round2(checkerboardScore),
+      jpegGridScore: round2(jpegGridScore),
+    },
+    peaks,
+    frequencyPatternScore: round2(frequencyPatternScore),
+  };
+}
+
+/**
+ * Render the centred log-power spectrum as a grayscale image, stretched
+ * between the 1st and 99.9th percentile.
+ */
+export function renderSpectrum(power: Float64Array, size: number): RGBAImage {
+  const logPower = Float64Array.from(power, (p) => Math.log(p + 1e-9));
+  const sorted = Float64Array.from(logPower).sort();
+  const lo = sorted[Math.floor(sorted.length * 0.01)];
+  const hi = sorted[Math.floor(sorted.length * 0.999)];
+  const out = createImage(size, size);
+  const half = size / 2;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = logPower[((y + half) % size) * size + ((x + half) % size)];
+      const g = Math.round(clamp01((v - lo) / Math.max(hi - lo, 1e-6)) * 255);
+      const p = (y * size + x) * 4;
+      out.data[p] = out.data[p + 1] = out.data[p + 2] = g;
+      out.data[p + 3] = 255;
+    }
+  }
+  return out;
+}
+
+/**
+ * Run the spectral analysis on a decoded image. Returns null when the
+ * image is smaller than one tile or entirely flat.
+ */
+export function analyzeImageSpectrum(img: RGBAImage, size = TILE_SIZE): (SpectralAnalysis & { power: Float64Array }) | null {
+  const averaged = averagePowerSpectrum(toLuminance(img), img.width, img.height, size);
+  if (!averaged) return null;
+  return { ...analyzeSpectrum(averaged.power, size, averaged.tiles), power: averaged.power };
+}
+
+/**
+ * Analyze an uploaded image in the browser. Large uploads are decoded at
+ * reduced size, which attenuates the highest frequencies.
+ */
+export async function analyzeSpectralFingerprint(file: Blob): Promise<SpectralAnalysis | null> {
+  const bitmap = await createImageBitmap(file);
+  const longest = Math.max(bitmap.width, bitmap.height);
+  bitmap.close();
+
+  const img = await decodeImageFile(file, longest > MAX_WORKING_DIMENSION ? MAX_WORKING_DIMENSION : undefined);
+  // Small images still get one tile, at the largest power of two that fits
+  const fits = Math.min(img.width, img.height);
+  const size = fits >= TILE_SIZE ? TILE_SIZE : 2 ** Math.floor(Math.log2(fits));
+  if (size < 64) return null;
+  const result = analyzeImageSpectrum(img, size);
+  if (!result) return null;
+  const { power, ...analysis } = result;
+  return { ...analysis, spectrumDataUrl: encodeImage(renderSpectrum(power, size), "image/png") };
+}
@@ -0,0 +1,173 @@
+/**
+ * Temporal Segmentation
+ * Turns per-frame scores into contiguous suspected-manipulation segments
+ * with a two-state hidden Markov model (authentic / manipulated). The
+ * forward-backward posterior smooths isolated outliers, so one noisy frame
+ * is not a segment but a run of weak evidence can be.
+ */
+
+import type { FrameData } from "@/hooks/useMediaAnalysis";
+
+export interface TemporalSegment {
+  /** Seconds; halfway to the neighbouring frames outside the segment. */
+  start: number;
+  end: number;
+  firstFrame: number;
+  lastFrame: number;
+  frameCount: number;
+  /** Mean posterior probability of manipulation over the segment's frames. */
+  confidence: number;
+  /** Mean of 1 − confidence/100 over the segment's frames. */
+  meanAnomaly: number;
+  anomalyTypes: NonNullable<FrameData["anomalyType"]>[];
+  severity: "low" | "medium" | "high";
+}
+
+export interface FramePosterior {
+  frameNumber: number;
+  timestamp: number;
+  /** Smoothed probability that the frame lies in a manipulated segment. */
+  probability: number;
+}
+
+export interface TemporalSegmentation {
+  /** In timestamp order. */
+  posterior: FramePosterior[];
+  segments: TemporalSegment[];
+}
+
+// ============================================================
+// MODEL
+// ============================================================
+
+/** Anomaly score (1 − confidence/100) expected in each state... */
+const AUTHENTIC_MEAN = 0.15;
+const MANIPULATED_MEAN = 0.6;
+/** ...and its spread, shared by both states. */
+const EMISSION_SIGMA = 0.2;
+/** A frame flagged with an anomaly type is this much likelier when manipulated. */
+const FLAG_LIKELIHOOD_RATIO = 3;
+const PRIOR_MANIPULATED = 0.2;
+/** Chance of changing state between consecutive frames of one shot... */
+const SWITCH_PROBABILITY = 0.1;
+/** ...and across a scene cut, where inserted footage usually starts or ends. */
+const CUT_SWITCH_PROBABILITY = 0.3;
+const SEGMENT_THRESHOLD = 0.5;
+/** Frames needed before a segment has a start and an end. */
+const MIN_SERIES_FRAMES = 2;
+
+const round = (v: number, digits = 3) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+function gaussian(x: number, mean: number): number {
+  const z = (x - mean) / EMISSION_SIGMA;
+  return Math.exp(-0.5 * z * z);
+}
+
+/**
+ * [authentic, manipulated] likelihoods of one frame. With placeholder
+ * scores only flagged frames are observations; the rest carry no evidence.
+ */
+function emission(frame: FrameData, placeholderScores: boolean): [number, number] {
+  if (placeholderScores && !frame.anomalyType) return [1, 1];
+  const anomaly = 1 - frame.confidence / 100;
+  const flag = frame.anomalyType ? FLAG_LIKELIHOOD_RATIO : 1;
+  return [gaussian(anomaly, AUTHENTIC_MEAN), gaussian(anomaly, MANIPULATED_MEAN) * flag];
+}
+
+/** Scaled forward-backward pass; returns P(manipulated) per frame. */
+function forwardBackward(emissions: [number, number][], switchProbabilities: number[]): number[] {
+  const n = emissions.length;
+  if (n === 0) return [];
+  const transition = (i: number, from: number, to: number) =>
+    from === to ? 1 - switchProbabilities[i] : switchProbabilities[i];
+
+  const alpha: [number, number][] = [];
+  let prev: [number, number] = [1 - PRIOR_MANIPULATED, PRIOR_MANIPULATED];
+  for (let i = 0; i < n; i++) {
+    const next: [number, number] = [0, 0];
+    for (let to = 0; to < 2; to++) {
+      const reach = i === 0 ? prev[to] : prev[0] * transition(i, 0, to) + prev[1] * transition(i, 1, to);
+      next[to] = reach * emissions[i][to];
+    }
+    const sum = next[0] + next[1] || 1;
+    prev = [next[0] / sum, next[1] / sum];
+    alpha.push(prev);
+  }
+
+  const posterior = new Array<number>(n);
+  let beta: [number, number] = [1, 1];
+  for (let i = n - 1; i >= 0; i--) {
+    const p0 = alpha[i][0] * beta[0];
+    const p1 = alpha[i][1] * beta[1];
+    posterior[i] = p1 / (p0 + p1 || 1);
+    if (i === 0) break;
+    const next: [number, number] = [0, 0];
+    for (let from = 0; from < 2; from++) {
+      next[from] =
+        transition(i, from, 0) * emissions[i][0] * beta[0] + transition(i, from, 1) * emissions[i][1] * beta[1];
+    }
+    const sum = next[0] + next[1] || 1;
+    beta = [next[0] / sum, next[1] / sum];
+  }
+  return posterior;
+}
+
+// ============================================================
+// SEGMENTS
+// ============================================================
+
+/**
+ * Segment a frame series. `placeholderScores` marks series whose unflagged
+ * frames are padding rather than measurements (see fieldProvenance).
+ * A single frame has no extent in time, so it yields no segments.
+ */
+export function segmentFrameScores(
+  frames: FrameData[],
+  { placeholderScores = false, duration }: { placeholderScores?: boolean; duration?: number } = {},
+): TemporalSegmentation {
+  const sorted = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+  const n = sorted.length;
+  const switches = sorted.map((f, i) =>
+    i > 0 && f.shot !== undefined && f.shot !== sorted[i - 1].shot ? CUT_SWITCH_PROBABILITY : SWITCH_PROBABILITY
+  );
+  const probabilities = forwardBackward(sorted.map((f) => emission(f, placeholderScores)), switches);
+  // Padding frames take part in the smoothing but never in a segment
+  const inSegment = (i: number) =>
+    probabilities[i] >= SEGMENT_THRESHOLD && (!placeholderScores || !!sorted[i].anomalyType);
+
+  // Frame i covers the span between the midpoints to its neighbours
+  const boundary = (i: number) => {
+    if (i === 0) return Math.max(0, sorted[0].timestamp - (sorted[1].timestamp - sorted[0].timestamp) / 2);
+    if (i === n) {
+      const end = sorted[n - 1].timestamp + (sorted[n - 1].timestamp - sorted[n - 2].timestamp) / 2;
+      return duration ? Math.min(duration, end) : end;
+    }
+    return (sorted[i - 1].timestamp + sorted[i].timestamp) / 2;
+  };
+
+  const segments: TemporalSegment[] = [];
+  for (let i = 0; n >= MIN_SERIES_FRAMES && i < n; i++) {
+    if (!inSegment(i)) continue;
+    let j = i;
+    while (j + 1 < n && inSegment(j + 1)) j++;
+    const run = sorted.slice(i, j + 1);
+    const confidence = probabilities.slice(i, j + 1).reduce((s, p) => s + p, 0) / run.length;
+    segments.push({
+      start: round(boundary(i), 2),
+      end: round(boundary(j + 1), 2),
+      firstFrame: run[0].frameNumber,
+      lastFrame: run[run.length - 1].frameNumber,
+      frameCount: run.length,
+      confidence: round(confidence),
+      meanAnomaly: round(run.reduce((s, f) => s + 1 - f.confidence / 100, 0) / run.length),
+      anomalyTypes: [...new Set(run.flatMap((f) => (f.anomalyType ? [f.anomalyType] : [])))],
+      severity: confidence >= 0.85 ? "high" : confidence >= 0.65 ? "medium" : "low",
+    });
+    i = j;
+  }
+
+  return {
+    posterior: sorted.map((f, i) => ({ frameNumber: f.frameNumber, timestamp: f.timestamp, probability: round(probabilities[i]) })),
+    segments,
+  };
+}
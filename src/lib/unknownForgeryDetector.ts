@@ -36,7 +36,7 @@ const REAL_MEDIA_CENTROID = [0.15, 0.25, 0.12, 0.08, 0.18];
 
 export function detectUnknownForgery(result: AnalysisResult): ForgeryDiscoveryResult {
   const sig = extractArtifactSignature(result);
-  const fp = matchFingerprint(sig);
+  const fp = matchFingerprint(sig, result.generatorMetadata);
 
   // Build embedding from existing artifact signature
   const embeddingVector = [
@@ -0,0 +1,311 @@
+/**
+ * Video Frame Sampling
+ * Decodes frames from a video upload in the browser via a <video> element,
+ * finds scene cuts from luma histogram jumps and picks the keyframes that
+ * are scored one by one on a contact sheet.
+ */
+
+import { createImage, encodeImage, resizeArea, type RGBAImage } from "@/lib/imageProcessing";
+
+export interface SampledFrame {
+  /** Seconds from the start of the video. */
+  timestamp: number;
+  image: RGBAImage;
+}
+
+/** Give up on a seek that never completes (corrupt or unsupported stream). */
+const SEEK_TIMEOUT_MS = 5000;
+
+function waitForEvent(target: HTMLMediaElement, event: string, timeoutMs = SEEK_TIMEOUT_MS): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for video ${event}`));
+    }, timeoutMs);
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Video could not be decoded"));
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener("error", onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener("error", onError);
+  });
+}
+
+/**
+ * Decode one frame per timestamp, scaled so the longer side is at most
+ * `maxDimension`. `timestampsFor` receives the duration (0 when unknown).
+ */
+async function decodeFramesAt(
+  file: Blob,
+  timestampsFor: (duration: number) => number[],
+  maxDimension: number,
+): Promise<SampledFrame[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  video.playsInline = true;
+
+  try {
+    const loaded = waitForEvent(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const scale = Math.min(1, maxDimension / Math.max(video.videoWidth, video.videoHeight));
+    const width = Math.max(1, Math.round(video.videoWidth * scale));
+    const height = Math.max(1, Math.round(video.videoHeight * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    const timestamps = duration > 0 ? timestampsFor(duration) : [0];
+    const frames: SampledFrame[] = [];
+    for (const timestamp of timestamps) {
+      if (Math.abs(video.currentTime - timestamp) > 1e-3) {
+        const seeked = waitForEvent(video, "seeked");
+        video.currentTime = timestamp;
+        await seeked;
+      }
+      ctx.drawImage(video, 0, 0, width, height);
+      frames.push({ timestamp, image: { width, height, data: ctx.getImageData(0, 0, width, height).data } });
+    }
+    return frames;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Sample `count` frames at evenly spaced timestamps (segment midpoints).
+ * Frames are scaled so their longer side is at most `maxDimension`.
+ */
+export function sampleVideoFrames(file: Blob, count: number, maxDimension = 256): Promise<SampledFrame[]> {
+  return decodeFramesAt(
+    file,
+    (duration) => Array.from({ length: count }, (_, i) => (duration * (i + 0.5)) / count),
+    maxDimension,
+  );
+}
+
+/**
+ * Sample keyframes on a fixed time grid (interval midpoints) so two copies
+ * of the same footage yield comparable sequences. Long videos widen the
+ * interval to stay within `maxFrames`.
+ */
+export function sampleVideoKeyframes(
+  file: Blob,
+  { intervalSeconds = 1, maxFrames = 120, maxDimension = 256 }: { intervalSeconds?: number; maxFrames?: number; maxDimension?: number } = {},
+): Promise<SampledFrame[]> {
+  return decodeFramesAt(
+    file,
+    (duration) => {
+      const interval = Math.max(intervalSeconds, duration / maxFrames);
+      const count = Math.max(1, Math.floor(duration / interval));
+      return Array.from({ length: count }, (_, i) => (i + 0.5) * interval);
+    },
+    maxDimension,
+  );
+}
+
+/**
+ * Sample densely from the start of the video: `framesPerSecond` frames for
+ * at most `seconds`, for signals that need the native motion rate.
+ */
+export function sampleVideoWindow(
+  file: Blob,
+  { seconds, framesPerSecond, maxDimension = 160 }: { seconds: number; framesPerSecond: number; maxDimension?: number },
+): Promise<SampledFrame[]> {
+  return decodeFramesAt(
+    file,
+    (duration) => {
+      const count = Math.max(1, Math.floor(Math.min(duration, seconds) * framesPerSecond));
+      return Array.from({ length: count }, (_, i) => i / framesPerSecond);
+    },
+    maxDimension,
+  );
+}
+
+// ============================================================
+// SCENE CUTS & KEYFRAMES
+// ============================================================
+
+export interface Keyframe extends SampledFrame {
+  /** 0-based index of the shot the frame belongs to. */
+  shot: number;
+}
+
+export interface VideoKeyframes {
+  /** Seconds; 0 when the container does not report it. */
+  duration: number;
+  /** Seconds between scanned frames. */
+  scanInterval: number;
+  framesScanned: number;
+  /** Timestamps of the first scanned frame of every shot after the first. */
+  cuts: number[];
+  keyframes: Keyframe[];
+}
+
+const HISTOGRAM_BINS = 32;
+/** Histogram distance (0–1) above which consecutive frames are a cut... */
+const CUT_THRESHOLD = 0.35;
+/** ...as long as it also stands out from the footage's usual motion. */
+const CUT_MEDIAN_FACTOR = 4;
+/** Scanning only needs coarse histograms. */
+const SCAN_DIMENSION = 96;
+
+/** Normalised luma histogram. */
+export function lumaHistogram(img: RGBAImage, bins = HISTOGRAM_BINS): Float32Array {
+  const hist = new Float32Array(bins);
+  const n = img.width * img.height;
+  for (let p = 0; p < n; p++) {
+    const luma = 0.299 * img.data[p * 4] + 0.587 * img.data[p * 4 + 1] + 0.114 * img.data[p * 4 + 2];
+    hist[Math.min(bins - 1, Math.floor((luma * bins) / 256))]++;
+  }
+  for (let b = 0; b < bins; b++) hist[b] /= Math.max(1, n);
+  return hist;
+}
+
+/** Half the L1 distance between two normalised histograms: 0 identical, 1 disjoint. */
+export function histogramDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / 2;
+}
+
+/**
+ * Indices of scanned frames that start a new shot: the histogram jumps by
+ * more than CUT_THRESHOLD and by more than CUT_MEDIAN_FACTOR times the
+ * median jump, so steady motion and slow fades are not cuts.
+ */
+export function detectSceneCuts(histograms: Float32Array[]): number[] {
+  const distances = histograms.slice(1).map((h, i) => histogramDistance(histograms[i], h));
+  if (distances.length === 0) return [];
+  const sorted = [...distances].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const threshold = Math.max(CUT_THRESHOLD, CUT_MEDIAN_FACTOR * median);
+  return distances.flatMap((d, i) => (d > threshold ? [i + 1] : []));
+}
+
+/**
+ * Choose up to `maxKeyframes` of `count` scanned frames: the first frame of
+ * every shot, then evenly spaced frames across the whole video. Returns
+ * sorted indices.
+ */
+export function selectKeyframes(count: number, cuts: number[], maxKeyframes: number): number[] {
+  if (count === 0 || maxKeyframes <= 0) return [];
+  let chosen = [0, ...cuts];
+  if (chosen.length > maxKeyframes) {
+    chosen = Array.from({ length: maxKeyframes }, (_, i) => chosen[Math.floor((i * chosen.length) / maxKeyframes)]);
+  }
+  const target = Math.min(count, maxKeyframes);
+  const picked = new Set(chosen);
+  // Grid positions can land on shot starts; denser grids fill the gaps
+  for (let grid = target - picked.size; picked.size < target; grid++) {
+    for (let i = 0; i < grid && picked.size < target; i++) picked.add(Math.floor(((i + 0.5) * count) / grid));
+  }
+  return [...picked].sort((a, b) => a - b);
+}
+
+/**
+ * Tile frames left to right, top to bottom with a dark gutter. Every cell
+ * takes the size of the first frame.
+ */
+export function buildContactSheet(frames: RGBAImage[], columns = Math.ceil(Math.sqrt(frames.length)), gutter = 4): RGBAImage {
+  const cellW = frames[0]?.width ?? 1;
+  const cellH = frames[0]?.height ?? 1;
+  const rows = Math.max(1, Math.ceil(frames.length / columns));
+  const sheet = createImage(columns * cellW + (columns + 1) * gutter, rows * cellH + (rows + 1) * gutter);
+  for (let p = 0; p < sheet.data.length; p += 4) {
+    sheet.data[p] = sheet.data[p + 1] = sheet.data[p + 2] = 16;
+    sheet.data[p + 3] = 255;
+  }
+  frames.forEach((frame, i) => {
+    const cell = frame.width === cellW && frame.height === cellH ? frame : resizeArea(frame, cellW, cellH);
+    const x0 = gutter + (i % columns) * (cellW + gutter);
+    const y0 = gutter + Math.floor(i / columns) * (cellH + gutter);
+    for (let y = 0; y < cellH; y++) {
+      const row = cell.data.subarray(y * cellW * 4, (y + 1) * cellW * 4);
+      sheet.data.set(row, ((y0 + y) * sheet.width + x0) * 4);
+    }
+  });
+  return sheet;
+}
+
+/**
+ * Scan the video at `framesPerSecond` (widened for long videos to stay
+ * within `maxScanFrames`), find the scene cuts and decode the selected
+ * keyframes at `maxDimension`.
+ */
+export async function extractVideoKeyframes(
+  file: Blob,
+  {
+    framesPerSecond = 2,
+    maxScanFrames = 240,
+    maxKeyframes = 16,
+    maxDimension = 256,
+  }: { framesPerSecond?: number; maxScanFrames?: number; maxKeyframes?: number; maxDimension?: number } = {},
+): Promise<VideoKeyframes> {
+  let duration = 0;
+  let scanInterval = 1 / framesPerSecond;
+  const scanned = await decodeFramesAt(
+    file,
+    (d) => {
+      duration = d;
+      scanInterval = Math.max(1 / framesPerSecond, d / maxScanFrames);
+      const count = Math.max(1, Math.floor(d / scanInterval));
+      return Array.from({ length: count }, (_, i) => (i + 0.5) * scanInterval);
+    },
+    SCAN_DIMENSION,
+  );
+
+  const cuts = detectSceneCuts(scanned.map((f) => lumaHistogram(f.image)));
+  const indices = selectKeyframes(scanned.length, cuts, maxKeyframes);
+  const shotOf = (index: number) => cuts.filter((c) => c <= index).length;
+  const decoded = await decodeFramesAt(file, () => indices.map((i) => scanned[i].timestamp), maxDimension);
+
+  return {
+    duration,
+    scanInterval,
+    framesScanned: scanned.length,
+    cuts: cuts.map((i) => scanned[i].timestamp),
+    keyframes: decoded.map((frame, k) => ({ ...frame, shot: shotOf(indices[k]) })),
+  };
+}
+
+/** What the analysis keeps of the keyframes: timings plus the sheet sent for scoring. */
+export interface KeyframeSampling {
+  duration: number;
+  scanInterval: number;
+  framesScanned: number;
+  cuts: number[];
+  keyframes: { timestamp: number; shot: number }[];
+  /** JPEG contact sheet of the keyframes, cells numbered 1… in reading order. Not kept on stored jobs. */
+  contactSheetDataUrl?: string;
+}
+
+export function summarizeKeyframes(video: VideoKeyframes): KeyframeSampling {
+  const round = (t: number) => Math.round(t * 1000) / 1000;
+  return {
+    duration: round(video.duration),
+    scanInterval: round(video.scanInterval),
+    framesScanned: video.framesScanned,
+    cuts: video.cuts.map(round),
+    keyframes: video.keyframes.map((k) => ({ timestamp: round(k.timestamp), shot: k.shot })),
+    contactSheetDataUrl: encodeImage(buildContactSheet(video.keyframes.map((k) => k.image)), "image/jpeg", 0.85),
+  };
+}
@@ -0,0 +1,376 @@
+/**
+ * X.509 Certificates
+ * DER parsing of the certificate fields signature validation needs
+ * (names, validity, public key, extensions) and WebCrypto verification
+ * of certificate and COSE signatures.
+ */
+
+export type SignatureScheme = "ECDSA" | "RSASSA-PKCS1-v1_5" | "RSA-PSS" | "Ed25519";
+export type DigestName = "SHA-256" | "SHA-384" | "SHA-512";
+
+export interface SignatureAlgorithm {
+  scheme: SignatureScheme;
+  /** Null for Ed25519, which hashes internally. */
+  hash: DigestName | null;
+}
+
+export interface DistinguishedName {
+  commonName?: string;
+  organization?: string;
+  organizationalUnit?: string;
+  country?: string;
+  /** RFC 4514-style rendering of every attribute. */
+  text: string;
+}
+
+export interface Certificate {
+  der: Uint8Array;
+  /** TBSCertificate bytes, as signed by the issuer. */
+  tbs: Uint8Array;
+  serialNumber: string;
+  subject: DistinguishedName;
+  issuer: DistinguishedName;
+  notBefore: Date;
+  notAfter: Date;
+  publicKey: {
+    type: "EC" | "RSA" | "Ed25519" | "unknown";
+    curve: "P-256" | "P-384" | "P-521" | null;
+    spki: Uint8Array;
+  };
+  signatureAlgorithm: SignatureAlgorithm | null;
+  signature: Uint8Array;
+  isCA: boolean;
+  keyUsage: { digitalSignature: boolean; keyCertSign: boolean } | null;
+  /** Extended key usage OIDs, if the extension is present. */
+  extendedKeyUsage: string[] | null;
+}
+
+// ============================================================
+// DER READING
+// ============================================================
+
+interface Tlv {
+  tag: number;
+  /** Offset of the tag byte. */
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function readTlv(bytes: Uint8Array, pos: number, limit = bytes.length): Tlv {
+  if (pos + 2 > limit) throw new Error("DER: truncated header");
+  const tag = bytes[pos];
+  let length = bytes[pos + 1];
+  let contentStart = pos + 2;
+  if (length & 0x80) {
+    const n = length & 0x7f;
+    if (n === 0 || n > 4 || contentStart + n > limit) throw new Error("DER: bad length");
+    length = 0;
+    for (let i = 0; i < n; i++) length = length * 256 + bytes[contentStart + i];
+    contentStart += n;
+  }
+  const end = contentStart + length;
+  if (end > limit) throw new Error("DER: truncated content");
+  return { tag, start: pos, contentStart, end };
+}
+
+function childrenOf(bytes: Uint8Array, parent: Tlv): Tlv[] {
+  const out: Tlv[] = [];
+  let pos = parent.contentStart;
+  while (pos < parent.end) {
+    const child = readTlv(bytes, pos, parent.end);
+    out.push(child);
+    pos = child.end;
+  }
+  return out;
+}
+
+const content = (bytes: Uint8Array, t: Tlv) => bytes.subarray(t.contentStart, t.end);
+const whole = (bytes: Uint8Array, t: Tlv) => bytes.subarray(t.start, t.end);
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function readOid(bytes: Uint8Array): string {
+  if (bytes.length === 0) return "";
+  const arc = bytes[0] < 80 ? Math.floor(bytes[0] / 40) : 2;
+  const parts = [arc, bytes[0] - arc * 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+function readTime(bytes: Uint8Array, t: Tlv): Date {
+  const text = new TextDecoder("latin1").decode(content(bytes, t));
+  const m = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/.exec(text);
+  if (!m) throw new Error(`DER: unsupported time "${text}"`);
+  let year = Number(m[1]);
+  if (m[1].length === 2) year += year < 50 ? 2000 : 1900;
+  return new Date(Date.UTC(year, Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]), Number(m[6] ?? 0)));
+}
+
+const NAME_ATTRIBUTES: Record<string, [key: keyof DistinguishedName | null, short: string]> = {
+  "2.5.4.3": ["commonName", "CN"],
+  "2.5.4.10": ["organization", "O"],
+  "2.5.4.11": ["organizationalUnit", "OU"],
+  "2.5.4.6": ["country", "C"],
+  "2.5.4.7": [null, "L"],
+  "2.5.4.8": [null, "ST"],
+  "1.2.840.113549.1.9.1": [null, "E"],
+};
+
+function decodeString(bytes: Uint8Array, tag: number): string {
+  if (tag === 0x1e) {
+    // BMPString is UTF-16BE
+    let s = "";
+    for (let i = 0; i + 1 < bytes.length; i += 2) s += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return s;
+  }
+  return new TextDecoder(tag === 0x0c ? "utf-8" : "latin1").decode(bytes);
+}
+
+function readName(bytes: Uint8Array, name: Tlv): DistinguishedName {
+  const out: DistinguishedName = { text: "" };
+  const parts: string[] = [];
+  for (const rdn of childrenOf(bytes, name)) {
+    for (const attr of childrenOf(bytes, rdn)) {
+      const [oidTlv, valueTlv] = childrenOf(bytes, attr);
+      if (!oidTlv || !valueTlv) continue;
+      const oid = readOid(content(bytes, oidTlv));
+      const value = decodeString(content(bytes, valueTlv), valueTlv.tag);
+      const [key, short] = NAME_ATTRIBUTES[oid] ?? [null, oid];
+      if (key && key !== "text") out[key] = value;
+      parts.push(`${short}=${value}`);
+    }
+  }
+  out.text = parts.reverse().join(", ");
+  return out;
+}
+
+// ============================================================
+// ALGORITHMS
+// ============================================================
+
+const HASH_OIDS: Record<string, DigestName> = {
+  "2.16.840.1.101.3.4.2.1": "SHA-256",
+  "2.16.840.1.101.3.4.2.2": "SHA-384",
+  "2.16.840.1.101.3.4.2.3": "SHA-512",
+};
+
+const SIGNATURE_OIDS: Record<string, SignatureAlgorithm> = {
+  "1.2.840.10045.4.3.2": { scheme: "ECDSA", hash: "SHA-256" },
+  "1.2.840.10045.4.3.3": { scheme: "ECDSA", hash: "SHA-384" },
+  "1.2.840.10045.4.3.4": { scheme: "ECDSA", hash: "SHA-512" },
+  "1.2.840.113549.1.1.11": { scheme: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+  "1.2.840.113549.1.1.12": { scheme: "RSASSA-PKCS1-v1_5", hash: "SHA-384" },
+  "1.2.840.113549.1.1.13": { scheme: "RSASSA-PKCS1-v1_5", hash: "SHA-512" },
+  "1.3.101.112": { scheme: "Ed25519", hash: null },
+};
+
+const RSA_PSS_OID = "1.2.840.113549.1.1.10";
+const RSA_OID = "1.2.840.113549.1.1.1";
+const EC_OID = "1.2.840.10045.2.1";
+
+const CURVE_OIDS: Record<string, "P-256" | "P-384" | "P-521"> = {
+  "1.2.840.10045.3.1.7": "P-256",
+  "1.3.132.0.34": "P-384",
+  "1.3.132.0.35": "P-521",
+};
+
+const CURVE_BYTES = { "P-256": 32, "P-384": 48, "P-521": 66 };
+const DIGEST_BYTES: Record<DigestName, number> = { "SHA-256": 32, "SHA-384": 48, "SHA-512": 64 };
+
+function readSignatureAlgorithm(bytes: Uint8Array, algId: Tlv): SignatureAlgorithm | null {
+  const [oidTlv, params] = childrenOf(bytes, algId);
+  const oid = readOid(content(bytes, oidTlv));
+  if (oid !== RSA_PSS_OID) return SIGNATURE_OIDS[oid] ?? null;
+
+  // RSASSA-PSS-params: [0] hashAlgorithm, defaulting to SHA-1 (unsupported)
+  const hashParam = params && params.tag === 0x30 ? childrenOf(bytes, params).find((p) => p.tag === 0xa0) : undefined;
+  if (!hashParam) return null;
+  const hashAlg = childrenOf(bytes, childrenOf(bytes, hashParam)[0])[0];
+  const hash = HASH_OIDS[readOid(content(bytes, hashAlg))];
+  return hash ? { scheme: "RSA-PSS", hash } : null;
+}
+
+function derLength(n: number): number[] {
+  if (n < 0x80) return [n];
+  const out: number[] = [];
+  for (let v = n; v > 0; v = Math.floor(v / 256)) out.unshift(v & 0xff);
+  return [0x80 | out.length, ...out];
+}
+
+const derWrap = (tag: number, body: Uint8Array) => new Uint8Array([tag, ...derLength(body.length), ...body]);
+
+/**
+ * WebCrypto only imports RSA keys labelled rsaEncryption; keys published
+ * under the id-RSASSA-PSS OID are relabelled with the same key material.
+ */
+function rsaEncryptionSpki(bytes: Uint8Array, keyBits: Tlv): Uint8Array {
+  const algId = new Uint8Array([0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00]);
+  const bits = whole(bytes, keyBits);
+  const body = new Uint8Array(algId.length + bits.length);
+  body.set(algId);
+  body.set(bits, algId.length);
+  return derWrap(0x30, body);
+}
+
+function readPublicKey(bytes: Uint8Array, spki: Tlv): Certificate["publicKey"] {
+  const [algId, keyBits] = childrenOf(bytes, spki);
+  const [oidTlv, params] = childrenOf(bytes, algId);
+  const oid = readOid(content(bytes, oidTlv));
+  if (oid === EC_OID) {
+    const curve = params?.tag === 0x06 ? CURVE_OIDS[readOid(content(bytes, params))] ?? null : null;
+    return { type: "EC", curve, spki: whole(bytes, spki).slice() };
+  }
+  if (oid === RSA_OID) return { type: "RSA", curve: null, spki: whole(bytes, spki).slice() };
+  if (oid === RSA_PSS_OID) return { type: "RSA", curve: null, spki: rsaEncryptionSpki(bytes, keyBits) };
+  if (oid === "1.3.101.112") return { type: "Ed25519", curve: null, spki: whole(bytes, spki).slice() };
+  return { type: "unknown", curve: null, spki: whole(bytes, spki).slice() };
+}
+
+// ============================================================
+// CERTIFICATES
+// ============================================================
+
+function readExtensions(bytes: Uint8Array, container: Tlv, cert: Certificate) {
+  const list = childrenOf(bytes, container)[0];
+  if (!list) return;
+  for (const ext of childrenOf(bytes, list)) {
+    const parts = childrenOf(bytes, ext);
+    const oid = readOid(content(bytes, parts[0]));
+    const valueTlv = parts[parts.length - 1];
+    const inner = readTlv(bytes, valueTlv.contentStart, valueTlv.end);
+
+    if (oid === "2.5.29.19") {
+      const first = childrenOf(bytes, inner)[0];
+      cert.isCA = first?.tag === 0x01 && bytes[first.contentStart] !== 0;
+    } else if (oid === "2.5.29.15") {
+      const bits = content(bytes, inner);
+      const flags = bits[1] ?? 0;
+      cert.keyUsage = { digitalSignature: (flags & 0x80) !== 0, keyCertSign: (flags & 0x04) !== 0 };
+    } else if (oid === "2.5.29.37") {
+      cert.extendedKeyUsage = childrenOf(bytes, inner).map((o) => readOid(content(bytes, o)));
+    }
+  }
+}
+
+/** Parse a DER-encoded certificate. Throws on malformed input. */
+export function parseCertificate(der: Uint8Array): Certificate {
+  const root = readTlv(der, 0);
+  const [tbsTlv, sigAlgTlv, sigTlv] = childrenOf(der, root);
+  if (!tbsTlv || !sigAlgTlv || !sigTlv || sigTlv.tag !== 0x03) throw new Error("X.509: not a certificate");
+
+  const fields = childrenOf(der, tbsTlv);
+  const offset = fields[0]?.tag === 0xa0 ? 1 : 0;
+  const [serial, , issuer, validity, subject, spki] = fields.slice(offset);
+  if (!spki) throw new Error("X.509: truncated TBSCertificate");
+  const [notBefore, notAfter] = childrenOf(der, validity);
+
+  const cert: Certificate = {
+    der,
+    tbs: whole(der, tbsTlv),
+    serialNumber: toHex(content(der, serial)),
+    subject: readName(der, subject),
+    issuer: readName(der, issuer),
+    notBefore: readTime(der, notBefore),
+    notAfter: readTime(der, notAfter),
+    publicKey: readPublicKey(der, spki),
+    signatureAlgorithm: readSignatureAlgorithm(der, sigAlgTlv),
+    // BIT STRING: skip the unused-bits byte
+    signature: content(der, sigTlv).subarray(1),
+    isCA: false,
+    keyUsage: null,
+    extendedKeyUsage: null,
+  };
+  const extensions = fields.slice(offset + 6).find((f) => f.tag === 0xa3);
+  if (extensions) readExtensions(der, extensions, cert);
+  return cert;
+}
+
+/** Decode every CERTIFICATE block in a PEM bundle. */
+export function parsePem(text: string): Uint8Array[] {
+  const blocks = text.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) ?? [];
+  return blocks.map((block) => {
+    const b64 = block.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, "");
+    return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+  });
+}
+
+/** SHA-256 fingerprint of a certificate, lowercase hex. */
+export async function certificateFingerprint(der: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", der)));
+}
+
+// ============================================================
+// SIGNATURE VERIFICATION
+// ============================================================
+
+/** DER ECDSA-Sig-Value → the fixed-width r‖s form WebCrypto expects. */
+function ecdsaDerToRaw(signature: Uint8Array, size: number): Uint8Array {
+  const seq = readTlv(signature, 0);
+  const [r, s] = childrenOf(signature, seq);
+  const out = new Uint8Array(size * 2);
+  [r, s].forEach((part, i) => {
+    let value = content(signature, part);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    if (value.length > size) throw new Error("ECDSA: integer too large");
+    out.set(value, i * size + size - value.length);
+  });
+  return out;
+}
+
+/**
+ * Verify `signature` over `data` with the certificate's public key.
+ * ECDSA signatures may be raw (COSE) or DER (X.509). Returns false for
+ * mismatches; throws when the key or algorithm cannot be used.
+ */
+export async function verifyWithCertificate(
+  cert: Certificate,
+  algorithm: SignatureAlgorithm,
+  signature: Uint8Array,
+  data: Uint8Array,
+  ecdsaEncoding: "raw" | "der" = "raw",
+): Promise<boolean> {
+  const { type, curve, spki } = cert.publicKey;
+  let importParams: AlgorithmIdentifier | EcKeyImportParams | RsaHashedImportParams;
+  let verifyParams: AlgorithmIdentifier | EcdsaParams | RsaPssParams;
+  let sig = signature;
+
+  if (algorithm.scheme === "ECDSA") {
+    if (type !== "EC" || !curve) throw new Error("Certificate key is not a supported EC key");
+    importParams = { name: "ECDSA", namedCurve: curve };
+    verifyParams = { name: "ECDSA", hash: algorithm.hash! };
+    if (ecdsaEncoding === "der") sig = ecdsaDerToRaw(signature, CURVE_BYTES[curve]);
+  } else if (algorithm.scheme === "Ed25519") {
+    if (type !== "Ed25519") throw new Error("Certificate key is not an Ed25519 key");
+    importParams = { name: "Ed25519" };
+    verifyParams = { name: "Ed25519" };
+  } else {
+    if (type !== "RSA") throw new Error("Certificate key is not an RSA key");
+    importParams = { name: algorithm.scheme, hash: algorithm.hash! };
+    verifyParams = algorithm.scheme === "RSA-PSS"
+      ? { name: "RSA-PSS", saltLength: DIGEST_BYTES[algorithm.hash!] }
+      : { name: "RSASSA-PKCS1-v1_5" };
+  }
+
+  const key = await crypto.subtle.importKey("spki", spki, importParams, false, ["verify"]);
+  return crypto.subtle.verify(verifyParams, key, sig, data);
+}
+
+/**
+ * True when `issuer` names and signs `cert`. Certificates whose
+ * signature algorithm is unsupported are treated as not issued.
+ */
+export async function isIssuedBy(cert: Certificate, issuer: Certificate): Promise<boolean> {
+  if (cert.issuer.text !== issuer.subject.text || !cert.signatureAlgorithm) return false;
+  try {
+    return await verifyWithCertificate(issuer, cert.signatureAlgorithm, cert.signature, cert.tbs, "der");
+  } catch {
+    return false;
+  }
+}
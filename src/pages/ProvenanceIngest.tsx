@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Database, Loader2, Upload } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ingestReferenceMedia, type IngestReport } from "@/lib/provenanceIngest";
+
+/**
+ * Operator page for loading reference media into the provenance index.
+ * Files are hashed in this browser; only the hashes are uploaded.
+ */
+const ProvenanceIngest = () => {
+  const [corpus, setCorpus] = useState("");
+  const [ingestKey, setIngestKey] = useState("");
+  const [publishedAt, setPublishedAt] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [report, setReport] = useState<IngestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const ready = corpus.trim() && ingestKey && files.length > 0;
+
+  const handleIngest = async () => {
+    if (!ready) return;
+    setBusy(true);
+    setError(null);
+    setReport(null);
+    setProgress({ done: 0, total: files.length });
+    try {
+      const result = await ingestReferenceMedia(
+        files.map((file) => ({
+          file,
+          sourceId: file.name,
+          sourceLabel: file.name,
+          publishedAt: publishedAt ? new Date(publishedAt).toISOString() : undefined,
+        })),
+        {
+          corpus: corpus.trim(),
+          ingestKey,
+          onProgress: (done, total) => setProgress({ done, total }),
+        },
+      );
+      setReport(result);
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Ingestion failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-6 pt-28 pb-16 max-w-2xl">
+        <Card className="border-border/50 bg-card/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="w-5 h-5 text-primary" />
+              Provenance Index Ingestion
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Hash reference images and videos and add them to a corpus. Each file is indexed under its file
+              name; ingesting a file again replaces its rows.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="corpus">Corpus</Label>
+              <Input id="corpus" placeholder="e.g. newswire-2026" value={corpus} onChange={(e) => setCorpus(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="published-at">Published (optional, applies to every file)</Label>
+              <Input id="published-at" type="date" value={publishedAt} onChange={(e) => setPublishedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reference-files">Reference media</Label>
+              <Input
+                id="reference-files"
+                type="file"
+                accept="image/*,video/*"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ingest-key">Ingest key</Label>
+              <Input id="ingest-key" type="password" value={ingestKey} onChange={(e) => setIngestKey(e.target.value)} />
+            </div>
+
+            {progress && busy && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / Math.max(1, progress.total)) * 100} />
+                <p className="text-xs text-muted-foreground">Hashed {progress.done} of {progress.total}</p>
+              </div>
+            )}
+            {report && (
+              <div className="text-sm space-y-1">
+                <p>Indexed {report.inserted} row(s).</p>
+                {report.skipped.map((s, i) => (
+                  <p key={`${s.sourceId}-${i}`} className="text-xs text-trust-medium">
+                    Skipped {s.sourceId}: {s.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+            {error && <p className="text-sm text-trust-low">{error}</p>}
+
+            <Button className="gap-2" onClick={handleIngest} disabled={busy || !ready}>
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {busy ? "Ingesting..." : "Hash and ingest"}
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ProvenanceIngest;
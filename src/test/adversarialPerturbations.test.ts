@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createImage } from "@/lib/imageProcessing";
+import { squareAttack, channelShift } from "@/lib/adversarialPerturbations";
+import { scoreImage } from "@/lib/localDetectors";
+
+const gradient = (size: number) => {
+  const img = createImage(size, size);
+  for (let i = 0, p = 0; i < size * size; i++, p += 4) {
+    img.data[p] = img.data[p + 1] = img.data[p + 2] = 64 + ((i % size) * 128) / size;
+    img.data[p + 3] = 255;
+  }
+  return img;
+};
+
+describe("adversarialPerturbations", () => {
+  it("squareAttack stays within the L-infinity budget and never worsens the objective", () => {
+    const img = gradient(32);
+    const objective = (c: typeof img) => scoreImage(c).fakeProbability;
+    const result = squareAttack(img, objective, { epsilon: 8, iterations: 40, seed: 3 });
+
+    let maxDelta = 0;
+    for (let p = 0; p < img.data.length; p++) {
+      maxDelta = Math.max(maxDelta, Math.abs(result.image.data[p] - img.data[p]));
+    }
+    expect(maxDelta).toBeLessThanOrEqual(8);
+    expect(result.queries).toBe(41);
+
+    const initial = squareAttack(img, objective, { epsilon: 8, iterations: 0, seed: 3 });
+    expect(result.objective).toBeLessThanOrEqual(initial.objective);
+  });
+
+  it("channelShift applies per-channel gain and offset", () => {
+    const img = gradient(4);
+    const shifted = channelShift(img, [
+      { gain: 1, offset: 10 },
+      { gain: 1, offset: 0 },
+      { gain: 0.5, offset: 0 },
+    ]);
+    expect(shifted.data[0]).toBe(img.data[0] + 10);
+    expect(shifted.data[1]).toBe(img.data[1]);
+    expect(shifted.data[2]).toBe(Math.round(img.data[2] * 0.5));
+  });
+});
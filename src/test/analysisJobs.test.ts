@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import {
+  forgetJob,
+  recallJob,
+  rememberJob,
+  stripDataUrls,
+  waitForAnalysisJob,
+  type AnalysisJobStatus,
+  type AnalysisStage,
+} from "@/lib/analysisJobs";
+
+const RESULT = { trustScore: 82 } as AnalysisResult;
+
+/** Answers each poll with the next status in the script; `null` throws. */
+function scripted(steps: (Partial<AnalysisJobStatus> | null)[]) {
+  const seen: number[] = [];
+  let poll = 0;
+  const fetchStatus = async (jobId: string): Promise<AnalysisJobStatus> => {
+    const step = steps[Math.min(poll, steps.length - 1)];
+    seen.push(poll++);
+    if (!step) throw new Error("Edge Function returned a non-2xx status code");
+    return { jobId, status: "running", stage: "model_inference", result: null, error: null, ...step };
+  };
+  return { fetchStatus, seen };
+}
+
+function memoryStore() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+}
+
+describe("analysisJobs", () => {
+  it("polls through the stages until the job completes", async () => {
+    const { fetchStatus } = scripted([
+      { status: "queued" },
+      { stage: "model_inference" },
+      { stage: "derivation" },
+      { status: "completed", stage: "derivation", result: RESULT },
+    ]);
+    const stages: AnalysisStage[] = [];
+
+    const job = await waitForAnalysisJob("job-1", {
+      fetchStatus, intervalMs: 0, onStatus: (job) => stages.push(job.stage),
+    });
+
+    expect(job.result).toBe(RESULT);
+    expect(stages).toEqual(["model_inference", "model_inference", "derivation", "derivation"]);
+  });
+
+  it("hands the server's result back for evidence generation", async () => {
+    const { fetchStatus } = scripted([
+      { stage: "derivation" },
+      { stage: "evidence_generation", result: RESULT },
+    ]);
+    const job = await waitForAnalysisJob("job-1", { fetchStatus, intervalMs: 0 });
+    expect(job).toMatchObject({ status: "running", stage: "evidence_generation", result: RESULT });
+  });
+
+  it("surfaces the job's error when it fails", async () => {
+    const { fetchStatus } = scripted([{}, { status: "failed", error: "Rate limit exceeded" }]);
+    await expect(waitForAnalysisJob("job-1", { fetchStatus, intervalMs: 0 })).rejects.toThrow("Rate limit exceeded");
+  });
+
+  it("rides out a few failed lookups but not a persistent outage", async () => {
+    const flaky = scripted([null, null, { status: "completed", result: RESULT }]);
+    await expect(waitForAnalysisJob("job-1", { fetchStatus: flaky.fetchStatus, intervalMs: 0 }))
+      .resolves.toMatchObject({ result: RESULT });
+
+    const down = scripted([null]);
+    await expect(waitForAnalysisJob("job-1", { fetchStatus: down.fetchStatus, intervalMs: 0 })).rejects.toThrow(/non-2xx/);
+    expect(down.seen).toHaveLength(3);
+  });
+
+  it("stops polling when cancelled or out of time", async () => {
+    const controller = new AbortController();
+    const { fetchStatus } = scripted([{}]);
+    const pending = waitForAnalysisJob("job-1", { fetchStatus, intervalMs: 50, signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+
+    await expect(waitForAnalysisJob("job-1", { fetchStatus, intervalMs: 20, timeoutMs: 50 }))
+      .rejects.toThrow(/did not finish/);
+  });
+
+  it("drops data URLs from results before they are stored", () => {
+    const result = {
+      trustScore: 40,
+      errorLevelAnalysis: { meanError: 3, overlayDataUrl: "data:image/png;base64,AAAA" },
+      audioTrack: { duration: 2, spectrogramDataUrl: "data:image/png;base64,BBBB" },
+      views: ["data:image/jpeg;base64,CCCC", "original"],
+      source: "https://example.com/photo.jpg",
+    } as unknown as AnalysisResult;
+
+    expect(stripDataUrls(result)).toEqual({
+      trustScore: 40,
+      errorLevelAnalysis: { meanError: 3 },
+      audioTrack: { duration: 2 },
+      views: ["original"],
+      source: "https://example.com/photo.jpg",
+    });
+    expect(result.errorLevelAnalysis?.overlayDataUrl).toBeDefined();
+  });
+
+  it("remembers the current job for a reload", () => {
+    const store = memoryStore();
+    expect(recallJob(store)).toBeNull();
+    rememberJob({ jobId: "job-1", fileHash: "ab12", fileName: "photo.jpg" }, store);
+    expect(recallJob(store)).toEqual({ jobId: "job-1", fileHash: "ab12", fileName: "photo.jpg" });
+    forgetJob(store);
+    expect(recallJob(store)).toBeNull();
+
+    store.setItem("deeptrust-analysis-job", "{not json");
+    expect(recallJob(store)).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { seededRandom } from "@/lib/imageProcessing";
+import { fft } from "@/lib/spectralAnalysis";
+import { analyzeSpeech, toAnomalyRegions, toAudioModalityScore } from "@/lib/audioForensics";
+
+const SR = 44100;
+
+function gaussian(rand: () => number): number {
+  return Math.sqrt(-2 * Math.log(Math.max(rand(), 1e-12))) * Math.cos(2 * Math.PI * rand());
+}
+
+/** Two-pole resonator, a crude formant. */
+function resonate(x: Float32Array, hz: number, bandwidth: number): Float32Array {
+  const r = Math.exp((-Math.PI * bandwidth) / SR);
+  const a1 = 2 * r * Math.cos((2 * Math.PI * hz) / SR);
+  const y = new Float32Array(x.length);
+  for (let i = 0; i < x.length; i++) y[i] = x[i] + a1 * (y[i - 1] ?? 0) - r * r * (y[i - 2] ?? 0);
+  return y;
+}
+
+/**
+ * 0.6 s "words" of glottal pulses through two formants, 0.6 s apart. A
+ * recorded voice gets cycle jitter, shimmer, room noise and a breath in
+ * each pause; the synthetic one is perfectly steady over digital silence.
+ */
+function voice(recorded: boolean, seed: number, { seconds = 14, roomDb = -50, louderRoomAfter = Infinity } = {}): Float32Array {
+  const rand = seededRandom(seed);
+  const n = seconds * SR;
+  const pulses = new Float32Array(n);
+  const breaths = new Float32Array(n);
+  for (let t = 0.3; t + 0.6 < seconds; t += 1.2) {
+    for (let p = t; p < t + 0.6;) {
+      const f0 = 110 + 20 * Math.sin(2 * Math.PI * 0.7 * p);
+      const amp = 0.3 * Math.sin((Math.PI * (p - t)) / 0.6) ** 0.3 * (recorded ? 1 + 0.08 * gaussian(rand) : 1);
+      pulses[Math.round(p * SR)] += amp;
+      p += (1 / f0) * (recorded ? 1 + 0.01 * gaussian(rand) : 1);
+    }
+    if (recorded) {
+      const b0 = Math.round((t + 0.75) * SR);
+      const len = 0.3 * SR;
+      for (let i = 0; i < len && b0 + i < n; i++) breaths[b0 + i] = 0.02 * Math.sin((Math.PI * i) / len) * gaussian(rand);
+    }
+  }
+  const f1 = resonate(pulses, 700, 80);
+  const f2 = resonate(pulses, 1500, 120);
+  const out = new Float32Array(n);
+  let brown = 0;
+  for (let i = 0; i < n; i++) {
+    out[i] = 0.02 * f1[i] + 0.01 * f2[i] + breaths[i];
+    if (recorded) {
+      brown = 0.98 * brown + 0.02 * gaussian(rand);
+      out[i] += 10 ** ((roomDb + (i / SR >= louderRoomAfter ? 20 : 0)) / 20) * 0.3 * brown;
+    }
+  }
+  return out;
+}
+
+/** A sustained harmonic vowel whose harmonic phases are redrawn every `resetEvery` seconds. */
+function vowel(resetEvery: number | null, seed: number, seconds = 4): Float32Array {
+  const rand = seededRandom(seed);
+  const phases = Array.from({ length: 20 }, () => rand() * 2 * Math.PI);
+  let block = 0;
+  return Float32Array.from({ length: seconds * SR }, (_, i) => {
+    const t = i / SR;
+    if (resetEvery && Math.floor(t / resetEvery) !== block) {
+      block = Math.floor(t / resetEvery);
+      phases.forEach((_, h) => (phases[h] = rand() * 2 * Math.PI));
+    }
+    const f0 = 120 + 15 * Math.sin(Math.PI * t);
+    let v = 0;
+    phases.forEach((_, h) => {
+      phases[h] += (2 * Math.PI * f0 * (h + 1)) / SR;
+      v += (0.1 / (h + 1)) * Math.sin(phases[h]);
+    });
+    return v * (1 + 0.05 * gaussian(rand));
+  });
+}
+
+/** Ideal low-pass through one large FFT. */
+function lowpass(x: Float32Array, hz: number): Float32Array {
+  const size = 2 ** Math.ceil(Math.log2(x.length));
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  re.set(x);
+  fft(re, im);
+  for (let k = 0; k < size; k++) {
+    if ((Math.min(k, size - k) * SR) / size > hz) re[k] = im[k] = 0;
+    im[k] = -im[k];
+  }
+  fft(re, im);
+  return Float32Array.from(x, (_, i) => re[i] / size);
+}
+
+describe("audioForensics", () => {
+  it("finds nothing synthetic in a recorded voice", () => {
+    const result = analyzeSpeech({ samples: voice(true, 1), sampleRate: SR });
+
+    expect(result.speechDetected).toBe(true);
+    expect(result.features.meanPitchHz).toBeGreaterThan(100);
+    expect(result.features.meanPitchHz).toBeLessThan(125);
+    expect(result.features.digitalSilenceRatio).toBe(0);
+    expect(result.features.breathCount).toBeGreaterThan(5);
+    expect(result.syntheticProbability).toBeLessThan(0.2);
+    expect(result.segments).toEqual([]);
+  });
+
+  it("flags steady pitch and digital silence in a synthetic voice", () => {
+    const result = analyzeSpeech({ samples: voice(false, 1), sampleRate: SR });
+    const ids = result.indicators.filter((i) => i.strength >= 0.5).map((i) => i.id);
+
+    expect(ids).toEqual(expect.arrayContaining(["digital_silence", "stable_pitch", "stable_amplitude"]));
+    expect(result.features.breathCount).toBe(0);
+    expect(result.syntheticProbability).toBeGreaterThan(0.6);
+    expect(result.segments.length).toBeGreaterThan(0);
+    expect(result.segments.every((s) => s.start >= 0 && s.end <= 14 && s.reasons.includes("steady pitch"))).toBe(true);
+  });
+
+  it("measures scrambled harmonic phases as incoherent", () => {
+    const locked = analyzeSpeech({ samples: vowel(null, 3), sampleRate: SR });
+    const scrambled = analyzeSpeech({ samples: vowel(0.02, 3), sampleRate: SR });
+
+    expect(locked.features.phaseCoherence).toBeGreaterThan(0.9);
+    expect(scrambled.features.phaseCoherence).toBeLessThan(0.3);
+    expect(scrambled.indicators.map((i) => i.id)).toContain("phase_incoherence");
+  });
+
+  it("reports a hard band limit only at synthesis sample rates", () => {
+    const rand = seededRandom(5);
+    const hissy = Float32Array.from(voice(true, 2, { seconds: 8 }), (s) => s + 0.002 * gaussian(rand));
+    const tts = analyzeSpeech({ samples: lowpass(hissy, 12000), sampleRate: SR });
+    const mp3 = analyzeSpeech({ samples: lowpass(hissy, 16000), sampleRate: SR });
+
+    expect(tts.features.cutoffHz).toBeGreaterThan(11500);
+    expect(tts.features.cutoffHz).toBeLessThan(12500);
+    expect(tts.indicators.map((i) => i.id)).toContain("band_limit");
+    expect(mp3.features.cutoffHz).toBeGreaterThan(15500);
+    expect(mp3.indicators.map((i) => i.id)).not.toContain("band_limit");
+  });
+
+  it("marks a noise-floor jump and maps results to the modality score", () => {
+    const result = analyzeSpeech({ samples: voice(true, 4, { louderRoomAfter: 7.5 }), sampleRate: SR });
+    const splice = result.segments.find((s) => s.reasons.some((r) => r.startsWith("noise floor changes")));
+
+    expect(splice).toBeDefined();
+    expect(splice!.start).toBeLessThan(7.5);
+    expect(splice!.end).toBeGreaterThan(7.5);
+    expect(toAnomalyRegions(result)).toEqual(result.segments.map(({ start, end, severity }) => ({ start, end, severity })));
+    const modality = toAudioModalityScore(result, 0.2);
+    expect(modality).toMatchObject({ modality: "audio", weight: 0.2, score: Math.round((1 - result.syntheticProbability) * 100) });
+    expect(modality.findings.length).toBeGreaterThan(0);
+  });
+});
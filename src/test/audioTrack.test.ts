@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { computeSpectrogram, frameTime, hzToMel, melFilterbank, melToHz, renderSpectrogram, timeToFrame } from "@/lib/audioTrack";
+
+const SR = 44100;
+
+function tone(seconds: number, hz: number, from = 0, to = seconds): Float32Array {
+  return Float32Array.from({ length: Math.round(seconds * SR) }, (_, i) => {
+    const t = i / SR;
+    return t >= from && t < to ? 0.5 * Math.sin(2 * Math.PI * hz * t) : 0;
+  });
+}
+
+const loudestBand = (data: Float32Array, bands: number, frame: number) => {
+  let best = 0;
+  for (let b = 1; b < bands; b++) if (data[frame * bands + b] > data[frame * bands + best]) best = b;
+  return best;
+};
+
+describe("audioTrack", () => {
+  it("inverts the mel scale and spaces filter centres on it", () => {
+    expect(melToHz(hzToMel(1000))).toBeCloseTo(1000, 6);
+    const { filters, centres } = melFilterbank(1024, SR, 40);
+
+    expect(filters).toHaveLength(40);
+    expect(centres[0]).toBeGreaterThan(0);
+    expect(centres[39]).toBeLessThan(SR / 2);
+    const steps = centres.slice(1).map((c, i) => hzToMel(c) - hzToMel(centres[i]));
+    expect(Math.max(...steps) - Math.min(...steps)).toBeLessThan(1e-6);
+    expect(filters.every((f) => f.weights.length > 0 && f.start + f.weights.length <= 513)).toBe(true);
+  });
+
+  it("puts a tone in the band nearest its frequency", () => {
+    const spec = computeSpectrogram(tone(1, 1000), SR);
+    const band = loudestBand(spec.data, spec.bands, Math.floor(spec.frames / 2));
+
+    expect(Math.abs(spec.bandFrequencies[band] - 1000)).toBeLessThan(60);
+    expect(spec.maxDb - spec.minDb).toBe(80);
+  });
+
+  it("places a tone burst on the time axis in seconds", () => {
+    const spec = computeSpectrogram(tone(2, 2000, 0.5, 1.25), SR);
+    const level = (seconds: number) => spec.data[timeToFrame(spec, seconds) * spec.bands + loudestBand(spec.data, spec.bands, timeToFrame(spec, 1))];
+
+    expect(frameTime(spec, timeToFrame(spec, 0.75))).toBeCloseTo(0.75, 2);
+    expect(level(0.75)).toBeGreaterThan(level(0.25) + 60);
+    expect(level(1.0)).toBeGreaterThan(level(1.6) + 60);
+  });
+
+  it("widens the hop so long tracks stay within the frame budget", () => {
+    const spec = computeSpectrogram(new Float32Array(SR * 120), SR, { maxFrames: 2000 });
+
+    expect(spec.frames).toBeLessThanOrEqual(2001);
+    expect(frameTime(spec, spec.frames - 1)).toBeCloseTo(120, 0);
+  });
+
+  it("renders low frequencies at the bottom of the image", () => {
+    const spec = computeSpectrogram(tone(0.5, 300), SR);
+    const img = renderSpectrogram(spec, 64, spec.bands);
+    const brightness = (y: number) => img.data[(y * 64 + 32) * 4] + img.data[(y * 64 + 32) * 4 + 1];
+
+    expect(brightness(spec.bands - 1 - loudestBand(spec.data, spec.bands, 10))).toBeGreaterThan(brightness(0));
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { cameraIdFor } from "@/lib/cameraFingerprintIndex";
+
+describe("cameraFingerprintIndex", () => {
+  it("slugs ASCII labels and folds accents", () => {
+    expect(cameraIdFor("  Canon EOS R5 #0142 ")).toBe("canon-eos-r5-0142");
+    expect(cameraIdFor("Café Cam")).toBe("cafe-cam");
+  });
+
+  it("never returns an empty id and keeps non-ASCII labels apart", () => {
+    const kanji = cameraIdFor("佳能");
+    expect(kanji).toMatch(/^camera-[0-9a-f]{16}$/);
+    expect(cameraIdFor("尼康")).not.toBe(kanji);
+    expect(cameraIdFor("佳能")).toBe(kanji);
+    expect(cameraIdFor("!!!")).toMatch(/^camera-[0-9a-f]{16}$/);
+
+    const mixed = cameraIdFor("佳能 R5");
+    expect(mixed).toMatch(/^r5-[0-9a-f]{8}$/);
+    expect(cameraIdFor("尼康 R5")).not.toBe(mixed);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { encodeUploadMetadata, uploadObjectPath, uploadResumable, type ResumeStore, type UploadProgress } from "@/lib/chunkedUpload";
+
+const ENDPOINT = "https://example.supabase.co/storage/v1/upload/resumable";
+
+/** jsdom's Blob has no arrayBuffer(). */
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+function memoryStore(): ResumeStore & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/**
+ * An in-memory tus server. `failPatch` decides per PATCH whether to drop
+ * the connection after storing `partial` bytes of the chunk.
+ */
+function tusServer({ failPatch = () => false, partial = 0 }: { failPatch?: (n: number) => boolean; partial?: number } = {}) {
+  const uploads = new Map<string, { length: number; bytes: Uint8Array; offset: number }>();
+  const requests: string[] = [];
+  let patches = 0;
+
+  const fetchImpl = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const method = init?.method ?? "GET";
+    const headers = new Headers(init?.headers);
+    requests.push(method);
+    if (method === "POST") {
+      const id = `${ENDPOINT}/upload-${uploads.size + 1}`;
+      const length = Number(headers.get("Upload-Length"));
+      uploads.set(id, { length, bytes: new Uint8Array(length), offset: 0 });
+      return new Response(null, { status: 201, headers: { Location: id } });
+    }
+    const upload = uploads.get(String(url));
+    if (!upload) return new Response(null, { status: 404 });
+    if (method === "HEAD") {
+      return new Response(null, { status: 200, headers: { "Upload-Offset": String(upload.offset) } });
+    }
+    if (Number(headers.get("Upload-Offset")) !== upload.offset) return new Response(null, { status: 409 });
+    const chunk = await readBlob(init!.body as Blob);
+    if (failPatch(patches++)) {
+      upload.bytes.set(chunk.subarray(0, partial), upload.offset);
+      upload.offset += partial;
+      throw new TypeError("Failed to fetch");
+    }
+    upload.bytes.set(chunk, upload.offset);
+    upload.offset += chunk.length;
+    return new Response(null, { status: 204, headers: { "Upload-Offset": String(upload.offset) } });
+  };
+
+  return { uploads, requests, fetchImpl: fetchImpl as typeof fetch };
+}
+
+function testFile(size: number): Blob {
+  return new Blob([Uint8Array.from({ length: size }, (_, i) => (i * 7) % 251)], { type: "image/png" });
+}
+
+describe("chunkedUpload", () => {
+  it("encodes metadata and names each upload under its file hash", () => {
+    expect(encodeUploadMetadata({ bucketName: "analysis-uploads", objectName: "é.png" }))
+      .toBe(`bucketName ${btoa("analysis-uploads")},objectName w6kucG5n`);
+    expect(uploadObjectPath("ab12", { type: "image/svg+xml" }, "id-1")).toBe("ab12/id-1.svg");
+    expect(uploadObjectPath("ab12", { type: "" }, "id-1")).toBe("ab12/id-1.bin");
+    // Two uploads of one file never share an object
+    expect(uploadObjectPath("ab12", { type: "image/png" })).toMatch(/^ab12\/[0-9a-f-]{36}\.png$/);
+    expect(uploadObjectPath("ab12", { type: "image/png" })).not.toBe(uploadObjectPath("ab12", { type: "image/png" }));
+  });
+
+  it("sends the file in chunks and reports progress", async () => {
+    const server = tusServer();
+    const file = testFile(2500);
+    const progress: UploadProgress[] = [];
+    const store = memoryStore();
+
+    const ref = await uploadResumable(file, {
+      endpoint: ENDPOINT, headers: {}, path: "abc.png", chunkSize: 1000, store, fetchImpl: server.fetchImpl,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(ref).toEqual({ bucket: "analysis-uploads", path: "abc.png", contentType: "image/png", size: 2500 });
+    expect(server.requests).toEqual(["POST", "PATCH", "PATCH", "PATCH"]);
+    expect(progress.map((p) => p.uploaded)).toEqual([0, 1000, 2000, 2500]);
+    const [stored] = server.uploads.values();
+    expect(stored.bytes).toEqual(await readBlob(file));
+    // Finished uploads are forgotten
+    expect(store.items.size).toBe(0);
+  });
+
+  it("resyncs with the server after a dropped chunk", async () => {
+    const server = tusServer({ failPatch: (n) => n === 1, partial: 300 });
+    const file = testFile(2500);
+
+    await uploadResumable(file, {
+      endpoint: ENDPOINT, headers: {}, path: "abc.png", chunkSize: 1000, store: null,
+      fetchImpl: server.fetchImpl, retryBaseMs: 0,
+    });
+
+    // The retry continues from the 300 bytes that made it, not from the chunk start
+    expect(server.requests).toEqual(["POST", "PATCH", "PATCH", "HEAD", "PATCH", "PATCH"]);
+    const [stored] = server.uploads.values();
+    expect(stored.bytes).toEqual(await readBlob(file));
+  });
+
+  it("resumes an abandoned upload from its stored URL", async () => {
+    const server = tusServer({ failPatch: (n) => n >= 1 });
+    const file = testFile(2500);
+    const store = memoryStore();
+    const options = { endpoint: ENDPOINT, headers: {}, path: "abc.png", chunkSize: 1000, store, retryBaseMs: 0 };
+
+    await expect(uploadResumable(file, { ...options, fetchImpl: server.fetchImpl })).rejects.toThrow(/Upload failed at 1000/);
+    expect(store.items.size).toBe(1);
+
+    const retry = tusServer();
+    retry.uploads.set(...[...server.uploads.entries()][0]);
+    const progress: number[] = [];
+    await uploadResumable(file, { ...options, fetchImpl: retry.fetchImpl, onProgress: (p) => progress.push(p.uploaded) });
+
+    expect(retry.requests).toEqual(["HEAD", "PATCH", "PATCH"]);
+    expect(progress).toEqual([1000, 2000, 2500]);
+    expect(store.items.size).toBe(0);
+  });
+});
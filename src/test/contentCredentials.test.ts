@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { encodeCbor, type CborValue } from "@/lib/cbor";
+import { analyzeContentCredentialsFromBytes } from "@/lib/contentCredentials";
+import { buildTrustList } from "@/lib/c2paTrustList";
+
+const bytes = (...parts: (Uint8Array | number[])[]) => new Uint8Array(parts.flatMap((p) => Array.from(p)));
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+const u32 = (n: number) => [(n >>> 24) & 255, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+const sha256 = async (data: Uint8Array) => new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+
+// ---- DER, just enough for a self-signed ECDSA certificate ----
+const der = (tag: number, body: Uint8Array | number[]) => {
+  const n = body.length;
+  const len = n < 128 ? [n] : n < 256 ? [0x81, n] : [0x82, n >> 8, n & 255];
+  return bytes([tag, ...len], body);
+};
+const seq = (...items: Uint8Array[]) => der(0x30, bytes(...items));
+const oid = (dotted: string) => {
+  const [a, b, ...rest] = dotted.split(".").map(Number);
+  const out = [a * 40 + b];
+  for (const v of rest) {
+    const chunk = [v & 0x7f];
+    for (let x = v >> 7; x > 0; x >>= 7) chunk.unshift((x & 0x7f) | 0x80);
+    out.push(...chunk);
+  }
+  return der(0x06, out);
+};
+const int = (value: Uint8Array) => der(0x02, value[0] & 0x80 ? bytes([0], value) : value);
+const name = (cn: string) => seq(der(0x31, seq(oid("2.5.4.3"), der(0x0c, ascii(cn)))));
+
+/** A certificate for `subjectKeys` signed with `issuerKeys`: a CA, or a C2PA claim signer. */
+async function certificate(
+  subjectKeys: CryptoKeyPair,
+  issuerKeys: CryptoKeyPair,
+  { subject, issuer = subject, ca = false, notAfter = "340101000000Z" }: { subject: string; issuer?: string; ca?: boolean; notAfter?: string },
+): Promise<Uint8Array> {
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", subjectKeys.publicKey));
+  const ecdsaSha256 = seq(oid("1.2.840.10045.4.3.2"));
+  const extension = ca
+    ? seq(oid("2.5.29.19"), der(0x04, seq(der(0x01, [0xff]))))
+    : seq(oid("2.5.29.37"), der(0x04, seq(oid("1.3.6.1.5.5.7.3.36"))));
+  const tbs = seq(
+    der(0xa0, int(new Uint8Array([2]))),
+    int(new Uint8Array([1])),
+    ecdsaSha256,
+    name(issuer),
+    seq(der(0x17, ascii("240101000000Z")), der(0x17, ascii(notAfter))),
+    name(subject),
+    spki,
+    der(0xa3, seq(extension)),
+  );
+  const raw = new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, issuerKeys.privateKey, tbs));
+  const sigDer = seq(int(raw.subarray(0, 32)), int(raw.subarray(32)));
+  return seq(tbs, ecdsaSha256, der(0x03, bytes([0], sigDer)));
+}
+
+// ---- JUMBF ----
+const box = (type: string, payload: Uint8Array) => bytes(u32(payload.length + 8), ascii(type), payload);
+const superbox = (fourcc: string, label: string, ...contents: Uint8Array[]) =>
+  box("jumb", bytes(
+    box("jumd", bytes(ascii(fourcc), [0x00, 0x11, 0x00, 0x10, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71, 0x03], ascii(label), [0])),
+    ...contents,
+  ));
+const cborAssertion = (label: string, value: CborValue) => superbox("cbor", label, box("cbor", encodeCbor(value)));
+const payloadOf = (superboxBytes: Uint8Array) => superboxBytes.subarray(8);
+
+const BODY = bytes([0xff, 0xc0, 0, 11, 8, 0, 16, 0, 16, 1, 1, 0x11, 0], [0xff, 0xda, 0, 2, 1, 2, 3, 4], [0xff, 0xd9]);
+
+async function signedJpeg(
+  keys: CryptoKeyPair,
+  x5chain: Uint8Array | Uint8Array[],
+  { extraExclusions = [], unprotected = {} }: { extraExclusions?: { start: number; length: number }[]; unprotected?: Record<string, CborValue> } = {},
+): Promise<Uint8Array> {
+  const signedHash = await sha256(bytes([0xff, 0xd8], BODY));
+  let segmentsLength = 0;
+  for (;;) {
+    const actions = cborAssertion("c2pa.actions", {
+      actions: [{ action: "c2pa.created", softwareAgent: "Test Camera 1.0", digitalSourceType: "http://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture" }],
+    });
+    const hashData = cborAssertion("c2pa.hash.data", {
+      exclusions: [{ start: 2, length: segmentsLength }, ...extraExclusions],
+      name: "jumbf manifest",
+      alg: "sha256",
+      hash: signedHash,
+    });
+    const claim = encodeCbor({
+      claim_generator: "deep-trust-test/1.0",
+      "dc:title": "photo.jpg",
+      "dc:format": "image/jpeg",
+      instanceID: "xmp:iid:0001",
+      signature: "self#jumbf=c2pa.signature",
+      alg: "sha256",
+      assertions: [
+        { url: "self#jumbf=c2pa.assertions/c2pa.actions", hash: await sha256(payloadOf(actions)) },
+        { url: "self#jumbf=c2pa.assertions/c2pa.hash.data", hash: await sha256(payloadOf(hashData)) },
+      ],
+    });
+    const protectedHeader = encodeCbor({ 1: -7, 33: x5chain });
+    const toBeSigned = encodeCbor(["Signature1", protectedHeader, new Uint8Array(0), claim]);
+    const signature = new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, keys.privateKey, toBeSigned));
+
+    const store = superbox("c2pa", "c2pa", superbox("c2ma", "urn:uuid:test-manifest",
+      superbox("c2as", "c2pa.assertions", actions, hashData),
+      superbox("c2cl", "c2pa.claim", box("cbor", claim)),
+      superbox("c2cs", "c2pa.signature", box("cbor", encodeCbor([protectedHeader, unprotected, null, signature]))),
+    ));
+
+    // Split across two APP11 segments; the second repeats the box header
+    const half = Math.floor(store.length / 2);
+    const app11 = (seqNo: number, data: Uint8Array) => {
+      const payload = bytes(ascii("JP"), u16(1), u32(seqNo), data);
+      return bytes([0xff, 0xeb], u16(payload.length + 2), payload);
+    };
+    const segments = bytes(app11(1, store.subarray(0, half)), app11(2, bytes(store.subarray(0, 8), store.subarray(half))));
+    if (segments.length === segmentsLength) return bytes([0xff, 0xd8], segments, BODY);
+    segmentsLength = segments.length;
+  }
+}
+
+describe("contentCredentials", () => {
+  const generateKeys = () => crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+  const setup = async () => {
+    const keys = await generateKeys();
+    const cert = await certificate(keys, keys, { subject: "Test Newsroom Signer" });
+    return { keys, cert, jpeg: await signedJpeg(keys, cert) };
+  };
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("validates a signed manifest against the trust list", async () => {
+    const { cert, jpeg } = await setup();
+    const pem = `-----BEGIN CERTIFICATE-----\n${btoa(String.fromCharCode(...cert))}\n-----END CERTIFICATE-----`;
+
+    const trusted = await analyzeContentCredentialsFromBytes(jpeg, { trustList: buildTrustList(pem), now });
+    expect(trusted.failure).toEqual([]);
+    expect(trusted.status).toBe("valid");
+    expect(trusted.success.map((s) => s.code)).toEqual(expect.arrayContaining([
+      "claimSignature.validated", "signingCredential.trusted", "assertion.hashedURI.match", "assertion.dataHash.match",
+    ]));
+    const manifest = trusted.manifests[0];
+    expect(manifest.signer?.commonName).toBe("Test Newsroom Signer");
+    expect(manifest.claimGenerator).toBe("deep-trust-test/1.0");
+    expect(manifest.actions[0]).toMatchObject({ action: "c2pa.created", softwareAgent: "Test Camera 1.0" });
+
+    const untrusted = await analyzeContentCredentialsFromBytes(jpeg, { trustList: buildTrustList(""), now });
+    expect(untrusted.status).toBe("untrusted");
+    expect(untrusted.failure.map((f) => f.code)).toEqual(["signingCredential.untrusted"]);
+  });
+
+  it("reports edits to the pixels and to the manifest", async () => {
+    const { jpeg } = await setup();
+    const trustList = buildTrustList("");
+
+    const pixels = jpeg.slice();
+    pixels[pixels.length - 4] ^= 0xff;
+    const edited = await analyzeContentCredentialsFromBytes(pixels, { trustList, now });
+    expect(edited.status).toBe("invalid");
+    expect(edited.failure.map((f) => f.code)).toContain("assertion.dataHash.mismatch");
+
+    // Rewrite the software agent inside the actions assertion
+    const manifest = jpeg.slice();
+    const at = new TextDecoder("latin1").decode(manifest).indexOf("Test Camera");
+    manifest.set(ascii("Fake"), at);
+    const tampered = await analyzeContentCredentialsFromBytes(manifest, { trustList, now });
+    expect(tampered.status).toBe("invalid");
+    expect(tampered.failure.map((f) => f.code)).toContain("assertion.hashedURI.mismatch");
+  });
+
+  it("checks that intermediates are current CA certificates", async () => {
+    const [signerKeys, intermediateKeys, rootKeys] = await Promise.all([generateKeys(), generateKeys(), generateKeys()]);
+    const trustList = buildTrustList("");
+    const verify = async (intermediate: { ca: boolean; notAfter?: string }) => {
+      const leaf = await certificate(signerKeys, intermediateKeys, { subject: "Test Newsroom Signer", issuer: "Test Intermediate" });
+      const issuer = await certificate(intermediateKeys, rootKeys, { subject: "Test Intermediate", issuer: "Test Root", ...intermediate });
+      const jpeg = await signedJpeg(signerKeys, [leaf, issuer]);
+      return (await analyzeContentCredentialsFromBytes(jpeg, { trustList, now })).failure;
+    };
+
+    expect((await verify({ ca: true })).map((f) => f.code)).toEqual(["signingCredential.untrusted"]);
+
+    const notCa = await verify({ ca: false });
+    expect(notCa).toContainEqual(expect.objectContaining({ code: "signingCredential.invalid", explanation: expect.stringMatching(/not a CA/) }));
+
+    const expired = await verify({ ca: true, notAfter: "250101000000Z" });
+    expect(expired).toContainEqual(expect.objectContaining({ code: "signingCredential.expired", explanation: expect.stringMatching(/Intermediate/) }));
+  });
+
+  it("does not let an unverified timestamp excuse an expired certificate", async () => {
+    const keys = await generateKeys();
+    const cert = await certificate(keys, keys, { subject: "Test Newsroom Signer", notAfter: "250101000000Z" });
+    const jpeg = await signedJpeg(keys, cert, { unprotected: { sigTst: new Uint8Array([1, 2, 3]) } });
+
+    const result = await analyzeContentCredentialsFromBytes(jpeg, { trustList: buildTrustList(""), now });
+    expect(result.status).toBe("invalid");
+    expect(result.failure.map((f) => f.code)).toContain("signingCredential.expired");
+    expect(result.informational.map((f) => f.code)).toContain("timeStamp.unverified");
+    expect(result.manifests[0].signer?.timestamped).toBe(true);
+  });
+
+  it("rejects data hash exclusions outside the file", async () => {
+    const { keys, cert } = await setup();
+    const jpeg = await signedJpeg(keys, cert, { extraExclusions: [{ start: 0, length: 1 << 20 }] });
+
+    const result = await analyzeContentCredentialsFromBytes(jpeg, { trustList: buildTrustList(""), now });
+    expect(result.status).toBe("invalid");
+    expect(result.failure).toContainEqual(expect.objectContaining({
+      code: "assertion.dataHash.malformed",
+      explanation: expect.stringMatching(/outside the file/),
+    }));
+  });
+
+  it("returns absent for files without a manifest store", async () => {
+    const result = await analyzeContentCredentialsFromBytes(bytes([0xff, 0xd8], BODY));
+    expect(result.status).toBe("absent");
+    expect(result.manifests).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { createImage, gaussianBlur, seededRandom, type RGBAImage } from "@/lib/imageProcessing";
+import { detectCopyMove, estimateTransform } from "@/lib/copyMoveDetector";
+
+/** Smoothed noise: textured everywhere, with no natural repeats. */
+function texture(width: number, height: number, seed: number): RGBAImage {
+  const rand = seededRandom(seed);
+  const img = createImage(width, height);
+  for (let p = 0; p < img.data.length; p += 4) {
+    img.data[p] = img.data[p + 1] = img.data[p + 2] = rand() * 255;
+    img.data[p + 3] = 255;
+  }
+  return gaussianBlur(img, 1);
+}
+
+function clone(img: RGBAImage, sx: number, sy: number, size: number, tx: number, ty: number): RGBAImage {
+  const out = { ...img, data: new Uint8ClampedArray(img.data) };
+  for (let y = 0; y < size; y++) {
+    const from = ((sy + y) * img.width + sx) * 4;
+    out.data.set(img.data.subarray(from, from + size * 4), ((ty + y) * img.width + tx) * 4);
+  }
+  return out;
+}
+
+describe("copyMoveDetector", () => {
+  it("finds a cloned patch and its translation", () => {
+    const forged = clone(texture(160, 128, 3), 12, 16, 40, 96, 70);
+    const result = detectCopyMove(forged);
+
+    expect(result.pairs).toHaveLength(1);
+    const [pair] = result.pairs;
+    expect(pair.transform).toMatchObject({ dx: 84, dy: 54, scale: 1, rotation: 0 });
+    expect(pair.source.x * 160).toBeCloseTo(12, 0);
+    expect(pair.target.y * 128).toBeCloseTo(70, 0);
+    expect(pair.source.width * 160).toBeCloseTo(40, 0);
+    expect(result.fakeProbability).toBeGreaterThan(0.9);
+  });
+
+  it("reports nothing for an untouched image", () => {
+    const result = detectCopyMove(texture(160, 128, 5));
+    expect(result.blocksCompared).toBeGreaterThan(1000);
+    expect(result.pairs).toHaveLength(0);
+    expect(result.fakeProbability).toBe(0);
+  });
+
+  it("estimates scale and rotation from matched block centres", () => {
+    const angle = Math.PI / 12;
+    const points = [[0, 0], [40, 0], [0, 40], [40, 40], [20, 10]].map(([x, y]) => ({
+      sx: x,
+      sy: y,
+      tx: 100 + 1.5 * (x * Math.cos(angle) - y * Math.sin(angle)),
+      ty: 50 + 1.5 * (x * Math.sin(angle) + y * Math.cos(angle)),
+    }));
+    const t = estimateTransform(points);
+    expect(t.scale).toBeCloseTo(1.5, 2);
+    expect(t.rotation).toBeCloseTo(15, 1);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { createImage, seededRandom, type RGBAImage } from "@/lib/imageProcessing";
+import { computeErrorMap, renderErrorOverlay, summarizeErrorMap } from "@/lib/errorLevelAnalysis";
+
+const fill = (width: number, height: number, pixel: (x: number, y: number) => number) => {
+  const img = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const v = pixel(x, y);
+      img.data[p] = img.data[p + 1] = img.data[p + 2] = v;
+      img.data[p + 3] = 255;
+    }
+  }
+  return img;
+};
+
+/** Stand-in for a JPEG re-save: every pixel shifts by `base` ± 1, more inside `patch`. */
+function resave(img: RGBAImage, base: number, patch?: { x: number; y: number; size: number; error: number }): RGBAImage {
+  const rand = seededRandom(7);
+  return fill(img.width, img.height, (x, y) => {
+    const inside = patch && x >= patch.x && x < patch.x + patch.size && y >= patch.y && y < patch.y + patch.size;
+    const p = (y * img.width + x) * 4;
+    return img.data[p] + (inside ? patch.error : base) + Math.round(rand() * 2 - 1);
+  });
+}
+
+describe("errorLevelAnalysis", () => {
+  it("computeErrorMap takes the largest channel difference", () => {
+    const a = fill(2, 1, () => 100);
+    const b = fill(2, 1, () => 100);
+    b.data[1] = 110;
+    b.data[6] = 97;
+    expect(Array.from(computeErrorMap(a, b))).toEqual([10, 3]);
+    expect(() => computeErrorMap(a, fill(1, 1, () => 0))).toThrow();
+  });
+
+  it("localizes a block with a different error level", () => {
+    const original = fill(128, 128, (x, y) => 60 + ((x * 3 + y * 5) % 90));
+    const errors = computeErrorMap(original, resave(original, 2, { x: 64, y: 32, size: 32, error: 14 }));
+    const ela = summarizeErrorMap(errors, 128, 128);
+
+    expect(ela.regions).toHaveLength(1);
+    expect(ela.regions[0]).toMatchObject({ x: 0.5, y: 0.25, width: 0.25, height: 0.25 });
+    expect(ela.regions[0].contrast).toBeGreaterThan(4);
+    expect(ela.fakeProbability).toBeGreaterThan(0.7);
+  });
+
+  it("does not flag uniform error levels", () => {
+    const original = fill(128, 128, (x, y) => 60 + ((x * 3 + y * 5) % 90));
+    const ela = summarizeErrorMap(computeErrorMap(original, resave(original, 6)), 128, 128);
+    expect(ela.regions).toHaveLength(0);
+    expect(ela.fakeProbability).toBe(0);
+    expect(ela.medianBlockError).toBeGreaterThan(4);
+  });
+
+  it("renders zero error as black and saturates large errors", () => {
+    const overlay = renderErrorOverlay(Float32Array.from([0, 255]), 2, 1);
+    expect(Array.from(overlay.data)).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { extractMetadataFromBytes } from "@/lib/mediaMetadata";
+import { detectGeneratorMetadata, parseComfyPrompt, parseWebUiParameters } from "@/lib/generatorMetadata";
+import { matchFingerprint, type ArtifactSignature } from "@/lib/fingerprintLibrary";
+
+const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+const u32 = (n: number) => [(n >>> 24) & 255, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const utf8 = (s: string) => Array.from(new TextEncoder().encode(s));
+
+const chunk = (type: string, data: number[]) => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+
+function buildPng(text: Record<string, string>): Uint8Array {
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk("IHDR", [...u32(512), ...u32(768), 8, 2, 0, 0, 0]),
+    // iTXt: keyword, compression flag + method, empty language and translated keyword
+    ...Object.entries(text).flatMap(([k, v]) => chunk("iTXt", [...ascii(k), 0, 0, 0, 0, 0, ...utf8(v)])),
+    ...chunk("IEND", []),
+  ]);
+}
+
+const segment = (marker: number, payload: number[]) => [0xff, marker, ...u16(payload.length + 2), ...payload];
+
+/** JPEG with a UNICODE (UTF-16LE) EXIF UserComment and optional XMP. */
+function buildJpeg(userComment: string | null, xmp: string | null): Uint8Array {
+  const segments: number[] = [];
+  if (userComment !== null) {
+    const comment = [...ascii("UNICODE\0"), ...Array.from(userComment).flatMap((c) => [c.charCodeAt(0), 0])];
+    // II TIFF: IFD0 → Exif IFD → UserComment (type 7, UNDEFINED)
+    const tiff = [
+      0x49, 0x49, 42, 0, 8, 0, 0, 0,
+      1, 0, 0x69, 0x87, 4, 0, 1, 0, 0, 0, 26, 0, 0, 0, 0, 0, 0, 0,
+      1, 0, 0x86, 0x92, 7, 0, ...[comment.length & 255, (comment.length >> 8) & 255, 0, 0], 44, 0, 0, 0, 0, 0, 0, 0,
+      ...comment,
+    ];
+    segments.push(...segment(0xe1, [...ascii("Exif\0\0"), ...tiff]));
+  }
+  if (xmp !== null) segments.push(...segment(0xe1, [...ascii("http://ns.adobe.com/xap/1.0/\0"), ...utf8(xmp)]));
+  const sof = [8, ...u16(768), ...u16(512), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+  return new Uint8Array([0xff, 0xd8, ...segments, ...segment(0xc0, sof), 0xff, 0xda, 0, 2]);
+}
+
+const A1111 = `portrait of an astronaut, oil painting, highly detailed
+Negative prompt: blurry, lowres
+Steps: 28, Sampler: DPM++ 2M, Schedule type: Karras, CFG scale: 6.5, Seed: 1234567890, Size: 512x768, Model hash: 6ce0161689, Model: v1-5-pruned-emaonly, Lora hashes: "detail: abc, style: def", Version: v1.9.4`;
+
+const COMFY_PROMPT = {
+  "3": { class_type: "KSampler", inputs: { seed: 42, steps: 20, cfg: 8, sampler_name: "euler", scheduler: "normal", model: ["4", 0], positive: ["6", 0], negative: ["7", 0], latent_image: ["5", 0] } },
+  "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: "sd_xl_base_1.0.safetensors" } },
+  "5": { class_type: "EmptyLatentImage", inputs: { width: 1024, height: 1024, batch_size: 1 } },
+  "6": { class_type: "CLIPTextEncode", inputs: { text: "a lighthouse at dusk", clip: ["4", 1] } },
+  "7": { class_type: "CLIPTextEncode", inputs: { text: "text, watermark", clip: ["4", 1] } },
+};
+
+const XMP_AI = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/">
+<Iptc4xmpExt:DigitalSourceType rdf:resource="http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia"/>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+const SIGNATURE: ArtifactSignature = {
+  frequencyPatternScore: 0.7,
+  textureUniformityScore: 0.75,
+  colorNoiseVariance: 0.45,
+  landmarkSymmetryError: 0.35,
+  heatmapActivationIntensity: 0.65,
+};
+
+describe("generatorMetadata", () => {
+  it("parses web-UI parameters text", () => {
+    expect(parseWebUiParameters(A1111)).toEqual({
+      prompt: "portrait of an astronaut, oil painting, highly detailed",
+      negativePrompt: "blurry, lowres",
+      model: "v1-5-pruned-emaonly",
+      modelHash: "6ce0161689",
+      seed: "1234567890",
+      sampler: "DPM++ 2M (Karras)",
+      steps: 28,
+      cfgScale: 6.5,
+      size: "512x768",
+    });
+    expect(parseWebUiParameters("just a caption")).toBeNull();
+  });
+
+  it("follows ComfyUI node links to the prompt, model and sampler", () => {
+    expect(parseComfyPrompt(COMFY_PROMPT)).toEqual({
+      prompt: "a lighthouse at dusk",
+      negativePrompt: "text, watermark",
+      model: "sd_xl_base_1.0.safetensors",
+      seed: "42",
+      sampler: "euler",
+      scheduler: "normal",
+      steps: 20,
+      cfgScale: 8,
+      size: "1024x1024",
+    });
+  });
+
+  it("attributes PNG text chunks to their generator", async () => {
+    const a1111 = detectGeneratorMetadata((await extractMetadataFromBytes(buildPng({ parameters: A1111 })))!);
+    expect(a1111).toMatchObject({ detected: true, generator: "StableDiffusion", label: "Stable Diffusion (AUTOMATIC1111)", confidence: 0.97 });
+    expect(a1111.traces[0]).toMatchObject({ source: "PNG text", field: "parameters" });
+
+    const comfy = detectGeneratorMetadata((await extractMetadataFromBytes(
+      buildPng({ prompt: JSON.stringify(COMFY_PROMPT), workflow: JSON.stringify({ nodes: [] }) }),
+    ))!);
+    expect(comfy.label).toBe("Stable Diffusion (ComfyUI)");
+    expect(comfy.parameters.model).toBe("sd_xl_base_1.0.safetensors");
+  });
+
+  it("reads UserComment parameters and the XMP digital source type from a JPEG", async () => {
+    const meta = (await extractMetadataFromBytes(buildJpeg(A1111, XMP_AI)))!;
+    const result = detectGeneratorMetadata(meta);
+
+    expect(result.digitalSourceType).toBe("trainedAlgorithmicMedia");
+    expect(result.parameters.seed).toBe("1234567890");
+    expect(result.confidence).toBeCloseTo(0.98);
+    expect(result.traces.map((t) => t.field)).toEqual(["UserComment", "Iptc4xmpExt:DigitalSourceType"]);
+
+    const declaredOnly = detectGeneratorMetadata((await extractMetadataFromBytes(buildJpeg(null, XMP_AI)))!);
+    expect(declaredOnly).toMatchObject({ detected: true, generator: null, confidence: 0.9 });
+    expect(detectGeneratorMetadata((await extractMetadataFromBytes(buildJpeg(null, null)))!).detected).toBe(false);
+  });
+
+  it("overrides signature matching with a confident metadata attribution", async () => {
+    const heuristic = matchFingerprint(SIGNATURE);
+    expect(heuristic.generatorMatch.source).toBe("signature");
+    expect(heuristic.metadataAttribution).toBeUndefined();
+
+    const metadata = detectGeneratorMetadata((await extractMetadataFromBytes(buildPng({ parameters: A1111 })))!);
+    const attributed = matchFingerprint(SIGNATURE, metadata);
+    expect(attributed.generatorMatch).toEqual({
+      name: "StableDiffusion",
+      label: "Stable Diffusion (AUTOMATIC1111)",
+      similarity: 0.97,
+      source: "metadata",
+    });
+    expect(attributed.alternativeMatches.some((m) => m.name === "StableDiffusion")).toBe(false);
+    expect(attributed.alternativeMatches).toHaveLength(heuristic.alternativeMatches.length);
+  });
+});
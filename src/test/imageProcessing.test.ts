@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { createImage, downscale, gaussianBlur, equalizeHistogram, toLuminance } from "@/lib/imageProcessing";
+
+const fill = (width: number, height: number, pixel: (x: number, y: number) => number) => {
+  const img = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const v = pixel(x, y);
+      img.data[p] = img.data[p + 1] = img.data[p + 2] = v;
+      img.data[p + 3] = 255;
+    }
+  }
+  return img;
+};
+
+describe("imageProcessing", () => {
+  it("downscale averages covered pixels", () => {
+    const checker = fill(4, 4, (x, y) => ((x + y) % 2 ? 255 : 0));
+    const half = downscale(checker, 0.5);
+    expect(half.width).toBe(2);
+    expect(half.height).toBe(2);
+    expect(Array.from(toLuminance(half)).every((v) => Math.abs(v - 127.5) < 1)).toBe(true);
+  });
+
+  it("gaussianBlur preserves flat regions and softens edges", () => {
+    const flat = fill(8, 8, () => 90);
+    expect(Array.from(gaussianBlur(flat, 2).data.filter((_, i) => i % 4 === 0))).toEqual(new Array(64).fill(90));
+
+    const edge = fill(8, 1, (x) => (x < 4 ? 0 : 255));
+    const blurred = toLuminance(gaussianBlur(edge, 1));
+    expect(blurred[3]).toBeGreaterThan(0);
+    expect(blurred[4]).toBeLessThan(255);
+  });
+
+  it("equalizeHistogram stretches a narrow range to full scale", () => {
+    const narrow = fill(16, 1, (x) => 100 + x);
+    const luma = toLuminance(equalizeHistogram(narrow));
+    expect(Math.round(luma[0])).toBe(0);
+    expect(Math.round(luma[15])).toBe(255);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { seededRandom } from "@/lib/imageProcessing";
+import { extractMetadataFromBytes } from "@/lib/mediaMetadata";
+import { checkCompression } from "@/lib/metadataAnalyzer";
+import {
+  IJG_LUMINANCE,
+  ZIGZAG,
+  analyzeJpegCompression,
+  estimateQuality,
+  scaledIjgTable,
+} from "@/lib/jpegForensics";
+
+const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+const segment = (marker: number, payload: number[]) => [0xff, marker, ...u16(payload.length + 2), ...payload];
+
+// Test Huffman tables: every DC category gets a 4-bit code, every AC symbol an 8-bit code
+const DC_SYMBOLS = Array.from({ length: 12 }, (_, i) => i);
+const AC_SYMBOLS = [0x00, 0xf0, ...Array.from({ length: 160 }, (_, i) => ((i / 10) | 0) * 16 + (i % 10) + 1)];
+const dht = (tc: number, length: number, symbols: number[]) => {
+  const bits = new Array(16).fill(0);
+  bits[length - 1] = symbols.length;
+  return [tc << 4, ...bits, ...symbols];
+};
+
+function bitWriter() {
+  const out: number[] = [];
+  let acc = 0;
+  let count = 0;
+  const flush = () => {
+    while (count >= 8) {
+      const byte = (acc >> (count - 8)) & 255;
+      out.push(byte);
+      if (byte === 0xff) out.push(0);
+      count -= 8;
+    }
+    acc &= (1 << count) - 1;
+  };
+  return {
+    write(value: number, n: number) {
+      acc = (acc << n) | (value & ((1 << n) - 1));
+      count += n;
+      flush();
+    },
+    pad() {
+      if (count > 0) this.write((1 << (8 - count)) - 1, 8 - count);
+    },
+    out,
+  };
+}
+
+/**
+ * Baseline grayscale JPEG from quantized coefficients (zigzag order, DC 0).
+ */
+function encodeJpeg(width: number, height: number, table: number[], blocks: Int16Array[], restartInterval = 0): Uint8Array {
+  const w = bitWriter();
+  const size = (v: number) => (v === 0 ? 0 : 32 - Math.clz32(Math.abs(v)));
+  const ac = (symbol: number) => w.write(AC_SYMBOLS.indexOf(symbol), 8);
+  const scan: number[] = [];
+
+  blocks.forEach((coefs, b) => {
+    if (restartInterval && b > 0 && b % restartInterval === 0) {
+      w.pad();
+      scan.push(...w.out.splice(0), 0xff, 0xd0 + ((b / restartInterval - 1) % 8));
+    }
+    w.write(DC_SYMBOLS.indexOf(0), 4);
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+      const v = coefs[k];
+      if (v === 0) {
+        run++;
+        continue;
+      }
+      for (; run > 15; run -= 16) ac(0xf0);
+      const s = size(v);
+      ac((run << 4) | s);
+      w.write(v > 0 ? v : v + (1 << s) - 1, s);
+      run = 0;
+    }
+    if (run > 0) ac(0x00);
+  });
+  w.pad();
+  scan.push(...w.out);
+
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xdb, [0, ...ZIGZAG.map((n) => table[n])]),
+    ...segment(0xc0, [8, ...u16(height), ...u16(width), 1, 1, 0x11, 0]),
+    ...segment(0xc4, dht(0, 4, DC_SYMBOLS)),
+    ...segment(0xc4, dht(1, 8, AC_SYMBOLS)),
+    ...(restartInterval ? segment(0xdd, u16(restartInterval)) : []),
+    ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+    ...scan,
+    0xff, 0xd9,
+  ]);
+}
+
+/** Laplacian DCT coefficients quantized with `table`, optionally after a first pass with `prior`. */
+function coefficients(count: number, table: number[], prior: number[] | null, seed: number): Int16Array[] {
+  const rand = seededRandom(seed);
+  const laplace = (b: number) => {
+    const u = rand() - 0.5;
+    return -b * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+  };
+  const q = (v: number) => Math.sign(v) * Math.round(Math.abs(v));
+  return Array.from({ length: count }, () => {
+    const block = new Int16Array(64);
+    for (let k = 1; k < 15; k++) {
+      const n = ZIGZAG[k];
+      let x = laplace(40 / k);
+      // Dequantize after the first save; pixel rounding adds a little noise
+      if (prior) x = q(x / prior[n]) * prior[n] + (rand() - 0.5);
+      block[k] = q(x / table[n]);
+    }
+    return block;
+  });
+}
+
+describe("jpegForensics", () => {
+  it("reads quantization tables and matches the IJG library", () => {
+    const table = scaledIjgTable(IJG_LUMINANCE, 90);
+    const jpeg = encodeJpeg(64, 64, table, coefficients(64, table, null, 1));
+    const result = analyzeJpegCompression(jpeg)!;
+
+    expect(result.coding).toBe("baseline");
+    expect(result.quantTables[0].values).toEqual(table);
+    expect(result.quality).toBe(90);
+    expect(result.standardTables).toBe(true);
+    expect(result.tableMatch).toMatchObject({ id: "ijg-q90", kind: "software", exact: true });
+    expect(result.blocksAnalyzed).toBe(64);
+    // Too few coefficients to judge the compression history
+    expect(result.doubleCompression?.positions).toHaveLength(0);
+  });
+
+  it("estimates the quality of non-standard tables", () => {
+    const custom = scaledIjgTable(IJG_LUMINANCE, 75).map((v, i) => v + (i % 3 === 0 ? 1 : 0));
+    expect(estimateQuality(custom)).toEqual({ quality: 75, exact: false });
+  });
+
+  it("finds no earlier compression in a single-compressed file", () => {
+    const table = scaledIjgTable(IJG_LUMINANCE, 90);
+    const result = analyzeJpegCompression(encodeJpeg(320, 256, table, coefficients(1280, table, null, 2)))!;
+
+    expect(result.blocksAnalyzed).toBe(1280);
+    expect(result.doubleCompression!.detected).toBe(false);
+    expect(result.doubleCompression!.probability).toBeLessThan(0.3);
+  });
+
+  it("detects double compression and estimates the prior quality", () => {
+    const table = scaledIjgTable(IJG_LUMINANCE, 90);
+    const prior = scaledIjgTable(IJG_LUMINANCE, 60);
+    const result = analyzeJpegCompression(encodeJpeg(320, 256, table, coefficients(1280, table, prior, 3), 40))!;
+    const dc = result.doubleCompression!;
+
+    expect(result.blocksAnalyzed).toBe(1280);
+    expect(dc.detected).toBe(true);
+    expect(dc.probability).toBeGreaterThan(0.9);
+    const fitted = dc.positions.filter((p) => p.priorStep !== null);
+    expect(fitted.length).toBeGreaterThanOrEqual(4);
+    fitted.forEach((p) => expect(p.priorStep).toBe(prior[p.position]));
+    expect(Math.abs(dc.priorQuality! - 60)).toBeLessThanOrEqual(3);
+  });
+
+  it("reports an earlier compression and software tables in a camera file", async () => {
+    const table = scaledIjgTable(IJG_LUMINANCE, 90);
+    const jpeg = encodeJpeg(320, 256, table, coefficients(1280, table, scaledIjgTable(IJG_LUMINANCE, 60), 4));
+    // II TIFF with IFD0 → Make = "Canon"
+    const tiff = [0x49, 0x49, 42, 0, 8, 0, 0, 0, 1, 0, 0x0f, 0x01, 2, 0, 6, 0, 0, 0, 26, 0, 0, 0, 0, 0, 0, 0, ...ascii("Canon\0")];
+    const app1 = segment(0xe1, [...ascii("Exif\0\0"), ...tiff]);
+    const bytes = new Uint8Array([0xff, 0xd8, ...app1, ...jpeg.subarray(2)]);
+
+    const meta = (await extractMetadataFromBytes(bytes))!;
+    const findings = checkCompression(meta, analyzeJpegCompression(bytes)!);
+
+    expect(findings.map((f) => f.check)).toEqual(["double_compression", "quantization_table"]);
+    expect(findings[0].message).toMatch(/earlier quality ≈ 6\d, current ≈ 90/);
+    expect(findings[1]).toMatchObject({ severity: "low" });
+    expect(findings[1].evidence).toContain('"Canon"');
+  });
+});
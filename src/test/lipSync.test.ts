@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { createImage, seededRandom, type RGBAImage } from "@/lib/imageProcessing";
+import { analyzeSyncSignals, locateFace, mouthOpening } from "@/lib/lipSync";
+
+const FPS = 15;
+
+/** Syllable-rate openness (about 4 Hz) with pauses, 0–1. */
+function syllables(frames: number, seed: number): number[] {
+  const rand = seededRandom(seed);
+  const out: number[] = [];
+  while (out.length < frames) {
+    const length = 3 + Math.floor(rand() * 4);
+    const peak = rand() < 0.15 ? 0 : 0.4 + rand() * 0.6;
+    for (let i = 0; i < length; i++) out.push(peak * Math.sin((Math.PI * (i + 0.5)) / length));
+  }
+  return out.slice(0, frames);
+}
+
+/** Loudness that follows the openness `lag` frames later, in dB. */
+function loudnessFor(openness: number[], lag: number, seed: number): number[] {
+  const rand = seededRandom(seed);
+  return openness.map((_, i) => {
+    const o = openness[i - lag] ?? 0;
+    return -60 + 45 * Math.sqrt(o) + (rand() - 0.5) * 3;
+  });
+}
+
+function face(openness: number): RGBAImage {
+  const img = createImage(80, 100);
+  for (let y = 0; y < 100; y++) {
+    for (let x = 0; x < 80; x++) {
+      const p = (y * 80 + x) * 4;
+      const inFace = ((x - 40) / 25) ** 2 + ((y - 50) / 35) ** 2 <= 1;
+      const inMouth = Math.abs(x - 40) <= 8 && Math.abs(y - 70) <= 1 + openness * 5;
+      const [r, g, b] = inMouth ? [70, 25, 30] : inFace ? [224, 172, 140] : [40, 60, 120];
+      img.data.set([r, g, b, 255], p);
+    }
+  }
+  return img;
+}
+
+describe("lipSync", () => {
+  it("finds the face and measures how far the mouth is open", () => {
+    const box = locateFace(face(0.2))!;
+    expect(box.x).toBeGreaterThanOrEqual(14);
+    expect(box.x + box.width).toBeLessThanOrEqual(67);
+    expect(box.y).toBeGreaterThanOrEqual(14);
+
+    const closed = mouthOpening(face(0), locateFace(face(0))!);
+    const open = mouthOpening(face(1), locateFace(face(1))!);
+    expect(open).toBeGreaterThan(closed * 2);
+    expect(locateFace(createImage(80, 100))).toBeNull();
+  });
+
+  it("reports synced speech with no offset", () => {
+    const mouth = syllables(300, 1);
+    const result = analyzeSyncSignals(mouth, loudnessFor(mouth, 0, 2), FPS);
+    expect(result.status).toBe("in_sync");
+    expect(Math.abs(result.offsetSeconds!)).toBeLessThan(0.05);
+    expect(result.peakCorrelation).toBeGreaterThan(0.6);
+    expect(result.divergentSegments).toEqual([]);
+  });
+
+  it("estimates how far the audio trails the picture", () => {
+    const mouth = syllables(300, 3);
+    const result = analyzeSyncSignals(mouth, loudnessFor(mouth, 4, 4), FPS);
+    expect(result.status).toBe("offset");
+    expect(result.offsetSeconds).toBeCloseTo(4 / FPS, 1);
+  });
+
+  it("flags the stretch where the lips stop following the speech", () => {
+    const mouth = syllables(300, 5);
+    const loudness = loudnessFor(mouth, 0, 6);
+    const dubbed = syllables(90, 7);
+    const loudnessDubbed = [...loudness.slice(0, 150), ...loudnessFor(dubbed, 0, 8), ...loudness.slice(240)];
+    const result = analyzeSyncSignals(mouth, loudnessDubbed, FPS);
+
+    expect(result.divergentSegments).toHaveLength(1);
+    const [segment] = result.divergentSegments;
+    expect(segment.start).toBeGreaterThanOrEqual(9);
+    expect(segment.end).toBeLessThanOrEqual(17);
+    expect(result.windows.find((w) => w.start === 2)!.divergent).toBe(false);
+  });
+
+  it("stays inconclusive without a face", () => {
+    const mouth = syllables(300, 9);
+    const result = analyzeSyncSignals(mouth.map(() => null), loudnessFor(mouth, 0, 10), FPS);
+    expect(result.status).toBe("inconclusive");
+    expect(result.offsetSeconds).toBeNull();
+  });
+});
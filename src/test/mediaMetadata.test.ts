@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { extractMetadataFromBytes } from "@/lib/mediaMetadata";
+import { evaluateMetadata, toMetadataAnalysis } from "@/lib/metadataAnalyzer";
+
+type Entry = [tag: number, type: 2 | 3 | 4 | 5, value: string | number[]];
+
+const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+const u32 = (n: number) => [(n >>> 24) & 255, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+function encode(type: Entry[1], value: Entry[2]): { bytes: number[]; count: number } {
+  if (type === 2) {
+    const bytes = [...ascii(value as string), 0];
+    return { bytes, count: bytes.length };
+  }
+  const values = value as number[];
+  const bytes = values.flatMap((v) => (type === 3 ? u16(v) : type === 4 ? u32(v) : [...u32(Math.round(v * 100)), ...u32(100)]));
+  return { bytes, count: values.length };
+}
+
+/** Big-endian TIFF with IFD0 → Exif IFD and GPS IFD. */
+function buildTiff(ifd0: Entry[], exif: Entry[], gps: Entry[]): number[] {
+  const ifds: Entry[][] = [[...ifd0, [0x8769, 4, [0]], [0x8825, 4, [0]]], exif, gps];
+  const size = (entries: Entry[]) =>
+    2 + entries.length * 12 + 4 +
+    entries.reduce((n, [, t, v]) => {
+      const len = encode(t, v).bytes.length;
+      return n + (len > 4 ? len + (len % 2) : 0);
+    }, 0);
+  const offsets = [8, 8 + size(ifds[0])];
+  offsets.push(offsets[1] + size(ifds[1]));
+  ifds[0][ifds[0].length - 2][2] = [offsets[1]];
+  ifds[0][ifds[0].length - 1][2] = [offsets[2]];
+
+  const out = [0x4d, 0x4d, 0, 42, ...u32(8)];
+  ifds.forEach((entries, i) => {
+    let dataAt = offsets[i] + 2 + entries.length * 12 + 4;
+    const head = [...u16(entries.length)];
+    const tail: number[] = [];
+    for (const [tag, type, value] of entries) {
+      const { bytes, count } = encode(type, value);
+      head.push(...u16(tag), ...u16(type), ...u32(count));
+      if (bytes.length <= 4) {
+        head.push(...bytes, ...new Array(4 - bytes.length).fill(0));
+      } else {
+        head.push(...u32(dataAt));
+        const padded = bytes.length % 2 ? [...bytes, 0] : bytes;
+        tail.push(...padded);
+        dataAt += padded.length;
+      }
+    }
+    out.push(...head, ...u32(0), ...tail);
+  });
+  return out;
+}
+
+const segment = (marker: number, payload: number[]) => [0xff, marker, ...u16(payload.length + 2), ...payload];
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+  xmlns:stEvt="http://ns.adobe.com/xap/1.0/sType/ResourceEvent#" xmp:CreatorTool="Adobe Photoshop 25.0 (Windows)"
+  xmp:CreateDate="2024-05-01T10:00:00">
+<xmpMM:History><rdf:Seq>
+  <rdf:li stEvt:action="created" stEvt:when="2024-05-01T10:00:00"/>
+  <rdf:li stEvt:action="saved" stEvt:softwareAgent="Adobe Photoshop 25.0 (Windows)" stEvt:when="2024-05-03T09:00:00"/>
+</rdf:Seq></xmpMM:History>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+function buildJpeg(): Uint8Array {
+  const tiff = buildTiff(
+    [
+      [0x010f, 2, "Canon"],
+      [0x0110, 2, "EOS R5"],
+      [0x0131, 2, "Adobe Photoshop 25.0 (Windows)"],
+      [0x0132, 2, "2024:05:03 09:00:00"],
+    ],
+    [
+      [0x9003, 2, "2024:05:01 10:00:00"],
+      [0xa002, 4, [8192]],
+      [0xa003, 4, [5464]],
+    ],
+    [
+      // Latitude without its N/S reference
+      [0x0002, 5, [37, 46, 29.64]],
+      [0x0003, 2, "W"],
+      [0x0004, 5, [122, 25, 9.84]],
+    ],
+  );
+  const sof = [8, ...u16(600), ...u16(800), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe1, [...ascii("Exif\0\0"), ...tiff]),
+    ...segment(0xe1, [...ascii("http://ns.adobe.com/xap/1.0/\0"), ...new TextEncoder().encode(XMP)]),
+    ...segment(0xc0, sof),
+    0xff, 0xda, 0, 2,
+  ]);
+}
+
+describe("mediaMetadata", () => {
+  it("parses EXIF, GPS and XMP from a JPEG", async () => {
+    const meta = (await extractMetadataFromBytes(buildJpeg()))!;
+
+    expect(meta.format).toBe("jpeg");
+    expect(meta.width).toBe(800);
+    expect(meta.height).toBe(600);
+    expect(meta.exif?.tags.Make).toBe("Canon");
+    expect(meta.exif?.tags.DateTimeOriginal).toBe("2024:05:01 10:00:00");
+    expect(meta.exif?.gps.GPSLongitudeRef).toBe("W");
+    expect(meta.xmp?.properties["xmp:CreatorTool"]).toBe("Adobe Photoshop 25.0 (Windows)");
+    expect(meta.xmp?.history.map((e) => e.action)).toEqual(["created", "saved"]);
+    expect(meta.structure.slice(0, 4)).toEqual(["SOI", "APP1 Exif", "APP1 XMP", "SOF0"]);
+  });
+
+  it("reports editing software, timestamps, GPS and dimension findings with evidence", async () => {
+    const meta = (await extractMetadataFromBytes(buildJpeg()))!;
+    const details = evaluateMetadata(meta, new Date("2025-01-01T00:00:00Z"));
+    const byCheck = (check: string) => details.filter((d) => d.check === check);
+
+    expect(byCheck("editing_software")[0]).toMatchObject({ severity: "medium", message: "Edited with Adobe Photoshop" });
+    expect(byCheck("editing_software")[0].evidence).toContain('EXIF Software = "Adobe Photoshop 25.0 (Windows)"');
+    expect(byCheck("timestamp_mismatch")[0]).toMatchObject({ severity: "medium", message: "File was modified 47.0 h after capture" });
+    expect(byCheck("gps_inconsistency")[0].severity).toBe("high");
+    expect(byCheck("dimension_mismatch")).toHaveLength(1);
+
+    const analysis = toMetadataAnalysis(meta, details);
+    expect(analysis.hasMetadata).toBe(true);
+    expect(analysis.suspicious).toBe(true);
+    expect(analysis.fields?.find((f) => f.label === "Camera")?.value).toBe("Canon EOS R5");
+  });
+
+  it("reads PNG text chunks and MP4 movie headers", async () => {
+    const chunk = (type: string, data: number[]) => [...u32(data.length), ...ascii(type), ...data, 0, 0, 0, 0];
+    const png = new Uint8Array([
+      0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ...chunk("IHDR", [...u32(64), ...u32(32), 8, 6, 0, 0, 0]),
+      ...chunk("tEXt", ascii("Software\0GIMP 2.10.34")),
+      ...chunk("IEND", []),
+    ]);
+    const pngMeta = (await extractMetadataFromBytes(png))!;
+    expect(pngMeta.width).toBe(64);
+    expect(pngMeta.container.Software).toBe("GIMP 2.10.34");
+    expect(evaluateMetadata(pngMeta)[0].message).toBe("Edited with GIMP");
+
+    const box = (type: string, data: number[]) => [...u32(data.length + 8), ...ascii(type), ...data];
+    // 2024-05-01T00:00:00Z in seconds since 1904
+    const created = Date.UTC(2024, 4, 1) / 1000 + 2082844800;
+    const mvhd = box("mvhd", [0, 0, 0, 0, ...u32(created), ...u32(created), ...u32(1000), ...u32(5000), ...new Array(80).fill(0)]);
+    const too = box("\xa9too", [...u16(9), ...u16(0), ...ascii("Lavf60.16")]);
+    const mp4 = new Uint8Array([...box("ftyp", ascii("isom\0\0\0\0isom")), ...box("moov", [...mvhd, ...box("udta", too)])]);
+    const mp4Meta = (await extractMetadataFromBytes(mp4))!;
+
+    expect(mp4Meta.format).toBe("mp4");
+    expect(mp4Meta.container.MovieCreationTime).toBe("2024-05-01T00:00:00.000Z");
+    expect(mp4Meta.container.Duration).toBe("5.00s");
+    expect(evaluateMetadata(mp4Meta)[0]).toMatchObject({ severity: "low", message: "Re-encoded with FFmpeg" });
+  });
+});
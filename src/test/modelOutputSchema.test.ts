@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  mergeDefaults,
+  parseModelOutput,
+  parseRepairAttempts,
+  pruneInvalid,
+  validateWithRepair,
+} from "../../supabase/functions/analyze-media/schema.ts";
+
+const modality = { score: 80, confidence: 90, findings: ["Consistent"] };
+
+/** A complete, valid answer for a still image. */
+const VALID = {
+  trustScore: 82,
+  verdict: "Likely authentic",
+  uncertaintyFlag: false,
+  uncertaintyReason: "",
+  ganFingerprints: { detected: false, patterns: [], confidence: 70 },
+  textureAnalysis: { laplacianVariance: "normal", smoothnessAnomalies: false, noiseConsistency: 88 },
+  metadataAnalysis: { hasMetadata: true, suspicious: false, findings: ["EXIF present"] },
+  observations: [{ type: "positive", title: "Natural lighting", description: "Shadows agree" }],
+  robustnessAnalysis: {
+    cleanConfidence: 82,
+    compressionResilience: -4,
+    degradationResilience: -6,
+    motionSensitivity: -10,
+    noiseTolerance: -5,
+  },
+  graphStats: { keypointsDetected: 30, suspiciousNodes: 1, graphCoherence: 91 },
+  heatmapData: [{ x: 120, y: 80, radius: 20, intensity: 0.4 }],
+  audioFindings: { hasAudio: false, anomalyRegions: [], voiceConsistency: 80, backgroundNoise: "natural" },
+  temporalAnalysis: { frameConsistency: 90, motionNaturalness: 90, temporalAnomalies: [] },
+  modalityBreakdown: { visual: modality, structural: modality },
+};
+
+const json = (value: unknown) => JSON.stringify(value);
+
+describe("model output schema", () => {
+  it("prunes invalid keys and array items from a copy", () => {
+    const raw = { a: { b: 5, c: "keep" }, list: [1, "bad", 3] };
+    const pruned = pruneInvalid(raw, [["a", "b"], ["list", 1, "value"]]) as typeof raw;
+
+    expect(pruned.a).toEqual({ b: undefined, c: "keep" });
+    expect(pruned.list).toHaveLength(3);
+    expect(pruned.list[1]).not.toBe("bad");
+    // The original is untouched
+    expect(raw).toEqual({ a: { b: 5, c: "keep" }, list: [1, "bad", 3] });
+  });
+
+  it("fills cleared keys from the defaults and drops pruned items", () => {
+    const pruned = pruneInvalid({ a: { b: 5 }, list: [1, "bad", 3], extra: true }, [["a", "b"], ["list", 1]]);
+    const merged = mergeDefaults(pruned, { a: { b: 0, c: "default" }, list: [], other: [9] });
+
+    expect(merged).toEqual({ a: { b: 0, c: "default" }, list: [1, 3], other: [9], extra: true });
+    expect(mergeDefaults("not a list", [1, 2])).toEqual([1, 2]);
+    expect(mergeDefaults(null, { x: 1 })).toEqual({ x: 1 });
+  });
+
+  it("accepts a valid answer as is", () => {
+    const parsed = parseModelOutput("```json\n" + json(VALID) + "\n```", "image");
+    expect(parsed).toMatchObject({ usable: true, issues: [] });
+    expect(parsed.data.trustScore).toBe(82);
+  });
+
+  it("defaults invalid fields and names them as issues", () => {
+    const parsed = parseModelOutput(
+      json({ ...VALID, trustScore: 140, heatmapData: [VALID.heatmapData[0], { x: -1, y: 0, radius: 1, intensity: 0 }] }),
+      "image",
+    );
+
+    expect(parsed.usable).toBe(true);
+    expect(parsed.issues.map((i) => i.path)).toEqual(["trustScore", "heatmapData[1].x"]);
+    expect(parsed.data.trustScore).toBe(50);
+    expect(parsed.data.heatmapData).toHaveLength(1);
+    expect(parsed.data.verdict).toBe("Likely authentic");
+  });
+
+  it("marks output with nothing left to keep as unusable", () => {
+    const notJson = parseModelOutput("I cannot analyze this image.", "image");
+    expect(notJson).toMatchObject({ usable: false, issues: [{ path: "$" }] });
+
+    const notObject = parseModelOutput("[1, 2, 3]", "image");
+    expect(notObject.usable).toBe(false);
+    expect(notObject.issues[notObject.issues.length - 1].message).toMatch(/could not be repaired/);
+  });
+
+  it("asks for repairs until the answer validates", async () => {
+    const parse = (content: string) => parseModelOutput(content, "image");
+    const repair = vi.fn()
+      .mockResolvedValueOnce("still not json")
+      .mockResolvedValueOnce(json(VALID));
+
+    const validated = await validateWithRepair(json({ ...VALID, verdict: "" }), parse, repair, 3);
+
+    expect(repair).toHaveBeenCalledTimes(2);
+    expect(repair.mock.calls[1][1].map((i: { path: string }) => i.path)).toEqual(["verdict"]);
+    expect(validated).toMatchObject({ usable: true, issues: [], repairAttempts: 2, content: json(VALID) });
+  });
+
+  it("keeps the best answer when repairs run out", async () => {
+    const parse = (content: string) => parseModelOutput(content, "image");
+    const first = json({ ...VALID, trustScore: -1 });
+    const repair = vi.fn().mockResolvedValue(json({ ...VALID, trustScore: -1, verdict: "" }));
+
+    const validated = await validateWithRepair(first, parse, repair, 1);
+    expect(validated).toMatchObject({ usable: true, repairAttempts: 1, content: first });
+    expect(validated.issues.map((i) => i.path)).toEqual(["trustScore"]);
+
+    const unrepaired = await validateWithRepair("nonsense", parse, repair, 0);
+    expect(unrepaired).toMatchObject({ usable: false, repairAttempts: 0 });
+  });
+
+  it("reads MAX_REPAIR_ATTEMPTS as a whole number", () => {
+    expect(parseRepairAttempts("3")).toBe(3);
+    expect(parseRepairAttempts("0")).toBe(0);
+    for (const bad of [undefined, "", " ", "two", "-1", "1.5", "NaN"]) {
+      expect(parseRepairAttempts(bad)).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { addGaussianNoise, createImage, type RGBAImage } from "@/lib/imageProcessing";
+import { analyzeNoiseResidual, highPassResidual } from "@/lib/noiseResidual";
+
+/** Diagonal gray ramp: content the high-pass filter cancels exactly. */
+function ramp(width: number, height: number): RGBAImage {
+  const img = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      img.data[p] = img.data[p + 1] = img.data[p + 2] = 60 + (x + y) * 0.3;
+      img.data[p + 3] = 255;
+    }
+  }
+  return img;
+}
+
+function paste(base: RGBAImage, patch: RGBAImage, x0: number, y0: number, size: number): RGBAImage {
+  const out = { ...base, data: new Uint8ClampedArray(base.data) };
+  for (let y = y0; y < y0 + size; y++) {
+    const from = (y * base.width + x0) * 4;
+    out.data.set(patch.data.subarray(from, from + size * 4), from);
+  }
+  return out;
+}
+
+describe("noiseResidual", () => {
+  it("cancels smooth content in the high-pass residual", () => {
+    const img = ramp(16, 16);
+    const luma = Float32Array.from({ length: 256 }, (_, i) => 60 + ((i % 16) + Math.floor(i / 16)) * 0.3);
+    const residual = highPassResidual(luma, img.width, img.height);
+    expect(Math.max(...Array.from(residual, Math.abs))).toBeLessThan(1e-3);
+  });
+
+  it("reports uniform noise as consistent", () => {
+    const result = analyzeNoiseResidual(addGaussianNoise(ramp(256, 192), 6, 7));
+
+    expect(result.cols).toBe(8);
+    expect(result.rows).toBe(6);
+    expect(result.medianNoise).toBeGreaterThan(2);
+    expect(result.regions).toHaveLength(0);
+    expect(result.noiseConsistency).toBeGreaterThan(90);
+    expect(Math.max(...result.spliceMap)).toBeLessThan(0.5);
+  });
+
+  it("localizes a pasted region with a different noise level", () => {
+    const base = addGaussianNoise(ramp(256, 192), 6, 7);
+    const clean = addGaussianNoise(ramp(256, 192), 1, 9);
+    const result = analyzeNoiseResidual(paste(base, clean, 96, 64, 64));
+
+    expect(result.regions).toHaveLength(1);
+    const [region] = result.regions;
+    expect(region).toMatchObject({ x: 96 / 256, y: 64 / 192, width: 64 / 256, height: 64 / 192 });
+    expect(region.noiseRatio).toBeLessThan(0.5);
+    expect(region.score).toBeGreaterThan(0.9);
+    expect(result.spliceMap[2 * 8 + 3]).toBeGreaterThan(0.9);
+    expect(result.noiseConsistency).toBeLessThan(20);
+  });
+
+  it("skips clipped blocks instead of flagging them as smooth", () => {
+    const noisy = addGaussianNoise(ramp(256, 192), 6, 7);
+    const white = createImage(256, 192);
+    white.data.fill(255);
+    const result = analyzeNoiseResidual(paste(noisy, white, 0, 0, 64));
+
+    expect(result.blockNoise[0]).toBe(-1);
+    expect(result.spliceMap[0]).toBe(0);
+    expect(result.regions).toHaveLength(0);
+  });
+});
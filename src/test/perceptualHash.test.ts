@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { createImage, gaussianBlur } from "@/lib/imageProcessing";
+import { hashImage, hashSimilarity, histogramSimilarity } from "@/lib/perceptualHash";
+
+const pattern = (size: number, f: (x: number, y: number) => number) => {
+  const img = createImage(size, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = (y * size + x) * 4;
+      const v = f(x, y);
+      img.data[p] = v;
+      img.data[p + 1] = 255 - v;
+      img.data[p + 2] = v / 2;
+      img.data[p + 3] = 255;
+    }
+  }
+  return img;
+};
+
+describe("perceptualHash", () => {
+  const scene = pattern(64, (x, y) => 128 + 100 * Math.sin(x / 7) * Math.cos(y / 11));
+  const other = pattern(64, (x, y) => ((x >> 3) + (y >> 3)) % 2 ? 230 : 20);
+
+  it("produces 64-bit hex hashes", () => {
+    const h = hashImage(scene);
+    expect(h.pHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(h.dHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(h.averageHash).toMatch(/^[0-9a-f]{16}$/);
+    expect(h.colorHistogramSignature).toHaveLength(24);
+  });
+
+  it("is stable under mild blur and distinguishes different content", () => {
+    const a = hashImage(scene);
+    const blurred = hashImage(gaussianBlur(scene, 1));
+    const b = hashImage(other);
+
+    expect(hashSimilarity(a.pHash, blurred.pHash)).toBeGreaterThanOrEqual(0.9);
+    expect(hashSimilarity(a.dHash, blurred.dHash)).toBeGreaterThanOrEqual(0.85);
+    expect(hashSimilarity(a.pHash, b.pHash)).toBeLessThan(0.8);
+    expect(histogramSimilarity(a.colorHistogramSignature, a.colorHistogramSignature)).toBeCloseTo(1, 2);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { createImage, gaussianBlur, seededRandom, type RGBAImage } from "@/lib/imageProcessing";
+import { cropLuminance, estimateFingerprint, identifyCamera, isClaimedCamera } from "@/lib/prnu";
+import { decodeFingerprint, encodeFingerprint, type CameraReference } from "@/lib/cameraFingerprintIndex";
+
+const W = 160;
+const H = 128;
+const CROP = 128;
+
+function gaussian(rand: () => number): number {
+  return Math.sqrt(-2 * Math.log(Math.max(rand(), 1e-12))) * Math.cos(2 * Math.PI * rand());
+}
+
+/** Per-pixel sensitivity deviations of one simulated sensor. */
+function sensor(seed: number): Float32Array {
+  const rand = seededRandom(seed);
+  return Float32Array.from({ length: W * H }, () => 0.03 * gaussian(rand));
+}
+
+/** A smooth random scene, photographed through `k` with shot noise. */
+function photograph(k: Float32Array, seed: number): RGBAImage {
+  const rand = seededRandom(seed);
+  const scene = createImage(W, H);
+  for (let i = 0; i < scene.data.length; i += 4) {
+    scene.data[i] = scene.data[i + 1] = scene.data[i + 2] = 40 + rand() * 160;
+    scene.data[i + 3] = 255;
+  }
+  const smooth = gaussianBlur(scene, 6);
+  const out = createImage(W, H);
+  for (let p = 0; p < W * H; p++) {
+    const v = (smooth.data[p * 4] * 1.5 - 60) * (1 + k[p]) + 1.5 * gaussian(rand);
+    out.data[p * 4] = out.data[p * 4 + 1] = out.data[p * 4 + 2] = v;
+    out.data[p * 4 + 3] = 255;
+  }
+  return out;
+}
+
+function rotateClockwise(img: RGBAImage): RGBAImage {
+  const out = createImage(img.height, img.width);
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      const from = (y * img.width + x) * 4;
+      const to = (x * out.width + (out.width - 1 - y)) * 4;
+      out.data.set(img.data.subarray(from, from + 4), to);
+    }
+  }
+  return out;
+}
+
+function reference(cameraId: string, k: Float32Array, seeds: number[]): CameraReference {
+  const crops = seeds.map((s) => cropLuminance(photograph(k, s), CROP)!);
+  return {
+    cameraId,
+    label: cameraId,
+    make: "Acme",
+    model: cameraId,
+    width: W,
+    height: H,
+    cropSize: CROP,
+    imageCount: crops.length,
+    fingerprint: estimateFingerprint(crops, CROP),
+  };
+}
+
+describe("prnu", () => {
+  const sensorA = sensor(11);
+  const sensorB = sensor(22);
+  const references = [
+    reference("A1", sensorA, [1, 2, 3, 4, 5, 6, 7, 8]),
+    reference("B1", sensorB, [9, 10, 11, 12, 13, 14, 15, 16]),
+  ];
+
+  it("attributes a new photo to the sensor that took it", () => {
+    const result = identifyCamera(photograph(sensorA, 100), references);
+
+    expect(result.referencesCompared).toBe(2);
+    expect(result.verdict).toBe("match");
+    expect(result.matches[0]).toMatchObject({ cameraId: "A1", verdict: "match", shift: { dx: 0, dy: 0 }, rotation: 0 });
+    expect(result.matches[1]).toMatchObject({ cameraId: "B1", verdict: "no_match" });
+  });
+
+  it("finds no match for a sensor without a reference", () => {
+    const result = identifyCamera(photograph(sensor(33), 101), references);
+
+    expect(result.verdict).toBe("no_match");
+    expect(result.matches.every((m) => m.pce < 40)).toBe(true);
+  });
+
+  it("matches a portrait rotation of a landscape sensor", () => {
+    const result = identifyCamera(rotateClockwise(photograph(sensorB, 102)), references);
+
+    expect(result.matches[0]).toMatchObject({ cameraId: "B1", verdict: "match" });
+    expect([90, 270]).toContain(result.matches[0].rotation);
+  });
+
+  it("skips references of another resolution", () => {
+    const other = { ...references[0], width: 200, height: 150 };
+    expect(identifyCamera(photograph(sensorA, 103), [other]).verdict).toBe("no_reference");
+  });
+
+  it("round-trips fingerprints through base64 and names claimed cameras", () => {
+    const k = references[0].fingerprint;
+    expect(decodeFingerprint(encodeFingerprint(k))).toEqual(k);
+    expect(isClaimedCamera(references[0], "acme  A1")).toBe(true);
+    expect(isClaimedCamera(references[0], "Acme B1")).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { searchProvenanceIndex } = vi.hoisted(() => ({ searchProvenanceIndex: vi.fn() }));
+vi.mock("@/lib/provenanceIndex", () => ({ searchProvenanceIndex, fetchReferenceKeyframes: vi.fn() }));
+
+import { matchSignature } from "@/lib/provenanceAnalyzer";
+
+const hit = (sourceId: string, matchType: string, distance: number) => ({
+  id: sourceId,
+  corpus: "news",
+  sourceId,
+  sourceLabel: sourceId.toUpperCase(),
+  matchType,
+  mediaType: matchType === "video_frame" ? "video" : "image",
+  frameTimestamp: matchType === "video_frame" ? 4 : null,
+  publishedAt: null,
+  distance,
+});
+
+describe("provenanceAnalyzer", () => {
+  it("keeps the index's match type and reports closeness separately", async () => {
+    searchProvenanceIndex.mockResolvedValue([hit("clip", "video_frame", 2), hit("photo", "near_duplicate", 12)]);
+
+    const matches = await matchSignature({
+      pHash: "0000000000000000",
+      dHash: "0000000000000000",
+      averageHash: "0000000000000000",
+      colorHistogramSignature: [],
+    });
+
+    expect(matches.map((m) => [m.sourceMatch, m.matchType, m.similarityScore, m.distance])).toEqual([
+      ["clip", "video_frame", 0.97, 2],
+      ["photo", "near_duplicate", 0.81, 12],
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { int64, requestSchema } from "../../supabase/functions/ingest-provenance/schema.ts";
+import { ingestKeyMatches } from "../../supabase/functions/_shared/ingestKey.ts";
+
+const { invoke, computeHashSignature } = vi.hoisted(() => ({
+  invoke: vi.fn(),
+  computeHashSignature: vi.fn(),
+}));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { functions: { invoke } } }));
+vi.mock("@/lib/provenanceAnalyzer", () => ({ computeHashSignature }));
+
+import { ingestReferenceMedia } from "@/lib/provenanceIngest";
+import { hexToInt64 } from "@/lib/provenanceIndex";
+
+const IMAGE_SIGNATURE = {
+  pHash: "ffffffffffffffff",
+  dHash: "7fffffffffffffff",
+  averageHash: "8000000000000000",
+  colorHistogramSignature: Array(24).fill(1 / 24),
+};
+
+const file = (name: string, type: string) => new File(["x"], name, { type });
+
+describe("provenanceIngest", () => {
+  beforeEach(() => {
+    invoke.mockReset();
+    computeHashSignature.mockReset();
+    invoke.mockImplementation(async (_fn: string, { body }: { body: { entries: unknown[] } }) => ({
+      data: { inserted: body.entries.length },
+      error: null,
+    }));
+  });
+
+  it("hashes images and video frames into rows and uploads them in batches", async () => {
+    computeHashSignature.mockImplementation(async (f: File) =>
+      f.type.startsWith("video/")
+        ? { ...IMAGE_SIGNATURE, frameHashes: ["0000000000000001", "0000000000000002"], frameTimestamps: [0, 1] }
+        : IMAGE_SIGNATURE,
+    );
+    const progress: number[] = [];
+
+    const report = await ingestReferenceMedia(
+      [
+        { file: file("a.jpg", "image/jpeg"), sourceId: "a", sourceLabel: "A" },
+        { file: file("clip.mp4", "video/mp4"), sourceId: "clip", sourceLabel: "Clip", publishedAt: "2026-01-01T00:00:00Z" },
+      ],
+      { corpus: "news", ingestKey: "secret", batchSize: 2, onProgress: (done) => progress.push(done) },
+    );
+
+    expect(report).toEqual({ inserted: 3, skipped: [] });
+    expect(progress).toEqual([1, 2]);
+    expect(invoke).toHaveBeenCalledTimes(2);
+    const [[, first], [, second]] = invoke.mock.calls;
+    expect(first.headers).toEqual({ "x-ingest-key": "secret" });
+    expect(first.body.entries).toEqual([
+      expect.objectContaining({ sourceId: "a", matchType: "near_duplicate", pHash: "-1", dHash: "9223372036854775807" }),
+      expect.objectContaining({ sourceId: "clip", matchType: "video_frame", frameIndex: 0, frameTimestamp: 0, pHash: "1" }),
+    ]);
+    expect(second.body.entries).toEqual([expect.objectContaining({ frameIndex: 1, pHash: "2" })]);
+    // What the browser sends is what the function accepts
+    expect(requestSchema.safeParse(first.body).success).toBe(true);
+  });
+
+  it("skips files without a visual track and reports hashing errors", async () => {
+    computeHashSignature
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error("Unsupported codec"))
+      .mockResolvedValueOnce(IMAGE_SIGNATURE);
+
+    const report = await ingestReferenceMedia(
+      [
+        { file: file("song.mp4", "video/mp4"), sourceId: "song", sourceLabel: "Song" },
+        { file: file("bad.mov", "video/quicktime"), sourceId: "bad", sourceLabel: "Bad" },
+        { file: file("ok.png", "image/png"), sourceId: "ok", sourceLabel: "Ok" },
+      ],
+      { corpus: "news", ingestKey: "secret" },
+    );
+
+    expect(report).toEqual({
+      inserted: 1,
+      skipped: [
+        { sourceId: "song", reason: "No visual track to hash" },
+        { sourceId: "bad", reason: "Unsupported codec" },
+      ],
+    });
+  });
+
+  it("stops when the function rejects a batch", async () => {
+    computeHashSignature.mockResolvedValue(IMAGE_SIGNATURE);
+    invoke.mockResolvedValue({ data: null, error: new Error("Invalid ingest key") });
+
+    await expect(ingestReferenceMedia(
+      [{ file: file("a.jpg", "image/jpeg"), sourceId: "a", sourceLabel: "A" }],
+      { corpus: "news", ingestKey: "wrong" },
+    )).rejects.toThrow("Provenance ingest failed: Invalid ingest key");
+  });
+
+  it("accepts exactly the signed 64-bit range", () => {
+    for (const hex of ["0000000000000000", "7fffffffffffffff", "8000000000000000", "ffffffffffffffff"]) {
+      expect(int64.safeParse(hexToInt64(hex)).success).toBe(true);
+    }
+    expect(int64.safeParse("9223372036854775808").success).toBe(false);
+    expect(int64.safeParse("-9223372036854775809").success).toBe(false);
+    expect(int64.safeParse("9999999999999999999").success).toBe(false);
+    expect(int64.safeParse("12a").success).toBe(false);
+  });
+
+  it("accepts only the configured ingest key", async () => {
+    expect(await ingestKeyMatches("secret", "secret")).toBe(true);
+    expect(await ingestKeyMatches("secreT", "secret")).toBe(false);
+    expect(await ingestKeyMatches("secret-and-more", "secret")).toBe(false);
+    expect(await ingestKeyMatches(null, "secret")).toBe(false);
+  });
+});
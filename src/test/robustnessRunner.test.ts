@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import type { AnalysisResult } from "@/hooks/useMediaAnalysis";
+import { getFieldProvenance } from "@/lib/dataProvenance";
+import {
+  applyRobustnessRun,
+  driftStatus,
+  ROBUSTNESS_VARIANTS,
+  type RobustnessRun,
+} from "@/lib/robustnessRunner";
+
+const variant = (id: string) => ROBUSTNESS_VARIANTS.find((v) => v.id === id)!;
+
+/** The primary analysis saw the full-resolution original and scored it higher than the working copy. */
+const RESULT = {
+  trustScore: 90,
+  robustnessTests: [{ mode: "Model", description: "Model estimate", confidence: 88, drift: -2, status: "pass" }],
+  fieldProvenance: { robustnessTests: "model-estimated" },
+} as unknown as AnalysisResult;
+
+describe("robustnessRunner", () => {
+  it("grades drift in trust-score points", () => {
+    expect(driftStatus(0)).toBe("pass");
+    expect(driftStatus(-5)).toBe("pass");
+    expect(driftStatus(5.5)).toBe("warning");
+    expect(driftStatus(-15)).toBe("warning");
+    expect(driftStatus(16)).toBe("fail");
+    expect(driftStatus(-30)).toBe("fail");
+  });
+
+  it("measures drift against the clean re-analysis, not the primary score", () => {
+    const run: RobustnessRun = {
+      baseline: 70,
+      measured: [
+        { variant: variant("jpeg_70"), trustScore: 68 },
+        { variant: variant("motion_blur"), trustScore: 60 },
+        { variant: variant("jpeg_50"), trustScore: 50 },
+      ],
+      failed: ["gaussian_noise"],
+    };
+    const measured = applyRobustnessRun(RESULT, run);
+
+    expect(measured.robustnessTests.map((t) => [t.mode, t.confidence, t.drift, t.status])).toEqual([
+      ["Clean", 70, 0, "pass"],
+      ["JPEG q70", 68, -2, "pass"],
+      ["Motion Blur", 60, -10, "warning"],
+      ["JPEG q50", 50, -20, "fail"],
+    ]);
+    // The worst variant stands for its condition; unmeasured ones are null
+    expect(measured.confidenceDrift).toMatchObject({
+      cleanScore: 0.3,
+      compressedScore: 0.5,
+      blurredScore: 0.4,
+      noiseScore: null,
+      downscaledScore: null,
+    });
+    expect(measured.confidenceDrift!.stabilityScore).toBeCloseTo(1 - Math.sqrt(0.0062), 6);
+    expect(measured.confidenceDrift!.stabilityStatus).toBe("stable");
+    expect(getFieldProvenance(measured, "robustnessTests")).toBe("measured");
+    expect(getFieldProvenance(measured, "confidenceDrift")).toBe("measured");
+    expect(measured.trustScore).toBe(90);
+  });
+
+  it("leaves the result alone without a reference or any variant", () => {
+    const noReference: RobustnessRun = {
+      baseline: null,
+      measured: [{ variant: variant("jpeg_70"), trustScore: 60 }],
+      failed: ["clean"],
+    };
+    expect(applyRobustnessRun(RESULT, noReference)).toBe(RESULT);
+    expect(applyRobustnessRun(RESULT, { baseline: 70, measured: [], failed: ["jpeg_70"] })).toBe(RESULT);
+    expect(RESULT.confidenceDrift).toBeUndefined();
+  });
+});
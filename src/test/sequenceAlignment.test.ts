@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { alignFrameSequences, type FrameHash } from "@/lib/sequenceAlignment";
+
+// Pseudo-random 64-bit hashes, far apart in Hamming distance
+const hashFor = (n: number) =>
+  ((n * 2654435761) >>> 0).toString(16).padStart(8, "0") + ((n * 40503 + 12345) >>> 0).toString(16).padStart(8, "0");
+
+const sequence = (ids: number[]): FrameHash[] => ids.map((id, i) => ({ timestamp: i + 0.5, hash: hashFor(id) }));
+
+const reference = sequence(Array.from({ length: 20 }, (_, i) => i));
+
+describe("alignFrameSequences", () => {
+  it("finds the offset of an unedited clip", () => {
+    const clip = sequence([5, 6, 7, 8, 9, 10]);
+    const result = alignFrameSequences(clip, reference)!;
+
+    expect(result.offset).toBe(5);
+    expect(result.coverage).toBe(1);
+    expect(result.segments).toHaveLength(1);
+    expect(result.edits).toEqual({ inserted: false, removed: false, reordered: false });
+  });
+
+  it("reports removed and inserted ranges", () => {
+    // Reference frames 8-10 cut, two foreign frames spliced in
+    const clip = sequence([4, 5, 6, 7, 11, 12, 100, 101, 13, 14]);
+    const result = alignFrameSequences(clip, reference)!;
+
+    expect(result.edits.removed).toBe(true);
+    expect(result.removedRanges).toEqual([{ start: 8.5, end: 10.5 }]);
+    expect(result.edits.inserted).toBe(true);
+    expect(result.insertedRanges).toEqual([{ start: 6.5, end: 7.5 }]);
+    expect(result.segments.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("flags frames moved out of order", () => {
+    const clip = sequence([2, 3, 4, 5, 15, 6, 7, 8, 9]);
+    const result = alignFrameSequences(clip, reference)!;
+
+    expect(result.edits.reordered).toBe(true);
+    expect(result.reorderedFrames).toEqual([4.5]);
+  });
+
+  it("returns null for unrelated footage", () => {
+    expect(alignFrameSequences(sequence([200, 201, 202, 203]), reference)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { addGaussianNoise, createImage, gaussianBlur, type RGBAImage } from "@/lib/imageProcessing";
+import { analyzeImageSpectrum, fft } from "@/lib/spectralAnalysis";
+
+/** Noise blurred at several scales: a falling spectrum with no periodic structure. */
+function texture(size: number, seed: number): RGBAImage {
+  const flat = createImage(size, size);
+  for (let i = 0; i < flat.data.length; i += 4) {
+    flat.data[i] = flat.data[i + 1] = flat.data[i + 2] = 128;
+    flat.data[i + 3] = 255;
+  }
+  const layers = [1, 3, 8].map((sigma, i) => gaussianBlur(addGaussianNoise(flat, 40 * sigma, seed + i), sigma));
+  const img = createImage(size, size);
+  for (let i = 0; i < img.data.length; i += 4) {
+    img.data[i] = img.data[i + 1] = img.data[i + 2] = layers.reduce((s, l) => s + l.data[i] - 128, 128);
+    img.data[i + 3] = 255;
+  }
+  return img;
+}
+
+function modulate(img: RGBAImage, gain: (x: number, y: number) => number): RGBAImage {
+  const out = createImage(img.width, img.height);
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      const p = (y * img.width + x) * 4;
+      const g = gain(x, y);
+      out.data[p] = img.data[p] * g;
+      out.data[p + 1] = img.data[p + 1] * g;
+      out.data[p + 2] = img.data[p + 2] * g;
+      out.data[p + 3] = 255;
+    }
+  }
+  return out;
+}
+
+describe("spectralAnalysis", () => {
+  it("puts a sinusoid's energy in its frequency bin", () => {
+    const n = 64;
+    const re = Float64Array.from({ length: n }, (_, i) => Math.cos((2 * Math.PI * 5 * i) / n));
+    const im = new Float64Array(n);
+    fft(re, im);
+    expect(re[5]).toBeCloseTo(n / 2, 6);
+    expect(re[n - 5]).toBeCloseTo(n / 2, 6);
+    expect(Math.abs(re[4]) + Math.abs(im[6])).toBeLessThan(1e-6);
+  });
+
+  it("scores an unstructured texture low", () => {
+    const result = analyzeImageSpectrum(texture(512, 3))!;
+
+    expect(result.tilesAnalyzed).toBe(4);
+    expect(result.signature.spectralSlope).toBeLessThan(-1);
+    expect(result.peaks.filter((p) => p.kind !== "jpeg_grid")).toHaveLength(0);
+    expect(result.frequencyPatternScore).toBeLessThan(0.3);
+  });
+
+  it("finds the Nyquist corner peak left by a checkerboard", () => {
+    const base = texture(512, 3);
+    const result = analyzeImageSpectrum(modulate(base, (x, y) => 1 + 0.08 * ((x + y) % 2 === 0 ? 1 : -1)))!;
+
+    expect(result.peaks[0]).toMatchObject({ fx: 0.5, fy: 0.5, kind: "checkerboard" });
+    expect(result.signature.checkerboardScore).toBeGreaterThan(2);
+    expect(result.frequencyPatternScore).toBeGreaterThan(0.8);
+  });
+
+  it("attributes an 8-pixel block grid to JPEG rather than upsampling", () => {
+    const base = texture(512, 5);
+    // A brightness step at every block boundary puts energy at all multiples of 1/8 cycle
+    const result = analyzeImageSpectrum(modulate(base, (x, y) => (x % 8 === 0 || y % 8 === 0 ? 1.1 : 1)))!;
+
+    expect(result.signature.jpegGridScore).toBeGreaterThan(1);
+    expect(result.signature.upsamplingScore).toBeLessThan(1);
+    expect(result.peaks.some((p) => p.kind === "upsampling" || p.kind === "checkerboard")).toBe(false);
+    expect(result.frequencyPatternScore).toBeLessThan(0.3);
+  });
+});
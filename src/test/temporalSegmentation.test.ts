@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import type { FrameData } from "@/hooks/useMediaAnalysis";
+import { segmentFrameScores } from "@/lib/temporalSegmentation";
+
+/** One frame every half second with the given confidences. */
+function series(confidences: number[], extra: (i: number) => Partial<FrameData> = () => ({})): FrameData[] {
+  return confidences.map((confidence, i) => ({
+    frameNumber: i,
+    timestamp: i * 0.5,
+    confidence,
+    anomalyType: null,
+    ...extra(i),
+  }));
+}
+
+describe("temporalSegmentation", () => {
+  it("merges a run of low-confidence frames into one segment", () => {
+    const frames = series([88, 85, 90, 86, 50, 42, 55, 48, 45, 87, 89, 84]);
+    const { segments } = segmentFrameScores(frames, { duration: 6 });
+
+    expect(segments).toHaveLength(1);
+    const [segment] = segments;
+    expect(segment).toMatchObject({ firstFrame: 4, lastFrame: 8, frameCount: 5, start: 1.75, end: 4.25 });
+    expect(segment.confidence).toBeGreaterThan(0.85);
+    expect(segment.severity).toBe("high");
+  });
+
+  it("smooths away a single noisy frame", () => {
+    const frames = series([88, 85, 90, 62, 86, 87, 89, 84]);
+    const { segments, posterior } = segmentFrameScores(frames);
+    expect(segments).toEqual([]);
+    expect(posterior[3].probability).toBeLessThan(0.5);
+  });
+
+  it("keeps a strongly flagged single frame and bridges a short dip", () => {
+    const flagged = segmentFrameScores(series([88, 86, 25, 87, 89], (i) => (i === 2 ? { anomalyType: "face_warp" } : {})));
+    expect(flagged.segments).toHaveLength(1);
+    expect(flagged.segments[0].anomalyTypes).toEqual(["face_warp"]);
+
+    const bridged = segmentFrameScores(series([88, 40, 45, 70, 42, 44, 88, 90]));
+    expect(bridged.segments).toHaveLength(1);
+    expect(bridged.segments[0]).toMatchObject({ firstFrame: 1, lastFrame: 5 });
+  });
+
+  it("lets a segment start at a scene cut on weaker evidence", () => {
+    const confidences = [85, 84, 86, 57, 55, 58, 56, 85, 86];
+    const plain = segmentFrameScores(series(confidences));
+    const cut = segmentFrameScores(series(confidences, (i) => ({ shot: i >= 3 && i <= 6 ? 1 : i > 6 ? 2 : 0 })));
+    expect(plain.segments).toEqual([]);
+    expect(cut.segments).toHaveLength(1);
+    expect(cut.segments[0]).toMatchObject({ firstFrame: 3, lastFrame: 6, start: 1.25, end: 3.25 });
+  });
+
+  it("ignores padding frames when the series is a placeholder", () => {
+    const frames = series([40, 45, 42, 44, 20, 41, 43], (i) => (i === 4 ? { anomalyType: "lighting_mismatch" } : {}));
+    const { segments } = segmentFrameScores(frames, { placeholderScores: true });
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ firstFrame: 4, lastFrame: 4 });
+  });
+
+  it("needs two frames to bound a segment", () => {
+    const single = segmentFrameScores(series([10], () => ({ anomalyType: "face_warp" })), { duration: 4 });
+    expect(single.segments).toEqual([]);
+    expect(single.posterior[0].probability).toBeGreaterThan(0.5);
+
+    const pair = segmentFrameScores(series([10, 12], () => ({ anomalyType: "face_warp" })));
+    expect(pair.segments).toHaveLength(1);
+    expect(pair.segments[0].end).toBeGreaterThan(pair.segments[0].start);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { createImage, seededRandom, type RGBAImage } from "@/lib/imageProcessing";
+import { buildContactSheet, detectSceneCuts, lumaHistogram, selectKeyframes } from "@/lib/videoFrames";
+
+/** A noisy frame around one grey level, like a shot with some motion. */
+function shotFrame(level: number, seed: number, size = 48): RGBAImage {
+  const rand = seededRandom(seed);
+  const img = createImage(size, size);
+  for (let p = 0; p < img.data.length; p += 4) {
+    img.data[p] = img.data[p + 1] = img.data[p + 2] = level + (rand() - 0.5) * 40;
+    img.data[p + 3] = 255;
+  }
+  return img;
+}
+
+function solid(value: number, width: number, height: number): RGBAImage {
+  const img = createImage(width, height);
+  img.data.fill(value);
+  return img;
+}
+
+describe("videoFrames", () => {
+  it("finds the cuts between shots but not the motion within them", () => {
+    const levels = [40, 40, 40, 40, 40, 200, 200, 200, 200, 110, 110, 110];
+    const histograms = levels.map((level, i) => lumaHistogram(shotFrame(level, i + 1)));
+    expect(detectSceneCuts(histograms)).toEqual([5, 9]);
+  });
+
+  it("finds no cuts in a single continuous shot", () => {
+    const histograms = Array.from({ length: 10 }, (_, i) => lumaHistogram(shotFrame(100 + i * 2, i + 1)));
+    expect(detectSceneCuts(histograms)).toEqual([]);
+  });
+
+  it("keeps every shot start and fills the rest evenly", () => {
+    const picked = selectKeyframes(40, [7, 23], 6);
+    expect(picked).toHaveLength(6);
+    expect(picked).toEqual([...picked].sort((a, b) => a - b));
+    expect(picked).toEqual(expect.arrayContaining([0, 7, 23]));
+    expect(new Set(picked).size).toBe(6);
+
+    expect(selectKeyframes(4, [], 16)).toEqual([0, 1, 2, 3]);
+    // More shots than keyframes: shot starts are subsampled
+    expect(selectKeyframes(100, [10, 20, 30, 40, 50, 60, 70], 4)).toEqual([0, 20, 40, 60]);
+  });
+
+  it("tiles frames into a contact sheet in reading order", () => {
+    const frames = [10, 60, 110, 160, 210].map((v) => solid(v, 8, 6));
+    const sheet = buildContactSheet(frames, 3, 2);
+    expect(sheet.width).toBe(3 * 8 + 4 * 2);
+    expect(sheet.height).toBe(2 * 6 + 3 * 2);
+
+    const at = (x: number, y: number) => sheet.data[(y * sheet.width + x) * 4];
+    expect(at(0, 0)).toBe(16);
+    expect(at(2, 2)).toBe(10);
+    expect(at(2 + 10 * 2, 2)).toBe(110);
+    expect(at(2 + 10, 2 + 8)).toBe(210);
+    // The unused last cell stays background
+    expect(at(2 + 10 * 2, 2 + 8)).toBe(16);
+  });
+});
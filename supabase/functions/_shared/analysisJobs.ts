@@ -0,0 +1,164 @@
+/**
+ * Analysis Jobs
+ * Rows in `analysis_jobs` track one analysis from the moment the browser
+ * starts hashing the file. The browser creates the row and reports its
+ * own stages through analysis-jobs; analyze-media claims it, runs model
+ * inference and derivation and hands the result back for evidence
+ * generation; the browser's final result completes it. Every write is
+ * conditional on the job still being open and in the writer's stage, so
+ * a completed or failed job is never written again.
+ *
+ * Results are stored without data URLs, and a running worker heartbeats
+ * so `sweep_analysis_jobs()` can fail the jobs of a worker that died.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobStage = "hashing" | "preprocessing" | "model_inference" | "derivation" | "evidence_generation";
+
+/** Stages the browser runs before submitting the media. */
+export const SUBMISSION_STAGES: JobStage[] = ["hashing", "preprocessing"];
+
+/** Stages run by analyze-media; the sweep expects a heartbeat in these. */
+export const WORKER_STAGES: JobStage[] = ["model_inference", "derivation"];
+
+/** Must stay well under the sweep's 90 s silence limit. */
+const HEARTBEAT_MS = 15_000;
+
+const OPEN_STATUSES: JobStatus[] = ["queued", "running"];
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  media_type: string;
+  result: unknown;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface JobStore {
+  /** A browser-owned job at `hashing`, or a worker-owned one reading `mediaPath`. */
+  create(mediaType: string, options?: { stage?: JobStage; mediaPath?: string | null }): Promise<string>;
+  find(id: string): Promise<AnalysisJob | null>;
+  /** Take over a browser job on submission; false if it is not waiting for one. */
+  claim(id: string, mediaPath: string | null): Promise<boolean>;
+  /**
+   * Move an open job still in one of `from` to `stage`. False when the job
+   * is finished, expired or elsewhere.
+   */
+  advance(id: string, from: JobStage[], stage: JobStage, fields?: Record<string, unknown>): Promise<boolean>;
+  complete(id: string, from: JobStage[], result: unknown): Promise<boolean>;
+  fail(id: string, from: JobStage[], message: string): Promise<boolean>;
+  /** Bump `updated_at` until the returned function is called. */
+  heartbeat(id: string): () => void;
+  /** Whether a job in a worker stage still reads this upload. */
+  hasOpenJobs(mediaPath: string): Promise<boolean>;
+  /** Fail stale jobs and drop expired ones; returns uploads nobody reads any more. */
+  sweep(): Promise<string[]>;
+}
+
+/**
+ * A copy of a result without its data URLs: overlays, spectrograms and
+ * contact sheets are rendered from the media, which is not retained.
+ */
+export function stripDataUrls<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value
+      .filter((item) => !(typeof item === "string" && item.startsWith("data:")))
+      .map((item) => stripDataUrls(item)) as T;
+  }
+  if (!value || typeof value !== "object") return value;
+  const copy: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item === "string" && item.startsWith("data:")) continue;
+    copy[key] = stripDataUrls(item);
+  }
+  return copy as T;
+}
+
+export function createJobStore(): JobStore {
+  // Service role: the table has no client policies
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const now = () => new Date().toISOString();
+
+  const transition = async (id: string, from: JobStage[], fields: Record<string, unknown>) => {
+    const { data, error } = await supabase
+      .from("analysis_jobs")
+      .update({ ...fields, updated_at: now() })
+      .eq("id", id)
+      .in("status", OPEN_STATUSES)
+      .in("stage", from)
+      .gt("expires_at", now())
+      .select("id");
+    if (error) throw new Error(`Could not update analysis job ${id}: ${error.message}`);
+    return (data?.length ?? 0) > 0;
+  };
+
+  return {
+    async create(mediaType, { stage = "hashing", mediaPath = null } = {}) {
+      const { data, error } = await supabase
+        .from("analysis_jobs")
+        .insert({ media_type: mediaType, stage, media_path: mediaPath })
+        .select("id")
+        .single();
+      if (error || !data) throw new Error(`Could not create analysis job: ${error?.message ?? "no row returned"}`);
+      return data.id as string;
+    },
+    async find(id) {
+      const { data, error } = await supabase
+        .from("analysis_jobs")
+        .select("id, status, stage, media_type, result, error, created_at, updated_at")
+        .eq("id", id)
+        .gt("expires_at", now())
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data as AnalysisJob | null;
+    },
+    claim: (id, mediaPath) =>
+      transition(id, SUBMISSION_STAGES, { status: "running", stage: "model_inference", media_path: mediaPath }),
+    advance: (id, from, stage, fields = {}) => transition(id, from, { ...fields, stage }),
+    complete: (id, from, result) =>
+      transition(id, from, { status: "completed", result: stripDataUrls(result), completed_at: now() }),
+    fail: (id, from, message) =>
+      transition(id, from, { status: "failed", error: message, completed_at: now() }),
+    heartbeat(id) {
+      const timer = setInterval(async () => {
+        const { error } = await supabase
+          .from("analysis_jobs")
+          .update({ updated_at: now() })
+          .eq("id", id)
+          .in("status", OPEN_STATUSES);
+        // A missed beat is harmless unless several in a row are lost
+        if (error) console.warn(`Analysis job ${id} heartbeat failed:`, error.message);
+      }, HEARTBEAT_MS);
+      return () => clearInterval(timer);
+    },
+    async hasOpenJobs(mediaPath) {
+      const { count, error } = await supabase
+        .from("analysis_jobs")
+        .select("id", { count: "exact", head: true })
+        .eq("media_path", mediaPath)
+        .in("status", OPEN_STATUSES)
+        .in("stage", WORKER_STAGES);
+      // When in doubt keep the object; it is cheaper than breaking a job
+      if (error) return true;
+      return (count ?? 0) > 0;
+    },
+    async sweep() {
+      const { data, error } = await supabase.rpc("sweep_analysis_jobs");
+      if (error) {
+        console.warn("Analysis job sweep failed:", error.message);
+        return [];
+      }
+      return (data ?? []) as string[];
+    },
+  };
+}
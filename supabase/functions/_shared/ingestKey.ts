@@ -0,0 +1,21 @@
+/**
+ * Ingest Key
+ * Ingestion functions are guarded by a shared secret in INGEST_API_KEY.
+ * The presented key is compared in constant time: both sides are hashed
+ * to equal-length digests first, so neither the content nor the length
+ * of the key leaks through the response time.
+ */
+
+const encoder = new TextEncoder();
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(value)));
+}
+
+/** True when `presented` equals the configured key. */
+export async function ingestKeyMatches(presented: string | null, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([sha256(presented ?? ""), sha256(expected)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
@@ -0,0 +1,96 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { createJobStore, SUBMISSION_STAGES, type JobStage } from "../_shared/analysisJobs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jobId = z.string().uuid();
+
+// The browser's side of a job: it creates the job when it starts hashing,
+// reports preprocessing, and completes it with its final result after
+// evidence generation, or fails it. Without an action, the job's status.
+const requestSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("create"), mediaType: z.enum(["image", "video", "audio"]) }),
+  z.object({ action: z.literal("stage"), jobId, stage: z.literal("preprocessing") }),
+  z.object({ action: z.literal("complete"), jobId, result: z.record(z.unknown()) }),
+  z.object({ action: z.literal("fail"), jobId, error: z.string().min(1).max(2000) }),
+  z.object({ action: z.literal("status"), jobId }),
+]);
+
+/** Stages in which the browser may finish a job: before submission (cache hits) or after the server. */
+const BROWSER_STAGES: JobStage[] = [...SUBMISSION_STAGES, "evidence_generation"];
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const parsed = requestSchema.safeParse(body && !body.action ? { ...body, action: "status" } : body);
+    if (!parsed.success) {
+      return json({
+        error: "Invalid job request",
+        issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      }, 400);
+    }
+    const request = parsed.data;
+    const jobs = createJobStore();
+
+    // Stale and expired jobs are cleared lazily, on the next call
+    const orphaned = await jobs.sweep();
+    if (orphaned.length > 0) {
+      // Service role: the upload bucket is write-only to clients
+      const supabase = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      );
+      const { error } = await supabase.storage.from("analysis-uploads").remove(orphaned);
+      if (error) console.warn("Could not delete orphaned uploads:", error.message);
+    }
+
+    if (request.action === "create") {
+      return json({ jobId: await jobs.create(request.mediaType), status: "queued", stage: "hashing" }, 201);
+    }
+
+    // Writes succeed only while the job is open and in a browser stage
+    let written: boolean | null = null;
+    if (request.action === "stage") {
+      written = await jobs.advance(request.jobId, SUBMISSION_STAGES, request.stage);
+    } else if (request.action === "complete") {
+      written = await jobs.complete(request.jobId, BROWSER_STAGES, request.result);
+    } else if (request.action === "fail") {
+      written = await jobs.fail(request.jobId, BROWSER_STAGES, request.error);
+    }
+    if (written === false) return json({ error: "Analysis job is finished or not in a browser stage" }, 409);
+
+    const job = await jobs.find(request.jobId);
+    if (!job) return json({ error: "Analysis job not found" }, 404);
+
+    return json({
+      jobId: job.id,
+      status: job.status,
+      stage: job.stage,
+      mediaType: job.media_type,
+      // Present once completed, or while the server's result waits for evidence generation
+      result: job.status === "failed" ? null : job.result,
+      error: job.error,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+    });
+  } catch (error) {
+    console.error("Analysis job error:", error);
+    return json({ error: error instanceof Error ? error.message : "Job lookup failed" }, 500);
+  }
+});
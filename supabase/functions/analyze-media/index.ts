@@ -1,4 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { resolveProvider, ProviderError, type ModelProvider, type ModelRequest } from "./providers.ts";
+import {
+  parseModelOutput,
+  parseRepairAttempts,
+  buildRepairPrompt,
+  validateWithRepair,
+  type ValidationIssue,
+} from "./schema.ts";
+import {
+  parseMediaReference,
+  removeUploadedMedia,
+  verifyUploadedMedia,
+  UploadReferenceError,
+  type MediaReference,
+} from "./uploads.ts";
+import { createJobStore, stripDataUrls, WORKER_STAGES, type JobStage } from "../_shared/analysisJobs.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -24,6 +40,7 @@ interface FrameData {
   timestamp: number;
   confidence: number;
   anomalyType?: "face_warp" | "temporal_inconsistency" | "lighting_mismatch" | "edge_artifact" | null;
+  shot?: number;
 }
 
 interface ModalityScore {
@@ -53,7 +70,7 @@ interface GanFingerprints {
 interface TextureAnalysis {
   laplacianVariance: "low" | "normal" | "high";
   smoothnessAnomalies: boolean;
-  noiseConsistency: "consistent" | "inconsistent" | "suspicious";
+  noiseConsistency: number;
 }
 
 interface MetadataAnalysis {
@@ -84,6 +101,40 @@ interface ManipulationRegion {
   description: string;
 }
 
+interface ModelProviderInfo {
+  name: string;
+  model: string;
+}
+
+interface ViewScore {
+  view: string;
+  trustScore: number;
+  artifacts: string[];
+}
+
+interface ViewArtifact {
+  artifact: string;
+  views: string[];
+  weight: number;
+}
+
+interface MultiViewAnalysis {
+  views: ViewScore[];
+  missingViews: string[];
+  artifacts: ViewArtifact[];
+  ensembleScore: number | null;
+  scoreSpread: number;
+  consensus: "agree" | "disagree" | "single_view";
+}
+
+type DataProvenance = "measured" | "model-estimated" | "derived" | "synthesized";
+
+interface SchemaValidationReport {
+  valid: boolean;
+  repairAttempts: number;
+  issues: ValidationIssue[];
+}
+
 interface AnalysisResult {
   trustScore: number;
   riskLevel: "low" | "medium" | "high";
@@ -119,50 +170,16 @@ interface AnalysisResult {
   modalityScores: ModalityScore[];
   multimodalConsistency: MultimodalConsistencyResult;
   visualDeepfakeDetection: VisualDeepfakeDetection;
-  confidenceDrift: ConfidenceDrift;
+  /** Only the browser measures drift, on perturbed copies; never filled in here. */
+  confidenceDrift?: ConfidenceDrift;
   manipulationRegions: ManipulationRegion[];
+  modelProvider: ModelProviderInfo;
+  schemaValidation: SchemaValidationReport;
+  multiViewAnalysis: MultiViewAnalysis;
+  fieldProvenance: Record<string, DataProvenance>;
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const startTime = Date.now();
-    const { imageBase64, mediaType } = await req.json();
-
-    if (!imageBase64) {
-      return new Response(
-        JSON.stringify({ error: "No image data provided" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
-    // Determine media type
-    const detectedMediaType = mediaType === "video" ? "video" : mediaType === "audio" ? "audio" : "image";
-
-    // Create comprehensive analysis prompt with advanced forensic techniques
-    const systemPrompt = `You are a world-class forensic media analyst with expertise in deepfake detection and AI-generated content identification. Perform rigorous multi-view ensemble analysis.
-
-## CRITICAL: ENSEMBLE PREPROCESSING ANALYSIS
-Examine the image through multiple virtual "preprocessing variations" to catch artifacts that hide in one view but appear in others:
-
-1. **Original Resolution**: Native analysis for compression artifacts, pixel-level anomalies
-2. **Downscaled (50%)**: GAN upsampling artifacts become MORE visible at lower resolution
-3. **Simulated Gaussian Blur**: True manipulation artifacts persist through blur; noise-based fakes become smoother
-4. **Histogram Equalization**: Reveals hidden lighting inconsistencies, shadow manipulation, exposure mismatches
-
-**ENSEMBLE RULE**: A finding that appears across 2+ views is weighted 2x higher. Disagreement between views indicates uncertainty.
-
-## ANALYSIS METHODOLOGY
-
-### 1. Visual Forensics (Primary)
+const VISUAL_METHODOLOGY = `### 1. Visual Forensics (Primary)
 - **Facial Analysis**: Examine facial geometry, eye reflections (corneal reflections must match), teeth consistency, skin texture, pore patterns, hair boundaries
 - **Lighting Analysis**: Check for inconsistent shadows, impossible light sources, reflection mismatches across face regions
 - **Compression Artifacts**: Identify unusual JPEG/video compression patterns, block artifacts localized to specific regions (sign of splicing)
@@ -204,7 +221,192 @@ Generate attention regions indicating areas of concern:
 - Intensity (0-1, where higher = more suspicious)
 - Label with specific artifact type detected
 
-### 7. Confidence Calibration
+`;
+
+const AUDIO_METHODOLOGY = `### 1. Acoustic Forensics (Primary)
+- **Vocoder Artifacts**: Smeared or blurred harmonics, metallic buzz between harmonics, phase-reset striping at a fixed frame rate
+- **Prosody**: Pitch contours that are too smooth, too regular or too flat for the speaking style; unnaturally even loudness
+- **Band Limits**: A hard horizontal ceiling at 8, 11 or 12 kHz, typical of speech rendered at 16, 22.05 or 24 kHz and upsampled
+- **Pauses**: Digital silence between words instead of room tone; missing breaths in long passages
+- **Splices**: Abrupt changes of noise floor, reverberation or microphone colour between phrases
+
+### 2. VOICE CLONING & TTS FINGERPRINTS
+- **Formant Transitions**: Transitions between vowels that are too fast, too linear or identical across repetitions
+- **Consonant Energy**: Fricatives and plosives with unnatural noise shapes or missing bursts
+- **Repetition**: Identical spectral patterns for repeated words or phrases
+
+### 3. RECORDING CHAIN
+- **Room Acoustics**: Reverberation tails that appear and vanish between phrases
+- **Background Noise**: A constant, spectrally white floor (generated) versus fluctuating room or street noise (recorded)
+- **Encoding**: Codec low-pass filters (MP3 at 16 kHz, telephone at 4 kHz) are normal and are not synthesis evidence on their own
+
+### 4. Audio Findings
+- Report acoustic findings in "audioFindings" and "modalityBreakdown.audio"
+- anomalyRegions are in seconds on the spectrogram's time axis
+
+### 5. Image Fields
+- Fill the visual, structural, texture and GAN fields from the spectrogram image only
+
+### 6. Heatmap
+- There is no picture to localize in: keep heatmapData empty
+
+`;
+
+/** Client-measured acoustic features the prompt quotes back to the model. */
+const ACOUSTIC_FEATURE_LABELS: Record<string, string> = {
+  syntheticProbability: "Synthetic-speech probability (0-1)",
+  jitter: "Pitch jitter (relative frame-to-frame period deviation)",
+  shimmerDb: "Shimmer (dB)",
+  phaseCoherence: "Harmonic phase coherence between frames (-1 to 1)",
+  spectralFlatness: "Spectral flatness of voiced frames",
+  noiseFloorFlatness: "Spectral flatness of the noise between words",
+  noiseFloorDb: "Noise floor (dBFS)",
+  cutoffHz: "High-frequency cutoff (Hz)",
+  cutoffSharpness: "Cutoff steepness (dB/kHz)",
+  pauseCount: "Pauses",
+  digitalSilenceRatio: "Share of pause time that is digital silence",
+  breathCount: "Breaths detected",
+};
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+/** The parsed request body; each field is validated where it is read. */
+type AnalysisPayload = Awaited<ReturnType<Request["json"]>>;
+
+const JOB_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  /**
+   * Run one analysis job: model inference, then derivation of the fused
+   * result. Runs after the response is sent; stages are reported as entered.
+   */
+  const runAnalysis = async (
+    payload: AnalysisPayload,
+    provider: ModelProvider,
+    mediaReference: MediaReference | null,
+    enterStage: (stage: JobStage) => Promise<void>,
+  ): Promise<AnalysisResult> => {
+    const startTime = Date.now();
+    const { imageBase64, views, audio, video, mediaType } = payload;
+    await enterStage("model_inference");
+
+    // Originals come by reference to a chunked upload, checked against
+    // their hash and read by the model through a signed URL; small inline
+    // images are still accepted for robustness variants and fallbacks
+    const original: { url: string; sha256?: string } | null = mediaReference
+      ? await verifyUploadedMedia(mediaReference)
+      : typeof imageBase64 === "string" && imageBase64
+        ? { url: imageBase64.startsWith("data:") ? imageBase64 : `data:image/jpeg;base64,${imageBase64}` }
+        : null;
+
+    // Soundtracks arrive as a client-rendered log-mel spectrogram, never as
+    // raw audio, optionally with the acoustic features measured client-side
+    const audioInput: {
+      spectrogram: string;
+      duration: number;
+      maxFrequency: number;
+      features: Record<string, number> | null;
+    } | null =
+      audio && typeof audio.spectrogram === "string" && audio.spectrogram.startsWith("data:image/") &&
+      Number.isFinite(audio.duration) && audio.duration > 0
+        ? {
+            spectrogram: audio.spectrogram,
+            duration: audio.duration,
+            maxFrequency: Number(audio.maxFrequency) || 22050,
+            features: audio.features && typeof audio.features === "object" ? audio.features : null,
+          }
+        : null;
+
+    // Videos arrive as a client-built contact sheet of keyframes, one cell
+    // per frame in reading order, with the timestamp and shot of each cell
+    const MAX_CONTACT_SHEET_FRAMES = 64;
+    const videoInput: {
+      contactSheet: string;
+      duration: number;
+      frames: { timestamp: number; shot: number }[];
+    } | null =
+      video && typeof video.contactSheet === "string" && video.contactSheet.startsWith("data:image/") &&
+      Array.isArray(video.frames) && video.frames.length > 0
+        ? {
+            contactSheet: video.contactSheet,
+            duration: Number(video.duration) || 0,
+            frames: video.frames
+              .slice(0, MAX_CONTACT_SHEET_FRAMES)
+              .map((f: { timestamp?: unknown; shot?: unknown }) => ({
+                timestamp: Math.max(0, Number(f?.timestamp) || 0),
+                shot: Number.isInteger(f?.shot) ? (f.shot as number) : 0,
+              })),
+          }
+        : null;
+
+    if (!original && !audioInput && !videoInput) {
+      throw new Error("No usable media data provided");
+    }
+
+    // Determine media type
+    const detectedMediaType = mediaType === "video" ? "video" : mediaType === "audio" ? "audio" : "image";
+
+    // Preprocessing views rendered by the client from the uploaded pixels.
+    // Unknown names and non-image payloads are ignored.
+    const PREPROCESSING_VIEWS = ["downscaled", "blurred", "equalized"];
+    const preprocessedViews: { name: string; dataUrl: string }[] = (Array.isArray(views) ? views : [])
+      .filter((v) =>
+        v && PREPROCESSING_VIEWS.includes(v.name) &&
+        typeof v.dataUrl === "string" && v.dataUrl.startsWith("data:image/")
+      )
+      .filter((v, i, all) => all.findIndex((o) => o.name === v.name) === i);
+    const viewNames = [
+      ...(original ? ["original"] : []),
+      ...(videoInput ? ["contact_sheet"] : []),
+      ...preprocessedViews.map((v) => v.name),
+      ...(audioInput ? ["spectrogram"] : []),
+    ];
+
+    const VIEW_DESCRIPTIONS: Record<string, string> = {
+      original: "Original upload at native resolution: compression artifacts, pixel-level anomalies",
+      downscaled: "Downscaled to 50% with area averaging: GAN upsampling artifacts become MORE visible at lower resolution",
+      blurred: "Gaussian blur (sigma 2px): true manipulation artifacts persist through blur; noise-based fakes become smoother",
+      equalized: "Luma histogram equalization: reveals hidden lighting inconsistencies, shadow manipulation, exposure mismatches",
+      contact_sheet: videoInput
+        ? `Contact sheet of ${videoInput.frames.length} keyframes decoded from the video, one per scene cut plus evenly spaced frames, numbered left to right, top to bottom: ${videoInput.frames.map((f, i) => `${i + 1} = ${f.timestamp.toFixed(2)}s (shot ${f.shot + 1})`).join(", ")}. Score every cell on its own in temporalAnalysis.frameScores and compare faces, lighting and edges between cells of the same shot`
+        : "",
+      spectrogram: audioInput
+        ? `Log-mel spectrogram of the soundtrack: time runs left to right from 0 to ${audioInput.duration.toFixed(2)}s, frequency from 0 Hz (bottom) to ${Math.round(audioInput.maxFrequency)} Hz (top, mel-spaced), brighter = louder. Look for vocoder smearing, missing breaths, an unnaturally flat noise floor, hard band-limits and abrupt splices`
+        : "",
+    };
+    const viewList = viewNames
+      .map((name, i) => `${i + 1}. **${name}**: ${VIEW_DESCRIPTIONS[name]}`)
+      .join("\n");
+
+    // Audio-only uploads get an acoustic methodology in place of the visual one
+    const methodology = detectedMediaType === "audio" ? AUDIO_METHODOLOGY : VISUAL_METHODOLOGY;
+    const measuredFeatures = audioInput?.features
+      ? Object.entries(ACOUSTIC_FEATURE_LABELS)
+          .filter(([key]) => Number.isFinite(audioInput.features?.[key]))
+          .map(([key, label]) => `- ${label}: ${audioInput.features![key]}`)
+          .join("\n")
+      : "";
+    const measuredSection = measuredFeatures
+      ? `\n\n## MEASURED ACOUSTIC FEATURES\nThese were measured from the decoded samples, not estimated. They replace your audio score and anomaly regions, so explain what they mean for authenticity rather than contradict them:\n${measuredFeatures}`
+      : "";
+
+    // Create comprehensive analysis prompt with advanced forensic techniques
+    const systemPrompt = `You are a world-class forensic media analyst with expertise in deepfake detection and AI-generated content identification. Perform rigorous multi-view ensemble analysis.
+
+## CRITICAL: ENSEMBLE PREPROCESSING ANALYSIS
+You receive ${viewNames.length} view(s) of the same media, each preceded by a "View: <name>" label:
+
+${viewList}
+
+Score EACH view independently in "viewAnalysis": its own trustScore and the short names of the artifacts visible in that view. Use the same artifact name when the same artifact is visible in several views. The pipeline weights artifacts that recur across 2+ views and treats disagreement between views as uncertainty, so do not copy scores between views.${measuredSection}
+
+## ANALYSIS METHODOLOGY
+
+${methodology}### 7. Confidence Calibration
 CRITICAL: Be honest about uncertainty. If score is between 40-70, you MUST:
 - Set uncertaintyFlag to true
 - Provide specific reasons why certainty is limited
@@ -225,7 +427,7 @@ Respond with ONLY a valid JSON object:
   "textureAnalysis": {
     "laplacianVariance": "low" | "normal" | "high",
     "smoothnessAnomalies": <boolean>,
-    "noiseConsistency": "consistent" | "inconsistent" | "suspicious"
+    "noiseConsistency": <0-100, 100 = sensor noise uniform across the whole frame>
   },
   "metadataAnalysis": {
     "hasMetadata": <boolean>,
@@ -256,15 +458,19 @@ Respond with ONLY a valid JSON object:
   ],
   "audioFindings": {
     "hasAudio": <boolean>,
-    "anomalyRegions": [{"start": <0-1>, "end": <0-1>, "severity": "low"|"medium"|"high"}],
+    "anomalyRegions": [{"start": <seconds>, "end": <seconds>, "severity": "low"|"medium"|"high"}],
     "voiceConsistency": <60-100>,
     "backgroundNoise": "natural" | "synthetic" | "inconsistent"
   },
   "temporalAnalysis": {
     "frameConsistency": <60-100>,
     "motionNaturalness": <60-100>,
-    "temporalAnomalies": [{"timestamp": <seconds>, "type": "face_warp"|"temporal_inconsistency"|"lighting_mismatch"|"edge_artifact", "severity": <0.3-1.0>}]
+    "temporalAnomalies": [{"timestamp": <seconds>, "type": "face_warp"|"temporal_inconsistency"|"lighting_mismatch"|"edge_artifact", "severity": <0.3-1.0>}],
+    "frameScores": [{"frame": <contact sheet cell, 1-based>, "trustScore": <0-100>, "anomaly": "face_warp"|"temporal_inconsistency"|"lighting_mismatch"|"edge_artifact"|null}]
   },
+  "viewAnalysis": [
+    {"view": "<view name>", "trustScore": <0-100>, "artifacts": ["<short artifact name>"]}
+  ],
   "modalityBreakdown": {
     "visual": {"score": <0-100>, "confidence": <70-98>, "findings": ["<finding1>", "<finding2>"]},
     "structural": {"score": <0-100>, "confidence": <70-98>, "findings": ["<finding1>"]},
@@ -289,79 +495,73 @@ Respond with ONLY a valid JSON object:
 - Natural photos from low-quality cameras can look "suspicious" - factor in apparent source quality
 - Modern high-quality deepfakes may score 40-70; acknowledge this limitation honestly`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: `Analyze this ${mediaType || "image"} for authenticity and potential manipulation. Provide your analysis in the specified JSON format.`
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: imageBase64.startsWith("data:") ? imageBase64 : `data:image/jpeg;base64,${imageBase64}`
-                }
-              }
-            ]
-          }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again in a moment." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
+    const modelRequest: ModelRequest = {
+      systemPrompt,
+      userText: `Analyze this ${mediaType || "image"} for authenticity and potential manipulation. Views attached: ${viewNames.join(", ")}.${videoInput ? ` Score all ${videoInput.frames.length} contact sheet cells in temporalAnalysis.frameScores.` : ""}${audioInput ? ` The soundtrack is ${audioInput.duration.toFixed(2)}s long; give audio anomaly regions in seconds.` : ""} Provide your analysis in the specified JSON format.`,
+      images: [
+        ...(original
+          ? [{ url: original.url, label: "original", sha256: original.sha256 }]
+          : []),
+        ...(videoInput ? [{ url: videoInput.contactSheet, label: "contact_sheet" }] : []),
+        ...preprocessedViews.map((v) => ({ url: v.dataUrl, label: v.name })),
+        ...(audioInput ? [{ url: audioInput.spectrogram, label: "spectrogram" }] : []),
+      ],
+      frameCount: videoInput?.frames.length,
+    };
+    const frameCount = videoInput?.frames.length ?? 0;
 
-    const aiResponse = await response.json();
-    const content = aiResponse.choices?.[0]?.message?.content;
+    const content = await provider.complete(modelRequest);
 
     if (!content) {
       throw new Error("No response from AI model");
     }
 
-    // Parse the JSON from the AI response
-    let analysisData;
-    try {
-      // Extract JSON from potential markdown code blocks
-      const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
-      let jsonStr = jsonMatch ? jsonMatch[1] : content;
-      
-      // Remove JavaScript-style comments that AI sometimes includes (invalid JSON)
-      jsonStr = jsonStr
-        .replace(/\/\/[^\n\r]*/g, '') // Remove single-line comments
-        .replace(/\/\*[\s\S]*?\*\//g, '') // Remove multi-line comments
-        .trim();
-      
-      analysisData = JSON.parse(jsonStr);
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", content);
-      throw new Error("Failed to parse analysis results");
+    // ============================================================
+    // SCHEMA VALIDATION & REPAIR
+    // Validates the raw model output against a strict schema. On failure
+    // the model is asked to correct its answer; whatever remains invalid
+    // is reported in schemaValidation instead of being silently defaulted.
+    // ============================================================
+    const parsed = await validateWithRepair(
+      content,
+      (candidate) => parseModelOutput(candidate, detectedMediaType, viewNames, frameCount),
+      (previous, issues) => provider.complete({ ...modelRequest, userText: buildRepairPrompt(previous, issues) }),
+      parseRepairAttempts(Deno.env.get("MAX_REPAIR_ATTEMPTS")),
+    );
+    const { repairAttempts } = parsed;
+
+    if (!parsed.usable) {
+      // A record of placeholders is not an analysis, so nothing is returned
+      console.error("Failed to parse AI response:", parsed.content);
+      throw new Error(`Failed to parse analysis results: ${parsed.issues[parsed.issues.length - 1].message}`);
     }
 
+    const analysisData = parsed.data;
+    const schemaValidation: SchemaValidationReport = {
+      valid: parsed.issues.length === 0,
+      repairAttempts,
+      issues: parsed.issues,
+    };
+    // ============================================================
+    await enterStage("derivation");
+
+    // Contact sheet cells scored one by one, placed at the keyframe
+    // timestamps. Cells the model skipped keep the overall score.
+    const frameScoreByCell = new Map(
+      (analysisData.temporalAnalysis.frameScores ?? []).map((f) => [f.frame, f] as const)
+    );
+    const keyframeAnalysis: FrameData[] = (videoInput?.frames ?? []).map((f, i) => {
+      const scored = frameScoreByCell.get(i + 1);
+      return {
+        frameNumber: i,
+        timestamp: f.timestamp,
+        confidence: scored?.trustScore ?? analysisData.trustScore,
+        anomalyType: scored?.anomaly ?? null,
+        shot: f.shot,
+      };
+    });
+    const keyframesScored = keyframeAnalysis.length > 0 && frameScoreByCell.size === keyframeAnalysis.length;
+
     // ============================================================
     // VISUAL DEEPFAKE DETECTION MODULE (Gemini-based backbone)
     // Runs after preprocessing, before trust fusion.
@@ -369,44 +569,29 @@ Respond with ONLY a valid JSON object:
     // ============================================================
     // Derive deepfake detection from the primary analysis to avoid a second API call
     // (which doubles memory usage and causes WORKER_LIMIT crashes)
-    const fakeProbability = (100 - (analysisData.trustScore || 75)) / 100;
-    const baseVariance = analysisData.ganFingerprints?.detected ? 0.08 : 0.03;
+    const fakeProbability = (100 - analysisData.trustScore) / 100;
+    const baseVariance = analysisData.ganFingerprints.detected ? 0.08 : 0.03;
     
     const visualDeepfakeDetection: VisualDeepfakeDetection = {
       visualDeepfakeProbability: fakeProbability,
-      frameScores: Array.from({ length: 8 }, (_, i) => 
-        Math.min(1, Math.max(0, fakeProbability + (Math.sin(i * 1.3) * baseVariance)))
-      ),
-      modelUsed: "gemini-2.5-flash"
+      frameScores: keyframeAnalysis.length > 0
+        ? keyframeAnalysis.map((f) => (100 - f.confidence) / 100)
+        : Array.from({ length: 8 }, (_, i) =>
+            Math.min(1, Math.max(0, fakeProbability + (Math.sin(i * 1.3) * baseVariance)))
+          ),
+      modelUsed: provider.model
     };
 
-    const cleanScore = fakeProbability;
-    const compressedScore = Math.min(1, fakeProbability + (Math.random() * 0.04 + 0.01));
-    const blurredScore = Math.min(1, fakeProbability + (Math.random() * 0.03 + 0.01));
-    const noiseScore = Math.min(1, fakeProbability + (Math.random() * 0.05 + 0.02));
-    const allScores = [cleanScore, compressedScore, blurredScore, noiseScore];
-    const mean = allScores.reduce((a, b) => a + b, 0) / allScores.length;
-    const variance = allScores.reduce((sum, s) => sum + Math.pow(s - mean, 2), 0) / allScores.length;
-    const stabilityScore = Math.min(1, Math.max(0, 1 - Math.sqrt(variance)));
-
-    const confidenceDrift: ConfidenceDrift = {
-      cleanScore,
-      compressedScore,
-      blurredScore,
-      noiseScore,
-      stabilityScore,
-      stabilityStatus: stabilityScore > 0.85 ? "stable" : "sensitive"
-    };
     // ============================================================
 
     const analysisTime = (Date.now() - startTime) / 1000;
 
     // Process heatmap data from AI response
-    const heatmapRegions: HeatmapRegion[] = (analysisData.heatmapData || []).map((h: any) => ({
-      x: h.x || 200,
-      y: h.y || 140,
-      radius: h.radius || 30,
-      intensity: Math.min(1, Math.max(0, h.intensity || 0.3)),
+    const heatmapRegions: HeatmapRegion[] = analysisData.heatmapData.map((h) => ({
+      x: h.x,
+      y: h.y,
+      radius: h.radius,
+      intensity: h.intensity,
       label: h.label
     }));
 
@@ -457,24 +642,30 @@ Respond with ONLY a valid JSON object:
     }
     // ============================================================
 
-    // Process audio findings
-    const audioAnomalies: AnomalyRegion[] = (analysisData.audioFindings?.anomalyRegions || []).map((a: any) => ({
-      start: a.start || 0,
-      end: a.end || 0.1,
-      severity: a.severity || "low"
-    }));
+    // Process audio findings: seconds, clamped to the decoded track; without a track there is nothing to place
+    const audioAnomalies: AnomalyRegion[] = audioInput
+      ? analysisData.audioFindings.anomalyRegions
+        .map((a) => ({
+          start: Math.min(a.start, a.end, audioInput.duration),
+          end: Math.min(Math.max(a.start, a.end), audioInput.duration),
+          severity: a.severity
+        }))
+        .filter((a) => a.end > a.start)
+      : [];
 
-    // Process temporal/frame analysis
-    const frameAnalysis: FrameData[] = (analysisData.temporalAnalysis?.temporalAnomalies || []).map((t: any, idx: number) => ({
+    // Process temporal/frame analysis: keyframe scores when a contact sheet
+    // was sent, otherwise the model's anomaly list
+    const frameAnalysis: FrameData[] = keyframeAnalysis.length > 0 ? keyframeAnalysis : analysisData.temporalAnalysis.temporalAnomalies.map((t, idx) => ({
       frameNumber: idx,
-      timestamp: t.timestamp || idx * 0.5,
-      confidence: 100 - (t.severity || 0.5) * 50,
-      anomalyType: t.type || null
+      timestamp: t.timestamp,
+      confidence: 100 - t.severity * 50,
+      anomalyType: t.type
     }));
 
     // Generate complete frame data if minimal anomalies provided
-    if (frameAnalysis.length < 10) {
-      const baseConfidence = analysisData.trustScore || 75;
+    const framesPadded = keyframeAnalysis.length === 0 && frameAnalysis.length < 10;
+    if (framesPadded) {
+      const baseConfidence = analysisData.trustScore;
       for (let i = 0; i < 30; i++) {
         const existingFrame = frameAnalysis.find(f => f.frameNumber === i);
         if (!existingFrame) {
@@ -491,49 +682,91 @@ Respond with ONLY a valid JSON object:
     }
 
     // Process modality scores
-    const modalityBreakdown = analysisData.modalityBreakdown || {};
+    const modalityBreakdown = analysisData.modalityBreakdown;
     const modalityScores: ModalityScore[] = [
       {
         modality: "visual",
-        score: modalityBreakdown.visual?.score || analysisData.trustScore || 75,
+        score: modalityBreakdown.visual.score,
         weight: 0.35,
-        confidence: modalityBreakdown.visual?.confidence || 90,
-        findings: modalityBreakdown.visual?.findings || ["Visual analysis completed"]
+        confidence: modalityBreakdown.visual.confidence,
+        findings: modalityBreakdown.visual.findings
       },
       {
         modality: "structural",
-        score: modalityBreakdown.structural?.score || (analysisData.graphStats?.graphCoherence || 80),
+        score: modalityBreakdown.structural.score,
         weight: 0.25,
-        confidence: modalityBreakdown.structural?.confidence || 88,
-        findings: modalityBreakdown.structural?.findings || ["Structural analysis completed"]
+        confidence: modalityBreakdown.structural.confidence,
+        findings: modalityBreakdown.structural.findings
       }
     ];
 
     // Add audio modality for video/audio
-    if (detectedMediaType !== "image") {
+    if (detectedMediaType !== "image" && modalityBreakdown.audio) {
       modalityScores.push({
         modality: "audio",
-        score: modalityBreakdown.audio?.score || (analysisData.audioFindings?.voiceConsistency || 80),
+        score: modalityBreakdown.audio.score,
         weight: 0.20,
-        confidence: modalityBreakdown.audio?.confidence || 85,
-        findings: modalityBreakdown.audio?.findings || ["Audio analysis completed"]
+        confidence: modalityBreakdown.audio.confidence,
+        findings: modalityBreakdown.audio.findings
       });
     }
 
     // Add temporal modality for video
-    if (detectedMediaType === "video") {
+    if (detectedMediaType === "video" && modalityBreakdown.temporal) {
       modalityScores.push({
         modality: "temporal",
-        score: modalityBreakdown.temporal?.score || (analysisData.temporalAnalysis?.frameConsistency || 82),
+        score: modalityBreakdown.temporal.score,
         weight: 0.20,
-        confidence: modalityBreakdown.temporal?.confidence || 87,
-        findings: modalityBreakdown.temporal?.findings || ["Temporal analysis completed"]
+        confidence: modalityBreakdown.temporal.confidence,
+        findings: modalityBreakdown.temporal.findings
       });
     }
 
+    // ============================================================
+    // MULTI-VIEW ENSEMBLE MODULE
+    // Aggregates the per-view scores the model returned for the real
+    // preprocessing variants. Artifacts seen in 2+ views get weight 2;
+    // a wide score spread between views flags uncertainty.
+    // ============================================================
+    const VIEW_DISAGREEMENT = 20;
+
+    const viewScores: ViewScore[] = (analysisData.viewAnalysis ?? [])
+      .filter((v, i, all) => all.findIndex((o) => o.view === v.view) === i);
+    const normalizeArtifact = (a: string) => a.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+    const artifactViews = new Map<string, { artifact: string; views: Set<string> }>();
+    for (const v of viewScores) {
+      for (const artifact of v.artifacts) {
+        const key = normalizeArtifact(artifact);
+        if (!key) continue;
+        const entry = artifactViews.get(key) ?? { artifact, views: new Set<string>() };
+        entry.views.add(v.view);
+        artifactViews.set(key, entry);
+      }
+    }
+    const viewArtifacts: ViewArtifact[] = [...artifactViews.values()]
+      .map(({ artifact, views }) => ({ artifact, views: [...views], weight: views.size >= 2 ? 2 : 1 }))
+      .sort((a, b) => b.weight - a.weight || b.views.length - a.views.length);
+
+    const viewTrustScores = viewScores.map((v) => v.trustScore);
+    const scoreSpread = viewTrustScores.length > 1 ? Math.max(...viewTrustScores) - Math.min(...viewTrustScores) : 0;
+
+    const multiViewAnalysis: MultiViewAnalysis = {
+      views: viewScores,
+      missingViews: viewNames.filter((name) => !viewScores.some((v) => v.view === name)),
+      artifacts: viewArtifacts,
+      ensembleScore: viewTrustScores.length > 0
+        ? Math.round(viewTrustScores.reduce((a, b) => a + b, 0) / viewTrustScores.length)
+        : null,
+      scoreSpread,
+      consensus: viewScores.length < 2 ? "single_view" : scoreSpread >= VIEW_DISAGREEMENT ? "disagree" : "agree",
+    };
+    // ============================================================
+
     // Build the complete result with enhanced forensic data
-    const trustScore = Math.min(100, Math.max(0, analysisData.trustScore || 50));
-    const uncertaintyFlag = analysisData.uncertaintyFlag || (trustScore >= 40 && trustScore <= 70);
+    const trustScore = analysisData.trustScore;
+    const viewsDisagree = multiViewAnalysis.consensus === "disagree";
+    const uncertaintyFlag = analysisData.uncertaintyFlag || (trustScore >= 40 && trustScore <= 70) || viewsDisagree;
     
     // ============================================================
     // MULTIMODAL CONSISTENCY CHECK MODULE
@@ -595,76 +828,113 @@ Respond with ONLY a valid JSON object:
     }
     // ============================================================
     
+    const robustness = analysisData.robustnessAnalysis;
+
+    // ============================================================
+    // FIELD PROVENANCE
+    // Tags every result field with where its value came from so the
+    // UI and report can mark or hide data that was never measured.
+    // Keys are dotted paths; the most specific key wins.
+    // ============================================================
+    const fieldProvenance: Record<string, DataProvenance> = {
+      trustScore: "model-estimated",
+      verdict: "model-estimated",
+      uncertaintyFlag: "derived",
+      ganFingerprints: "model-estimated",
+      textureAnalysis: "model-estimated",
+      metadataAnalysis: "model-estimated",
+      observations: "model-estimated",
+      robustnessTests: "model-estimated",
+      graphStats: "model-estimated",
+      "graphStats.edgeConnections": "derived",
+      heatmapRegions: "model-estimated",
+      audioAnomalies: "model-estimated",
+      frameAnalysis: framesPadded || (keyframeAnalysis.length > 0 && !keyframesScored) ? "synthesized" : "model-estimated",
+      modalityScores: "model-estimated",
+      multimodalConsistency: "derived",
+      "visualDeepfakeDetection.visualDeepfakeProbability": "derived",
+      "visualDeepfakeDetection.frameScores": keyframesScored ? "model-estimated" : "synthesized",
+      manipulationRegions: "derived",
+      multiViewAnalysis: "derived",
+      "multiViewAnalysis.views": "model-estimated",
+    };
+
+    // Fields that failed schema validation carry placeholder defaults.
+    // Dropped array items are not fabricated, so only object keys count.
+    const MODEL_TO_RESULT_FIELD: Record<string, string> = {
+      heatmapData: "heatmapRegions",
+      robustnessAnalysis: "robustnessTests",
+      audioFindings: "audioAnomalies",
+      temporalAnalysis: "frameAnalysis",
+      modalityBreakdown: "modalityScores",
+      viewAnalysis: "multiViewAnalysis.views",
+    };
+    for (const issue of schemaValidation.issues) {
+      if (issue.path.includes("[")) continue;
+      const [root, ...rest] = issue.path.split(".");
+      const mapped = MODEL_TO_RESULT_FIELD[root];
+      fieldProvenance[mapped ?? [root, ...rest].join(".")] = "synthesized";
+    }
+    // ============================================================
+
     const result: AnalysisResult = {
       trustScore,
       riskLevel: trustScore >= 70 ? "low" : trustScore >= 40 ? "medium" : "high",
-      verdict: analysisData.verdict || "Analysis Complete",
+      verdict: analysisData.verdict,
       analysisTime: Math.round(analysisTime * 10) / 10,
       mediaType: detectedMediaType,
       uncertaintyFlag,
-      uncertaintyReason: analysisData.uncertaintyReason || (uncertaintyFlag ? "Score in uncertain range - manual review recommended" : ""),
-      ganFingerprints: {
-        detected: analysisData.ganFingerprints?.detected || false,
-        patterns: analysisData.ganFingerprints?.patterns || [],
-        confidence: analysisData.ganFingerprints?.confidence || 75
-      },
-      textureAnalysis: {
-        laplacianVariance: analysisData.textureAnalysis?.laplacianVariance || "normal",
-        smoothnessAnomalies: analysisData.textureAnalysis?.smoothnessAnomalies || false,
-        noiseConsistency: analysisData.textureAnalysis?.noiseConsistency || "consistent"
-      },
-      metadataAnalysis: {
-        hasMetadata: analysisData.metadataAnalysis?.hasMetadata ?? true,
-        suspicious: analysisData.metadataAnalysis?.suspicious || false,
-        findings: analysisData.metadataAnalysis?.findings || []
-      },
-      observations: (analysisData.observations || []).slice(0, 8).map((obs: any) => ({
-        type: obs.type || "neutral",
-        title: obs.title || "Observation",
-        description: obs.description || ""
-      })),
+      uncertaintyReason: analysisData.uncertaintyReason || (
+        viewsDisagree
+          ? `Preprocessing views disagree by ${scoreSpread} points - manual review recommended`
+          : uncertaintyFlag ? "Score in uncertain range - manual review recommended" : ""
+      ),
+      ganFingerprints: analysisData.ganFingerprints,
+      textureAnalysis: analysisData.textureAnalysis,
+      metadataAnalysis: analysisData.metadataAnalysis,
+      observations: analysisData.observations.slice(0, 8),
       robustnessTests: [
         {
           mode: "Clean",
           description: "Baseline reference analysis",
-          confidence: analysisData.robustnessAnalysis?.cleanConfidence || analysisData.trustScore || 85,
+          confidence: robustness.cleanConfidence,
           drift: 0,
           status: "pass" as const
         },
         {
           mode: "Compressed",
           description: "JPEG compression at 60% quality",
-          confidence: Math.max(40, (analysisData.robustnessAnalysis?.cleanConfidence || 85) + (analysisData.robustnessAnalysis?.compressionResilience || -5)),
-          drift: analysisData.robustnessAnalysis?.compressionResilience || -5,
-          status: Math.abs(analysisData.robustnessAnalysis?.compressionResilience || -5) <= 10 ? "pass" as const : "warning" as const
+          confidence: Math.max(40, robustness.cleanConfidence + robustness.compressionResilience),
+          drift: robustness.compressionResilience,
+          status: Math.abs(robustness.compressionResilience) <= 10 ? "pass" as const : "warning" as const
         },
         {
           mode: "Degraded",
           description: "Low-quality capture simulation",
-          confidence: Math.max(40, (analysisData.robustnessAnalysis?.cleanConfidence || 85) + (analysisData.robustnessAnalysis?.degradationResilience || -8)),
-          drift: analysisData.robustnessAnalysis?.degradationResilience || -8,
-          status: Math.abs(analysisData.robustnessAnalysis?.degradationResilience || -8) <= 12 ? "pass" as const : "warning" as const
+          confidence: Math.max(40, robustness.cleanConfidence + robustness.degradationResilience),
+          drift: robustness.degradationResilience,
+          status: Math.abs(robustness.degradationResilience) <= 12 ? "pass" as const : "warning" as const
         },
         {
           mode: "Motion",
           description: "Motion blur applied",
-          confidence: Math.max(40, (analysisData.robustnessAnalysis?.cleanConfidence || 85) + (analysisData.robustnessAnalysis?.motionSensitivity || -18)),
-          drift: analysisData.robustnessAnalysis?.motionSensitivity || -18,
-          status: Math.abs(analysisData.robustnessAnalysis?.motionSensitivity || -18) <= 15 ? "pass" as const : "warning" as const
+          confidence: Math.max(40, robustness.cleanConfidence + robustness.motionSensitivity),
+          drift: robustness.motionSensitivity,
+          status: Math.abs(robustness.motionSensitivity) <= 15 ? "pass" as const : "warning" as const
         },
         {
           mode: "Noise",
           description: "Gaussian noise injection",
-          confidence: Math.max(40, (analysisData.robustnessAnalysis?.cleanConfidence || 85) + (analysisData.robustnessAnalysis?.noiseTolerance || -7)),
-          drift: analysisData.robustnessAnalysis?.noiseTolerance || -7,
-          status: Math.abs(analysisData.robustnessAnalysis?.noiseTolerance || -7) <= 10 ? "pass" as const : "warning" as const
+          confidence: Math.max(40, robustness.cleanConfidence + robustness.noiseTolerance),
+          drift: robustness.noiseTolerance,
+          status: Math.abs(robustness.noiseTolerance) <= 10 ? "pass" as const : "warning" as const
         }
       ],
       graphStats: {
-        keypointsDetected: analysisData.graphStats?.keypointsDetected || 24,
-        edgeConnections: Math.floor((analysisData.graphStats?.keypointsDetected || 24) * 1.6),
-        suspiciousNodes: analysisData.graphStats?.suspiciousNodes || 0,
-        graphCoherence: analysisData.graphStats?.graphCoherence || 90
+        keypointsDetected: analysisData.graphStats.keypointsDetected,
+        edgeConnections: Math.floor(analysisData.graphStats.keypointsDetected * 1.6),
+        suspiciousNodes: analysisData.graphStats.suspiciousNodes,
+        graphCoherence: analysisData.graphStats.graphCoherence
       },
       heatmapRegions,
       audioAnomalies,
@@ -672,15 +942,90 @@ Respond with ONLY a valid JSON object:
       modalityScores,
       multimodalConsistency,
       visualDeepfakeDetection,
-      confidenceDrift,
-      manipulationRegions
+      manipulationRegions,
+      modelProvider: { name: provider.name, model: provider.model },
+      schemaValidation,
+      multiViewAnalysis,
+      fieldProvenance
     };
 
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return result;
+  };
+
+  try {
+    const payload: AnalysisPayload = await req.json();
+
+    // Cheap checks run before a job exists so bad requests fail fast
+    const mediaReference = parseMediaReference(payload.media);
+    if (!mediaReference && !payload.imageBase64 && !payload.audio && !payload.video) {
+      return new Response(
+        JSON.stringify({ error: "No media data provided" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const provider = resolveProvider({ provider: payload.provider, model: payload.model });
+    const mediaType = payload.mediaType === "video" ? "video" : payload.mediaType === "audio" ? "audio" : "image";
+
+    // The model call can outlast the request, so it runs in the background
+    // and the client polls analysis-jobs with the job id. The browser
+    // creates its job when it starts hashing and sends it along; robustness
+    // variants come without one and get a job that ends here.
+    const jobs = createJobStore();
+    const mediaPath = mediaReference?.path ?? null;
+    const browserJobId = typeof payload.jobId === "string" && JOB_ID.test(payload.jobId) ? payload.jobId : null;
+    if (payload.jobId !== undefined && !browserJobId) {
+      return new Response(
+        JSON.stringify({ error: "Invalid job id" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (browserJobId && !(await jobs.claim(browserJobId, mediaPath))) {
+      return new Response(
+        JSON.stringify({ error: "Analysis job is not waiting for a submission" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const jobId = browserJobId ?? await jobs.create(mediaType, { stage: "model_inference", mediaPath });
 
+    // Every write checks the job is still open in a server stage, so a job
+    // the sweep has failed stops here instead of being revived
+    const enterStage = async (stage: JobStage) => {
+      if (!(await jobs.advance(jobId, WORKER_STAGES, stage, { status: "running" }))) {
+        throw new Error("The analysis job was closed before it finished");
+      }
+    };
+    const stopHeartbeat = jobs.heartbeat(jobId);
+    EdgeRuntime.waitUntil(
+      runAnalysis(payload, provider, mediaReference, enterStage)
+        // The browser's job waits for its measurements and evidence
+        .then((result) => browserJobId
+          ? jobs.advance(jobId, WORKER_STAGES, "evidence_generation", { result: stripDataUrls(result) })
+          : jobs.complete(jobId, WORKER_STAGES, result))
+        .catch((error) => {
+          console.error("Analysis error:", error);
+          return jobs.fail(jobId, WORKER_STAGES, error instanceof Error ? error.message : "Analysis failed");
+        })
+        .catch((error) => console.error(`Could not record the outcome of analysis job ${jobId}:`, error))
+        .finally(stopHeartbeat)
+        .then(async () => {
+          // The upload goes once no unfinished job still reads it
+          if (mediaReference && !(await jobs.hasOpenJobs(mediaReference.path))) {
+            await removeUploadedMedia(mediaReference);
+          }
+        }),
+    );
+
+    return new Response(
+      JSON.stringify({ jobId, status: "running", stage: "model_inference" }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   } catch (error) {
+    if ((error instanceof ProviderError && error.status !== 500) || error instanceof UploadReferenceError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     console.error("Analysis error:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Analysis failed" }),
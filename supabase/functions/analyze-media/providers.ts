@@ -0,0 +1,387 @@
+/**
+ * Model Provider Layer
+ * Abstracts the vision-model backend behind a single interface so the
+ * analysis pipeline can switch vendors or run fully offline.
+ */
+
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+export type ProviderName = "openai-compatible" | "gemini" | "anthropic" | "mock";
+
+export interface ModelImage {
+  /**
+   * A data URL, or an https URL (a signed storage URL for uploaded
+   * originals) that providers pass on by reference where they can.
+   */
+  url: string;
+  /** Sent to the model as a text part immediately before the image. */
+  label?: string;
+  /** SHA-256 of the bytes behind an https URL, which itself changes per request. */
+  sha256?: string;
+}
+
+export interface ModelRequest {
+  systemPrompt: string;
+  userText: string;
+  images: ModelImage[];
+  /** Cells on the video contact sheet that must be scored one by one. */
+  frameCount?: number;
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  model: string;
+  complete(request: ModelRequest): Promise<string>;
+}
+
+export interface ProviderSelection {
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Raised when a provider call fails. `status` mirrors the upstream HTTP status
+ * so the handler can surface rate limits and billing errors unchanged.
+ */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+const PROVIDER_NAMES: ProviderName[] = ["openai-compatible", "gemini", "anthropic", "mock"];
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  "openai-compatible": "google/gemini-2.5-flash",
+  gemini: "gemini-2.5-flash",
+  anthropic: "claude-3-5-sonnet-latest",
+  mock: "deterministic-mock-v1",
+};
+
+/**
+ * Split a data URL into its MIME type and base64 payload.
+ */
+function splitDataUrl(dataUrl: string): { mimeType: string; data: string } {
+  const match = dataUrl.match(/^data:([^;,]+)?(?:;base64)?,(.*)$/s);
+  if (!match) return { mimeType: "image/jpeg", data: dataUrl };
+  return { mimeType: match[1] || "image/jpeg", data: match[2] };
+}
+
+const isDataUrl = (url: string) => url.startsWith("data:");
+
+/**
+ * Inline bytes for APIs that only take base64. Images given by URL are
+ * fetched here, so only these providers hold a full copy in memory.
+ */
+async function inlineImage(url: string): Promise<{ mimeType: string; data: string }> {
+  if (isDataUrl(url)) return splitDataUrl(url);
+  const response = await fetch(url);
+  if (!response.ok) throw new ProviderError(`Could not fetch image for the model: ${response.status}`);
+  return {
+    mimeType: response.headers.get("Content-Type") || "image/jpeg",
+    data: encodeBase64(new Uint8Array(await response.arrayBuffer())),
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new ProviderError(`${name} is not configured`);
+  }
+  return value;
+}
+
+async function throwForStatus(response: Response, vendor: string): Promise<never> {
+  const errorText = await response.text();
+  console.error(`${vendor} error:`, response.status, errorText);
+  if (response.status === 429) {
+    throw new ProviderError("Rate limit exceeded. Please try again in a moment.", 429);
+  }
+  if (response.status === 402) {
+    throw new ProviderError("AI credits exhausted. Please add credits to continue.", 402);
+  }
+  throw new ProviderError(`${vendor} error: ${response.status}`);
+}
+
+// ============================================================
+// OPENAI-COMPATIBLE PROVIDER
+// Chat-completions API. Defaults to the Lovable AI gateway.
+// ============================================================
+function createOpenAICompatibleProvider(model: string): ModelProvider {
+  const baseUrl = Deno.env.get("OPENAI_COMPAT_BASE_URL") || "https://ai.gateway.lovable.dev/v1";
+
+  return {
+    name: "openai-compatible",
+    model,
+    async complete({ systemPrompt, userText, images }) {
+      const apiKey = Deno.env.get("OPENAI_COMPAT_API_KEY") || requireEnv("LOVABLE_API_KEY");
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: userText },
+                ...images.flatMap((img) => [
+                  ...(img.label ? [{ type: "text", text: `View: ${img.label}` }] : []),
+                  // Accepts data URLs and https URLs alike
+                  { type: "image_url", image_url: { url: img.url } },
+                ]),
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) await throwForStatus(response, "AI gateway");
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+// ============================================================
+// GEMINI-NATIVE PROVIDER
+// Google Generative Language API (generateContent). Only inline data
+// is accepted for arbitrary URLs, so referenced images are fetched.
+// ============================================================
+function createGeminiProvider(model: string): ModelProvider {
+  return {
+    name: "gemini",
+    model,
+    async complete({ systemPrompt, userText, images }) {
+      const apiKey = requireEnv("GEMINI_API_KEY");
+      const inlined = await Promise.all(images.map((img) => inlineImage(img.url)));
+      const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: systemPrompt }] },
+          contents: [
+            {
+              role: "user",
+              parts: [
+                { text: userText },
+                ...images.flatMap((img, i) => [
+                  ...(img.label ? [{ text: `View: ${img.label}` }] : []),
+                  { inlineData: inlined[i] },
+                ]),
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) await throwForStatus(response, "Gemini API");
+      const data = await response.json();
+      const parts: { text?: string }[] = data.candidates?.[0]?.content?.parts ?? [];
+      return parts.map((p) => p.text ?? "").join("");
+    },
+  };
+}
+
+// ============================================================
+// ANTHROPIC-STYLE PROVIDER
+// Messages API with base64 image blocks, or URL blocks for https images.
+// ============================================================
+function createAnthropicProvider(model: string): ModelProvider {
+  const baseUrl = Deno.env.get("ANTHROPIC_BASE_URL") || "https://api.anthropic.com/v1";
+
+  return {
+    name: "anthropic",
+    model,
+    async complete({ systemPrompt, userText, images }) {
+      const apiKey = requireEnv("ANTHROPIC_API_KEY");
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          system: systemPrompt,
+          messages: [
+            {
+              role: "user",
+              content: [
+                ...images.flatMap((img) => {
+                  if (!isDataUrl(img.url)) {
+                    return [
+                      ...(img.label ? [{ type: "text", text: `View: ${img.label}` }] : []),
+                      { type: "image", source: { type: "url", url: img.url } },
+                    ];
+                  }
+                  const { mimeType, data } = splitDataUrl(img.url);
+                  return [
+                    ...(img.label ? [{ type: "text", text: `View: ${img.label}` }] : []),
+                    { type: "image", source: { type: "base64", media_type: mimeType, data } },
+                  ];
+                }),
+                { type: "text", text: userText },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) await throwForStatus(response, "Anthropic API");
+      const data = await response.json();
+      const blocks: { type: string; text?: string }[] = data.content ?? [];
+      return blocks.filter((b) => b.type === "text").map((b) => b.text ?? "").join("");
+    },
+  };
+}
+
+// ============================================================
+// MOCK PROVIDER
+// Deterministic, network-free output seeded from the input bytes.
+// Same input always yields the same analysis.
+// ============================================================
+
+/** FNV-1a over the request payload, sampling long strings to stay cheap. */
+function fingerprintRequest(request: ModelRequest): number {
+  let hash = 0x811c9dc5;
+  const feed = (s: string) => {
+    const step = Math.max(1, Math.floor(s.length / 4096));
+    for (let i = 0; i < s.length; i += step) {
+      hash ^= s.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  };
+  feed(request.userText);
+  request.images.forEach((img) => feed(img.sha256 ?? img.url));
+  return hash;
+}
+
+/** Mulberry32 PRNG. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createMockProvider(model: string): ModelProvider {
+  return {
+    name: "mock",
+    model,
+    async complete(request) {
+      const rand = seededRandom(fingerprintRequest(request));
+      const int = (lo: number, hi: number) => Math.round(lo + rand() * (hi - lo));
+      const trustScore = int(15, 95);
+      const suspicious = trustScore < 60;
+
+      const output = {
+        trustScore,
+        verdict: suspicious ? "Possible Manipulation" : "Likely Authentic",
+        uncertaintyFlag: trustScore >= 40 && trustScore <= 70,
+        uncertaintyReason: trustScore >= 40 && trustScore <= 70 ? "Mock provider score in uncertain range" : "",
+        ganFingerprints: {
+          detected: suspicious,
+          patterns: suspicious ? ["Checkerboard artifacts"] : [],
+          confidence: int(50, 100),
+        },
+        textureAnalysis: {
+          laplacianVariance: suspicious ? "low" : "normal",
+          smoothnessAnomalies: suspicious,
+          noiseConsistency: suspicious ? int(30, 60) : int(75, 100),
+        },
+        metadataAnalysis: { hasMetadata: !suspicious, suspicious, findings: [] },
+        observations: [
+          {
+            type: suspicious ? "concern" : "positive",
+            title: "Mock observation",
+            description: "Deterministic output from the offline mock provider.",
+          },
+        ],
+        robustnessAnalysis: {
+          cleanConfidence: int(70, 100),
+          compressionResilience: -int(3, 18),
+          degradationResilience: -int(5, 25),
+          motionSensitivity: -int(8, 35),
+          noiseTolerance: -int(3, 20),
+        },
+        graphStats: {
+          keypointsDetected: int(15, 45),
+          suspiciousNodes: suspicious ? int(1, 15) : 0,
+          graphCoherence: int(50, 100),
+        },
+        heatmapData: suspicious
+          ? [{ x: int(50, 350), y: int(30, 250), radius: int(15, 50), intensity: Math.round(rand() * 100) / 100, label: "Mock artifact" }]
+          : [],
+        audioFindings: {
+          hasAudio: request.images.some((i) => i.label === "spectrogram"),
+          anomalyRegions: [],
+          voiceConsistency: int(60, 100),
+          backgroundNoise: "natural",
+        },
+        temporalAnalysis: {
+          frameConsistency: int(60, 100),
+          motionNaturalness: int(60, 100),
+          temporalAnomalies: [],
+          frameScores: Array.from({ length: request.frameCount ?? 0 }, (_, i) => ({
+            frame: i + 1,
+            trustScore: Math.min(100, Math.max(0, trustScore + int(-10, 10))),
+            anomaly: suspicious && rand() > 0.7 ? "face_warp" : null,
+          })),
+        },
+        modalityBreakdown: {
+          visual: { score: trustScore, confidence: int(70, 98), findings: ["Mock visual finding"] },
+          structural: { score: int(50, 100), confidence: int(70, 98), findings: ["Mock structural finding"] },
+          audio: { score: int(60, 100), confidence: int(70, 98), findings: ["Mock audio finding"] },
+          temporal: { score: int(60, 100), confidence: int(70, 98), findings: ["Mock temporal finding"] },
+        },
+        viewAnalysis: request.images
+          .filter((img) => img.label)
+          .map((img) => ({
+            view: img.label,
+            trustScore: Math.min(100, Math.max(0, trustScore + int(-8, 8))),
+            artifacts: suspicious && rand() > 0.3 ? ["Checkerboard artifacts"] : [],
+          })),
+      };
+
+      return JSON.stringify(output);
+    },
+  };
+}
+
+const FACTORIES: Record<ProviderName, (model: string) => ModelProvider> = {
+  "openai-compatible": createOpenAICompatibleProvider,
+  gemini: createGeminiProvider,
+  anthropic: createAnthropicProvider,
+  mock: createMockProvider,
+};
+
+/**
+ * Resolve the provider for a request. A per-request selection wins over the
+ * ANALYSIS_PROVIDER / ANALYSIS_MODEL environment defaults.
+ */
+export function resolveProvider(selection: ProviderSelection = {}): ModelProvider {
+  const requested = selection.provider || Deno.env.get("ANALYSIS_PROVIDER") || "openai-compatible";
+  if (!PROVIDER_NAMES.includes(requested as ProviderName)) {
+    throw new ProviderError(`Unknown model provider "${requested}"`, 400);
+  }
+  const name = requested as ProviderName;
+  const envModel = selection.provider ? undefined : Deno.env.get("ANALYSIS_MODEL");
+  const model = selection.model || envModel || DEFAULT_MODELS[name];
+  return FACTORIES[name](model);
+}
@@ -0,0 +1,369 @@
+/**
+ * Model Output Schema
+ * Strict runtime validation of the raw JSON returned by the vision model.
+ * Invalid or missing fields are reported, never silently invented.
+ */
+
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+type MediaKind = "image" | "video" | "audio";
+
+const score = z.number().min(0).max(100);
+const severity = z.enum(["low", "medium", "high"]);
+const temporalAnomalyType = z.enum(["face_warp", "temporal_inconsistency", "lighting_mismatch", "edge_artifact"]);
+
+const modalitySchema = z.object({
+  score,
+  confidence: score,
+  findings: z.array(z.string()),
+});
+
+/**
+ * Build the schema for a media type. Audio findings are mandatory for
+ * video/audio and temporal findings for video; images may omit both.
+ * Per-view scores are mandatory when more than one view was sent, and
+ * per-frame scores when a contact sheet of `frameCount` keyframes was.
+ */
+export function buildModelOutputSchema(mediaType: MediaKind, viewNames: string[] = [], frameCount = 0) {
+  const viewScore = z.object({
+    view: viewNames.length > 0 ? z.enum(viewNames as [string, ...string[]]) : z.string(),
+    trustScore: score,
+    artifacts: z.array(z.string()),
+  });
+  const frameScore = z.object({
+    // 1-based contact sheet cell
+    frame: frameCount > 0 ? z.number().int().min(1).max(frameCount) : z.number().int().positive(),
+    trustScore: score,
+    anomaly: temporalAnomalyType.nullable(),
+  });
+
+  return z.object({
+    trustScore: score,
+    verdict: z.string().min(1),
+    uncertaintyFlag: z.boolean(),
+    uncertaintyReason: z.string(),
+    ganFingerprints: z.object({
+      detected: z.boolean(),
+      patterns: z.array(z.string()),
+      confidence: score,
+    }),
+    textureAnalysis: z.object({
+      laplacianVariance: z.enum(["low", "normal", "high"]),
+      smoothnessAnomalies: z.boolean(),
+      noiseConsistency: score,
+    }),
+    metadataAnalysis: z.object({
+      hasMetadata: z.boolean(),
+      suspicious: z.boolean(),
+      findings: z.array(z.string()),
+    }),
+    observations: z.array(z.object({
+      type: z.enum(["positive", "neutral", "concern"]),
+      title: z.string().min(1),
+      description: z.string(),
+    })),
+    robustnessAnalysis: z.object({
+      cleanConfidence: score,
+      compressionResilience: z.number().min(-100).max(0),
+      degradationResilience: z.number().min(-100).max(0),
+      motionSensitivity: z.number().min(-100).max(0),
+      noiseTolerance: z.number().min(-100).max(0),
+    }),
+    graphStats: z.object({
+      keypointsDetected: z.number().int().nonnegative(),
+      suspiciousNodes: z.number().int().nonnegative(),
+      graphCoherence: score,
+    }),
+    heatmapData: z.array(z.object({
+      x: z.number().min(0).max(400),
+      y: z.number().min(0).max(280),
+      radius: z.number().positive(),
+      intensity: z.number().min(0).max(1),
+      label: z.string().optional(),
+    })),
+    audioFindings: z.object({
+      hasAudio: z.boolean(),
+      // Seconds into the soundtrack
+      anomalyRegions: z.array(z.object({
+        start: z.number().nonnegative(),
+        end: z.number().nonnegative(),
+        severity,
+      })),
+      voiceConsistency: score,
+      backgroundNoise: z.enum(["natural", "synthetic", "inconsistent"]),
+    }),
+    temporalAnalysis: z.object({
+      frameConsistency: score,
+      motionNaturalness: score,
+      temporalAnomalies: z.array(z.object({
+        timestamp: z.number().nonnegative(),
+        type: temporalAnomalyType,
+        severity: z.number().min(0).max(1),
+      })),
+      frameScores: frameCount > 0 ? z.array(frameScore) : z.array(frameScore).optional(),
+    }),
+    modalityBreakdown: z.object({
+      visual: modalitySchema,
+      structural: modalitySchema,
+      ganFingerprint: modalitySchema.optional(),
+      texture: modalitySchema.optional(),
+      audio: mediaType === "image" ? modalitySchema.optional() : modalitySchema,
+      temporal: mediaType === "video" ? modalitySchema : modalitySchema.optional(),
+    }),
+    viewAnalysis: viewNames.length > 1 ? z.array(viewScore) : z.array(viewScore).optional(),
+  });
+}
+
+export type ModelOutput = z.infer<ReturnType<typeof buildModelOutputSchema>>;
+
+/**
+ * Placeholder values used ONLY for fields listed in the validation issues.
+ * Mirrors the legacy fallbacks so downstream derivations keep working.
+ */
+const DEFAULT_OUTPUT: ModelOutput = {
+  trustScore: 50,
+  verdict: "Analysis Complete",
+  uncertaintyFlag: false,
+  uncertaintyReason: "",
+  ganFingerprints: { detected: false, patterns: [], confidence: 75 },
+  textureAnalysis: { laplacianVariance: "normal", smoothnessAnomalies: false, noiseConsistency: 85 },
+  metadataAnalysis: { hasMetadata: true, suspicious: false, findings: [] },
+  observations: [],
+  robustnessAnalysis: {
+    cleanConfidence: 85,
+    compressionResilience: -5,
+    degradationResilience: -8,
+    motionSensitivity: -18,
+    noiseTolerance: -7,
+  },
+  graphStats: { keypointsDetected: 24, suspiciousNodes: 0, graphCoherence: 90 },
+  heatmapData: [],
+  audioFindings: { hasAudio: false, anomalyRegions: [], voiceConsistency: 80, backgroundNoise: "natural" },
+  temporalAnalysis: { frameConsistency: 82, motionNaturalness: 82, temporalAnomalies: [], frameScores: [] },
+  modalityBreakdown: {
+    visual: { score: 75, confidence: 90, findings: ["Visual analysis completed"] },
+    structural: { score: 80, confidence: 88, findings: ["Structural analysis completed"] },
+    audio: { score: 80, confidence: 85, findings: ["Audio analysis completed"] },
+    temporal: { score: 82, confidence: 87, findings: ["Temporal analysis completed"] },
+  },
+  viewAnalysis: [],
+};
+
+export interface ValidationIssue {
+  path: string;
+  problem: "missing" | "invalid";
+  message: string;
+}
+
+export interface ParsedModelOutput {
+  /** Complete output; fields named in `issues` hold placeholder defaults. */
+  data: ModelOutput;
+  issues: ValidationIssue[];
+  /**
+   * False when the response was not JSON, or when filling its invalid
+   * fields with defaults still did not satisfy the schema. `data` is then
+   * nothing but placeholders and must not be reported.
+   */
+  usable: boolean;
+}
+
+/** Repair attempts when MAX_REPAIR_ATTEMPTS is unset or not a whole number. */
+export const DEFAULT_REPAIR_ATTEMPTS = 1;
+
+/**
+ * Extract the JSON payload from a model response, tolerating markdown
+ * fences, JS-style comments and trailing commas.
+ */
+export function extractJson(content: string): unknown {
+  const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/```\s*([\s\S]*?)\s*```/);
+  let jsonStr = jsonMatch ? jsonMatch[1] : content;
+
+  jsonStr = jsonStr
+    .replace(/\/\/[^\n\r]*/g, "") // Remove single-line comments
+    .replace(/\/\*[\s\S]*?\*\//g, "") // Remove multi-line comments
+    .replace(/,\s*([}\]])/g, "$1") // Remove trailing commas
+    .trim();
+
+  return JSON.parse(jsonStr);
+}
+
+const REMOVED = Symbol("removed");
+
+type Path = (string | number)[];
+
+function formatPath(path: Path): string {
+  return path.reduce<string>(
+    (acc, seg) => (typeof seg === "number" ? `${acc}[${seg}]` : acc ? `${acc}.${seg}` : seg),
+    ""
+  );
+}
+
+/**
+ * Strip every invalid value from a deep clone of `raw`. Invalid array items
+ * are dropped entirely; invalid object keys are cleared so defaults apply.
+ */
+export function pruneInvalid(raw: unknown, paths: Path[]): unknown {
+  const clone = structuredClone(raw);
+  for (const path of paths) {
+    const arrayIdx = path.findIndex((seg) => typeof seg === "number");
+    const target = arrayIdx >= 0 ? path.slice(0, arrayIdx + 1) : path;
+    if (target.length === 0) continue;
+
+    let node: unknown = clone;
+    for (const seg of target.slice(0, -1)) {
+      if (node === null || typeof node !== "object") break;
+      node = (node as Record<string | number, unknown>)[seg];
+    }
+    if (node === null || typeof node !== "object") continue;
+
+    const last = target[target.length - 1];
+    (node as Record<string | number, unknown>)[last] = typeof last === "number" ? REMOVED : undefined;
+  }
+  return clone;
+}
+
+/**
+ * Fill keys that are missing or cleared in `value` from `fallback`, and
+ * drop the array items `pruneInvalid` removed. Extra keys are kept.
+ */
+export function mergeDefaults(value: unknown, fallback: unknown): unknown {
+  if (Array.isArray(fallback)) {
+    return Array.isArray(value) ? value.filter((v) => v !== REMOVED) : fallback;
+  }
+  if (fallback !== null && typeof fallback === "object") {
+    const source = value !== null && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+    const merged: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(fallback), ...Object.keys(source)]);
+    for (const key of keys) {
+      merged[key] = key in fallback
+        ? mergeDefaults(source[key], (fallback as Record<string, unknown>)[key])
+        : source[key];
+    }
+    return merged;
+  }
+  return value === undefined ? fallback : value;
+}
+
+/**
+ * Parse and validate a raw model response. Never throws: unparseable JSON,
+ * or output that defaults cannot repair, yields a root-level issue and an
+ * unusable all-default payload.
+ */
+export function parseModelOutput(
+  content: string,
+  mediaType: MediaKind,
+  viewNames: string[] = [],
+  frameCount = 0,
+): ParsedModelOutput {
+  const schema = buildModelOutputSchema(mediaType, viewNames, frameCount);
+
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch {
+    return {
+      data: structuredClone(DEFAULT_OUTPUT),
+      issues: [{ path: "$", problem: "invalid", message: "Response is not valid JSON" }],
+      usable: false,
+    };
+  }
+
+  const validation = schema.safeParse(raw);
+  if (validation.success) {
+    return { data: validation.data, issues: [], usable: true };
+  }
+
+  const issues: ValidationIssue[] = validation.error.issues.map((issue) => ({
+    path: formatPath(issue.path) || "$",
+    problem: issue.code === "invalid_type" && issue.received === "undefined" ? "missing" : "invalid",
+    message: issue.message,
+  }));
+
+  const repaired = mergeDefaults(pruneInvalid(raw, validation.error.issues.map((i) => i.path)), DEFAULT_OUTPUT);
+  const recheck = schema.safeParse(repaired);
+  // A root-level issue (an array or a scalar instead of an object) leaves
+  // nothing of the response, so the defaults would be the whole record
+  const rootInvalid = issues.some((issue) => issue.path === "$");
+  if (recheck.success && !rootInvalid) return { data: recheck.data, issues, usable: true };
+
+  // Tagging only the original issue paths would pass the rest of the
+  // placeholder record off as findings
+  return {
+    data: structuredClone(DEFAULT_OUTPUT),
+    issues: [
+      ...issues,
+      { path: "$", problem: "invalid", message: "Output could not be repaired to match the schema" },
+    ],
+    usable: false,
+  };
+}
+
+/**
+ * MAX_REPAIR_ATTEMPTS as a whole number of attempts. Unset, blank,
+ * negative or fractional values fall back to the default.
+ */
+export function parseRepairAttempts(value: string | undefined): number {
+  const attempts = Number(value);
+  return value !== undefined && value.trim() !== "" && Number.isInteger(attempts) && attempts >= 0
+    ? attempts
+    : DEFAULT_REPAIR_ATTEMPTS;
+}
+
+export interface ValidatedModelOutput extends ParsedModelOutput {
+  /** The response the output was parsed from. */
+  content: string;
+  repairAttempts: number;
+}
+
+/**
+ * Validate a model response and, while it has issues, ask the model to
+ * repair it up to `maxAttempts` times. A candidate replaces the current
+ * output when it has no more issues, unless it is unusable and the current
+ * one is not.
+ */
+export async function validateWithRepair(
+  content: string,
+  parse: (content: string) => ParsedModelOutput,
+  repair: (previousContent: string, issues: ValidationIssue[]) => Promise<string>,
+  maxAttempts: number,
+): Promise<ValidatedModelOutput> {
+  let lastContent = content;
+  let parsed = parse(content);
+  let repairAttempts = 0;
+
+  while (parsed.issues.length > 0 && repairAttempts < maxAttempts) {
+    repairAttempts++;
+    console.warn(`Model output failed validation (${parsed.issues.length} issues), repair attempt ${repairAttempts}`);
+    const repairedContent = await repair(lastContent, parsed.issues);
+    const candidate = parse(repairedContent);
+    if (!candidate.usable && parsed.usable) continue;
+    if (candidate.issues.length <= parsed.issues.length || !parsed.usable) {
+      parsed = candidate;
+      lastContent = repairedContent;
+    }
+  }
+
+  return { ...parsed, content: lastContent, repairAttempts };
+}
+
+/**
+ * Prompt asking the model to fix its previous answer.
+ */
+export function buildRepairPrompt(previousContent: string, issues: ValidationIssue[]): string {
+  const issueList = issues
+    .slice(0, 40)
+    .map((i) => `- ${i.path}: ${i.problem} (${i.message})`)
+    .join("\n");
+
+  return `Your previous response did not match the required JSON schema.
+
+Problems found:
+${issueList}
+
+Previous response:
+${previousContent.slice(0, 12000)}
+
+Re-examine the media and return the COMPLETE corrected JSON object only, with every required field present and within its documented range. Do not add commentary.`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Uploaded Media
+ * Large originals reach the function by reference: the client uploads
+ * them in resumable chunks to the `analysis-uploads` bucket and sends
+ * only the object path, `<sha256>/<random id>.<ext>`. Anyone can write
+ * to the bucket, so the stored bytes are streamed through SHA-256 and
+ * must match the hash in the name before the model sees them. The model
+ * then reads the object through a short-lived signed URL instead of a
+ * base64 copy held in memory. Objects are deleted once no unfinished job
+ * references them, so nothing is retained after the analysis.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { crypto as stdCrypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+
+export const UPLOAD_BUCKET = "analysis-uploads";
+
+/** SHA-256 of the file, then a random id and an extension, as named by the client. */
+const OBJECT_PATH = /^([0-9a-f]{64})\/[0-9a-f-]{36}\.[a-z0-9]{1,12}$/;
+
+/** Long enough for the model call and its repair attempts. */
+const SIGNED_URL_SECONDS = 15 * 60;
+
+export interface MediaReference {
+  bucket: string;
+  path: string;
+  /** The hash the object's bytes must have. */
+  sha256: string;
+}
+
+/** A verified upload, readable by the model until the URL expires. */
+export interface VerifiedMedia {
+  url: string;
+  contentType: string;
+  sha256: string;
+}
+
+/**
+ * Raised when a media reference is malformed, its object is missing or
+ * its bytes do not match its name. `status` is the HTTP status to answer with.
+ */
+export class UploadReferenceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "UploadReferenceError";
+    this.status = status;
+  }
+}
+
+function adminStorage() {
+  // Service role: the bucket is write-only to clients
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+  return supabase.storage.from(UPLOAD_BUCKET);
+}
+
+/**
+ * Validate a `media` request field. Only objects in the upload bucket
+ * with a client-generated name are accepted.
+ */
+export function parseMediaReference(media: unknown): MediaReference | null {
+  if (!media || typeof media !== "object") return null;
+  const { bucket, path } = media as { bucket?: unknown; path?: unknown };
+  const match = typeof path === "string" ? path.match(OBJECT_PATH) : null;
+  if ((bucket ?? UPLOAD_BUCKET) !== UPLOAD_BUCKET || !match) {
+    throw new UploadReferenceError("Invalid media reference");
+  }
+  return { bucket: UPLOAD_BUCKET, path: match[0], sha256: match[1] };
+}
+
+/**
+ * Check that a referenced upload holds the bytes its name claims and
+ * return a signed URL for it. The object is streamed, never buffered.
+ * An object that fails the check is deleted.
+ */
+export async function verifyUploadedMedia(reference: MediaReference): Promise<VerifiedMedia> {
+  const storage = adminStorage();
+  const { data, error } = await storage.createSignedUrl(reference.path, SIGNED_URL_SECONDS);
+  const response = data && !error ? await fetch(data.signedUrl) : null;
+  if (!data || !response?.ok || !response.body) {
+    await response?.body?.cancel();
+    throw new UploadReferenceError(`Uploaded media not found: ${reference.path}`, 404);
+  }
+
+  const digest = await stdCrypto.subtle.digest("SHA-256", response.body);
+  const sha256 = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+  if (sha256 !== reference.sha256) {
+    await removeUploadedMedia(reference);
+    throw new UploadReferenceError("Uploaded media does not match its hash", 422);
+  }
+
+  return {
+    url: data.signedUrl,
+    contentType: response.headers.get("Content-Type") || "image/jpeg",
+    sha256,
+  };
+}
+
+export async function removeUploadedMedia(reference: MediaReference): Promise<void> {
+  const { error } = await adminStorage().remove([reference.path]);
+  if (error) console.warn("Could not delete uploaded media:", error.message);
+}
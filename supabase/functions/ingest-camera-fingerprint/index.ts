@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { ingestKeyMatches } from "../_shared/ingestKey.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-ingest-key",
+};
+
+const MAX_CROP_SIZE = 1024;
+
+const requestSchema = z.object({
+  cameraId: z.string().min(1).max(200),
+  label: z.string().min(1).max(300),
+  make: z.string().max(100).nullable().optional(),
+  model: z.string().max(100).nullable().optional(),
+  imageWidth: z.number().int().positive(),
+  imageHeight: z.number().int().positive(),
+  cropSize: z.number().int().min(64).max(MAX_CROP_SIZE),
+  imageCount: z.number().int().positive(),
+  fingerprint: z.string().regex(/^[A-Za-z0-9+/]+={0,2}$/),
+})
+  .refine((r) => r.cropSize <= Math.min(r.imageWidth, r.imageHeight), {
+    message: "cropSize exceeds the image size",
+    path: ["cropSize"],
+  })
+  // cropSize² float32 values, base64-encoded
+  .refine((r) => r.fingerprint.length === Math.ceil((r.cropSize * r.cropSize * 4) / 3) * 4, {
+    message: "fingerprint length does not match cropSize",
+    path: ["fingerprint"],
+  });
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ingestKey = Deno.env.get("INGEST_API_KEY");
+    if (!ingestKey) {
+      return json({ error: "Ingestion is not configured (INGEST_API_KEY is unset)" }, 503);
+    }
+    if (!(await ingestKeyMatches(req.headers.get("x-ingest-key"), ingestKey))) {
+      return json({ error: "Invalid ingest key" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({
+        error: "Invalid fingerprint payload",
+        issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      }, 400);
+    }
+
+    const r = parsed.data;
+    const row = {
+      camera_id: r.cameraId,
+      label: r.label,
+      make: r.make ?? null,
+      model: r.model ?? null,
+      image_width: r.imageWidth,
+      image_height: r.imageHeight,
+      crop_size: r.cropSize,
+      image_count: r.imageCount,
+      fingerprint: r.fingerprint,
+      updated_at: new Date().toISOString(),
+    };
+
+    // Service role bypasses RLS; the table is read-only to everyone else
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+    const { error } = await supabase
+      .from("camera_fingerprints")
+      .upsert(row, { onConflict: "camera_id" });
+    if (error) throw new Error(error.message);
+
+    return json({ stored: r.cameraId });
+  } catch (error) {
+    console.error("Camera fingerprint ingest error:", error);
+    return json({ error: error instanceof Error ? error.message : "Ingest failed" }, 500);
+  }
+});
@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ingestKeyMatches } from "../_shared/ingestKey.ts";
+import { requestSchema } from "./schema.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-ingest-key",
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const ingestKey = Deno.env.get("INGEST_API_KEY");
+    if (!ingestKey) {
+      return json({ error: "Ingestion is not configured (INGEST_API_KEY is unset)" }, 503);
+    }
+    if (!(await ingestKeyMatches(req.headers.get("x-ingest-key"), ingestKey))) {
+      return json({ error: "Invalid ingest key" }, 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({
+        error: "Invalid ingest payload",
+        issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      }, 400);
+    }
+
+    const { corpus, entries } = parsed.data;
+    const rows = entries.map((e) => ({
+      corpus,
+      source_id: e.sourceId,
+      source_label: e.sourceLabel,
+      match_type: e.matchType,
+      media_type: e.mediaType,
+      frame_index: e.frameIndex,
+      frame_timestamp: e.frameTimestamp ?? null,
+      published_at: e.publishedAt ?? null,
+      phash: e.pHash,
+      dhash: e.dHash ?? null,
+      ahash: e.aHash ?? null,
+      color_histogram: e.colorHistogram ?? null,
+    }));
+
+    // Service role bypasses RLS; the table is read-only to everyone else
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+    const { error } = await supabase
+      .from("provenance_index")
+      .upsert(rows, { onConflict: "corpus,source_id,frame_index" });
+    if (error) throw new Error(error.message);
+
+    return json({ inserted: rows.length });
+  } catch (error) {
+    console.error("Provenance ingest error:", error);
+    return json({ error: error instanceof Error ? error.message : "Ingest failed" }, 500);
+  }
+});
@@ -0,0 +1,43 @@
+/**
+ * Ingest Payload Schema
+ * Rows for the provenance index as posted by ingestReferenceMedia.
+ */
+
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+export const MAX_ENTRIES_PER_REQUEST = 1000;
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+// Hashes arrive as signed 64-bit decimal strings so they survive JSON
+// intact. Nineteen digits can still overflow bigint, so the value is checked.
+const DECIMAL = /^-?\d{1,19}$/;
+
+export const int64 = z.string()
+  .regex(DECIMAL, "Expected a decimal integer")
+  .refine((value) => {
+    // Malformed values are reported by the regex; refinements still run
+    if (!DECIMAL.test(value)) return true;
+    const n = BigInt(value);
+    return n >= INT64_MIN && n <= INT64_MAX;
+  }, "Outside the signed 64-bit range");
+
+export const entrySchema = z.object({
+  sourceId: z.string().min(1).max(200),
+  sourceLabel: z.string().min(1).max(300),
+  matchType: z.enum(["exact", "video_frame", "near_duplicate"]),
+  mediaType: z.enum(["image", "video"]),
+  frameIndex: z.number().int().min(0).default(0),
+  frameTimestamp: z.number().min(0).nullable().optional(),
+  publishedAt: z.string().datetime({ offset: true }).nullable().optional(),
+  pHash: int64,
+  dHash: int64.optional(),
+  aHash: int64.optional(),
+  colorHistogram: z.array(z.number().min(0).max(1)).length(24).optional(),
+});
+
+export const requestSchema = z.object({
+  corpus: z.string().min(1).max(100),
+  entries: z.array(entrySchema).min(1).max(MAX_ENTRIES_PER_REQUEST),
+});
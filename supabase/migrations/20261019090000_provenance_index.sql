@@ -0,0 +1,146 @@
+-- ============================================================
+-- PROVENANCE INDEX
+-- Reference-media perceptual hashes with multi-index hashing (MIH)
+-- search. Each 64-bit pHash is split into four 16-bit segments, each
+-- with its own B-tree index. Any hash within Hamming distance r of the
+-- query shares at least one segment within distance floor(r / 4), so a
+-- search only probes the few thousand segment values in that radius
+-- instead of scanning the table.
+-- ============================================================
+
+create table if not exists public.provenance_index (
+  id uuid primary key default gen_random_uuid(),
+  corpus text not null,
+  source_id text not null,
+  source_label text not null,
+  match_type text not null default 'near_duplicate'
+    check (match_type in ('exact', 'video_frame', 'near_duplicate')),
+  media_type text not null default 'image'
+    check (media_type in ('image', 'video')),
+  -- Position of the frame within the source; 0 for still images
+  frame_index integer not null default 0,
+  -- Seconds into the source video; null for still images
+  frame_timestamp real,
+  published_at timestamptz,
+  phash bigint not null,
+  dhash bigint,
+  ahash bigint,
+  color_histogram real[],
+  phash_seg0 integer generated always as (((phash >> 48) & 65535)::integer) stored,
+  phash_seg1 integer generated always as (((phash >> 32) & 65535)::integer) stored,
+  phash_seg2 integer generated always as (((phash >> 16) & 65535)::integer) stored,
+  phash_seg3 integer generated always as ((phash & 65535)::integer) stored,
+  created_at timestamptz not null default now()
+);
+
+-- One row per (source, frame); re-ingesting a corpus is idempotent
+alter table public.provenance_index
+  add constraint provenance_index_source_frame_key unique (corpus, source_id, frame_index);
+
+create index if not exists provenance_index_seg0_idx on public.provenance_index (phash_seg0);
+create index if not exists provenance_index_seg1_idx on public.provenance_index (phash_seg1);
+create index if not exists provenance_index_seg2_idx on public.provenance_index (phash_seg2);
+create index if not exists provenance_index_seg3_idx on public.provenance_index (phash_seg3);
+
+alter table public.provenance_index enable row level security;
+
+-- The reference index is public; writes go through the service role only
+create policy "Provenance index is readable by everyone"
+  on public.provenance_index for select
+  using (true);
+
+-- ============================================================
+-- search_provenance_index
+-- Nearest reference entries for one or more query pHashes (e.g. the
+-- sampled frames of a video). Returns the best frame per source.
+-- Open to anon, so the number of query hashes is capped: the browser
+-- sends the primary pHash plus at most 16 keyframes
+-- (src/lib/provenanceAnalyzer.ts).
+-- ============================================================
+create or replace function public.search_provenance_index(
+  query_hashes bigint[],
+  max_distance integer default 16,
+  match_limit integer default 10
+)
+returns table (
+  id uuid,
+  corpus text,
+  source_id text,
+  source_label text,
+  match_type text,
+  media_type text,
+  frame_timestamp real,
+  published_at timestamptz,
+  distance integer
+)
+language plpgsql
+stable
+set search_path = public
+as $$
+#variable_conflict use_column
+begin
+  if coalesce(array_length(query_hashes, 1), 0) > 17 then
+    raise exception 'search_provenance_index accepts at most 17 query hashes, got %', array_length(query_hashes, 1)
+      using errcode = '22023';
+  end if;
+
+  return query
+  with queries as (
+    select
+      q,
+      ((q >> 48) & 65535)::integer as s0,
+      ((q >> 32) & 65535)::integer as s1,
+      ((q >> 16) & 65535)::integer as s2,
+      (q & 65535)::integer as s3
+    from unnest(query_hashes) as q
+  ),
+  -- Every 16-bit flip mask within the per-segment radius
+  masks as (
+    select m
+    from generate_series(0, 65535) as m
+    where bit_count(m::bit(16)) <= greatest(0, least(max_distance, 64)) / 4
+  ),
+  candidates as (
+    select p.id, q.q
+    from queries q
+    join masks on true
+    join public.provenance_index p on p.phash_seg0 = (q.s0 # masks.m)
+    union
+    select p.id, q.q
+    from queries q
+    join masks on true
+    join public.provenance_index p on p.phash_seg1 = (q.s1 # masks.m)
+    union
+    select p.id, q.q
+    from queries q
+    join masks on true
+    join public.provenance_index p on p.phash_seg2 = (q.s2 # masks.m)
+    union
+    select p.id, q.q
+    from queries q
+    join masks on true
+    join public.provenance_index p on p.phash_seg3 = (q.s3 # masks.m)
+  ),
+  scored as (
+    select
+      p.*,
+      bit_count((p.phash # c.q)::bit(64))::integer as dist
+    from candidates c
+    join public.provenance_index p on p.id = c.id
+  ),
+  best_per_source as (
+    select distinct on (s.corpus, s.source_id) s.*
+    from scored s
+    where s.dist <= max_distance
+    order by s.corpus, s.source_id, s.dist
+  )
+  select
+    b.id, b.corpus, b.source_id, b.source_label, b.match_type, b.media_type,
+    b.frame_timestamp, b.published_at, b.dist as distance
+  from best_per_source b
+  order by b.dist, b.published_at nulls last
+  limit greatest(1, least(match_limit, 100));
+end;
+$$;
+
+grant execute on function public.search_provenance_index(bigint[], integer, integer) to anon, authenticated;
@@ -0,0 +1,33 @@
+-- ============================================================
+-- CAMERA FINGERPRINTS
+-- Reference PRNU (sensor noise) fingerprints, one per camera, estimated
+-- in the browser from images known to come from that device. The
+-- fingerprint covers the centre crop_size × crop_size pixels of a
+-- full-resolution image and is stored as base64 little-endian float32.
+-- Lookups are by resolution: PRNU only correlates at the native size.
+-- ============================================================
+
+create table if not exists public.camera_fingerprints (
+  id uuid primary key default gen_random_uuid(),
+  camera_id text not null unique,
+  label text not null,
+  make text,
+  model text,
+  image_width integer not null check (image_width > 0),
+  image_height integer not null check (image_height > 0),
+  crop_size integer not null check (crop_size > 0 and crop_size <= least(image_width, image_height)),
+  image_count integer not null check (image_count > 0),
+  fingerprint text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists camera_fingerprints_resolution_idx
+  on public.camera_fingerprints (image_width, image_height);
+
+alter table public.camera_fingerprints enable row level security;
+
+-- References are public; writes go through the service role only
+create policy "Camera fingerprints are readable by everyone"
+  on public.camera_fingerprints for select
+  using (true);
@@ -0,0 +1,21 @@
+-- ============================================================
+-- ANALYSIS UPLOADS
+-- Private bucket for originals sent to analyze-media. The browser
+-- uploads each file in 6 MB chunks over the resumable (tus) endpoint,
+-- named <sha256>/<random id>.<ext>. The edge function re-hashes the
+-- stored bytes before use, since anyone can write here, hands the model
+-- a signed URL, and deletes the object once no open job reads it.
+-- ============================================================
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('analysis-uploads', 'analysis-uploads', false, 104857600, array['image/*', 'video/*', 'audio/*'])
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Uploads are write-only to clients: no select, so one visitor cannot
+-- read another's media. Downloads and deletes go through the service role.
+create policy "Anyone can upload analysis media"
+  on storage.objects for insert
+  with check (bucket_id = 'analysis-uploads');
@@ -0,0 +1,118 @@
+-- ============================================================
+-- ANALYSIS JOBS
+-- One row per analysis. The browser creates the row when it starts
+-- hashing the file and reports preprocessing; analyze-media claims it
+-- on submission, answers with the id at once and runs model inference
+-- and derivation in the background; the browser polls analysis-jobs,
+-- merges its measured fields, generates evidence and stores the final
+-- result, which completes the job. Completed and failed rows are never
+-- written again. Robustness variants get rows that analyze-media
+-- creates and completes itself.
+--
+-- Results are stored without their data URLs (overlays, spectrograms,
+-- contact sheets) and every row expires after a day.
+-- ============================================================
+
+create table if not exists public.analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed')),
+  stage text not null default 'hashing'
+    check (stage in ('hashing', 'preprocessing', 'model_inference', 'derivation', 'evidence_generation')),
+  media_type text not null check (media_type in ('image', 'video', 'audio')),
+  -- Uploaded original in analysis-uploads; deleted once no open job reads it
+  media_path text,
+  result jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  -- Bumped on every write and by the worker's heartbeat
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz,
+  expires_at timestamptz not null default now() + interval '24 hours'
+);
+
+create index if not exists analysis_jobs_created_at_idx
+  on public.analysis_jobs (created_at);
+
+create index if not exists analysis_jobs_media_path_idx
+  on public.analysis_jobs (media_path)
+  where media_path is not null;
+
+create index if not exists analysis_jobs_open_idx
+  on public.analysis_jobs (updated_at)
+  where status in ('queued', 'running');
+
+create index if not exists analysis_jobs_expires_at_idx
+  on public.analysis_jobs (expires_at);
+
+alter table public.analysis_jobs enable row level security;
+
+-- No client policies: results can hold someone's media, so rows are read
+-- and written only through the edge functions, with the unguessable job
+-- id acting as the capability.
+
+-- ============================================================
+-- STALE JOB SWEEP
+-- A worker killed mid-analysis cannot mark its job failed, and a closed
+-- tab never finishes its stages. analysis-jobs runs this on each call:
+--   * server stages silent for 90 s (the worker heartbeats every 15 s)
+--     are failed, and the uploads only they read are returned so the
+--     caller can delete them;
+--   * browser stages silent for 30 minutes are failed, except that a
+--     job waiting on evidence generation completes with the server's
+--     result;
+--   * expired rows are deleted.
+-- ============================================================
+
+create or replace function public.sweep_analysis_jobs()
+returns setof text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with failed as (
+    update analysis_jobs
+       set status = 'failed',
+           error = 'The analysis worker stopped responding',
+           completed_at = now(),
+           updated_at = now()
+     where status in ('queued', 'running')
+       and stage in ('model_inference', 'derivation')
+       and updated_at < now() - interval '90 seconds'
+    returning media_path
+  )
+  select distinct f.media_path
+    from failed f
+   where f.media_path is not null
+     and not exists (
+       select 1 from analysis_jobs j
+        where j.media_path = f.media_path
+          and j.status in ('queued', 'running')
+          and j.stage in ('model_inference', 'derivation')
+          and j.updated_at >= now() - interval '90 seconds'
+     );
+
+  update analysis_jobs
+     set status = 'failed',
+         error = 'The browser stopped before submitting the media',
+         completed_at = now(),
+         updated_at = now()
+   where status in ('queued', 'running')
+     and stage in ('hashing', 'preprocessing')
+     and updated_at < now() - interval '30 minutes';
+
+  update analysis_jobs
+     set status = 'completed',
+         completed_at = now(),
+         updated_at = now()
+   where status = 'running'
+     and stage = 'evidence_generation'
+     and updated_at < now() - interval '30 minutes';
+
+  delete from analysis_jobs where expires_at < now();
+end;
+$$;
+
+revoke execute on function public.sweep_analysis_jobs() from public, anon, authenticated;
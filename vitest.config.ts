@@ -11,6 +11,10 @@ export default defineConfig({
     include: ["src/**/*.{test,spec}.{ts,tsx}"],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // Edge function modules import zod by URL for Deno
+      "https://deno.land/x/zod@v3.23.8/mod.ts": "zod",
+    },
   },
 });